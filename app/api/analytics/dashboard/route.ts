@@ -30,6 +30,7 @@ export async function GET(request: NextRequest) {
         liabilities: metrics.totalLiabilities.toNumber(),
         equity: metrics.totalEquity.toNumber(),
         cash: metrics.cashOnHand.toNumber(),
+        cashPositions: metrics.cashPositions,
         accountsReceivable: metrics.accountsReceivable.toNumber(),
         accountsPayable: metrics.accountsPayable.toNumber(),
         outstandingInvoices: metrics.outstandingInvoices,
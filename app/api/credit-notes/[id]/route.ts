@@ -3,6 +3,7 @@ import prisma from '@/lib/prisma';
 import { updateCreditNoteSchema } from '@/lib/validations';
 import { verifyAuth } from '@/lib/auth';
 import { createAuditLog } from '@/lib/audit';
+import { queueFiscalDocument, submitQueuedFiscalDocument } from '@/lib/etims';
 import { z } from 'zod';
 
 // GET /api/credit-notes/[id] - Get credit note details
@@ -118,26 +119,34 @@ export async function PATCH(
         );
       }
 
-      updated = await prisma.creditNote.update({
-        where: { id: params.id },
-        data: {
-          status: 'APPROVED',
-          approvedBy: user.userId,
-          approvedDate: new Date(),
-        },
-        include: {
-          customer: true,
-          invoice: true,
-          items: true,
-          createdByUser: {
-            select: { id: true, firstName: true, lastName: true, email: true },
+      updated = await prisma.$transaction(async (tx) => {
+        const approved = await tx.creditNote.update({
+          where: { id: params.id },
+          data: {
+            status: 'APPROVED',
+            approvedBy: user.userId,
+            approvedDate: new Date(),
           },
-          approvedByUser: {
-            select: { id: true, firstName: true, lastName: true, email: true },
+          include: {
+            customer: true,
+            invoice: true,
+            items: true,
+            createdByUser: {
+              select: { id: true, firstName: true, lastName: true, email: true },
+            },
+            approvedByUser: {
+              select: { id: true, firstName: true, lastName: true, email: true },
+            },
           },
-        },
+        });
+
+        await queueFiscalDocument(tx, 'CREDIT_NOTE', approved.id, approved.creditNoteNumber);
+
+        return approved;
       });
 
+      void submitQueuedFiscalDocument({ creditNoteId: params.id });
+
       auditMessage = `Approved credit note ${creditNote.creditNoteNumber}`;
     } else if (action === 'APPLY') {
       // Can only apply APPROVED credit notes
@@ -4,6 +4,7 @@ import prisma from '@/lib/prisma';
 import { verifyAuth } from '@/lib/auth';
 import { createCreditNoteSchema } from '@/lib/validations';
 import { createAuditLog } from '@/lib/audit';
+import { allocateDocumentNumber } from '@/lib/document-sequences';
 import { z } from 'zod';
 
 // GET /api/credit-notes - List credit notes with filters
@@ -136,10 +137,7 @@ export async function POST(request: NextRequest) {
 
     // Create credit note with items in a transaction
     const creditNote = await prisma.$transaction(async (tx) => {
-      // Generate unique credit note number
-      const timestamp = Date.now();
-      const random = Math.random().toString(36).substring(2, 6).toUpperCase();
-      const creditNoteNumber = `CN-${timestamp}-${random}`;
+      const creditNoteNumber = await allocateDocumentNumber(tx, 'CREDIT_NOTE');
 
       // Create credit note
       const created = await tx.creditNote.create({
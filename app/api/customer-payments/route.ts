@@ -3,6 +3,7 @@ import prisma from '@/lib/prisma';
 import { requirePermission } from '@/lib/authorization';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { getExchangeRate, toBaseAmount } from '@/lib/exchange-rates';
 import Decimal from 'decimal.js';
 import type { TransactionClient } from '@/lib/types';
 
@@ -58,13 +59,17 @@ export async function POST(request: NextRequest) {
         return { error: 'OVERPAYMENT' } as const;
       }
 
-      // Create payment record
+      // Create payment record, in the invoice's currency at the rate on the payment date
+      const receivedOn = new Date(paymentDate || new Date());
+      const exchangeRate = await getExchangeRate(invoice.currency, receivedOn, tx);
       const payment = await tx.payment.create({
         data: {
           invoiceId,
           customerId: invoice.customerId,
           amount: paymentAmount.toNumber(),
-          paymentDate: new Date(paymentDate || new Date()),
+          currency: invoice.currency,
+          exchangeRate,
+          paymentDate: receivedOn,
           paymentMethod: paymentMethod || 'BANK_TRANSFER',
           reference: reference || invoiceId,
           status: 'CONFIRMED',
@@ -92,7 +97,7 @@ export async function POST(request: NextRequest) {
 
       // Update customer balance
       if (invoice.customer) {
-        const newCustomerTotalPaid = new Decimal(invoice.customer.totalPaid).plus(paymentAmount);
+        const newCustomerTotalPaid = new Decimal(invoice.customer.totalPaid).plus(toBaseAmount(paymentAmount, exchangeRate));
         const newCurrentBalance = new Decimal(invoice.customer.totalOutstanding)
           .minus(newCustomerTotalPaid);
 
@@ -164,6 +169,21 @@ export async function POST(request: NextRequest) {
     );
   } catch (error) {
     console.error('Record customer payment error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'PAYMENT_ERROR'),
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
       { status: 500 }
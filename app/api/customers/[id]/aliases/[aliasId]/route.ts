@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+/**
+ * DELETE /api/customers/[id]/aliases/[aliasId]
+ * Remove a customer alias
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; aliasId: string } }
+) {
+  try {
+    await requirePermission(request, 'customer.update');
+
+    const alias = await prisma.customerAlias.findFirst({
+      where: {
+        id: params.aliasId,
+        customerId: params.id,
+      },
+    });
+
+    if (!alias) {
+      return NextResponse.json(
+        createErrorResponse('Alias not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    await prisma.customerAlias.delete({
+      where: { id: params.aliasId },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(null, 'Alias removed'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Delete customer alias error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
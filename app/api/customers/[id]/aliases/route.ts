@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { customerAliasSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+/**
+ * GET /api/customers/[id]/aliases
+ * List the alternative names a customer pays under
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requirePermission(request, 'customer.view');
+
+    const aliases = await prisma.customerAlias.findMany({
+      where: { customerId: params.id },
+      orderBy: { alias: 'asc' },
+    });
+
+    return NextResponse.json(createSuccessResponse({ aliases }), { status: 200 });
+  } catch (error) {
+    console.error('Get customer aliases error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/customers/[id]/aliases
+ * Add an alias used when matching bank references to this customer
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'customer.update');
+    const body = await request.json();
+
+    const parsed = customerAliasSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!customer) {
+      return NextResponse.json(
+        createErrorResponse('Customer not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const existing = await prisma.customerAlias.findUnique({
+      where: { customerId_alias: { customerId: params.id, alias: parsed.data.alias } },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        createErrorResponse('Alias already exists for this customer', 'DUPLICATE_ALIAS'),
+        { status: 400 }
+      );
+    }
+
+    const alias = await prisma.customerAlias.create({
+      data: {
+        customerId: params.id,
+        alias: parsed.data.alias,
+        createdBy: user.userId,
+      },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(alias, 'Alias added'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create customer alias error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Decimal from 'decimal.js';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { getCustomerExposure, getDefaultCreditLimitAction } from '@/lib/credit-control';
+import { customerCreditSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+const CREDIT_SELECT = {
+  id: true,
+  name: true,
+  creditLimit: true,
+  creditLimitAction: true,
+  creditHold: true,
+  creditHoldReason: true,
+  creditHoldAt: true,
+} as const;
+
+/**
+ * GET /api/customers/[id]/credit
+ * Credit limit, current exposure and hold status for a customer
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requirePermission(request, 'customer.view');
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: params.id },
+      select: CREDIT_SELECT,
+    });
+
+    if (!customer) {
+      return NextResponse.json(
+        createErrorResponse('Customer not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const exposure = await getCustomerExposure(customer.id);
+
+    return NextResponse.json(
+      createSuccessResponse({
+        ...customer,
+        defaultCreditLimitAction: getDefaultCreditLimitAction(),
+        exposure,
+        available:
+          customer.creditLimit === null
+            ? null
+            : new Decimal(customer.creditLimit).minus(exposure.total).toDecimalPlaces(2).toNumber(),
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get customer credit error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/customers/[id]/credit
+ * Set a customer's credit limit and over-limit action, or place or lift a credit hold
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'credit.manage');
+    const body = await request.json();
+
+    const parsed = customerCreditSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: params.id },
+      select: CREDIT_SELECT,
+    });
+
+    if (!customer) {
+      return NextResponse.json(
+        createErrorResponse('Customer not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const { creditHold, creditHoldReason, ...limits } = parsed.data;
+    const holdChanged = creditHold !== undefined && creditHold !== customer.creditHold;
+
+    const updated = await prisma.customer.update({
+      where: { id: customer.id },
+      data: {
+        ...limits,
+        ...(creditHold !== undefined && {
+          creditHold,
+          creditHoldReason: creditHold ? creditHoldReason : null,
+        }),
+        ...(holdChanged && { creditHoldAt: creditHold ? new Date() : null }),
+      },
+      select: CREDIT_SELECT,
+    });
+
+    const changes: string[] = [];
+    if (limits.creditLimit !== undefined && limits.creditLimit !== customer.creditLimit) {
+      changes.push(limits.creditLimit === null ? 'credit limit removed' : `credit limit set to ${limits.creditLimit}`);
+    }
+    if (limits.creditLimitAction !== undefined && limits.creditLimitAction !== customer.creditLimitAction) {
+      changes.push(`over-limit action set to ${limits.creditLimitAction ?? 'the default'}`);
+    }
+    if (holdChanged) {
+      changes.push(creditHold ? `placed on credit hold: ${creditHoldReason}` : 'credit hold lifted');
+    }
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_CUSTOMER_CREDIT',
+      entityType: 'Customer',
+      entityId: customer.id,
+      description: `Credit for ${customer.name} updated${changes.length ? `: ${changes.join(', ')}` : ''}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: {
+        before: {
+          creditLimit: customer.creditLimit,
+          creditLimitAction: customer.creditLimitAction,
+          creditHold: customer.creditHold,
+        },
+        after: {
+          creditLimit: updated.creditLimit,
+          creditLimitAction: updated.creditLimitAction,
+          creditHold: updated.creditHold,
+          creditHoldReason: updated.creditHoldReason,
+        },
+      },
+    });
+
+    return NextResponse.json(createSuccessResponse(updated, 'Customer credit updated'), { status: 200 });
+  } catch (error) {
+    console.error('Update customer credit error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
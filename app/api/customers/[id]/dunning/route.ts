@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { customerDunningSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+/**
+ * PATCH /api/customers/[id]/dunning
+ * Pause or resume dunning for a customer, or assign a specific policy
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'dunning.configure');
+    const body = await request.json();
+
+    const parsed = customerDunningSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: params.id },
+      select: { id: true, name: true },
+    });
+
+    if (!customer) {
+      return NextResponse.json(
+        createErrorResponse('Customer not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const { paused, reason, policyId } = parsed.data;
+
+    if (policyId) {
+      const policy = await prisma.dunningPolicy.findUnique({ where: { id: policyId }, select: { id: true } });
+      if (!policy) {
+        return NextResponse.json(
+          createErrorResponse('Dunning policy not found', 'NOT_FOUND'),
+          { status: 404 }
+        );
+      }
+    }
+
+    const updated = await prisma.customer.update({
+      where: { id: params.id },
+      data: {
+        ...(paused !== undefined && {
+          dunningPaused: paused,
+          dunningPausedReason: paused ? reason || null : null,
+        }),
+        ...(policyId !== undefined && { dunningPolicyId: policyId }),
+      },
+      select: {
+        id: true,
+        name: true,
+        dunningPaused: true,
+        dunningPausedReason: true,
+        dunningPolicyId: true,
+      },
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_CUSTOMER_DUNNING',
+      entityType: 'Customer',
+      entityId: customer.id,
+      description:
+        paused === undefined
+          ? `Dunning policy changed for ${customer.name}`
+          : `Dunning ${paused ? 'paused' : 'resumed'} for ${customer.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: parsed.data,
+    });
+
+    return NextResponse.json(createSuccessResponse(updated), { status: 200 });
+  } catch (error) {
+    console.error('Update customer dunning error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
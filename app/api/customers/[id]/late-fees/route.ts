@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { customerLateFeeSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+/**
+ * PATCH /api/customers/[id]/late-fees
+ * Assign a late fee policy to a customer, or null to use the default
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'late_fee.configure');
+    const body = await request.json();
+
+    const parsed = customerLateFeeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: params.id },
+      select: { id: true, name: true },
+    });
+
+    if (!customer) {
+      return NextResponse.json(
+        createErrorResponse('Customer not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const { policyId } = parsed.data;
+    const policy = policyId
+      ? await prisma.lateFeePolicy.findUnique({ where: { id: policyId }, select: { id: true, name: true } })
+      : null;
+
+    if (policyId && !policy) {
+      return NextResponse.json(
+        createErrorResponse('Late fee policy not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const updated = await prisma.customer.update({
+      where: { id: params.id },
+      data: { lateFeePolicyId: policyId },
+      select: { id: true, name: true, lateFeePolicyId: true },
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_CUSTOMER_LATE_FEE_POLICY',
+      entityType: 'Customer',
+      entityId: customer.id,
+      description: `Late fee policy for ${customer.name} set to ${policy?.name ?? 'the default policy'}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { policyId },
+    });
+
+    return NextResponse.json(createSuccessResponse(updated), { status: 200 });
+  } catch (error) {
+    console.error('Update customer late fee policy error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { revokePortalLink } from '@/lib/customer-portal';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+/**
+ * DELETE /api/customers/[id]/portal-links/[linkId]
+ * Revoke a portal link before it expires
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; linkId: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'customer.portal');
+
+    const link = await revokePortalLink(params.id, params.linkId, user.userId);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'REVOKE_PORTAL_LINK',
+      entityType: 'Customer',
+      entityId: params.id,
+      description: 'Portal link revoked',
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { portalLinkId: link.id },
+    });
+
+    return NextResponse.json(createSuccessResponse(link, 'Portal link revoked'), { status: 200 });
+  } catch (error) {
+    console.error('Revoke portal link error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'PORTAL_LINK_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
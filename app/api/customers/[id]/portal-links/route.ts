@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { createPortalLink } from '@/lib/customer-portal';
+import { createPortalLinkSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/customers/[id]/portal-links
+ * Portal links issued to a customer, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requirePermission(request, 'customer.portal');
+
+    const links = await prisma.customerPortalLink.findMany({
+      where: { customerId: params.id },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    return NextResponse.json(createSuccessResponse({ links }), { status: 200 });
+  } catch (error) {
+    console.error('Get portal links error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/customers/[id]/portal-links
+ * Issue a portal link and send it to the customer by SMS or email, or return it to copy
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'customer.portal');
+    const body = await request.json().catch(() => ({}));
+
+    const parsed = createPortalLinkSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const { link, url } = await createPortalLink(params.id, user.userId, parsed.data);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'CREATE_PORTAL_LINK',
+      entityType: 'Customer',
+      entityId: params.id,
+      description: link.sentVia
+        ? `Portal link sent by ${link.sentVia.toLowerCase()} to ${link.sentTo}`
+        : 'Portal link issued',
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { portalLinkId: link.id, expiresAt: link.expiresAt },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse({ link, url }, link.sentVia ? 'Portal link sent' : 'Portal link created'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create portal link error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'PORTAL_LINK_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -38,6 +38,7 @@ export async function GET(
         issueDate: true,
         dueDate: true,
         paidAmount: true,
+        currency: true,
       },
     });
 
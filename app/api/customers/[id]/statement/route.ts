@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import {
+  generateStatementExcel,
+  generateStatementPDFBuffer,
+  getCustomerStatement,
+  getStatementFilename,
+} from '@/lib/customer-statements';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/customers/[id]/statement?from=&to=&currency=&format=json|pdf|xlsx
+ * Statement of account with opening balance, running balance and ageing,
+ * in one currency (defaults to the base currency)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requirePermission(request, 'customer.view');
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'json';
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : undefined;
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : undefined;
+    const currency = searchParams.get('currency')?.toUpperCase() || undefined;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json(
+        createErrorResponse('Invalid statement date', 'VALIDATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    if (currency && !/^[A-Z]{3}$/.test(currency)) {
+      return NextResponse.json(
+        createErrorResponse('Invalid currency', 'VALIDATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    const statement = await getCustomerStatement(params.id, from, to, currency);
+
+    if (!statement) {
+      return NextResponse.json(
+        createErrorResponse('Customer not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    if (format === 'pdf' || format === 'xlsx') {
+      const buffer =
+        format === 'pdf' ? generateStatementPDFBuffer(statement) : await generateStatementExcel(statement);
+
+      return new NextResponse(new Uint8Array(buffer), {
+        status: 200,
+        headers: {
+          'Content-Type':
+            format === 'pdf'
+              ? 'application/pdf'
+              : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${getStatementFilename(statement)}.${format}"`,
+          'Content-Length': buffer.length.toString(),
+        },
+      });
+    }
+
+    return NextResponse.json(createSuccessResponse(statement), { status: 200 });
+  } catch (error) {
+    console.error('Customer statement error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'STATEMENT_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { allocateCustomerCredit, getUnappliedCredit } from '@/lib/customer-credit';
+import { applyCustomerCreditSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse, formatCurrency } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/customers/[id]/unapplied-credit
+ * A customer's unapplied credit, the payments it is held on and where
+ * earlier credit was applied
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requirePermission(request, 'customer.view');
+
+    const [credit, allocations] = await Promise.all([
+      getUnappliedCredit(params.id),
+      prisma.customerCreditAllocation.findMany({
+        where: { payment: { customerId: params.id } },
+        orderBy: { allocatedAt: 'desc' },
+        take: 20,
+        include: {
+          payment: { select: { paymentNumber: true, reference: true } },
+          invoice: { select: { invoiceNumber: true } },
+        },
+      }),
+    ]);
+
+    return NextResponse.json(createSuccessResponse({ ...credit, allocations }), { status: 200 });
+  } catch (error) {
+    console.error('Get unapplied credit error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/customers/[id]/unapplied-credit
+ * Apply a customer's unapplied credit to one of their open invoices
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'invoice.collect');
+    const body = await request.json();
+
+    const parsed = applyCustomerCreditSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const applied = await allocateCustomerCredit(params.id, parsed.data, user.userId);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'APPLY_CUSTOMER_CREDIT',
+      entityType: 'Invoice',
+      entityId: applied.invoice.id,
+      description: `Applied ${formatCurrency(applied.amount)} of customer credit to ${applied.invoice.invoiceNumber}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { customerId: params.id, allocations: applied.allocations },
+    });
+
+    return NextResponse.json(createSuccessResponse(applied, 'Customer credit applied'), { status: 201 });
+  } catch (error) {
+    console.error('Apply customer credit error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'CUSTOMER_CREDIT_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
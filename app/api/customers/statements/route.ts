@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { monthEndStatementsSchema } from '@/lib/validations';
+import { runMonthEndStatements } from '@/lib/customer-statements';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+/**
+ * POST /api/customers/statements
+ * Month-end statements for every customer with a balance. Without `send`
+ * this only lists who would receive one; with it the statements are emailed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'statement.send');
+    const body = await request.json().catch(() => ({}));
+
+    const parsed = monthEndStatementsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const { month, send } = parsed.data;
+    const result = await runMonthEndStatements({
+      month: month ? new Date(`${month}-01T00:00:00`) : undefined,
+      send,
+    });
+
+    if (send) {
+      await createAuditLog({
+        userId: user.userId,
+        action: 'SEND_CUSTOMER_STATEMENTS',
+        entityType: 'Customer',
+        description: `Month-end statements sent: ${result.sent} of ${result.customers} customers`,
+        ipAddress: getClientIp(request.headers),
+        userAgent: getUserAgent(request.headers),
+        metadata: { period: result.period, sent: result.sent, failed: result.failed },
+      });
+    }
+
+    return NextResponse.json(
+      createSuccessResponse(result, send ? 'Statements sent' : undefined),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Month-end statements error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { documentSequenceSchema } from '@/lib/validations';
+import {
+  DOCUMENT_TYPES,
+  getNumberPrefix,
+  getSequencePeriod,
+  getSequenceSettings,
+  normalizeBranch,
+  type DocumentType,
+} from '@/lib/document-sequences';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/document-sequences
+ * Numbering series for every document type, with the next number each
+ * series will issue today
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'settings.manage');
+
+    const [configured, counters] = await Promise.all([
+      prisma.documentSequence.findMany({ orderBy: [{ documentType: 'asc' }, { branch: 'asc' }] }),
+      prisma.documentSequenceCounter.findMany(),
+    ]);
+
+    const today = new Date();
+    const series = [];
+
+    for (const documentType of Object.keys(DOCUMENT_TYPES) as DocumentType[]) {
+      const branches = new Set([
+        '',
+        ...configured.filter((row) => row.documentType === documentType).map((row) => row.branch),
+        ...counters.filter((row) => row.documentType === documentType).map((row) => row.branch),
+      ]);
+
+      for (const branch of branches) {
+        const settings = await getSequenceSettings(prisma, documentType, branch);
+        const period = getSequencePeriod(settings.resetFrequency, today);
+        const counter = counters.find(
+          (row) => row.documentType === documentType && row.branch === branch && row.period === period
+        );
+        const lastValue = counter?.lastValue ?? 0;
+
+        series.push({
+          ...settings,
+          label: DOCUMENT_TYPES[documentType].label,
+          configured: configured.some((row) => row.documentType === documentType && row.branch === branch),
+          period,
+          lastValue,
+          nextNumber: counter
+            ? `${getNumberPrefix(settings.prefix, branch, period)}${(lastValue + 1)
+                .toString()
+                .padStart(settings.padding, '0')}`
+            : null,
+        });
+      }
+    }
+
+    return NextResponse.json(createSuccessResponse({ series }), { status: 200 });
+  } catch (error) {
+    console.error('Get document sequences error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/document-sequences
+ * Configure a document type's numbering, organisation-wide or for a branch.
+ * Changes apply to the next number issued; existing documents keep theirs.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'settings.manage');
+    const body = await request.json();
+
+    const parsed = documentSequenceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const { documentType, prefix, padding, resetFrequency } = parsed.data;
+    const branch = normalizeBranch(parsed.data.branch);
+
+    const sequence = await prisma.documentSequence.upsert({
+      where: { documentType_branch: { documentType, branch } },
+      create: { documentType, branch, prefix, padding, resetFrequency },
+      update: { prefix, padding, resetFrequency },
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_DOCUMENT_SEQUENCE',
+      entityType: 'DocumentSequence',
+      entityId: sequence.id,
+      description: `${DOCUMENT_TYPES[documentType].label} numbering set to ${prefix} (${resetFrequency.toLowerCase()})${branch ? ` for branch ${branch}` : ''}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { documentType, branch, prefix, padding, resetFrequency },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(sequence, 'Document numbering updated'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update document sequence error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dunning/contacts
+ * Dunning contact log, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const status = searchParams.get('status');
+    const customerId = searchParams.get('customerId');
+
+    const where = {
+      ...(status ? { status } : {}),
+      ...(customerId ? { customerId } : {}),
+    };
+
+    const [contacts, total] = await Promise.all([
+      prisma.dunningContact.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          invoice: { select: { id: true, invoiceNumber: true, balanceAmount: true, status: true, currency: true } },
+          customer: { select: { id: true, name: true } },
+          stage: { select: { name: true } },
+        },
+      }),
+      prisma.dunningContact.count({ where }),
+    ]);
+
+    return NextResponse.json(
+      createSuccessResponse({
+        contacts,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get dunning contacts error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { updateDunningPolicySchema } from '@/lib/validations';
+import { updateDunningPolicy } from '@/lib/dunning';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * GET /api/dunning/policies/[id]
+ * Policy with its stages and the customers assigned to it
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const policy = await prisma.dunningPolicy.findUnique({
+      where: { id: params.id },
+      include: {
+        stages: { orderBy: { sequence: 'asc' } },
+        customers: { select: { id: true, name: true, customerCode: true, dunningPaused: true } },
+      },
+    });
+
+    if (!policy) {
+      return NextResponse.json(
+        createErrorResponse('Dunning policy not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(createSuccessResponse(policy), { status: 200 });
+  } catch (error) {
+    console.error('Get dunning policy error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/dunning/policies/[id]
+ * Update a policy, replace its stages, make it the default or deactivate it
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'dunning.configure');
+    const body = await request.json();
+
+    const parsed = updateDunningPolicySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const policy = await updateDunningPolicy(params.id, parsed.data);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_DUNNING_POLICY',
+      entityType: 'DunningPolicy',
+      entityId: policy.id,
+      description: `Dunning policy updated: ${policy.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { changes: Object.keys(parsed.data), isActive: policy.isActive, isDefault: policy.isDefault },
+    });
+
+    return NextResponse.json(createSuccessResponse(policy), { status: 200 });
+  } catch (error) {
+    console.error('Update dunning policy error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'DUNNING_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { createDunningPolicySchema } from '@/lib/validations';
+import { createDunningPolicy, DEFAULT_DUNNING_STAGES } from '@/lib/dunning';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dunning/policies
+ * List dunning policies with their stages, plus suggested stages for a new policy
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const policies = await prisma.dunningPolicy.findMany({
+      include: {
+        stages: { orderBy: { sequence: 'asc' } },
+        _count: { select: { customers: true } },
+      },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json(
+      createSuccessResponse({ policies, suggestedStages: DEFAULT_DUNNING_STAGES }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get dunning policies error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/dunning/policies
+ * Create a dunning policy
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'dunning.configure');
+    const body = await request.json();
+
+    const parsed = createDunningPolicySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.dunningPolicy.findUnique({
+      where: { name: parsed.data.name },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        createErrorResponse('A dunning policy with this name already exists', 'DUPLICATE_NAME'),
+        { status: 400 }
+      );
+    }
+
+    const policy = await createDunningPolicy(parsed.data);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'CREATE_DUNNING_POLICY',
+      entityType: 'DunningPolicy',
+      entityId: policy.id,
+      description: `Dunning policy created: ${policy.name} (${policy.stages.length} stages)`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { isDefault: policy.isDefault, stages: policy.stages.map((stage) => stage.dayOffset) },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(policy, 'Dunning policy created'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create dunning policy error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { runDunning } from '@/lib/dunning';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+/**
+ * POST /api/dunning/run
+ * Run the dunning policies now. The scheduler does this daily; this
+ * endpoint is for manual runs and deployments driven by an external cron.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'dunning.run');
+
+    const results = await runDunning({ triggeredBy: user.userId });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'RUN_DUNNING',
+      entityType: 'DunningPolicy',
+      description: `Dunning run: ${results.contacted} contacted, ${results.failed} failed`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: results,
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(results, 'Dunning run completed'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Dunning run error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
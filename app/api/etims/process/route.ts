@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { isEtimsEnabled, processFiscalQueue } from '@/lib/etims';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+/**
+ * POST /api/etims/process
+ * Send every queued document that is due. The scheduler does this every
+ * few minutes; this endpoint is for manual runs and deployments driven by
+ * an external cron.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'etims.submit');
+
+    if (!isEtimsEnabled()) {
+      return NextResponse.json(
+        createErrorResponse('eTIMS is not enabled', 'ETIMS_DISABLED'),
+        { status: 400 }
+      );
+    }
+
+    const results = await processFiscalQueue();
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'PROCESS_FISCAL_QUEUE',
+      entityType: 'FiscalSubmission',
+      description: `eTIMS queue run: ${results.signed} signed, ${results.pending} pending, ${results.failed} failed`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: results,
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(results, 'eTIMS queue processed'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('eTIMS queue run error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
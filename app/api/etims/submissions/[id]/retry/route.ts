@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { retryFiscalSubmission } from '@/lib/etims';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * POST /api/etims/submissions/[id]/retry
+ * Send a document to eTIMS again now, including one that has used up its
+ * automatic retries
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'etims.submit');
+
+    const submission = await retryFiscalSubmission(params.id);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'RETRY_FISCAL_SUBMISSION',
+      entityType: submission.documentType === 'INVOICE' ? 'Invoice' : 'CreditNote',
+      entityId: submission.invoiceId ?? submission.creditNoteId ?? undefined,
+      description: `eTIMS resubmission of ${submission.documentNumber}: ${submission.status}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { submissionId: submission.id, error: submission.lastError },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(
+        { submission },
+        submission.status === 'SIGNED' ? `${submission.documentNumber} signed` : 'Submission failed'
+      ),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Retry eTIMS submission error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'ETIMS_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { isEtimsEnabled } from '@/lib/etims';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/etims/submissions
+ * eTIMS submissions, newest first, with counts by status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const status = searchParams.get('status');
+    const documentType = searchParams.get('documentType');
+
+    const where = {
+      ...(status ? { status } : {}),
+      ...(documentType ? { documentType } : {}),
+    };
+
+    const [submissions, total, byStatus] = await Promise.all([
+      prisma.fiscalSubmission.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { receiptNumber: 'desc' },
+        select: {
+          id: true,
+          documentType: true,
+          documentNumber: true,
+          receiptNumber: true,
+          status: true,
+          attempts: true,
+          nextAttemptAt: true,
+          lastAttemptAt: true,
+          lastError: true,
+          signedAt: true,
+          createdAt: true,
+          invoice: { select: { id: true, cuInvoiceNumber: true, customer: { select: { name: true } } } },
+          creditNote: { select: { id: true, cuInvoiceNumber: true, customer: { select: { name: true } } } },
+        },
+      }),
+      prisma.fiscalSubmission.count({ where }),
+      prisma.fiscalSubmission.groupBy({ by: ['status'], _count: { _all: true } }),
+    ]);
+
+    return NextResponse.json(
+      createSuccessResponse({
+        enabled: isEtimsEnabled(),
+        submissions,
+        summary: Object.fromEntries(byStatus.map((row) => [row.status, row._count._all])),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get eTIMS submissions error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -4,24 +4,9 @@ import { requirePermission } from '@/lib/authorization';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createExpenseSchema } from '@/lib/validations';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { allocateDocumentNumber } from '@/lib/document-sequences';
 import type { TransactionClient } from '@/lib/types';
 
-const EXPENSE_PREFIX = 'EXP-';
-
-const getNextExpenseNumber = async (tx: TransactionClient) => {
-  const latest = await tx.expense.findFirst({
-    orderBy: { createdAt: 'desc' },
-    select: { expenseNumber: true },
-  });
-
-  const lastDigits = latest?.expenseNumber?.match(/(\d+)$/)?.[1];
-  const lastValue = lastDigits ? parseInt(lastDigits, 10) : 0;
-  const count = await tx.expense.count();
-  const nextValue = Math.max(lastValue, count) + 1;
-
-  return `${EXPENSE_PREFIX}${nextValue.toString().padStart(6, '0')}`;
-};
-
 /**
  * GET /api/expenses
  * List expenses
@@ -102,7 +87,7 @@ export async function POST(request: NextRequest) {
     } = parsed.data;
 
     const result = await prisma.$transaction(async (tx: TransactionClient) => {
-      const expenseNumber = await getNextExpenseNumber(tx);
+      const expenseNumber = await allocateDocumentNumber(tx, 'EXPENSE', { date: new Date(expenseDate) });
       const categoryRecord = categoryId
         ? await tx.expenseCategory.findUnique({ where: { id: categoryId } })
         : null;
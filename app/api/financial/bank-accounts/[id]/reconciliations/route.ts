@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { createBankReconciliationSchema } from '@/lib/validations';
+import { createBankReconciliation } from '@/lib/bank-reconciliation';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * GET /api/financial/bank-accounts/[id]/reconciliations
+ * Reconciliation history for a bank account, newest first
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const account = await prisma.bankAccount.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!account) {
+      return NextResponse.json(
+        createErrorResponse('Bank account not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const reconciliations = await prisma.bankReconciliation.findMany({
+      where: { bankAccountId: params.id },
+      select: {
+        id: true,
+        periodStart: true,
+        reconciliationDate: true,
+        endingBalance: true,
+        ledgerBalance: true,
+        difference: true,
+        reconciliationRatio: true,
+        status: true,
+        isLocked: true,
+        completedAt: true,
+      },
+      orderBy: { reconciliationDate: 'desc' },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse({ account, reconciliations }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get bank reconciliations error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/financial/bank-accounts/[id]/reconciliations
+ * Start a draft reconciliation from the statement closing balance
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.match');
+    const body = await request.json();
+    const parsed = createBankReconciliationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    // The statement date covers the whole day
+    const periodEnd = new Date(parsed.data.periodEnd);
+    periodEnd.setHours(23, 59, 59, 999);
+
+    const reconciliation = await createBankReconciliation({
+      bankAccountId: params.id,
+      periodEnd,
+      statementBalance: parsed.data.statementBalance,
+      notes: parsed.data.notes,
+      userId: user.userId,
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'CREATE_BANK_RECONCILIATION',
+      entityType: 'BankReconciliation',
+      entityId: reconciliation.id,
+      description: `Bank reconciliation started for ${periodEnd.toISOString().slice(0, 10)}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: {
+        bankAccountId: params.id,
+        statementBalance: reconciliation.endingBalance,
+        difference: reconciliation.difference,
+      },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(reconciliation, 'Reconciliation started'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create bank reconciliation error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'RECONCILIATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
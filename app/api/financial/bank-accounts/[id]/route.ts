@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { updateBankAccountSchema } from '@/lib/validations';
+import { ensureBankLedgerAccount, validateBankLedgerAccount } from '@/lib/bank-accounts';
+import type { TransactionClient } from '@/lib/types';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * PATCH /api/financial/bank-accounts/[id]
+ * Update a bank account, including its ledger cash account mapping
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.configure');
+    const body = await request.json();
+    const parsed = updateBankAccountSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.bankAccount.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        createErrorResponse('Bank account not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    if (
+      parsed.data.ledgerAccountCode &&
+      parsed.data.ledgerAccountCode !== existing.ledgerAccountCode
+    ) {
+      const ledgerError = await validateBankLedgerAccount(parsed.data.ledgerAccountCode, existing.id);
+
+      if (ledgerError) {
+        return NextResponse.json(
+          createErrorResponse(ledgerError, 'VALIDATION_ERROR'),
+          { status: 400 }
+        );
+      }
+    }
+
+    const account = await prisma.$transaction(async (tx: TransactionClient) => {
+      if (parsed.data.ledgerAccountCode) {
+        await ensureBankLedgerAccount(parsed.data.ledgerAccountCode, existing, tx);
+      }
+
+      return tx.bankAccount.update({
+        where: { id: params.id },
+        data: parsed.data,
+      });
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_BANK_ACCOUNT',
+      entityType: 'BankAccount',
+      entityId: account.id,
+      description: `Bank account updated: ${account.bankName} ${account.accountNumber}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: {
+        changes: parsed.data,
+        previousLedgerAccountCode: existing.ledgerAccountCode,
+      },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(account, 'Bank account updated'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update bank account error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { createBankAccountSchema } from '@/lib/validations';
+import { ensureBankLedgerAccount, validateBankLedgerAccount } from '@/lib/bank-accounts';
+import type { TransactionClient } from '@/lib/types';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/financial/bank-accounts
+ * List bank accounts with their latest reconciliation
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const accounts = await prisma.bankAccount.findMany({
+      where: { isActive: true },
+      include: {
+        reconciliations: {
+          orderBy: { reconciliationDate: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: [{ isPrimary: 'desc' }, { bankName: 'asc' }],
+    });
+
+    return NextResponse.json(createSuccessResponse({ accounts }), { status: 200 });
+  } catch (error) {
+    console.error('Get bank accounts error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/financial/bank-accounts
+ * Register a bank account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.configure');
+    const body = await request.json();
+    const parsed = createBankAccountSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.bankAccount.findFirst({
+      where: { accountNumber: parsed.data.accountNumber },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        createErrorResponse('A bank account with this number already exists', 'DUPLICATE'),
+        { status: 409 }
+      );
+    }
+
+    const ledgerError = await validateBankLedgerAccount(parsed.data.ledgerAccountCode);
+
+    if (ledgerError) {
+      return NextResponse.json(
+        createErrorResponse(ledgerError, 'VALIDATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    const account = await prisma.$transaction(async (tx: TransactionClient) => {
+      await ensureBankLedgerAccount(parsed.data.ledgerAccountCode, parsed.data, tx);
+
+      return tx.bankAccount.create({
+        data: {
+          ...parsed.data,
+          swiftCode: parsed.data.swiftCode || null,
+        },
+      });
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'CREATE_BANK_ACCOUNT',
+      entityType: 'BankAccount',
+      entityId: account.id,
+      description: `Bank account created: ${account.bankName} ${account.accountNumber}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { ledgerAccountCode: account.ledgerAccountCode },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(account, 'Bank account created'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create bank account error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
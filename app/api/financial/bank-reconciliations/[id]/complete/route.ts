@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { completeBankReconciliationSchema } from '@/lib/validations';
+import { completeBankReconciliation } from '@/lib/bank-reconciliation';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * POST /api/financial/bank-reconciliations/[id]/complete
+ * Sign off and lock a reconciliation
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.close');
+    const body = await request.json().catch(() => ({}));
+    const parsed = completeBankReconciliationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const reconciliation = await completeBankReconciliation(
+      params.id,
+      user.userId,
+      parsed.data.notes
+    );
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'COMPLETE_BANK_RECONCILIATION',
+      entityType: 'BankReconciliation',
+      entityId: reconciliation.id,
+      description: `Bank reconciliation completed as ${reconciliation.status}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: {
+        bankAccountId: reconciliation.bankAccountId,
+        reconciledBalance: reconciliation.reconciledBalance,
+        difference: reconciliation.difference,
+        signature: reconciliation.signature,
+      },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(reconciliation, 'Reconciliation completed and locked'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Complete bank reconciliation error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'RECONCILIATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
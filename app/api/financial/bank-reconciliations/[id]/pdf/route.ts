@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { getBankReconciliationReport } from '@/lib/bank-reconciliation';
+import { exportBankReconciliationToPDF } from '@/lib/export-service';
+import { createErrorResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * GET /api/financial/bank-reconciliations/[id]/pdf
+ * Download the reconciliation statement for auditors
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const result = await getBankReconciliationReport(params.id);
+
+    if (!result) {
+      return NextResponse.json(
+        createErrorResponse('Reconciliation not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const { reconciliation, report } = result;
+    const userIds = [reconciliation.createdBy, reconciliation.completedBy].filter(
+      (id): id is string => !!id
+    );
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, firstName: true, lastName: true },
+    });
+    const userName = (id: string | null) => {
+      const user = users.find((u) => u.id === id);
+      return user ? `${user.firstName} ${user.lastName}` : id;
+    };
+
+    const buffer = await exportBankReconciliationToPDF({
+      bankName: reconciliation.bankAccount.bankName,
+      accountNumber: reconciliation.bankAccount.accountNumber,
+      currency: reconciliation.bankAccount.currency,
+      ledgerAccountCode: report.ledgerAccountCode,
+      periodStart: reconciliation.periodStart,
+      periodEnd: reconciliation.reconciliationDate,
+      status: reconciliation.status,
+      statementBalance: report.statementBalance,
+      ledgerBalance: report.ledgerBalance,
+      adjustedStatementBalance: report.adjustedStatementBalance,
+      adjustedLedgerBalance: report.adjustedLedgerBalance,
+      difference: report.difference,
+      reconciliationRatio: report.reconciliationRatio,
+      unclearedDeposits: report.unclearedDeposits,
+      unpresentedPayments: report.unpresentedPayments,
+      unrecordedItems: report.unrecordedItems,
+      notes: reconciliation.notes,
+      preparedBy: userName(reconciliation.createdBy) || reconciliation.createdBy,
+      completedBy: userName(reconciliation.completedBy),
+      completedAt: reconciliation.completedAt,
+      signature: reconciliation.signature,
+    });
+
+    const fileName = `bank-reconciliation-${reconciliation.bankAccount.accountNumber}-${reconciliation.reconciliationDate
+      .toISOString()
+      .slice(0, 10)}.pdf`;
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': buffer.length.toString(),
+        ...(reconciliation.signature && { 'X-Document-Signature': reconciliation.signature }),
+      },
+    });
+  } catch (error) {
+    console.error('Bank reconciliation PDF error:', error);
+    return NextResponse.json(
+      createErrorResponse('Failed to generate reconciliation PDF', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
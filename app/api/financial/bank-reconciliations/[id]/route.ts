@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { updateBankReconciliationSchema } from '@/lib/validations';
+import {
+  getBankReconciliationReport,
+  refreshBankReconciliation,
+} from '@/lib/bank-reconciliation';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * GET /api/financial/bank-reconciliations/[id]
+ * Reconciliation with its outstanding items report
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const result = await getBankReconciliationReport(params.id);
+
+    if (!result) {
+      return NextResponse.json(
+        createErrorResponse('Reconciliation not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(createSuccessResponse(result), { status: 200 });
+  } catch (error) {
+    console.error('Get bank reconciliation error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/financial/bank-reconciliations/[id]
+ * Recompute a draft, optionally correcting the statement balance or notes
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requirePermission(request, 'reconciliation.match');
+    const body = await request.json();
+    const parsed = updateBankReconciliationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const result = await refreshBankReconciliation(params.id, parsed.data);
+
+    return NextResponse.json(
+      createSuccessResponse(result, 'Reconciliation refreshed'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Update bank reconciliation error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'RECONCILIATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { deleteExchangeRate } from '@/lib/exchange-rates';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * DELETE /api/financial/exchange-rates/[id]
+ * Remove a rate entered in error
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'exchange_rate.manage');
+
+    const rate = await deleteExchangeRate(params.id);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'DELETE_EXCHANGE_RATE',
+      entityType: 'ExchangeRate',
+      entityId: rate.id,
+      description: `${rate.currency} rate for ${format(rate.rateDate, 'dd MMM yyyy')} removed`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { currency: rate.currency, rateDate: rate.rateDate, rate: rate.rate },
+    });
+
+    return NextResponse.json(createSuccessResponse(rate, 'Exchange rate removed'), { status: 200 });
+  } catch (error) {
+    console.error('Delete exchange rate error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'EXCHANGE_RATE_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { exchangeRateSchema } from '@/lib/validations';
+import { getBaseCurrency, listExchangeRates, saveExchangeRate } from '@/lib/exchange-rates';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/financial/exchange-rates
+ * Rates on file, latest first, optionally for one `currency`
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const { searchParams } = new URL(request.url);
+    const rates = await listExchangeRates(searchParams.get('currency') || undefined);
+
+    return NextResponse.json(
+      createSuccessResponse({ baseCurrency: getBaseCurrency(), rates }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get exchange rates error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/financial/exchange-rates
+ * Record a currency's rate for a date, replacing any rate on file for that day
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'exchange_rate.manage');
+    const body = await request.json();
+
+    const parsed = exchangeRateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const rate = await saveExchangeRate(parsed.data, user.userId);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'SAVE_EXCHANGE_RATE',
+      entityType: 'ExchangeRate',
+      entityId: rate.id,
+      description: `${rate.currency} rate for ${format(rate.rateDate, 'dd MMM yyyy')} set to ${rate.rate}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { currency: rate.currency, rateDate: rate.rateDate, rate: rate.rate, source: rate.source },
+    });
+
+    return NextResponse.json(createSuccessResponse(rate, 'Exchange rate saved'), { status: 201 });
+  } catch (error) {
+    console.error('Save exchange rate error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'EXCHANGE_RATE_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { fxRevaluationSchema } from '@/lib/validations';
+import { listFxRevaluations, runFxRevaluation } from '@/lib/fx-revaluation';
+import { getBaseCurrency } from '@/lib/exchange-rates';
+import { createErrorResponse, createSuccessResponse, formatCurrency } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/financial/fx-revaluations
+ * Period-end revaluations, latest first, with the documents revalued
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'reports.view');
+
+    const revaluations = await listFxRevaluations();
+
+    return NextResponse.json(
+      createSuccessResponse({ baseCurrency: getBaseCurrency(), revaluations }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get FX revaluations error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/financial/fx-revaluations
+ * Revalue open foreign-currency invoices and supplier bills at a period end.
+ * Safe to repeat: a period end already revalued is returned as it was.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'fx.revalue');
+    const body = await request.json();
+
+    const parsed = fxRevaluationSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const { revaluation, alreadyRun } = await runFxRevaluation(new Date(parsed.data.periodEnd), user.userId);
+
+    if (alreadyRun) {
+      return NextResponse.json(
+        createSuccessResponse(revaluation, `${format(revaluation.periodEnd, 'dd MMM yyyy')} has already been revalued`),
+        { status: 200 }
+      );
+    }
+
+    const net = revaluation.receivablesAdjustment + revaluation.payablesAdjustment;
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'RUN_FX_REVALUATION',
+      entityType: 'FxRevaluation',
+      entityId: revaluation.id,
+      description: `FX revaluation at ${format(revaluation.periodEnd, 'dd MMM yyyy')}: ${revaluation.lines.length} documents, net ${formatCurrency(net, getBaseCurrency())}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: {
+        periodEnd: revaluation.periodEnd,
+        receivablesAdjustment: revaluation.receivablesAdjustment,
+        payablesAdjustment: revaluation.payablesAdjustment,
+        transactionId: revaluation.transactionId,
+      },
+    });
+
+    return NextResponse.json(createSuccessResponse(revaluation, 'FX revaluation posted'), { status: 201 });
+  } catch (error) {
+    console.error('FX revaluation error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'FX_REVALUATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
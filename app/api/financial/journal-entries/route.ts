@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { allocateDocumentNumber } from '@/lib/document-sequences';
+import type { TransactionClient } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
   try {
@@ -79,45 +81,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate entry number
-    const latestEntry = await prisma.journalEntry.findFirst({
-      orderBy: { entryNumber: 'desc' },
-      select: { entryNumber: true },
-    });
-
-    const lastNum = latestEntry ? parseInt(latestEntry.entryNumber.substring(2)) : 0;
-    const entryNumber = `JE${String(lastNum + 1).padStart(6, '0')}`;
+    // Number and create the entry together so a failed create releases the number
+    const entry = await prisma.$transaction(async (tx: TransactionClient) => {
+      const entryNumber = await allocateDocumentNumber(tx, 'JOURNAL_ENTRY', { date: new Date(entryDate) });
 
-    // Create journal entry with lines
-    const entry = await prisma.journalEntry.create({
-      data: {
-        entryNumber,
-        entryDate: new Date(entryDate),
-        description,
-        referenceType,
-        referenceId,
-        notes,
-        totalDebit,
-        totalCredit,
-        createdBy: payload.userId,
-        organizationId: 'default',
-        lines: {
-          create: lines.map((line: { accountId: string; description?: string; debitAmount?: number; creditAmount?: number }, index: number) => ({
-            accountId: line.accountId,
-            lineNumber: index + 1,
-            description: line.description,
-            debitAmount: line.debitAmount || 0,
-            creditAmount: line.creditAmount || 0,
-          })),
+      return tx.journalEntry.create({
+        data: {
+          entryNumber,
+          entryDate: new Date(entryDate),
+          description,
+          referenceType,
+          referenceId,
+          notes,
+          totalDebit,
+          totalCredit,
+          createdBy: payload.userId,
+          organizationId: 'default',
+          lines: {
+            create: lines.map((line: { accountId: string; description?: string; debitAmount?: number; creditAmount?: number }, index: number) => ({
+              accountId: line.accountId,
+              lineNumber: index + 1,
+              description: line.description,
+              debitAmount: line.debitAmount || 0,
+              creditAmount: line.creditAmount || 0,
+            })),
+          },
         },
-      },
-      include: {
-        lines: {
-          include: {
-            account: { select: { accountName: true, accountNumber: true } },
+        include: {
+          lines: {
+            include: {
+              account: { select: { accountName: true, accountNumber: true } },
+            },
           },
         },
-      },
+      });
     });
 
     return NextResponse.json(
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { requirePermission } from '@/lib/authorization';
+import { sanitizeHtml } from '@/lib/security';
+import { getFiscalQrDataUrl } from '@/lib/etims';
 import type { Payment } from '@prisma/client';
 
 /**
@@ -20,6 +22,9 @@ export async function GET(
       where: { id: invoiceId },
       include: {
         customer: true,
+        items: {
+          orderBy: { sortOrder: 'asc' },
+        },
         payments: {
           where: { status: 'CONFIRMED' },
           orderBy: { paymentDate: 'desc' },
@@ -43,6 +48,38 @@ export async function GET(
       );
     }
 
+    // Invoice lines take precedence; POS invoices fall back to their order items
+    const lineRows =
+      invoice.items.length > 0
+        ? invoice.items.map(
+            (item) => `
+                  <tr>
+                    <td>${sanitizeHtml(item.description)}</td>
+                    <td style="text-align: center;">${item.quantity}</td>
+                    <td style="text-align: right;">${item.unitPrice.toFixed(2)}</td>
+                    <td style="text-align: right;">${item.discount > 0 ? item.discount.toFixed(2) : '-'}</td>
+                    <td style="text-align: right;">${item.taxAmount.toFixed(2)} (${item.taxCode})</td>
+                    <td style="text-align: right;">${item.totalAmount.toFixed(2)}</td>
+                  </tr>
+                `
+          )
+        : invoice.posOrders
+            .flatMap((order) => order.orderItems)
+            .map(
+              (item) => `
+                  <tr>
+                    <td>${item.product?.name || item.product?.sku || 'Product'}</td>
+                    <td style="text-align: center;">${item.quantity}</td>
+                    <td style="text-align: right;">${item.unitPrice.toFixed(2)}</td>
+                    <td style="text-align: right;">-</td>
+                    <td style="text-align: right;">-</td>
+                    <td style="text-align: right;">${item.totalPrice.toFixed(2)}</td>
+                  </tr>
+                `
+            );
+
+    const fiscalQr = invoice.fiscalQrUrl ? await getFiscalQrDataUrl(invoice.fiscalQrUrl) : null;
+
     // Generate simple HTML table as PDF content
     const htmlContent = `
       <!DOCTYPE html>
@@ -120,6 +157,19 @@ export async function GET(
             font-size: 12px;
             margin-top: 30px;
           }
+          .fiscal {
+            display: flex;
+            align-items: center;
+            gap: 20px;
+            margin-top: 30px;
+            padding-top: 20px;
+            border-top: 1px solid #d1d5db;
+            font-size: 12px;
+          }
+          .fiscal img {
+            width: 120px;
+            height: 120px;
+          }
         </style>
       </head>
       <body>
@@ -155,33 +205,23 @@ export async function GET(
                 <th>Description</th>
                 <th style="text-align: center;">Quantity</th>
                 <th style="text-align: right;">Unit Price (KES)</th>
+                <th style="text-align: right;">Discount (KES)</th>
+                <th style="text-align: right;">Tax (KES)</th>
                 <th style="text-align: right;">Amount (KES)</th>
               </tr>
             </thead>
             <tbody>
               ${
-                invoice.posOrders && invoice.posOrders.length > 0
-                  ? invoice.posOrders
-                      .flatMap((order) => order.orderItems)
-                      .map(
-                        (item) => `
-                  <tr>
-                    <td>${item.product?.name || item.product?.sku || 'Product'}</td>
-                    <td style="text-align: center;">${item.quantity}</td>
-                    <td style="text-align: right;">${item.unitPrice.toFixed(2)}</td>
-                    <td style="text-align: right;">${item.totalPrice.toFixed(2)}</td>
-                  </tr>
-                `
-                      )
-                      .join('')
-                  : '<tr><td colspan="4" style="text-align: center; color: #999;">No items</td></tr>'
+                lineRows.length > 0
+                  ? lineRows.join('')
+                  : '<tr><td colspan="6" style="text-align: center; color: #999;">No items</td></tr>'
               }
               <tr style="border-top: 2px solid #1f2937; font-weight: bold;">
-                <td colspan="3" style="text-align: right;">Subtotal:</td>
+                <td colspan="5" style="text-align: right;">Subtotal:</td>
                 <td style="text-align: right;">${(invoice.subtotal || invoice.totalAmount).toFixed(2)}</td>
               </tr>
               <tr style="font-weight: bold;">
-                <td colspan="3" style="text-align: right;">Tax:</td>
+                <td colspan="5" style="text-align: right;">Tax:</td>
                 <td style="text-align: right;">${(invoice.taxAmount || 0).toFixed(2)}</td>
               </tr>
             </tbody>
@@ -239,6 +279,22 @@ export async function GET(
             : ''
         }
 
+        ${
+          invoice.cuInvoiceNumber
+            ? `
+          <div class="fiscal">
+            ${fiscalQr ? `<img src="${fiscalQr}" alt="KRA eTIMS QR code" />` : ''}
+            <div>
+              <div class="section-title">KRA eTIMS</div>
+              <p>CU Invoice No: ${invoice.cuInvoiceNumber}</p>
+              <p>Receipt Signature: ${invoice.fiscalSignature || '-'}</p>
+              <p>Signed: ${invoice.fiscalisedAt ? new Date(invoice.fiscalisedAt).toLocaleString('en-KE') : '-'}</p>
+            </div>
+          </div>
+            `
+            : ''
+        }
+
         <div class="stamp">
           <p>Generated on ${new Date().toLocaleDateString('en-KE', { year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</p>
         </div>
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/invoices/:id/dunning
+ * Where the invoice is in its dunning cycle and every contact made so far
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        dueDate: true,
+        balanceAmount: true,
+        status: true,
+        dunningLevel: true,
+        lastDunnedAt: true,
+        customer: {
+          select: {
+            id: true,
+            name: true,
+            dunningPaused: true,
+            dunningPausedReason: true,
+            dunningPolicyId: true,
+          },
+        },
+        dunningContacts: {
+          orderBy: { createdAt: 'desc' },
+          include: { stage: { select: { name: true } } },
+        },
+      },
+    });
+
+    if (!invoice) {
+      return NextResponse.json(
+        createErrorResponse('Invoice not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const policy = await prisma.dunningPolicy.findFirst({
+      where: invoice.customer.dunningPolicyId
+        ? { id: invoice.customer.dunningPolicyId }
+        : { isDefault: true, isActive: true },
+      include: { stages: { orderBy: { sequence: 'asc' } } },
+    });
+
+    const { dunningContacts, ...rest } = invoice;
+
+    return NextResponse.json(
+      createSuccessResponse({
+        invoice: rest,
+        policy,
+        nextStage: policy?.stages.find((stage) => stage.sequence > invoice.dunningLevel) ?? null,
+        contacts: dunningContacts,
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get invoice dunning error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { generateFinalNoticePDFBuffer, getFinalNoticeFilename } from '@/lib/dunning-letter';
+import { createErrorResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/invoices/:id/final-notice
+ * Download the final-notice letter for posting to customers without email
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: params.id },
+      select: { id: true, invoiceNumber: true },
+    });
+
+    if (!invoice) {
+      return NextResponse.json(
+        createErrorResponse('Invoice not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const letterDate = new Date();
+    const buffer = await generateFinalNoticePDFBuffer(invoice.id, letterDate);
+    const fileName = getFinalNoticeFilename(invoice.invoiceNumber, letterDate);
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': buffer.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Final notice PDF error:', error);
+    return NextResponse.json(
+      createErrorResponse('Failed to generate final notice', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requirePermission } from '@/lib/authorization';
+import { hasPermission, requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { updateInvoiceSchema } from '@/lib/validations';
+import { updateInvoice } from '@/lib/invoices';
 import prisma from '@/lib/prisma';
+import { submitQueuedFiscalDocument } from '@/lib/etims';
+import { logCreditOverride } from '@/lib/credit-control';
+import { CreditControlError } from '@/lib/errors';
 
 /**
  * GET /api/invoices/[id]
@@ -18,6 +24,10 @@ export async function GET(
       where: { id: params.id },
       include: {
         customer: true,
+        items: {
+          orderBy: { sortOrder: 'asc' },
+          include: { product: { select: { id: true, sku: true, name: true } } },
+        },
         payments: {
           orderBy: { paymentDate: 'desc' },
         },
@@ -49,3 +59,104 @@ export async function GET(
     );
   }
 }
+
+/**
+ * PATCH /api/invoices/[id]
+ * Edit a draft invoice's lines, customer and dates, or move it from DRAFT
+ * to SENT (posting it to the ledger) or CANCELLED. Notes and description
+ * can be edited on any invoice.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requirePermission(request, 'invoice.edit');
+    const body = await request.json();
+
+    const parsed = updateInvoiceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const { invoice, previousStatus, creditCheck, creditApplied } = await updateInvoice(params.id, parsed.data, user.userId, {
+      canOverride: hasPermission(user.role, 'credit.override'),
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_INVOICE',
+      entityType: 'Invoice',
+      entityId: invoice.id,
+      description:
+        previousStatus !== invoice.status
+          ? `Invoice ${invoice.invoiceNumber} moved from ${previousStatus} to ${invoice.status}`
+          : `Invoice updated: ${invoice.invoiceNumber}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: {
+        changes: Object.keys(parsed.data),
+        totalAmount: invoice.totalAmount,
+        ...(creditCheck?.status === 'WARNING' && { creditWarning: creditCheck.message }),
+        ...(creditApplied && { creditApplied: creditApplied.amount }),
+      },
+    });
+
+    if (creditCheck) {
+      await logCreditOverride(creditCheck, {
+        userId: user.userId,
+        entityType: 'Invoice',
+        entityId: invoice.id,
+        document: `invoice ${invoice.invoiceNumber}`,
+        ipAddress: getClientIp(request.headers),
+        userAgent: getUserAgent(request.headers),
+      });
+    }
+
+    if (previousStatus === 'DRAFT' && parsed.data.status === 'SENT') {
+      void submitQueuedFiscalDocument({ invoiceId: invoice.id });
+    }
+
+    return NextResponse.json(
+      createSuccessResponse(
+        {
+          invoice,
+          creditWarning: creditCheck?.status === 'WARNING' ? creditCheck.message : undefined,
+          creditApplied: creditApplied?.amount,
+        },
+        'Invoice updated'
+      )
+    );
+  } catch (error) {
+    console.error('Update invoice error:', error);
+
+    if (error instanceof CreditControlError) {
+      return NextResponse.json(
+        createErrorResponse(error.message, error.code, error.details),
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'INVOICE_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
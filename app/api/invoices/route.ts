@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requirePermission } from '@/lib/authorization';
+import { hasPermission, requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { createInvoiceSchema } from '@/lib/validations';
+import { createInvoice } from '@/lib/invoices';
 import prisma from '@/lib/prisma';
+import { submitQueuedFiscalDocument } from '@/lib/etims';
+import { logCreditOverride } from '@/lib/credit-control';
+import { CreditControlError } from '@/lib/errors';
 
 /**
  * GET /api/invoices
@@ -42,6 +48,11 @@ export async function GET(request: NextRequest) {
 
     // Calculate accurate status for each invoice based on actual payment amounts
     const invoicesWithAccurateStatus = invoices.map((invoice) => {
+      // Drafts and cancelled invoices have not been issued
+      if (invoice.status === 'DRAFT' || invoice.status === 'CANCELLED') {
+        return invoice;
+      }
+
       let calculatedStatus = 'SENT';
       // Only mark as PAID if payment is confirmed in invoice module
       if (invoice.payments && invoice.payments.length > 0) {
@@ -79,3 +90,98 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * POST /api/invoices
+ * Create an invoice from product or free-text lines. Totals are computed
+ * from the lines; an invoice created as SENT is posted to the ledger.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'invoice.create');
+    const body = await request.json();
+
+    const parsed = createInvoiceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const { creditCheck, creditApplied, ...invoice } = await createInvoice(parsed.data, user.userId, undefined, {
+      canOverride: hasPermission(user.role, 'credit.override'),
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'CREATE_INVOICE',
+      entityType: 'Invoice',
+      entityId: invoice.id,
+      description: `Invoice created: ${invoice.invoiceNumber} (${invoice.status})`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: {
+        totalAmount: invoice.totalAmount,
+        lines: invoice.items.length,
+        ...(creditCheck?.status === 'WARNING' && { creditWarning: creditCheck.message }),
+        ...(creditApplied && { creditApplied: creditApplied.amount }),
+      },
+    });
+
+    if (creditCheck) {
+      await logCreditOverride(creditCheck, {
+        userId: user.userId,
+        entityType: 'Invoice',
+        entityId: invoice.id,
+        document: `invoice ${invoice.invoiceNumber}`,
+        ipAddress: getClientIp(request.headers),
+        userAgent: getUserAgent(request.headers),
+      });
+    }
+
+    if (parsed.data.status === 'SENT') {
+      void submitQueuedFiscalDocument({ invoiceId: invoice.id });
+    }
+
+    return NextResponse.json(
+      createSuccessResponse(
+        {
+          invoice,
+          creditWarning: creditCheck?.status === 'WARNING' ? creditCheck.message : undefined,
+          creditApplied: creditApplied?.amount,
+        },
+        'Invoice created'
+      ),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create invoice error:', error);
+
+    if (error instanceof CreditControlError) {
+      return NextResponse.json(
+        createErrorResponse(error.message, error.code, error.details),
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'INVOICE_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/late-fees/charges
+ * Late fee charges, newest first, with the overdue and fee invoices
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const period = searchParams.get('period');
+    const customerId = searchParams.get('customerId');
+    const invoiceId = searchParams.get('invoiceId');
+
+    const where = {
+      ...(period ? { period } : {}),
+      ...(customerId ? { customerId } : {}),
+      ...(invoiceId ? { invoiceId } : {}),
+    };
+
+    const [charges, total] = await Promise.all([
+      prisma.lateFeeCharge.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          invoice: { select: { id: true, invoiceNumber: true } },
+          feeInvoice: { select: { id: true, invoiceNumber: true, status: true, balanceAmount: true } },
+          customer: { select: { id: true, name: true } },
+          policy: { select: { name: true } },
+        },
+      }),
+      prisma.lateFeeCharge.count({ where }),
+    ]);
+
+    return NextResponse.json(
+      createSuccessResponse({
+        charges,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get late fee charges error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { updateLateFeePolicySchema } from '@/lib/validations';
+import { updateLateFeePolicy } from '@/lib/late-fees';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * PATCH /api/late-fees/policies/[id]
+ * Change a policy's terms, make it the default or deactivate it
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'late_fee.configure');
+    const body = await request.json();
+
+    const parsed = updateLateFeePolicySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const policy = await updateLateFeePolicy(params.id, parsed.data);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_LATE_FEE_POLICY',
+      entityType: 'LateFeePolicy',
+      entityId: policy.id,
+      description: `Late fee policy updated: ${policy.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { changes: parsed.data },
+    });
+
+    return NextResponse.json(createSuccessResponse(policy), { status: 200 });
+  } catch (error) {
+    console.error('Update late fee policy error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'LATE_FEE_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { createLateFeePolicySchema } from '@/lib/validations';
+import { createLateFeePolicy } from '@/lib/late-fees';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/late-fees/policies
+ * List late fee policies
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const policies = await prisma.lateFeePolicy.findMany({
+      include: { _count: { select: { customers: true, charges: true } } },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json(createSuccessResponse({ policies }), { status: 200 });
+  } catch (error) {
+    console.error('Get late fee policies error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/late-fees/policies
+ * Create a late fee policy
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'late_fee.configure');
+    const body = await request.json();
+
+    const parsed = createLateFeePolicySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.lateFeePolicy.findUnique({
+      where: { name: parsed.data.name },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        createErrorResponse('A late fee policy with this name already exists', 'DUPLICATE_NAME'),
+        { status: 400 }
+      );
+    }
+
+    const policy = await createLateFeePolicy(parsed.data, user.userId);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'CREATE_LATE_FEE_POLICY',
+      entityType: 'LateFeePolicy',
+      entityId: policy.id,
+      description: `Late fee policy created: ${policy.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: {
+        flatFee: policy.flatFee,
+        monthlyRate: policy.monthlyRate,
+        graceDays: policy.graceDays,
+        maxTotalFee: policy.maxTotalFee,
+        isDefault: policy.isDefault,
+      },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(policy, 'Late fee policy created'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create late fee policy error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
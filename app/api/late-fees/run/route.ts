@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { runLateFeesSchema } from '@/lib/validations';
+import { runLateFees } from '@/lib/late-fees';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+/**
+ * POST /api/late-fees/run
+ * Charge late fees for the month now, or preview them with `dryRun`.
+ * Safe to repeat: invoices already charged for the month are skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'late_fee.run');
+    const body = await request.json().catch(() => ({}));
+
+    const parsed = runLateFeesSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const asOf = parsed.data.asOf ? new Date(parsed.data.asOf) : undefined;
+    if (asOf && isNaN(asOf.getTime())) {
+      return NextResponse.json(
+        createErrorResponse('Invalid run date', 'VALIDATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    const result = await runLateFees({ asOf, triggeredBy: user.userId, dryRun: parsed.data.dryRun });
+
+    if (!result.dryRun) {
+      await createAuditLog({
+        userId: user.userId,
+        action: 'RUN_LATE_FEES',
+        entityType: 'LateFeeCharge',
+        description: `Late fees for ${result.period}: ${result.charged} charged (${result.totalAmount}), ${result.failed} failed`,
+        ipAddress: getClientIp(request.headers),
+        userAgent: getUserAgent(request.headers),
+        metadata: {
+          period: result.period,
+          charged: result.charged,
+          failed: result.failed,
+          totalAmount: result.totalAmount,
+        },
+      });
+    }
+
+    return NextResponse.json(
+      createSuccessResponse(result, result.dryRun ? undefined : 'Late fees charged'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Late fee run error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'LATE_FEE_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -47,6 +47,9 @@ const recordPaymentSchema = z.object({
   bankCode: z.string().optional(),
   bankName: z.string().optional(),
   paymentGatewayId: z.string().optional(),
+  // Payments against an invoice are in the invoice's currency
+  currency: z.string().regex(/^[A-Za-z]{3}$/).transform((value) => value.toUpperCase()).optional(),
+  exchangeRate: z.number().positive().optional(),
 });
 
 type RecordPaymentData = z.infer<typeof recordPaymentSchema>;
@@ -119,12 +122,12 @@ export async function POST(request: NextRequest) {
         throw new NotFoundError('Invoice');
       }
 
-      // Validate payment amount
+      // Validate payment amount (anything over the balance is held as customer credit)
       const validation = validatePaymentAmount(
         data.amount,
         invoice.totalAmount,
         invoice.paidAmount,
-        false
+        true
       );
 
       if (!validation.valid) {
@@ -133,7 +136,7 @@ export async function POST(request: NextRequest) {
           requestId,
           field: 'amount',
           value: data.amount,
-          rule: `amount must be <= ${invoice.balanceAmount}`,
+          rule: 'amount must be > 0',
         });
         throw new ValidationError(validation.error || 'Payment validation failed');
       }
@@ -164,6 +167,8 @@ export async function POST(request: NextRequest) {
       bankCode: data.bankCode,
       bankName: data.bankName,
       paymentGatewayId: data.paymentGatewayId,
+      currency: data.currency,
+      exchangeRate: data.exchangeRate,
     });
 
     if (!result.success) {
@@ -202,7 +207,7 @@ export async function POST(request: NextRequest) {
     // Track API metrics
     trackApiCall('/api/payments', 'POST', 201, Date.now() - startTime);
 
-    return api.created(result, 'Payment recorded successfully');
+    return api.created(result, result.message);
   } catch (error) {
     // Track error
     const errorStatus = error instanceof ValidationError || error instanceof NotFoundError ? 400 : 
@@ -0,0 +1,8 @@
+/**
+ * API Route: POST /api/payments/refund
+ * Refund a payment, or the unapplied credit held on a payment on account
+ */
+
+import { recordRefundHandler } from '../handlers';
+
+export { recordRefundHandler as POST };
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp, getUserAgent } from '@/lib/audit';
+import { findPortalInvoice, isPortalRateLimited, logPortalActivity, resolvePortalToken } from '@/lib/customer-portal';
+import { generateInvoicePDFBuffer, getInvoiceFilename } from '@/lib/invoice-pdf';
+import { createErrorResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { token: string; invoiceId: string };
+}
+
+/**
+ * GET /api/portal/[token]/invoices/[invoiceId]
+ * Download one of the customer's invoices as a PDF
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const ipAddress = getClientIp(request.headers);
+    if (isPortalRateLimited(ipAddress, params.token)) {
+      return NextResponse.json(
+        createErrorResponse('Too many requests. Please try again later.', 'RATE_LIMIT_EXCEEDED'),
+        { status: 429 }
+      );
+    }
+
+    const link = await resolvePortalToken(params.token);
+    if (!link) {
+      return NextResponse.json(
+        createErrorResponse('This link is invalid or has expired. Please ask us for a new one.', 'INVALID_PORTAL_LINK'),
+        { status: 401 }
+      );
+    }
+
+    const invoice = await findPortalInvoice(link.customerId, params.invoiceId);
+    if (!invoice) {
+      return NextResponse.json(
+        createErrorResponse('Invoice not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const buffer = await generateInvoicePDFBuffer(invoice.id);
+
+    await logPortalActivity(link, 'PORTAL_DOWNLOAD', {
+      description: `Downloaded invoice ${invoice.invoiceNumber}`,
+      entityType: 'Invoice',
+      entityId: invoice.id,
+      ipAddress,
+      userAgent: getUserAgent(request.headers),
+    });
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getInvoiceFilename(invoice.invoiceNumber)}"`,
+        'Content-Length': buffer.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Customer portal invoice error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp, getUserAgent } from '@/lib/audit';
+import { acceptPortalQuote, isPortalRateLimited, logPortalActivity, resolvePortalToken } from '@/lib/customer-portal';
+import { acceptPortalQuoteSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { token: string; quoteId: string };
+}
+
+/**
+ * POST /api/portal/[token]/quotes/[quoteId]/accept
+ * Accept one of the customer's sent quotes under the name they give
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const ipAddress = getClientIp(request.headers);
+    if (isPortalRateLimited(ipAddress, params.token)) {
+      return NextResponse.json(
+        createErrorResponse('Too many requests. Please try again later.', 'RATE_LIMIT_EXCEEDED'),
+        { status: 429 }
+      );
+    }
+
+    const link = await resolvePortalToken(params.token);
+    if (!link) {
+      return NextResponse.json(
+        createErrorResponse('This link is invalid or has expired. Please ask us for a new one.', 'INVALID_PORTAL_LINK'),
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = acceptPortalQuoteSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const quote = await acceptPortalQuote(link.customerId, params.quoteId, parsed.data.name);
+    if (!quote) {
+      return NextResponse.json(
+        createErrorResponse('Quote not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    await logPortalActivity(link, 'PORTAL_ACCEPT_QUOTE', {
+      description: `Quote ${quote.quoteNumber} accepted by ${parsed.data.name}`,
+      entityType: 'SalesQuote',
+      entityId: quote.id,
+      ipAddress,
+      userAgent: getUserAgent(request.headers),
+      metadata: { quoteNumber: quote.quoteNumber, acceptedBy: parsed.data.name, totalAmount: quote.totalAmount },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(quote, `Quote ${quote.quoteNumber} accepted`),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Customer portal quote acceptance error:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'QUOTE_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
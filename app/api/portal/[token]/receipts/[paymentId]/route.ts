@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp, getUserAgent } from '@/lib/audit';
+import { findPortalPayment, isPortalRateLimited, logPortalActivity, resolvePortalToken } from '@/lib/customer-portal';
+import { generateReceiptPDFBuffer } from '@/lib/receipt-service';
+import { createErrorResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { token: string; paymentId: string };
+}
+
+/**
+ * GET /api/portal/[token]/receipts/[paymentId]
+ * Download the receipt for one of the customer's payments as a PDF
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const ipAddress = getClientIp(request.headers);
+    if (isPortalRateLimited(ipAddress, params.token)) {
+      return NextResponse.json(
+        createErrorResponse('Too many requests. Please try again later.', 'RATE_LIMIT_EXCEEDED'),
+        { status: 429 }
+      );
+    }
+
+    const link = await resolvePortalToken(params.token);
+    if (!link) {
+      return NextResponse.json(
+        createErrorResponse('This link is invalid or has expired. Please ask us for a new one.', 'INVALID_PORTAL_LINK'),
+        { status: 401 }
+      );
+    }
+
+    const payment = await findPortalPayment(link.customerId, params.paymentId);
+    if (!payment) {
+      return NextResponse.json(
+        createErrorResponse('Receipt not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const buffer = await generateReceiptPDFBuffer(payment.id);
+
+    await logPortalActivity(link, 'PORTAL_DOWNLOAD', {
+      description: `Downloaded receipt ${payment.paymentNumber}`,
+      entityType: 'Payment',
+      entityId: payment.id,
+      ipAddress,
+      userAgent: getUserAgent(request.headers),
+    });
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="Receipt_${payment.paymentNumber}.pdf"`,
+        'Content-Length': buffer.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Customer portal receipt error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp, getUserAgent } from '@/lib/audit';
+import { getPortalAccount, isPortalRateLimited, logPortalActivity, resolvePortalToken } from '@/lib/customer-portal';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { token: string };
+}
+
+/**
+ * GET /api/portal/[token]
+ * Customer portal home: open invoices, recent receipts and quotes. Public, authorised by the signed link.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const ipAddress = getClientIp(request.headers);
+    if (isPortalRateLimited(ipAddress, params.token)) {
+      return NextResponse.json(
+        createErrorResponse('Too many requests. Please try again later.', 'RATE_LIMIT_EXCEEDED'),
+        { status: 429 }
+      );
+    }
+
+    const link = await resolvePortalToken(params.token);
+    if (!link) {
+      return NextResponse.json(
+        createErrorResponse('This link is invalid or has expired. Please ask us for a new one.', 'INVALID_PORTAL_LINK'),
+        { status: 401 }
+      );
+    }
+
+    const account = await getPortalAccount(link.customerId);
+    if (!account) {
+      return NextResponse.json(
+        createErrorResponse('Account not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    await logPortalActivity(link, 'PORTAL_VIEW', {
+      description: `${account.customer.name} viewed their account`,
+      ipAddress,
+      userAgent: getUserAgent(request.headers),
+    });
+
+    return NextResponse.json(
+      createSuccessResponse({ ...account, expiresAt: link.expiresAt }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Customer portal error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { subDays } from 'date-fns';
+import { getClientIp, getUserAgent } from '@/lib/audit';
+import { isPortalRateLimited, logPortalActivity, resolvePortalToken } from '@/lib/customer-portal';
+import { generateStatementPDFBuffer, getCustomerStatement, getStatementFilename } from '@/lib/customer-statements';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { token: string };
+}
+
+/**
+ * GET /api/portal/[token]/statement?from=&to=&currency=&format=json|pdf
+ * The customer's statement of account, for the last 90 days by default,
+ * in one currency (defaults to the base currency)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const ipAddress = getClientIp(request.headers);
+    if (isPortalRateLimited(ipAddress, params.token)) {
+      return NextResponse.json(
+        createErrorResponse('Too many requests. Please try again later.', 'RATE_LIMIT_EXCEEDED'),
+        { status: 429 }
+      );
+    }
+
+    const link = await resolvePortalToken(params.token);
+    if (!link) {
+      return NextResponse.json(
+        createErrorResponse('This link is invalid or has expired. Please ask us for a new one.', 'INVALID_PORTAL_LINK'),
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') === 'pdf' ? 'pdf' : 'json';
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : new Date();
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : subDays(to, 90);
+    const currency = searchParams.get('currency')?.toUpperCase() || undefined;
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return NextResponse.json(
+        createErrorResponse('Invalid statement date', 'VALIDATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    if (currency && !/^[A-Z]{3}$/.test(currency)) {
+      return NextResponse.json(
+        createErrorResponse('Invalid currency', 'VALIDATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    const statement = await getCustomerStatement(link.customerId, from, to, currency);
+    if (!statement) {
+      return NextResponse.json(
+        createErrorResponse('Account not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    if (format === 'pdf') {
+      const buffer = generateStatementPDFBuffer(statement);
+
+      await logPortalActivity(link, 'PORTAL_DOWNLOAD', {
+        description: `Downloaded statement ${getStatementFilename(statement)}`,
+        ipAddress,
+        userAgent: getUserAgent(request.headers),
+      });
+
+      return new NextResponse(new Uint8Array(buffer), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${getStatementFilename(statement)}.pdf"`,
+          'Content-Length': buffer.length.toString(),
+        },
+      });
+    }
+
+    await logPortalActivity(link, 'PORTAL_VIEW', {
+      description: `${statement.customer.name} viewed their statement`,
+      ipAddress,
+      userAgent: getUserAgent(request.headers),
+      metadata: { from: statement.from, to: statement.to },
+    });
+
+    // The portal has no use for the customer's contact details
+    const { customer, ...rest } = statement;
+    return NextResponse.json(
+      createSuccessResponse({ ...rest, customer: { name: customer.name, customerCode: customer.customerCode } }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Customer portal statement error:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'STATEMENT_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -2,30 +2,18 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
 import { verifyToken } from '@/lib/auth';
+import { hasPermission } from '@/lib/authorization';
+import { getClientIp, getUserAgent } from '@/lib/audit';
+import { CreditControlError } from '@/lib/errors';
 import Decimal from 'decimal.js';
 import { postInvoiceCreated, postPaymentReceived } from '@/lib/accounting';
+import { allocateDocumentNumber, isConfiguredBranch } from '@/lib/document-sequences';
+import { queueFiscalDocument, submitQueuedFiscalDocument } from '@/lib/etims';
+import { checkCreditLimit, logCreditOverride } from '@/lib/credit-control';
 import type { TransactionClient } from '@/lib/types';
 
 const WALKIN_CUSTOMER_CODE = 'CUST-WALKIN';
 
-const INVOICE_PREFIX = 'INV-';
-
-const getNextInvoiceNumber = async (tx: TransactionClient) => {
-  // Find the latest invoice by ordering, only select what we need
-  const latest = await tx.invoice.findFirst({
-    orderBy: { createdAt: 'desc' },
-    select: { invoiceNumber: true },
-    take: 1,
-  });
-
-  const lastDigits = latest?.invoiceNumber?.match(/(\d+)$/)?.[1];
-  const lastValue = lastDigits ? parseInt(lastDigits, 10) : 0;
-
-  // Just increment from the last value found
-  const nextValue = lastValue + 1;
-  return `${INVOICE_PREFIX}${nextValue.toString().padStart(6, '0')}`;
-};
-
 const getOrCreateWalkInCustomer = async (tx: TransactionClient) => {
   const existing = await tx.customer.findUnique({
     where: { customerCode: WALKIN_CUSTOMER_CODE },
@@ -65,7 +53,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { orderId, paymentMethod, amountPaid } = body;
+    const { orderId, paymentMethod, amountPaid, branch, creditOverrideReason } = body;
 
     if (!orderId) {
       return NextResponse.json(
@@ -74,6 +62,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The branch code goes into the invoice number, so only configured branches are accepted
+    if (branch !== undefined && branch !== null && branch !== '') {
+      if (typeof branch !== 'string' || !(await isConfiguredBranch(prisma, 'INVOICE', branch))) {
+        return NextResponse.json(
+          createErrorResponse('Unknown branch', 'VALIDATION_ERROR'),
+          { status: 400 }
+        );
+      }
+    }
+
     // Get the order
     const order = await prisma.posOrder.findUnique({
       where: { id: orderId },
@@ -117,6 +115,19 @@ export async function POST(request: NextRequest) {
           throw new Error('Customer not found');
         }
 
+        // Whatever is left unpaid on a named account goes against its credit limit
+        const creditCheck = customer.customerCode === WALKIN_CUSTOMER_CODE
+          ? null
+          : await checkCreditLimit(
+            customer.id,
+            new Decimal(order.totalAmount).minus(paymentAmount).toDecimalPlaces(2).toNumber(),
+            {
+              overrideReason: creditOverrideReason,
+              canOverride: hasPermission(payload.role, 'credit.override'),
+            },
+            tx
+          );
+
         // Update product quantities using bulk operations
         for (const item of order.orderItems) {
           await tx.product.update({
@@ -129,7 +140,7 @@ export async function POST(request: NextRequest) {
           });
         }
 
-        const invoiceNumber = await getNextInvoiceNumber(tx);
+        const invoiceNumber = await allocateDocumentNumber(tx, 'INVOICE', { branch });
       const issueDate = new Date();
 
       // All invoices start as SENT (unpaid) with zero paid amount
@@ -216,7 +227,9 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      return { completedOrder, invoice, payment, orderId };
+      await queueFiscalDocument(tx, 'INVOICE', invoice.id, invoice.invoiceNumber);
+
+      return { completedOrder, invoice, payment, orderId, creditCheck };
       },
       {
         maxWait: 15000, // 15 seconds max wait time
@@ -224,6 +237,19 @@ export async function POST(request: NextRequest) {
       }
     );
 
+    void submitQueuedFiscalDocument({ invoiceId: result.invoice.id });
+
+    if (result.creditCheck) {
+      await logCreditOverride(result.creditCheck, {
+        userId: payload.userId,
+        entityType: 'PosOrder',
+        entityId: result.orderId,
+        document: `POS order ${result.completedOrder.orderNumber}`,
+        ipAddress: getClientIp(request.headers),
+        userAgent: getUserAgent(request.headers),
+      });
+    }
+
     // Fetch complete order with all relations (after transaction completes)
     const completeOrder = await prisma.posOrder.findUnique({
       where: { id: result.orderId },
@@ -263,10 +289,24 @@ export async function POST(request: NextRequest) {
     }
 
     return NextResponse.json(
-      createSuccessResponse(completeOrder || result.completedOrder, 'Order completed successfully')
+      createSuccessResponse(
+        {
+          ...(completeOrder || result.completedOrder),
+          creditWarning: result.creditCheck?.status === 'WARNING' ? result.creditCheck.message : undefined,
+        },
+        'Order completed successfully'
+      )
     );
   } catch (error) {
     console.error('Failed to checkout order:', error);
+
+    if (error instanceof CreditControlError) {
+      return NextResponse.json(
+        createErrorResponse(error.message, error.code, error.details),
+        { status: error.statusCode }
+      );
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Failed to checkout order';
     return NextResponse.json(
       createErrorResponse(errorMessage, 'INTERNAL_ERROR'),
@@ -5,24 +5,10 @@ import { requirePermission } from '@/lib/authorization';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createPurchaseOrderSchema } from '@/lib/validations';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { allocateDocumentNumber } from '@/lib/document-sequences';
+import { resolveDocumentCurrency } from '@/lib/exchange-rates';
 import type { TransactionClient } from '@/lib/types';
 
-const PURCHASE_ORDER_PREFIX = 'PO-';
-
-const getNextPurchaseOrderNumber = async (tx: TransactionClient) => {
-  const latest = await tx.purchaseOrder.findFirst({
-    orderBy: { createdAt: 'desc' },
-    select: { orderNumber: true },
-  });
-
-  const lastDigits = latest?.orderNumber?.match(/(\d+)$/)?.[1];
-  const lastValue = lastDigits ? parseInt(lastDigits, 10) : 0;
-  const count = await tx.purchaseOrder.count();
-  const nextValue = Math.max(lastValue, count) + 1;
-
-  return `${PURCHASE_ORDER_PREFIX}${nextValue.toString().padStart(6, '0')}`;
-};
-
 /**
  * GET /api/purchase-orders
  * List purchase orders
@@ -110,7 +96,8 @@ export async function POST(request: NextRequest) {
     }
 
     const result = await prisma.$transaction(async (tx: TransactionClient) => {
-      const orderNumber = await getNextPurchaseOrderNumber(tx);
+      const orderNumber = await allocateDocumentNumber(tx, 'PURCHASE_ORDER');
+      const currency = await resolveDocumentCurrency(parsed.data.currency, new Date(), parsed.data.exchangeRate, tx);
 
       let subtotal = new Decimal(0);
       const itemsPayload = items.map((item) => {
@@ -134,6 +121,7 @@ export async function POST(request: NextRequest) {
           subtotal: subtotal.toNumber(),
           tax: taxAmount.toNumber(),
           totalAmount: totalAmount.toNumber(),
+          ...currency,
           status: 'DRAFT',
           expectedDate: expectedDate ? new Date(expectedDate) : null,
           notes: notes || null,
@@ -168,6 +156,14 @@ export async function POST(request: NextRequest) {
     );
   } catch (error) {
     console.error('Create purchase order error:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'PURCHASE_ORDER_ERROR'),
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
       { status: 500 }
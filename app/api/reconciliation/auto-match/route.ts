@@ -1,32 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requirePermission } from '@/lib/authorization';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { autoMatchSchema } from '@/lib/validations';
 import { autoReconcileAll } from '@/lib/matching-engine';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 
 /**
  * POST /api/reconciliation/auto-match
- * Trigger automatic reconciliation for all pending transactions
+ * Trigger automatic reconciliation for all pending transactions.
+ * Body (optional): { dryRun, autoCommitThreshold, suggestThreshold }
  */
 export async function POST(request: NextRequest) {
   try {
     const user = await requirePermission(request, 'reconciliation.match');
 
+    const body = await request.json().catch(() => ({}));
+    const validation = autoMatchSchema.safeParse(body ?? {});
+    if (!validation.success) {
+      return NextResponse.json(
+        createErrorResponse('Invalid input', 'VALIDATION_ERROR', validation.error.errors),
+        { status: 400 }
+      );
+    }
+
     // Run auto-reconciliation
-    const results = await autoReconcileAll(user.userId);
+    const results = await autoReconcileAll(user.userId, validation.data);
 
-    // Create audit log
-    await createAuditLog({
-      userId: user.userId,
-      action: 'RECONCILE_PAYMENT',
-      description: `Auto-reconciliation completed: ${results.matched} matched, ${results.unmatched} unmatched`,
-      ipAddress: getClientIp(request.headers),
-      userAgent: getUserAgent(request.headers),
-      metadata: results,
-    });
+    // A dry run writes nothing, so there is nothing to audit
+    if (!results.dryRun) {
+      await createAuditLog({
+        userId: user.userId,
+        action: 'RECONCILE_PAYMENT',
+        description: `Auto-reconciliation completed: ${results.matched} matched, ${results.suggested} suggested, ${results.unmatched} unmatched`,
+        ipAddress: getClientIp(request.headers),
+        userAgent: getUserAgent(request.headers),
+        metadata: results,
+      });
+    }
 
     return NextResponse.json(
-      createSuccessResponse(results, 'Auto-reconciliation completed'),
+      createSuccessResponse(
+        results,
+        results.dryRun ? 'Auto-reconciliation preview completed' : 'Auto-reconciliation completed'
+      ),
       { status: 200 }
     );
   } catch (error) {
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { findNameCandidates, nameMatchConfidence } from '@/lib/name-matching';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/reconciliation/candidates?bankTransactionId=...
+ * Rank customers whose name or alias resembles the transaction reference,
+ * for the manual-match screen
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const bankTransactionId = request.nextUrl.searchParams.get('bankTransactionId');
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '5', 10) || 5, 20);
+
+    if (!bankTransactionId) {
+      return NextResponse.json(
+        createErrorResponse('bankTransactionId is required', 'VALIDATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    const transaction = await prisma.bankTransaction.findUnique({
+      where: { id: bankTransactionId },
+    });
+
+    if (!transaction) {
+      return NextResponse.json(
+        createErrorResponse('Bank transaction not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const candidates = await findNameCandidates(
+      [transaction.reference, transaction.counterpartyName].filter(Boolean).join(' '),
+      limit
+    );
+
+    return NextResponse.json(
+      createSuccessResponse({
+        candidates: candidates.map((candidate) => ({
+          ...candidate,
+          confidence: nameMatchConfidence(candidate.score, false, false),
+        })),
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get match candidates error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requirePermission } from '@/lib/authorization';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
 import prisma from '@/lib/prisma';
+import { getCashPositions } from '@/lib/bank-accounts';
 import type { Prisma } from '@prisma/client';
 
 /**
@@ -111,6 +112,9 @@ export async function GET(request: NextRequest) {
       _sum: { balanceAmount: true },
     });
 
+    // Cash position per bank account (ledger vs latest statement balance)
+    const cashPositions = await getCashPositions();
+
     return NextResponse.json(
       createSuccessResponse({
         summary: {
@@ -122,6 +126,7 @@ export async function GET(request: NextRequest) {
         },
         recentTransactions,
         topCustomers: topCustomersWithDetails,
+        cashPositions,
       }),
       { status: 200 }
     );
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { findDebitCandidates } from '@/lib/debit-matching';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/reconciliation/debit-candidates?bankTransactionId=...&days=7
+ * Rank supplier payments, expenses and open supplier bills that could
+ * explain an outgoing bank debit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const searchParams = request.nextUrl.searchParams;
+    const bankTransactionId = searchParams.get('bankTransactionId');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '5', 10) || 5, 20);
+    const dateWindowDays = Math.min(parseInt(searchParams.get('days') || '7', 10) || 7, 90);
+
+    if (!bankTransactionId) {
+      return NextResponse.json(
+        createErrorResponse('bankTransactionId is required', 'VALIDATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    const candidates = await findDebitCandidates(bankTransactionId, { dateWindowDays, limit });
+
+    return NextResponse.json(
+      createSuccessResponse({ candidates }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get debit candidates error:', error);
+
+    if (error instanceof Error && error.message === 'Bank transaction not found') {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { debitMatchSchema } from '@/lib/validations';
+import { reconcileDebit } from '@/lib/debit-matching';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+
+/**
+ * POST /api/reconciliation/debit-match
+ * Match an outgoing bank debit to a supplier payment, expense or open
+ * supplier bill (which records the supplier payment)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.match');
+
+    const body = await request.json();
+
+    const validation = debitMatchSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        createErrorResponse('Invalid input', 'VALIDATION_ERROR', validation.error.errors),
+        { status: 400 }
+      );
+    }
+
+    const { bankTransactionId, targetType, targetId, notes } = validation.data;
+
+    const result = await reconcileDebit({
+      bankTransactionId,
+      targetType,
+      targetId,
+      userId: user.userId,
+      notes,
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'RECONCILE_DEBIT',
+      entityType: 'BankTransaction',
+      entityId: bankTransactionId,
+      description: `Bank debit matched to ${targetType.toLowerCase().replace('_', ' ')} ${targetId}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: result,
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(result, 'Debit matched successfully'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Debit match error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'RECONCILIATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { exceptionCommentSchema } from '@/lib/validations';
+import { addExceptionComment } from '@/lib/reconciliation-exceptions';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * POST /api/reconciliation/exceptions/[id]/comments
+ * Add a comment to an exception's thread
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.match');
+    const body = await request.json();
+
+    const parsed = exceptionCommentSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const comment = await addExceptionComment(params.id, user.userId, parsed.data.comment);
+
+    return NextResponse.json(createSuccessResponse(comment), { status: 201 });
+  } catch (error) {
+    console.error('Add exception comment error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'RECONCILIATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
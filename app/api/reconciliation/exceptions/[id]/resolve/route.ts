@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { resolveExceptionSchema } from '@/lib/validations';
+import { resolveException } from '@/lib/reconciliation-exceptions';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * POST /api/reconciliation/exceptions/[id]/resolve
+ * Resolve an exception without reconciling its transaction
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.match');
+    const body = await request.json();
+
+    const parsed = resolveExceptionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const resolved = await resolveException(params.id, user.userId, parsed.data.resolution);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'RESOLVE_RECONCILIATION_EXCEPTION',
+      entityType: 'ReconciliationException',
+      entityId: resolved.id,
+      description: `Reconciliation exception resolved: ${parsed.data.resolution}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { bankTransactionId: resolved.bankTransactionId },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(resolved, 'Exception resolved'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Resolve exception error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'RECONCILIATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { assignExceptionSchema } from '@/lib/validations';
+import { assignException } from '@/lib/reconciliation-exceptions';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * GET /api/reconciliation/exceptions/[id]
+ * Exception with its bank transaction and comment thread
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const exception = await prisma.reconciliationException.findUnique({
+      where: { id: params.id },
+      include: {
+        bankTransaction: {
+          include: {
+            bankAccount: { select: { id: true, bankName: true, accountNumber: true } },
+            reconciliationLogs: { orderBy: { performedAt: 'desc' } },
+          },
+        },
+        assignee: { select: { id: true, firstName: true, lastName: true } },
+        comments: {
+          orderBy: { createdAt: 'asc' },
+          include: { user: { select: { id: true, firstName: true, lastName: true } } },
+        },
+      },
+    });
+
+    if (!exception) {
+      return NextResponse.json(
+        createErrorResponse('Exception not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(createSuccessResponse(exception), { status: 200 });
+  } catch (error) {
+    console.error('Get reconciliation exception error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/reconciliation/exceptions/[id]
+ * Assign an exception to a staff member (assignedTo null returns it to the
+ * queue), optionally overriding its priority
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.assign');
+    const body = await request.json();
+
+    const parsed = assignExceptionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const updated = await assignException(
+      params.id,
+      parsed.data.assignedTo,
+      user.userId,
+      parsed.data.priority
+    );
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'ASSIGN_RECONCILIATION_EXCEPTION',
+      entityType: 'ReconciliationException',
+      entityId: updated.id,
+      description: parsed.data.assignedTo
+        ? 'Reconciliation exception assigned'
+        : 'Reconciliation exception returned to the queue',
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { changes: parsed.data },
+    });
+
+    return NextResponse.json(createSuccessResponse(updated), { status: 200 });
+  } catch (error) {
+    console.error('Assign reconciliation exception error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'RECONCILIATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { escalateOverdueExceptions } from '@/lib/reconciliation-exceptions';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+
+/**
+ * POST /api/reconciliation/exceptions/escalate
+ * Run the exception sweep: open exceptions for untracked unmatched
+ * transactions and raise SLA breach alerts for overdue ones
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.configure');
+
+    const results = await escalateOverdueExceptions();
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'ESCALATE_RECONCILIATION_EXCEPTIONS',
+      entityType: 'ReconciliationException',
+      description: `Exception sweep: ${results.opened} opened, ${results.escalated} escalated`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: results,
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(results, 'Exception sweep completed'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Escalate exceptions error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import prisma from '@/lib/prisma';
+
+/**
+ * GET /api/reconciliation/exceptions
+ * Exceptions queue. Filters: status (OPEN, IN_PROGRESS, RESOLVED or ACTIVE
+ * for both open statuses), assignedTo (user ID or "unassigned"), overdue
+ */
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+    const status = searchParams.get('status') || 'ACTIVE';
+    const assignedTo = searchParams.get('assignedTo');
+    const overdue = searchParams.get('overdue') === 'true';
+
+    const skip = (page - 1) * limit;
+
+    const where: Record<string, unknown> = {
+      status: status === 'ACTIVE' ? { in: ['OPEN', 'IN_PROGRESS'] } : status,
+      ...(assignedTo ? { assignedTo: assignedTo === 'unassigned' ? null : assignedTo } : {}),
+      ...(overdue ? { dueAt: { lt: new Date() } } : {}),
+    };
+
+    const [exceptions, total] = await Promise.all([
+      prisma.reconciliationException.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ dueAt: 'asc' }, { createdAt: 'asc' }],
+        include: {
+          bankTransaction: {
+            select: {
+              id: true,
+              bankTransactionId: true,
+              transactionDate: true,
+              amount: true,
+              reference: true,
+              status: true,
+              bankAccount: { select: { id: true, bankName: true, accountNumber: true } },
+            },
+          },
+          assignee: { select: { id: true, firstName: true, lastName: true } },
+          _count: { select: { comments: true } },
+        },
+      }),
+      prisma.reconciliationException.count({ where }),
+    ]);
+
+    return NextResponse.json(
+      createSuccessResponse({
+        exceptions,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get reconciliation exceptions error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
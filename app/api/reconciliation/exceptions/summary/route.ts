@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { getExceptionSummary } from '@/lib/reconciliation-exceptions';
+
+/**
+ * GET /api/reconciliation/exceptions/summary
+ * Per-user workload and ageing of open exceptions
+ */
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const summary = await getExceptionSummary();
+
+    return NextResponse.json(createSuccessResponse(summary), { status: 200 });
+  } catch (error) {
+    console.error('Get exception summary error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requirePermission } from '@/lib/authorization';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
 import { manualMatchSchema } from '@/lib/validations';
-import { reconcileTransaction } from '@/lib/matching-engine';
+import { allocateBankTransaction } from '@/lib/matching-engine';
+import { suggestRuleFromManualMatch } from '@/lib/reconciliation-rules';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 
 /**
  * POST /api/reconciliation/manual-match
- * Manually match a bank transaction to a customer/invoice
+ * Manually match a bank transaction to a customer and allocate it
+ * across one or more invoices (remainder is held as customer credit)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -24,24 +26,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { bankTransactionId, customerId, invoiceId, amount, notes } = validation.data;
+    const { bankTransactionId, customerId, invoiceId, amount, allocationMode, allocations, notes } =
+      validation.data;
 
-    // Reconcile transaction
-    const payment = await reconcileTransaction(
+    // Allocate the receipt: explicit amounts, a chosen invoice, or oldest invoices first
+    const mode = allocationMode ?? (allocations && allocations.length > 0 ? 'MANUAL' : 'OLDEST_FIRST');
+
+    const result = await allocateBankTransaction({
       bankTransactionId,
       customerId,
-      invoiceId,
-      user.userId,
-      notes
-    );
+      userId: user.userId,
+      mode,
+      allocations,
+      invoiceIds: mode === 'OLDEST_FIRST' && invoiceId ? [invoiceId] : undefined,
+      action: 'MANUAL_MATCHED',
+      notes,
+    });
 
     // Create audit log
     await createAuditLog({
       userId: user.userId,
       action: 'RECONCILE_PAYMENT',
-      entityType: 'Payment',
-      entityId: payment.id,
-      description: `Manually matched bank transaction to customer`,
+      entityType: 'BankTransaction',
+      entityId: bankTransactionId,
+      description: `Manually matched bank transaction to customer (${result.payments.length} allocation(s))`,
       ipAddress: getClientIp(request.headers),
       userAgent: getUserAgent(request.headers),
       metadata: {
@@ -49,11 +57,22 @@ export async function POST(request: NextRequest) {
         customerId,
         invoiceId,
         amount,
+        mode,
+        payments: result.payments,
+        creditAmount: result.creditAmount,
       },
     });
 
+    // Repeated manual matches of the same payer suggest a reconciliation rule
+    let suggestedRule = null;
+    try {
+      suggestedRule = await suggestRuleFromManualMatch(bankTransactionId, customerId, user.userId);
+    } catch (error) {
+      console.error('Rule suggestion error:', error);
+    }
+
     return NextResponse.json(
-      createSuccessResponse(payment, 'Transaction successfully reconciled'),
+      createSuccessResponse({ ...result, suggestedRule }, 'Transaction successfully reconciled'),
       { status: 200 }
     );
   } catch (error) {
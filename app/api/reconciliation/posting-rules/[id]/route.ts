@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { updateBankPostingRuleSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * PATCH /api/reconciliation/posting-rules/[id]
+ * Edit, enable/disable or re-prioritise a bank posting rule
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.configure');
+    const body = await request.json();
+
+    const parsed = updateBankPostingRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.bankPostingRule.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        createErrorResponse('Bank posting rule not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    if (parsed.data.ledgerAccountCode) {
+      const account = await prisma.account.findUnique({
+        where: { accountCode: parsed.data.ledgerAccountCode },
+      });
+
+      if (!account || account.accountType !== 'EXPENSE') {
+        return NextResponse.json(
+          createErrorResponse('Ledger account must be an existing expense account', 'VALIDATION_ERROR'),
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await prisma.bankPostingRule.update({
+      where: { id: params.id },
+      data: parsed.data,
+      include: {
+        expenseCategory: { select: { id: true, name: true } },
+      },
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_BANK_POSTING_RULE',
+      entityType: 'BankPostingRule',
+      entityId: updated.id,
+      description: `Bank posting rule updated: ${updated.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { changes: parsed.data },
+    });
+
+    return NextResponse.json(createSuccessResponse(updated), { status: 200 });
+  } catch (error) {
+    console.error('Update bank posting rule error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/reconciliation/posting-rules/[id]
+ * Delete a bank posting rule. Expenses it already posted are kept.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.configure');
+
+    const existing = await prisma.bankPostingRule.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        createErrorResponse('Bank posting rule not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    await prisma.bankPostingRule.delete({ where: { id: params.id } });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'DELETE_BANK_POSTING_RULE',
+      entityType: 'BankPostingRule',
+      entityId: existing.id,
+      description: `Bank posting rule deleted: ${existing.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { pattern: existing.pattern, hitCount: existing.hitCount },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(null, 'Bank posting rule deleted'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Delete bank posting rule error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { applyPostingRulesSchema } from '@/lib/validations';
+import { applyPostingRules } from '@/lib/bank-posting-rules';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+
+/**
+ * POST /api/reconciliation/posting-rules/apply
+ * Post every pending or unmatched bank debit that matches a posting rule
+ * as an expense. Body (optional): { dryRun }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.match');
+
+    const body = await request.json().catch(() => ({}));
+    const validation = applyPostingRulesSchema.safeParse(body ?? {});
+    if (!validation.success) {
+      return NextResponse.json(
+        createErrorResponse('Invalid input', 'VALIDATION_ERROR', validation.error.errors),
+        { status: 400 }
+      );
+    }
+
+    const results = await applyPostingRules(user.userId, validation.data.dryRun);
+
+    if (!results.dryRun) {
+      await createAuditLog({
+        userId: user.userId,
+        action: 'APPLY_BANK_POSTING_RULES',
+        entityType: 'BankPostingRule',
+        description: `Bank posting rules applied: ${results.posted} posted, ${results.failed} failed`,
+        ipAddress: getClientIp(request.headers),
+        userAgent: getUserAgent(request.headers),
+        metadata: results,
+      });
+    }
+
+    return NextResponse.json(
+      createSuccessResponse(
+        results,
+        results.dryRun ? 'Posting rules preview completed' : 'Posting rules applied'
+      ),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Apply posting rules error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { createBankPostingRuleSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/reconciliation/posting-rules
+ * List bank posting rules in evaluation order
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const rules = await prisma.bankPostingRule.findMany({
+      include: {
+        expenseCategory: { select: { id: true, name: true } },
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json(createSuccessResponse({ rules }), { status: 200 });
+  } catch (error) {
+    console.error('Get bank posting rules error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/reconciliation/posting-rules
+ * Create a bank posting rule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.configure');
+    const body = await request.json();
+    const parsed = createBankPostingRuleSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const [category, account] = await Promise.all([
+      prisma.expenseCategory.findUnique({ where: { id: parsed.data.expenseCategoryId } }),
+      prisma.account.findUnique({ where: { accountCode: parsed.data.ledgerAccountCode } }),
+    ]);
+
+    if (!category) {
+      return NextResponse.json(
+        createErrorResponse('Expense category not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    if (!account || account.accountType !== 'EXPENSE') {
+      return NextResponse.json(
+        createErrorResponse('Ledger account must be an existing expense account', 'VALIDATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.bankPostingRule.create({
+      data: {
+        ...parsed.data,
+        vendor: parsed.data.vendor || null,
+        createdBy: user.userId,
+      },
+      include: {
+        expenseCategory: { select: { id: true, name: true } },
+      },
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'CREATE_BANK_POSTING_RULE',
+      entityType: 'BankPostingRule',
+      entityId: rule.id,
+      description: `Bank posting rule created: ${rule.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: {
+        pattern: rule.pattern,
+        patternType: rule.patternType,
+        expenseCategoryId: rule.expenseCategoryId,
+        ledgerAccountCode: rule.ledgerAccountCode,
+      },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(rule, 'Bank posting rule created'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create bank posting rule error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { bankImportProfileSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { BUILT_IN_PROFILES, getImportProfiles } from '@/lib/statement-profiles';
+
+/**
+ * GET /api/reconciliation/profiles
+ * List bank statement import profiles (built-in and saved)
+ */
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const profiles = await getImportProfiles();
+    const builtInCodes = new Set(BUILT_IN_PROFILES.map((p) => p.code));
+
+    return NextResponse.json(
+      createSuccessResponse({
+        profiles: profiles.map((profile) => ({
+          ...profile,
+          builtIn: !profile.id && builtInCodes.has(profile.code),
+        })),
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get import profiles error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/reconciliation/profiles
+ * Save a bank import profile. Saving a built-in code (e.g. KCB) overrides it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.configure');
+    const body = await request.json();
+    const parsed = bankImportProfileSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const { code, ...data } = parsed.data;
+
+    const profile = await prisma.bankImportProfile.upsert({
+      where: { code },
+      update: {
+        ...data,
+        dateFormat: data.dateFormat || null,
+        currencyColumn: data.currencyColumn || null,
+      },
+      create: {
+        code,
+        ...data,
+        dateFormat: data.dateFormat || null,
+        currencyColumn: data.currencyColumn || null,
+        createdBy: user.userId,
+      },
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'SAVE_IMPORT_PROFILE',
+      entityType: 'BankImportProfile',
+      entityId: profile.id,
+      description: `Bank import profile saved: ${profile.code}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { code: profile.code, bankName: profile.bankName },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(profile, 'Import profile saved'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Save import profile error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
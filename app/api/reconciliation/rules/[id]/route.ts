@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { updateReconciliationRuleSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * PATCH /api/reconciliation/rules/[id]
+ * Edit, enable/disable or re-prioritise a rule, or accept/dismiss a suggestion
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.configure');
+    const body = await request.json();
+
+    const parsed = updateReconciliationRuleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.reconciliationRule.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        createErrorResponse('Reconciliation rule not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const updated = await prisma.reconciliationRule.update({
+      where: { id: params.id },
+      data: parsed.data,
+      include: {
+        customer: { select: { id: true, name: true, customerCode: true } },
+      },
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_RECONCILIATION_RULE',
+      entityType: 'ReconciliationRule',
+      entityId: updated.id,
+      description: `Reconciliation rule updated: ${updated.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { changes: parsed.data, previousStatus: existing.status },
+    });
+
+    return NextResponse.json(createSuccessResponse(updated), { status: 200 });
+  } catch (error) {
+    console.error('Update reconciliation rule error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/reconciliation/rules/[id]
+ * Delete a reconciliation rule
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.configure');
+
+    const existing = await prisma.reconciliationRule.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        createErrorResponse('Reconciliation rule not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    await prisma.reconciliationRule.delete({ where: { id: params.id } });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'DELETE_RECONCILIATION_RULE',
+      entityType: 'ReconciliationRule',
+      entityId: existing.id,
+      description: `Reconciliation rule deleted: ${existing.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { pattern: existing.pattern, customerId: existing.customerId },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(null, 'Reconciliation rule deleted'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Delete reconciliation rule error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { createReconciliationRuleSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+const RULE_STATUSES = ['ACTIVE', 'SUGGESTED', 'DISMISSED'];
+
+/**
+ * GET /api/reconciliation/rules
+ * List reconciliation rules in evaluation order, optionally filtered by status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const status = request.nextUrl.searchParams.get('status');
+
+    const rules = await prisma.reconciliationRule.findMany({
+      where: status && RULE_STATUSES.includes(status) ? { status } : undefined,
+      include: {
+        customer: { select: { id: true, name: true, customerCode: true } },
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json(createSuccessResponse({ rules }), { status: 200 });
+  } catch (error) {
+    console.error('Get reconciliation rules error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/reconciliation/rules
+ * Create an explicit reconciliation rule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.configure');
+    const body = await request.json();
+    const parsed = createReconciliationRuleSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: parsed.data.customerId },
+    });
+
+    if (!customer) {
+      return NextResponse.json(
+        createErrorResponse('Customer not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    const rule = await prisma.reconciliationRule.create({
+      data: {
+        ...parsed.data,
+        source: 'MANUAL',
+        status: 'ACTIVE',
+        createdBy: user.userId,
+      },
+      include: {
+        customer: { select: { id: true, name: true, customerCode: true } },
+      },
+    });
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'CREATE_RECONCILIATION_RULE',
+      entityType: 'ReconciliationRule',
+      entityId: rule.id,
+      description: `Reconciliation rule created: ${rule.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: {
+        pattern: rule.pattern,
+        patternType: rule.patternType,
+        matchField: rule.matchField,
+        customerId: rule.customerId,
+      },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(rule, 'Reconciliation rule created'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create reconciliation rule error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { reviewSuggestionsSchema } from '@/lib/validations';
+import { acceptSuggestion, rejectSuggestion } from '@/lib/matching-engine';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+
+/**
+ * POST /api/reconciliation/suggestions/review
+ * Bulk accept or reject auto-match suggestions
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.match');
+
+    const body = await request.json();
+    const validation = reviewSuggestionsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        createErrorResponse('Invalid input', 'VALIDATION_ERROR', validation.error.errors),
+        { status: 400 }
+      );
+    }
+
+    const { suggestionIds, decision, notes } = validation.data;
+
+    const results = {
+      decision,
+      succeeded: 0,
+      failed: 0,
+      details: [] as { suggestionId: string; success: boolean; error?: string }[],
+    };
+
+    // Each suggestion is reconciled independently so one failure doesn't block the batch
+    for (const suggestionId of suggestionIds) {
+      try {
+        if (decision === 'ACCEPT') {
+          await acceptSuggestion(suggestionId, user.userId, notes);
+        } else {
+          await rejectSuggestion(suggestionId, user.userId, notes);
+        }
+
+        results.succeeded++;
+        results.details.push({ suggestionId, success: true });
+      } catch (error) {
+        results.failed++;
+        results.details.push({
+          suggestionId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'REVIEW_MATCH_SUGGESTION',
+      entityType: 'ReconciliationSuggestion',
+      description: `${decision === 'ACCEPT' ? 'Accepted' : 'Rejected'} ${results.succeeded} auto-match suggestion(s)`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: results,
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(results, 'Suggestions reviewed'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Review suggestions error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+const SUGGESTION_STATUSES = ['PENDING', 'ACCEPTED', 'REJECTED'];
+
+/**
+ * GET /api/reconciliation/suggestions?status=PENDING
+ * Auto-match suggestions awaiting review (or previously reviewed)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'reconciliation.view');
+
+    const requested = request.nextUrl.searchParams.get('status') || 'PENDING';
+    const status = SUGGESTION_STATUSES.includes(requested) ? requested : 'PENDING';
+
+    const suggestions = await prisma.reconciliationSuggestion.findMany({
+      where: {
+        status,
+        // Transactions reconciled by hand since the suggestion was made drop out of the queue
+        ...(status === 'PENDING' && {
+          bankTransaction: { status: { in: ['PENDING', 'UNMATCHED'] } },
+        }),
+      },
+      include: {
+        bankTransaction: {
+          select: {
+            id: true,
+            bankTransactionId: true,
+            transactionDate: true,
+            amount: true,
+            reference: true,
+          },
+        },
+        customer: { select: { id: true, name: true, customerCode: true } },
+      },
+      orderBy: [{ confidence: 'desc' }, { createdAt: 'asc' }],
+      take: 200,
+    });
+
+    const invoiceIds = suggestions
+      .map((suggestion) => suggestion.invoiceId)
+      .filter((id): id is string => !!id);
+
+    const invoices = invoiceIds.length
+      ? await prisma.invoice.findMany({
+          where: { id: { in: invoiceIds } },
+          select: { id: true, invoiceNumber: true, balanceAmount: true },
+        })
+      : [];
+    const invoiceMap = new Map(invoices.map((invoice) => [invoice.id, invoice]));
+
+    return NextResponse.json(
+      createSuccessResponse({
+        suggestions: suggestions.map((suggestion) => ({
+          ...suggestion,
+          invoice: suggestion.invoiceId ? invoiceMap.get(suggestion.invoiceId) || null : null,
+        })),
+      }),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Get reconciliation suggestions error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -19,6 +19,7 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status');
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
+    const bankAccountId = searchParams.get('bankAccountId');
 
     const skip = (page - 1) * limit;
 
@@ -30,6 +31,7 @@ export async function GET(request: NextRequest) {
 
     const where: Record<string, unknown> = {
       ...(status ? { status } : {}),
+      ...(bankAccountId ? { bankAccountId } : {}),
       ...(Object.keys(transactionDate).length > 0 ? { transactionDate } : {}),
     };
 
@@ -41,13 +43,26 @@ export async function GET(request: NextRequest) {
         take: limit,
         orderBy: { transactionDate: 'desc' },
         include: {
+          bankAccount: {
+            select: { id: true, bankName: true, accountNumber: true, ledgerAccountCode: true },
+          },
           payments: {
             include: {
               customer: true,
               invoice: true,
             },
           },
-          reconciliationLog: true,
+          supplierPayments: {
+            include: {
+              supplier: { select: { id: true, name: true } },
+            },
+          },
+          expenses: {
+            select: { id: true, expenseNumber: true, vendor: true },
+          },
+          reconciliationLogs: {
+            orderBy: { performedAt: 'desc' },
+          },
         },
       }),
       prisma.bankTransaction.count({ where }),
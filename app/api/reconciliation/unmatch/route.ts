@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { unmatchTransactionSchema } from '@/lib/validations';
+import { unmatchBankTransaction } from '@/lib/matching-engine';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+
+/**
+ * POST /api/reconciliation/unmatch
+ * Reverse a wrong match: payments and ledger postings are reversed and the
+ * bank transaction returns to PENDING so it can be matched again
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'reconciliation.unmatch');
+
+    const body = await request.json();
+
+    const validation = unmatchTransactionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        createErrorResponse('Invalid input', 'VALIDATION_ERROR', validation.error.errors),
+        { status: 400 }
+      );
+    }
+
+    const { bankTransactionId, reason } = validation.data;
+
+    const result = await unmatchBankTransaction(bankTransactionId, user.userId, reason);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'REVERSE_PAYMENT',
+      entityType: 'BankTransaction',
+      entityId: bankTransactionId,
+      description: `Unmatched bank transaction (${result.reversedPayments.length} payment(s) reversed)`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { ...result, reason },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(result, 'Transaction unmatched'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Unmatch error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'RECONCILIATION_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requirePermission } from '@/lib/authorization';
 import { createErrorResponse, createSuccessResponse, generateTransactionId } from '@/lib/utils';
-import { parseStatement } from '@/lib/statement-parser';
+import { STATEMENT_EXTENSIONS, isTextStatement, parseStatement } from '@/lib/statement-parser';
+import { findProfile, getImportProfiles } from '@/lib/statement-profiles';
+import { findSuspectedDuplicates } from '@/lib/statement-duplicates';
 import prisma from '@/lib/prisma';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 
@@ -11,6 +13,20 @@ const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE_MB || '10') * 1024 * 10
  * POST /api/reconciliation/upload
  * Upload and process bank statement
  * 
+ * Form field `bankAccountId` (required) is the bank account the statement
+ * belongs to; its lines post to that account's ledger cash account. Lines
+ * without a currency take the account's currency; a statement with lines in
+ * any other currency is rejected.
+ * Optional form field `profileId` (profile ID or code, e.g. EQUITY) selects
+ * the bank import profile; otherwise it is detected from the header row.
+ *
+ * Lines whose content fingerprint matches a line already imported (or an
+ * earlier line in the file) are suspected duplicates. If any are found the
+ * upload imports nothing and returns them for review (`requiresReview`).
+ * The same file is then resubmitted with form field `importTransactionIds`,
+ * a JSON array of the suspected lines' transaction IDs to import anyway;
+ * the rest are skipped.
+ *
  * Security: Finance staff and above only
  */
 export async function POST(request: NextRequest) {
@@ -21,6 +37,9 @@ export async function POST(request: NextRequest) {
     // Parse multipart form data
     const formData = await request.formData();
     const file = formData.get('file') as File;
+    const profileId = formData.get('profileId');
+    const bankAccountId = formData.get('bankAccountId');
+    const importIdsField = formData.get('importTransactionIds');
 
     if (!file) {
       return NextResponse.json(
@@ -29,6 +48,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (typeof bankAccountId !== 'string' || !bankAccountId.trim()) {
+      return NextResponse.json(
+        createErrorResponse('Select the bank account this statement belongs to', 'NO_BANK_ACCOUNT'),
+        { status: 400 }
+      );
+    }
+
+    const bankAccount = await prisma.bankAccount.findUnique({
+      where: { id: bankAccountId },
+    });
+
+    if (!bankAccount || !bankAccount.isActive) {
+      return NextResponse.json(
+        createErrorResponse('Bank account not found', 'INVALID_BANK_ACCOUNT'),
+        { status: 400 }
+      );
+    }
+
     // Validate file size
     if (file.size > MAX_FILE_SIZE) {
       return NextResponse.json(
@@ -41,13 +78,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file type
-    const allowedExtensions = ['csv', 'xlsx', 'xls'];
     const fileExtension = file.name.split('.').pop()?.toLowerCase();
     
-    if (!fileExtension || !allowedExtensions.includes(fileExtension)) {
+    if (!fileExtension || !STATEMENT_EXTENSIONS.includes(fileExtension)) {
       return NextResponse.json(
         createErrorResponse(
-          'Invalid file type. Only CSV and Excel files are allowed',
+          'Invalid file type. Only CSV, Excel, MT940, CAMT.053 (XML) and OFX files are allowed',
           'INVALID_FILE_TYPE'
         ),
         { status: 400 }
@@ -56,10 +92,28 @@ export async function POST(request: NextRequest) {
 
     // Read file content
     const buffer = Buffer.from(await file.arrayBuffer());
-    const content = fileExtension === 'csv' ? buffer.toString('utf-8') : buffer;
+    const content = isTextStatement(file.name) ? buffer.toString('utf-8') : buffer;
+
+    // Resolve import profile (explicit selection or auto-detect)
+    const profiles = await getImportProfiles();
+    const profile =
+      typeof profileId === 'string' && profileId.trim()
+        ? findProfile(profileId, profiles)
+        : undefined;
+
+    if (typeof profileId === 'string' && profileId.trim() && !profile) {
+      return NextResponse.json(
+        createErrorResponse(`Unknown import profile: ${profileId}`, 'INVALID_PROFILE'),
+        { status: 400 }
+      );
+    }
 
     // Parse statement
-    const parseResult = parseStatement(file.name, content);
+    const parseResult = parseStatement(file.name, content, {
+      profile,
+      profiles,
+      currency: bankAccount.currency,
+    });
 
     if (!parseResult.success) {
       return NextResponse.json(
@@ -79,6 +133,70 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const otherCurrency = parseResult.transactions.filter((txn) => txn.currency !== bankAccount.currency);
+
+    if (otherCurrency.length > 0) {
+      return NextResponse.json(
+        createErrorResponse(
+          `${otherCurrency.length} line(s) are not in ${bankAccount.currency}, the currency of ${bankAccount.bankName} ${bankAccount.accountNumber}`,
+          'CURRENCY_MISMATCH',
+          {
+            errors: otherCurrency.map((txn) => ({
+              row: txn.rowNumber,
+              message: `${txn.bankTransactionId} is in ${txn.currency}`,
+            })),
+          }
+        ),
+        { status: 400 }
+      );
+    }
+
+    // Pre-commit review of suspected duplicates
+    let approvedIds: Set<string> | null = null;
+
+    if (typeof importIdsField === 'string') {
+      try {
+        const ids = JSON.parse(importIdsField);
+        if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string')) {
+          throw new Error('importTransactionIds must be an array of transaction IDs');
+        }
+        approvedIds = new Set(ids);
+      } catch {
+        return NextResponse.json(
+          createErrorResponse('importTransactionIds must be a JSON array of transaction IDs', 'VALIDATION_ERROR'),
+          { status: 400 }
+        );
+      }
+    }
+
+    const { fingerprints, suspected } = await findSuspectedDuplicates(
+      bankAccount.id,
+      parseResult.transactions
+    );
+
+    if (suspected.length > 0 && !approvedIds) {
+      return NextResponse.json(
+        createSuccessResponse(
+          {
+            requiresReview: true,
+            fileName: file.name,
+            bankAccount: {
+              id: bankAccount.id,
+              bankName: bankAccount.bankName,
+              accountNumber: bankAccount.accountNumber,
+            },
+            profile: parseResult.profile,
+            total: parseResult.transactions.length,
+            suspectedDuplicates: suspected,
+          },
+          `${suspected.length} suspected duplicate(s) need review before import`
+        ),
+        { status: 200 }
+      );
+    }
+
+    const suspectedIds = new Set(suspected.map((s) => s.bankTransactionId));
+
     // Generate upload ID for tracking
     const statementUploadId = generateTransactionId('UPLOAD');
 
@@ -89,6 +207,8 @@ export async function POST(request: NextRequest) {
       total: parseResult.transactions.length,
       imported: 0,
       duplicates: 0,
+      suspectedDuplicatesSkipped: 0,
+      suspectedDuplicatesImported: 0,
       failed: 0,
       errors: [] as ImportError[],
     };
@@ -109,6 +229,17 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        const isSuspected = suspectedIds.has(txn.bankTransactionId);
+
+        if (isSuspected && !approvedIds?.has(txn.bankTransactionId)) {
+          importResults.suspectedDuplicatesSkipped++;
+          importResults.errors.push({
+            transactionId: txn.bankTransactionId,
+            error: 'Skipped as a suspected duplicate',
+          });
+          continue;
+        }
+
         // Create bank transaction record
         await prisma.bankTransaction.create({
           data: {
@@ -121,15 +252,25 @@ export async function POST(request: NextRequest) {
             debitAccount: txn.debitAccount,
             creditAccount: txn.creditAccount,
             balance: txn.balance,
+            transactionType: txn.transactionType ?? (txn.amount > 0 ? 'CREDIT' : 'DEBIT'),
+            accountReference: txn.accountReference,
+            counterpartyPhone: txn.counterpartyPhone,
+            counterpartyName: txn.counterpartyName,
             status: 'PENDING',
             statementFileName: file.name,
             statementUploadId,
             rowNumber: txn.rowNumber,
+            importProfile: txn.importProfile,
+            bankAccountId: bankAccount.id,
+            fingerprint: fingerprints.get(txn.bankTransactionId),
             importedBy: user.userId,
           },
         });
 
         importResults.imported++;
+        if (isSuspected) {
+          importResults.suspectedDuplicatesImported++;
+        }
       } catch (error) {
         importResults.failed++;
         importResults.errors.push({
@@ -143,13 +284,17 @@ export async function POST(request: NextRequest) {
     await createAuditLog({
       userId: user.userId,
       action: 'UPLOAD_STATEMENT',
-      description: `Uploaded bank statement: ${file.name} (${importResults.imported} transactions)`,
+      description: `Uploaded bank statement: ${file.name} to ${bankAccount.bankName} ${bankAccount.accountNumber} (${importResults.imported} transactions)`,
       ipAddress: getClientIp(request.headers),
       userAgent: getUserAgent(request.headers),
       metadata: {
         fileName: file.name,
         fileSize: file.size,
         uploadId: statementUploadId,
+        bankAccountId: bankAccount.id,
+        profile: parseResult.profile,
+        openingBalance: parseResult.openingBalance,
+        closingBalance: parseResult.closingBalance,
         results: importResults,
       },
     });
@@ -157,8 +302,17 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       createSuccessResponse(
         {
+          requiresReview: false,
           uploadId: statementUploadId,
           fileName: file.name,
+          bankAccount: {
+            id: bankAccount.id,
+            bankName: bankAccount.bankName,
+            accountNumber: bankAccount.accountNumber,
+          },
+          profile: parseResult.profile,
+          openingBalance: parseResult.openingBalance,
+          closingBalance: parseResult.closingBalance,
           results: importResults,
         },
         `Successfully imported ${importResults.imported} transactions`
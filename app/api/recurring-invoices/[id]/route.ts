@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { updateRecurringInvoiceSchema } from '@/lib/validations';
+import { updateRecurringInvoice } from '@/lib/recurring-invoices';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * GET /api/recurring-invoices/[id]
+ * Template with its lines and run history
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const template = await prisma.recurringInvoice.findUnique({
+      where: { id: params.id },
+      include: {
+        customer: { select: { id: true, name: true, email: true, phone: true } },
+        items: {
+          orderBy: { sortOrder: 'asc' },
+          include: { product: { select: { id: true, sku: true, name: true, price: true } } },
+        },
+        runs: {
+          orderBy: { scheduledFor: 'desc' },
+          take: 50,
+          include: {
+            invoice: { select: { id: true, invoiceNumber: true, totalAmount: true, status: true } },
+          },
+        },
+      },
+    });
+
+    if (!template) {
+      return NextResponse.json(
+        createErrorResponse('Recurring invoice not found', 'NOT_FOUND'),
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(createSuccessResponse(template), { status: 200 });
+  } catch (error) {
+    console.error('Get recurring invoice error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/recurring-invoices/[id]
+ * Edit a template's lines, schedule or delivery, or pause/resume it
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'invoice.edit');
+    const body = await request.json();
+
+    const parsed = updateRecurringInvoiceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const template = await updateRecurringInvoice(params.id, parsed.data);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'UPDATE_RECURRING_INVOICE',
+      entityType: 'RecurringInvoice',
+      entityId: template.id,
+      description: `Recurring invoice updated: ${template.name}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { changes: Object.keys(parsed.data), status: template.status },
+    });
+
+    return NextResponse.json(createSuccessResponse(template), { status: 200 });
+  } catch (error) {
+    console.error('Update recurring invoice error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'INVOICE_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
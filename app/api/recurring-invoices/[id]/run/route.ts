@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { runRecurringInvoice } from '@/lib/recurring-invoices';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+/**
+ * POST /api/recurring-invoices/[id]/run
+ * Issue the template's next scheduled invoice now (or retry a failed run)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await requirePermission(request, 'invoice.create');
+
+    const run = await runRecurringInvoice(params.id, user.userId);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'RUN_RECURRING_INVOICES',
+      entityType: 'RecurringInvoice',
+      entityId: params.id,
+      description: `Recurring invoice run for ${run.scheduledFor.toISOString().slice(0, 10)}: ${run.status}`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { runId: run.id, invoiceId: run.invoiceId, error: run.error },
+    });
+
+    if (run.status === 'FAILED') {
+      return NextResponse.json(
+        createErrorResponse(run.error || 'Recurring invoice run failed', 'RUN_FAILED', { run }),
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(
+      createSuccessResponse(run, 'Invoice issued'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Run recurring invoice error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'INVOICE_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { createRecurringInvoiceSchema } from '@/lib/validations';
+import { createRecurringInvoice } from '@/lib/recurring-invoices';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/recurring-invoices
+ * List recurring invoice templates with their latest run
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission(request, 'invoice.view');
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const customerId = searchParams.get('customerId');
+
+    const templates = await prisma.recurringInvoice.findMany({
+      where: {
+        ...(status ? { status } : {}),
+        ...(customerId ? { customerId } : {}),
+      },
+      include: {
+        customer: { select: { id: true, name: true } },
+        items: { orderBy: { sortOrder: 'asc' } },
+        runs: {
+          orderBy: { scheduledFor: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: [{ status: 'asc' }, { nextRunDate: 'asc' }],
+    });
+
+    return NextResponse.json(createSuccessResponse({ templates }), { status: 200 });
+  } catch (error) {
+    console.error('Get recurring invoices error:', error);
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/recurring-invoices
+ * Create a recurring invoice template
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'invoice.create');
+    const body = await request.json();
+
+    const parsed = createRecurringInvoiceSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        createErrorResponse('Validation error', 'VALIDATION_ERROR', parsed.error.flatten()),
+        { status: 400 }
+      );
+    }
+
+    const template = await createRecurringInvoice(parsed.data, user.userId);
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'CREATE_RECURRING_INVOICE',
+      entityType: 'RecurringInvoice',
+      entityId: template.id,
+      description: `Recurring invoice created: ${template.name} (${template.frequency})`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: { customerId: template.customerId, startDate: template.startDate },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(template, 'Recurring invoice created'),
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create recurring invoice error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'INVOICE_ERROR'),
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
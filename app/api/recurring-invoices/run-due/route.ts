@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/authorization';
+import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
+import { runDueRecurringInvoices } from '@/lib/recurring-invoices';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+
+/**
+ * POST /api/recurring-invoices/run-due
+ * Run every recurring invoice that is due. The scheduler does this daily;
+ * this endpoint is for deployments where an external cron drives it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requirePermission(request, 'invoice.create');
+
+    const results = await runDueRecurringInvoices();
+
+    await createAuditLog({
+      userId: user.userId,
+      action: 'RUN_RECURRING_INVOICES',
+      entityType: 'RecurringInvoice',
+      description: `Recurring invoices run: ${results.issued} issued, ${results.failed} failed`,
+      ipAddress: getClientIp(request.headers),
+      userAgent: getUserAgent(request.headers),
+      metadata: results,
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(results, 'Recurring invoices run'),
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Run due recurring invoices error:', error);
+
+    if (error instanceof Error && error.message.includes('Forbidden')) {
+      return NextResponse.json(
+        createErrorResponse('Insufficient permissions', 'FORBIDDEN'),
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
+      { status: 500 }
+    );
+  }
+}
@@ -21,8 +21,13 @@ export async function GET(request: Request) {
         invoices: {
           include: {
             payments: true,
+            creditAllocations: true,
           },
         },
+        payments: {
+          where: { invoiceId: null, status: 'CONFIRMED', unappliedAmount: { gt: 0 } },
+          select: { unappliedAmount: true },
+        },
       },
       orderBy: { name: 'asc' },
     });
@@ -30,7 +35,7 @@ export async function GET(request: Request) {
     const now = new Date();
     const balances = customers.map((customer) => {
       const invoiceData = customer.invoices.map((invoice) => {
-        const paidAmount = invoice.payments.reduce(
+        const paidAmount = [...invoice.payments, ...invoice.creditAllocations].reduce(
           (sum, payment) => sum + payment.amount,
           0
         );
@@ -48,12 +53,18 @@ export async function GET(request: Request) {
       );
 
       const totalPaid = customer.invoices.reduce((sum, inv) => {
-        const paid = inv.payments.reduce((pSum, p) => pSum + p.amount, 0);
+        const paid = [...inv.payments, ...inv.creditAllocations].reduce((pSum, p) => pSum + p.amount, 0);
         return sum + paid;
       }, 0);
 
       const totalBalance = totalInvoiced - totalPaid;
 
+      // Paid on account and not yet applied to an invoice
+      const unappliedCredit = customer.payments.reduce(
+        (sum, payment) => sum + payment.unappliedAmount,
+        0
+      );
+
       let current = 0;
       let days30 = 0;
       let days60 = 0;
@@ -85,6 +96,8 @@ export async function GET(request: Request) {
         totalInvoiced,
         totalPaid,
         totalBalance,
+        unappliedCredit,
+        netBalance: totalBalance - unappliedCredit,
         current,
         days30,
         days60,
@@ -1,42 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Decimal from 'decimal.js';
 import prisma from '@/lib/prisma';
-import { requirePermission } from '@/lib/authorization';
+import { hasPermission, requirePermission } from '@/lib/authorization';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { allocateDocumentNumber } from '@/lib/document-sequences';
 import type { TransactionClient } from '@/lib/types';
 import { postInvoiceCreated } from '@/lib/accounting';
-
-const DELIVERY_PREFIX = 'DEL-';
-const INVOICE_PREFIX = 'INV-';
-
-const getNextDeliveryNumber = async (tx: Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>) => {
-  const latest = await tx.salesDelivery.findFirst({
-    orderBy: { createdAt: 'desc' },
-    select: { deliveryNumber: true },
-  });
-
-  const lastDigits = latest?.deliveryNumber?.match(/(\d+)$/)?.[1];
-  const lastValue = lastDigits ? parseInt(lastDigits, 10) : 0;
-  const count = await tx.salesDelivery.count();
-  const nextValue = Math.max(lastValue, count) + 1;
-
-  return `${DELIVERY_PREFIX}${nextValue.toString().padStart(6, '0')}`;
-};
-
-const getNextInvoiceNumber = async (tx: Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>) => {
-  const latest = await tx.invoice.findFirst({
-    orderBy: { createdAt: 'desc' },
-    select: { invoiceNumber: true },
-  });
-
-  const lastDigits = latest?.invoiceNumber?.match(/(\d+)$/)?.[1];
-  const lastValue = lastDigits ? parseInt(lastDigits, 10) : 0;
-  const count = await tx.invoice.count();
-  const nextValue = Math.max(lastValue, count) + 1;
-
-  return `${INVOICE_PREFIX}${nextValue.toString().padStart(6, '0')}`;
-};
+import { queueFiscalDocument, submitQueuedFiscalDocument } from '@/lib/etims';
+import { checkCreditLimit, logCreditOverride, type CreditCheckResult } from '@/lib/credit-control';
+import { CreditControlError } from '@/lib/errors';
+import { applyCustomerCredit, isAutoApplyCustomerCreditEnabled } from '@/lib/customer-credit';
 
 /**
  * GET /api/sales-orders/:id
@@ -127,6 +101,21 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
         return { error: 'INVALID_STATE' } as const;
       }
 
+      // Checked again on approval, as the customer's position may have changed since submission
+      let creditCheck: CreditCheckResult | null = null;
+      if (action === 'SUBMIT' || action === 'APPROVE') {
+        creditCheck = await checkCreditLimit(
+          order.customerId,
+          order.totalAmount,
+          {
+            excludeSalesOrderId: order.id,
+            overrideReason: body?.creditOverrideReason,
+            canOverride: hasPermission(user.role, 'credit.override'),
+          },
+          tx
+        );
+      }
+
       if (action === 'CANCEL' && !['DRAFT', 'PENDING_APPROVAL'].includes(order.status)) {
         return { error: 'INVALID_STATE' } as const;
       }
@@ -149,7 +138,7 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
           });
         }
 
-        const deliveryNumber = await getNextDeliveryNumber(tx);
+        const deliveryNumber = await allocateDocumentNumber(tx, 'DELIVERY');
 
         await tx.salesDelivery.create({
           data: {
@@ -170,7 +159,7 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
       }
 
       if (action === 'INVOICE') {
-        const invoiceNumber = await getNextInvoiceNumber(tx);
+        const invoiceNumber = await allocateDocumentNumber(tx, 'INVOICE');
         const issueDate = new Date();
 
         const invoice = await tx.invoice.create({
@@ -213,6 +202,8 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
           data: { invoiceId: invoice.id },
         });
 
+        await queueFiscalDocument(tx, 'INVOICE', invoice.id, invoice.invoiceNumber);
+
         try {
           await postInvoiceCreated(
             invoice.id,
@@ -225,6 +216,10 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
         } catch (ledgerError) {
           console.error('Ledger posting failed for sales order invoice:', ledgerError);
         }
+
+        if (isAutoApplyCustomerCreditEnabled()) {
+          await applyCustomerCredit(tx, invoice.id, user.userId, { automatic: true });
+        }
       }
 
       const statusMap: Record<Action, { status: string; approvalStatus?: string }> = {
@@ -254,7 +249,7 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
         },
       });
 
-      return { order: updatedOrder } as const;
+      return { order: updatedOrder, creditCheck } as const;
     });
 
     if ('error' in result) {
@@ -297,15 +292,47 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
       description: `Sales order ${action.toLowerCase()}: ${result.order.orderNumber}`,
       ipAddress: getClientIp(request.headers),
       userAgent: getUserAgent(request.headers),
-      metadata: { orderNumber: result.order.orderNumber },
+      metadata: {
+        orderNumber: result.order.orderNumber,
+        ...(result.creditCheck?.status === 'WARNING' && { creditWarning: result.creditCheck.message }),
+      },
     });
 
+    if (result.creditCheck) {
+      await logCreditOverride(result.creditCheck, {
+        userId: user.userId,
+        entityType: 'SalesOrder',
+        entityId: result.order.id,
+        document: `sales order ${result.order.orderNumber}`,
+        ipAddress: getClientIp(request.headers),
+        userAgent: getUserAgent(request.headers),
+      });
+    }
+
+    if (action === 'INVOICE' && result.order.invoiceId) {
+      void submitQueuedFiscalDocument({ invoiceId: result.order.invoiceId });
+    }
+
     return NextResponse.json(
-      createSuccessResponse(result.order, `Sales order ${action.toLowerCase()}`),
+      createSuccessResponse(
+        {
+          ...result.order,
+          creditWarning: result.creditCheck?.status === 'WARNING' ? result.creditCheck.message : undefined,
+        },
+        `Sales order ${action.toLowerCase()}`
+      ),
       { status: 200 }
     );
   } catch (error) {
     console.error('Update sales order error:', error);
+
+    if (error instanceof CreditControlError) {
+      return NextResponse.json(
+        createErrorResponse(error.message, error.code, error.details),
+        { status: error.statusCode }
+      );
+    }
+
     return NextResponse.json(
       createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
       { status: 500 }
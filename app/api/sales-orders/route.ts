@@ -5,24 +5,9 @@ import { requirePermission } from '@/lib/authorization';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createSalesOrderSchema } from '@/lib/validations';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { allocateDocumentNumber } from '@/lib/document-sequences';
 import type { TransactionClient } from '@/lib/types';
 
-const SALES_ORDER_PREFIX = 'SO-';
-
-const getNextSalesOrderNumber = async (tx: Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>) => {
-  const latest = await tx.salesOrder.findFirst({
-    orderBy: { createdAt: 'desc' },
-    select: { orderNumber: true },
-  });
-
-  const lastDigits = latest?.orderNumber?.match(/(\d+)$/)?.[1];
-  const lastValue = lastDigits ? parseInt(lastDigits, 10) : 0;
-  const count = await tx.salesOrder.count();
-  const nextValue = Math.max(lastValue, count) + 1;
-
-  return `${SALES_ORDER_PREFIX}${nextValue.toString().padStart(6, '0')}`;
-};
-
 /**
  * GET /api/sales-orders
  * List sales orders
@@ -142,7 +127,7 @@ export async function POST(request: NextRequest) {
     }
 
     const result = await prisma.$transaction(async (tx: TransactionClient) => {
-      const orderNumber = await getNextSalesOrderNumber(tx);
+      const orderNumber = await allocateDocumentNumber(tx, 'SALES_ORDER');
 
       let subtotal = new Decimal(0);
       const itemsPayload = items.map((item) => {
@@ -90,7 +90,10 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
 
       const updatedQuote = await tx.salesQuote.update({
         where: { id: quote.id },
-        data: { status: statusMap[action as Action] },
+        data: {
+          status: statusMap[action as Action],
+          acceptedAt: action === 'ACCEPT' ? new Date() : undefined,
+        },
         include: {
           customer: true,
           items: { include: { product: true } },
@@ -5,24 +5,9 @@ import { requirePermission } from '@/lib/authorization';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createSalesQuoteSchema } from '@/lib/validations';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { allocateDocumentNumber } from '@/lib/document-sequences';
 import type { TransactionClient } from '@/lib/types';
 
-const SALES_QUOTE_PREFIX = 'SQ-';
-
-const getNextSalesQuoteNumber = async (tx: Omit<typeof prisma, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>) => {
-  const latest = await tx.salesQuote.findFirst({
-    orderBy: { createdAt: 'desc' },
-    select: { quoteNumber: true },
-  });
-
-  const lastDigits = latest?.quoteNumber?.match(/(\d+)$/)?.[1];
-  const lastValue = lastDigits ? parseInt(lastDigits, 10) : 0;
-  const count = await tx.salesQuote.count();
-  const nextValue = Math.max(lastValue, count) + 1;
-
-  return `${SALES_QUOTE_PREFIX}${nextValue.toString().padStart(6, '0')}`;
-};
-
 /**
  * GET /api/sales-quotes
  * List sales quotes
@@ -114,7 +99,7 @@ export async function POST(request: NextRequest) {
     }
 
     const result = await prisma.$transaction(async (tx: TransactionClient) => {
-      const quoteNumber = await getNextSalesQuoteNumber(tx);
+      const quoteNumber = await allocateDocumentNumber(tx, 'SALES_QUOTE');
 
       let subtotal = new Decimal(0);
       const itemsPayload = items.map((item) => {
@@ -4,17 +4,10 @@ import { requirePermission } from '@/lib/authorization';
 import { createProductReturnSchema } from '@/lib/validations';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { allocateDocumentNumber } from '@/lib/document-sequences';
 import type { TransactionClient } from '@/lib/types';
 import type { Prisma } from '@prisma/client';
 
-function buildReturnNumber(): string {
-  const timestamp = Date.now();
-  const random = Math.floor(Math.random() * 1000)
-    .toString()
-    .padStart(3, '0');
-  return `RET-${timestamp}-${random}`;
-}
-
 // GET /api/stock/returns - List all product returns
 export async function GET(request: NextRequest) {
   try {
@@ -117,7 +110,7 @@ export async function POST(request: NextRequest) {
     const productReturn = await prisma.$transaction(async (tx: TransactionClient) => {
       const created = await tx.productReturn.create({
         data: {
-          returnNumber: buildReturnNumber(),
+          returnNumber: await allocateDocumentNumber(tx, 'PRODUCT_RETURN'),
           returnType,
           referenceType,
           referenceId,
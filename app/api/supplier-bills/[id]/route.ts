@@ -3,6 +3,8 @@ import prisma from '@/lib/prisma';
 import { requirePermission } from '@/lib/authorization';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { postSupplierBillApproved } from '@/lib/accounting';
+import { isBaseCurrency } from '@/lib/exchange-rates';
 import type { TransactionClient } from '@/lib/types';
 
 /**
@@ -40,7 +42,8 @@ export async function GET(request: NextRequest, context: { params: { id: string
 
 /**
  * PATCH /api/supplier-bills/:id
- * Update supplier bill workflow
+ * Update supplier bill workflow. Approving a bill opens it for payment and
+ * posts it to payables.
  */
 export async function PATCH(request: NextRequest, context: { params: { id: string } }) {
   try {
@@ -114,10 +117,20 @@ export async function PATCH(request: NextRequest, context: { params: { id: strin
       }
 
       if (action === 'APPROVE') {
+        const entries = await postSupplierBillApproved(
+          bill.totalAmount,
+          user.userId,
+          `Supplier bill ${bill.billNumber} approved`,
+          bill.issueDate,
+          tx,
+          isBaseCurrency(bill.currency) ? undefined : { currency: bill.currency, rate: bill.exchangeRate }
+        );
+
         updateData.approvalStatus = 'APPROVED';
         updateData.approvedBy = user.userId;
         updateData.approvedAt = new Date();
         updateData.status = 'OPEN';
+        updateData.ledgerTransactionId = entries[0].transactionId;
       }
 
       if (action === 'MATCH') {
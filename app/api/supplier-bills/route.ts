@@ -4,24 +4,10 @@ import { requirePermission } from '@/lib/authorization';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createSupplierBillSchema } from '@/lib/validations';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
+import { allocateDocumentNumber } from '@/lib/document-sequences';
+import { resolveDocumentCurrency } from '@/lib/exchange-rates';
 import type { TransactionClient } from '@/lib/types';
 
-const BILL_PREFIX = 'BILL-';
-
-const getNextBillNumber = async (tx: TransactionClient) => {
-  const latest = await tx.supplierBill.findFirst({
-    orderBy: { createdAt: 'desc' },
-    select: { billNumber: true },
-  });
-
-  const lastDigits = latest?.billNumber?.match(/(\d+)$/)?.[1];
-  const lastValue = lastDigits ? parseInt(lastDigits, 10) : 0;
-  const count = await tx.supplierBill.count();
-  const nextValue = Math.max(lastValue, count) + 1;
-
-  return `${BILL_PREFIX}${nextValue.toString().padStart(6, '0')}`;
-};
-
 /**
  * GET /api/supplier-bills
  * List supplier bills
@@ -98,7 +84,22 @@ export async function POST(request: NextRequest) {
     const { supplierId, totalAmount, issueDate, dueDate, purchaseOrderId, reference, notes } = parsed.data;
 
     const result = await prisma.$transaction(async (tx: TransactionClient) => {
-      const billNumber = await getNextBillNumber(tx);
+      // A bill raised from a purchase order is in the order's currency
+      const purchaseOrder = purchaseOrderId
+        ? await tx.purchaseOrder.findUnique({ where: { id: purchaseOrderId }, select: { currency: true } })
+        : null;
+
+      if (purchaseOrder && parsed.data.currency && parsed.data.currency !== purchaseOrder.currency) {
+        throw new Error(`The purchase order is in ${purchaseOrder.currency}`);
+      }
+
+      const currency = await resolveDocumentCurrency(
+        parsed.data.currency ?? purchaseOrder?.currency,
+        new Date(issueDate),
+        parsed.data.exchangeRate,
+        tx
+      );
+      const billNumber = await allocateDocumentNumber(tx, 'SUPPLIER_BILL', { date: new Date(issueDate) });
 
       return tx.supplierBill.create({
         data: {
@@ -108,6 +109,7 @@ export async function POST(request: NextRequest) {
           totalAmount,
           paidAmount: 0,
           balanceAmount: totalAmount,
+          ...currency,
           status: 'DRAFT',
           approvalStatus: 'NOT_SUBMITTED',
           issueDate: new Date(issueDate),
@@ -137,6 +139,14 @@ export async function POST(request: NextRequest) {
     );
   } catch (error) {
     console.error('Create supplier bill error:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'SUPPLIER_BILL_ERROR'),
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
       { status: 500 }
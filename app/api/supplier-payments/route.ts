@@ -4,25 +4,9 @@ import { requirePermission } from '@/lib/authorization';
 import { createAuditLog, getClientIp, getUserAgent } from '@/lib/audit';
 import { createSupplierPaymentSchema } from '@/lib/validations';
 import { createErrorResponse, createSuccessResponse } from '@/lib/utils';
-import Decimal from 'decimal.js';
+import { recordSupplierPayment } from '@/lib/supplier-payments';
 import type { TransactionClient } from '@/lib/types';
 
-const PAYMENT_PREFIX = 'SUPPAY-';
-
-const getNextPaymentNumber = async (tx: TransactionClient) => {
-  const latest = await tx.supplierPayment.findFirst({
-    orderBy: { createdAt: 'desc' },
-    select: { paymentNumber: true },
-  });
-
-  const lastDigits = latest?.paymentNumber?.match(/(\d+)$/)?.[1];
-  const lastValue = lastDigits ? parseInt(lastDigits, 10) : 0;
-  const count = await tx.supplierPayment.count();
-  const nextValue = Math.max(lastValue, count) + 1;
-
-  return `${PAYMENT_PREFIX}${nextValue.toString().padStart(6, '0')}`;
-};
-
 /**
  * POST /api/supplier-payments
  * Record supplier payment
@@ -55,40 +39,16 @@ export async function POST(request: NextRequest) {
         return { error: 'INVALID_STATE' } as const;
       }
 
-      const paymentNumber = await getNextPaymentNumber(tx);
-      const paidAmount = new Decimal(bill.paidAmount).plus(amount);
-      const balanceAmount = new Decimal(bill.totalAmount).minus(paidAmount);
-
-      const payment = await tx.supplierPayment.create({
-        data: {
-          paymentNumber,
-          supplierId: bill.supplierId,
-          billId: bill.id,
-          amount,
-          paymentDate: new Date(paymentDate),
-          paymentMethod: paymentMethod || null,
-          reference: reference || null,
-          notes: notes || null,
-          createdBy: user.userId,
-        },
-      });
-
-      const nextStatus = balanceAmount.lte(0)
-        ? 'PAID'
-        : paidAmount.gt(0)
-          ? 'PARTIALLY_PAID'
-          : 'OPEN';
-
-      const updatedBill = await tx.supplierBill.update({
-        where: { id: bill.id },
-        data: {
-          paidAmount: paidAmount.toNumber(),
-          balanceAmount: Math.max(balanceAmount.toNumber(), 0),
-          status: nextStatus,
-        },
+      return recordSupplierPayment(tx, {
+        bill,
+        amount,
+        paymentDate: new Date(paymentDate),
+        paymentMethod,
+        reference,
+        notes,
+        exchangeRate: parsed.data.exchangeRate,
+        createdBy: user.userId,
       });
-
-      return { payment, bill: updatedBill } as const;
     });
 
     if ('error' in result) {
@@ -122,6 +82,14 @@ export async function POST(request: NextRequest) {
     );
   } catch (error) {
     console.error('Record supplier payment error:', error);
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        createErrorResponse(error.message, 'SUPPLIER_PAYMENT_ERROR'),
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       createErrorResponse('Internal server error', 'INTERNAL_ERROR'),
       { status: 500 }
@@ -11,8 +11,8 @@ export default function Header() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const pathname = usePathname();
 
-  // Hide header on login page
-  if (pathname === '/login') {
+  // Hide header on login page and the customer portal
+  if (pathname === '/login' || pathname?.startsWith('/portal/')) {
     return null;
   }
 
@@ -11,6 +11,12 @@ import {
   Clock,
   CheckCircle,
   AlertTriangle,
+  X,
+  Download,
+  ShieldAlert,
+  Link2,
+  Copy,
+  Wallet,
 } from 'lucide-react';
 import Link from 'next/link';
 import toast from 'react-hot-toast';
@@ -36,8 +42,63 @@ interface Invoice {
   issueDate: string;
   dueDate: string;
   totalPaid?: number;
+  balanceAmount?: number;
+  currency?: string;
 }
 
+interface CustomerAlias {
+  id: string;
+  alias: string;
+}
+
+interface CustomerCredit {
+  creditLimit: number | null;
+  creditLimitAction: 'WARN' | 'BLOCK' | 'OVERRIDE' | null;
+  defaultCreditLimitAction: 'WARN' | 'BLOCK' | 'OVERRIDE';
+  creditHold: boolean;
+  creditHoldReason: string | null;
+  creditHoldAt: string | null;
+  exposure: { outstandingInvoices: number; openOrders: number; unappliedCredit: number; total: number };
+  available: number | null;
+}
+
+interface UnappliedCredit {
+  total: number;
+  payments: {
+    id: string;
+    paymentDate: string;
+    paymentMethod: string;
+    reference: string;
+    amount: number;
+    unappliedAmount: number;
+  }[];
+  allocations: {
+    id: string;
+    amount: number;
+    isAutomatic: boolean;
+    allocatedAt: string;
+    payment: { reference: string };
+    invoice: { invoiceNumber: string };
+  }[];
+}
+
+interface PortalLink {
+  id: string;
+  expiresAt: string;
+  sentVia: string | null;
+  sentTo: string | null;
+  revokedAt: string | null;
+  lastAccessedAt: string | null;
+  accessCount: number;
+  createdAt: string;
+}
+
+const CREDIT_LIMIT_ACTION_LABELS = {
+  WARN: 'Warn',
+  BLOCK: 'Block',
+  OVERRIDE: 'Manager override',
+};
+
 interface CustomerPerformance {
   totalInvoices: number;
   paidInvoices: number;
@@ -63,6 +124,24 @@ export default function CustomerDetailPage() {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [confirmName, setConfirmName] = useState('');
   const [deleting, setDeleting] = useState(false);
+  const [aliases, setAliases] = useState<CustomerAlias[]>([]);
+  const [newAlias, setNewAlias] = useState('');
+  const [statementFrom, setStatementFrom] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1).toLocaleDateString('en-CA');
+  });
+  const [statementTo, setStatementTo] = useState(() => new Date().toLocaleDateString('en-CA'));
+  const [statementCurrency, setStatementCurrency] = useState('');
+  const [downloadingStatement, setDownloadingStatement] = useState<string | null>(null);
+  const [credit, setCredit] = useState<CustomerCredit | null>(null);
+  const [creditForm, setCreditForm] = useState({ creditLimit: '', creditLimitAction: '', creditHoldReason: '' });
+  const [savingCredit, setSavingCredit] = useState(false);
+  const [portalLinks, setPortalLinks] = useState<PortalLink[]>([]);
+  const [portalUrl, setPortalUrl] = useState<string | null>(null);
+  const [sharingPortal, setSharingPortal] = useState(false);
+  const [unappliedCredit, setUnappliedCredit] = useState<UnappliedCredit | null>(null);
+  const [applyCreditForm, setApplyCreditForm] = useState({ invoiceId: '', amount: '' });
+  const [applyingCredit, setApplyingCredit] = useState(false);
 
   const fetchCustomerDetails = useCallback(async () => {
     try {
@@ -140,6 +219,75 @@ export default function CustomerDetailPage() {
     }
   }, [customerId]);
 
+  const fetchAliases = useCallback(async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/customers/${customerId}/aliases`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch aliases');
+
+      const data = await response.json();
+      setAliases(data.data.aliases || []);
+    } catch (error) {
+      console.error('Error fetching aliases:', error);
+    }
+  }, [customerId]);
+
+  const fetchCredit = useCallback(async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/customers/${customerId}/credit`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch credit');
+
+      const data = await response.json();
+      setCredit(data.data);
+      setCreditForm({
+        creditLimit: data.data.creditLimit === null ? '' : String(data.data.creditLimit),
+        creditLimitAction: data.data.creditLimitAction || '',
+        creditHoldReason: data.data.creditHoldReason || '',
+      });
+    } catch (error) {
+      console.error('Error fetching credit:', error);
+    }
+  }, [customerId]);
+
+  const fetchUnappliedCredit = useCallback(async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/customers/${customerId}/unapplied-credit`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setUnappliedCredit(data.data);
+    } catch (error) {
+      console.error('Error fetching unapplied credit:', error);
+    }
+  }, [customerId]);
+
+  const fetchPortalLinks = useCallback(async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/customers/${customerId}/portal-links`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setPortalLinks(data.data.links || []);
+    } catch (error) {
+      console.error('Error fetching portal links:', error);
+    }
+  }, [customerId]);
+
   useEffect(() => {
     const userData = localStorage.getItem('user');
     if (userData) {
@@ -147,7 +295,242 @@ export default function CustomerDetailPage() {
       setUserRole(user.role);
     }
     fetchCustomerDetails();
-  }, [fetchCustomerDetails]);
+    fetchAliases();
+    fetchCredit();
+    fetchUnappliedCredit();
+    fetchPortalLinks();
+  }, [fetchCustomerDetails, fetchAliases, fetchCredit, fetchUnappliedCredit, fetchPortalLinks]);
+
+  const handleSharePortal = async (sendVia?: 'SMS' | 'EMAIL') => {
+    try {
+      setSharingPortal(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/customers/${customerId}/portal-links`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ sendVia }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to create portal link');
+      }
+
+      if (sendVia) {
+        toast.success(`Portal link sent to ${data.data.link.sentTo}`);
+      } else {
+        setPortalUrl(data.data.url);
+        await navigator.clipboard?.writeText(data.data.url).catch(() => undefined);
+        toast.success('Portal link copied');
+      }
+      fetchPortalLinks();
+    } catch (error) {
+      console.error('Error sharing portal:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create portal link');
+    } finally {
+      setSharingPortal(false);
+    }
+  };
+
+  const handleRevokePortalLink = async (linkId: string) => {
+    if (!confirm('Revoke this link? The customer will no longer be able to use it.')) return;
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/customers/${customerId}/portal-links/${linkId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to revoke link');
+
+      toast.success('Portal link revoked');
+      fetchPortalLinks();
+    } catch (error) {
+      console.error('Error revoking portal link:', error);
+      toast.error('Failed to revoke link');
+    }
+  };
+
+  const saveCredit = async (changes: Record<string, unknown>, message: string) => {
+    try {
+      setSavingCredit(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/customers/${customerId}/credit`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to update credit');
+      }
+
+      toast.success(message);
+      fetchCredit();
+      fetchCustomerDetails();
+    } catch (error) {
+      console.error('Error updating credit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update credit');
+    } finally {
+      setSavingCredit(false);
+    }
+  };
+
+  const handleSaveCreditLimit = () => {
+    const creditLimit = creditForm.creditLimit.trim() === '' ? null : Number(creditForm.creditLimit);
+    if (creditLimit !== null && (Number.isNaN(creditLimit) || creditLimit < 0)) {
+      toast.error('Enter a valid credit limit');
+      return;
+    }
+
+    saveCredit(
+      { creditLimit, creditLimitAction: creditForm.creditLimitAction || null },
+      'Credit limit saved'
+    );
+  };
+
+  const handleToggleCreditHold = () => {
+    if (!credit) return;
+
+    if (!credit.creditHold && !creditForm.creditHoldReason.trim()) {
+      toast.error('Give a reason for the credit hold');
+      return;
+    }
+
+    saveCredit(
+      { creditHold: !credit.creditHold, creditHoldReason: creditForm.creditHoldReason.trim() || null },
+      credit.creditHold ? 'Credit hold lifted' : 'Customer placed on credit hold'
+    );
+  };
+
+  const handleApplyCredit = async () => {
+    if (!applyCreditForm.invoiceId) {
+      toast.error('Select an invoice');
+      return;
+    }
+
+    const amount = applyCreditForm.amount.trim() === '' ? undefined : Number(applyCreditForm.amount);
+    if (amount !== undefined && (Number.isNaN(amount) || amount <= 0)) {
+      toast.error('Enter a valid amount');
+      return;
+    }
+
+    try {
+      setApplyingCredit(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/customers/${customerId}/unapplied-credit`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ invoiceId: applyCreditForm.invoiceId, amount }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to apply credit');
+      }
+
+      toast.success(`${formatCurrency(data.data.amount)} applied to ${data.data.invoice.invoiceNumber}`);
+      setApplyCreditForm({ invoiceId: '', amount: '' });
+      fetchUnappliedCredit();
+      fetchCustomerDetails();
+      fetchCredit();
+    } catch (error) {
+      console.error('Error applying credit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to apply credit');
+    } finally {
+      setApplyingCredit(false);
+    }
+  };
+
+  const handleRefundCredit = async (paymentId: string, amount: number) => {
+    const reason = prompt(`Refund ${formatCurrency(amount)} of unapplied credit. Reason:`);
+    if (!reason || reason.trim().length < 5) {
+      if (reason !== null) toast.error('Give a reason of at least 5 characters');
+      return;
+    }
+
+    try {
+      setApplyingCredit(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/payments/refund', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ paymentId, reason: reason.trim() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to refund credit');
+      }
+
+      toast.success('Credit refunded');
+      fetchUnappliedCredit();
+      fetchCredit();
+    } catch (error) {
+      console.error('Error refunding credit:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to refund credit');
+    } finally {
+      setApplyingCredit(false);
+    }
+  };
+
+  const handleAddAlias = async () => {
+    if (!newAlias.trim()) return;
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/customers/${customerId}/aliases`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ alias: newAlias }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to add alias');
+      }
+
+      setAliases((prev) => [...prev, data.data].sort((a, b) => a.alias.localeCompare(b.alias)));
+      setNewAlias('');
+    } catch (error) {
+      console.error('Error adding alias:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add alias');
+    }
+  };
+
+  const handleRemoveAlias = async (aliasId: string) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/customers/${customerId}/aliases/${aliasId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to remove alias');
+
+      setAliases((prev) => prev.filter((alias) => alias.id !== aliasId));
+    } catch (error) {
+      console.error('Error removing alias:', error);
+      toast.error('Failed to remove alias');
+    }
+  };
 
   const handleDeleteCustomer = async () => {
     if (confirmName !== customer?.name) {
@@ -178,7 +561,46 @@ export default function CustomerDetailPage() {
     }
   };
 
+  const statementCurrencies = Array.from(
+    new Set(invoices.map((invoice) => invoice.currency).filter((currency): currency is string => !!currency))
+  ).sort();
+
+  const downloadStatement = async (format: 'pdf' | 'xlsx') => {
+    try {
+      setDownloadingStatement(format);
+      const token = localStorage.getItem('token');
+      const params = new URLSearchParams({ from: statementFrom, to: statementTo, format });
+      if (statementCurrency) params.set('currency', statementCurrency);
+      const response = await fetch(`/api/customers/${customerId}/statement?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to download statement');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `Statement_${customer?.customerCode || customerId}_${statementTo}${statementCurrency ? `_${statementCurrency}` : ''}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Error downloading statement:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to download statement');
+    } finally {
+      setDownloadingStatement(null);
+    }
+  };
+
   const canDelete = userRole === 'ADMIN' || userRole === 'OWNER';
+  const canManageCredit = userRole === 'ADMIN' || userRole === 'FINANCE_MANAGER';
+  const canSharePortal = canManageCredit || userRole === 'FINANCE_STAFF';
+  const canCollectPayments = canManageCredit || userRole === 'FINANCE_STAFF';
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-KE', {
@@ -263,6 +685,43 @@ export default function CustomerDetailPage() {
                 <p className="text-xs font-semibold text-gray-600 uppercase">Billing Address</p>
                 <p className="text-gray-900 mt-1">{customer.billingAddress || 'Not provided'}</p>
               </div>
+
+              <div>
+                <p className="text-xs font-semibold text-gray-600 uppercase">Payment Aliases</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Other names this customer pays under, used for bank statement matching
+                </p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {aliases.map((alias) => (
+                    <span
+                      key={alias.id}
+                      className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-gray-100 text-gray-700 text-xs font-medium"
+                    >
+                      {alias.alias}
+                      <button
+                        onClick={() => handleRemoveAlias(alias.id)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove alias"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                  {aliases.length === 0 && <span className="text-sm text-gray-500">None</span>}
+                </div>
+                <div className="flex gap-2 mt-2">
+                  <input
+                    value={newAlias}
+                    onChange={(e) => setNewAlias(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddAlias()}
+                    className="input"
+                    placeholder="e.g. SAFARI DISTR"
+                  />
+                  <button onClick={handleAddAlias} className="btn-secondary">
+                    Add
+                  </button>
+                </div>
+              </div>
             </div>
           </div>
 
@@ -290,6 +749,329 @@ export default function CustomerDetailPage() {
               </div>
             </div>
 
+            {/* Statement */}
+            <div className="bg-white/80 backdrop-blur rounded-lg shadow-sm border border-white/70 p-6">
+              <h3 className="font-semibold text-gray-900 mb-4">Statement of Account</h3>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={statementFrom}
+                    onChange={(e) => setStatementFrom(e.target.value)}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+                  <input
+                    type="date"
+                    value={statementTo}
+                    onChange={(e) => setStatementTo(e.target.value)}
+                    className="input"
+                  />
+                </div>
+              </div>
+              {statementCurrencies.length > 1 && (
+                <div className="mt-3">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Currency</label>
+                  <select
+                    value={statementCurrency}
+                    onChange={(e) => setStatementCurrency(e.target.value)}
+                    className="input"
+                  >
+                    <option value="">Base currency</option>
+                    {statementCurrencies.map((currency) => (
+                      <option key={currency} value={currency}>
+                        {currency}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="flex gap-2 mt-4">
+                <button
+                  onClick={() => downloadStatement('pdf')}
+                  disabled={downloadingStatement !== null}
+                  className="btn-secondary flex-1"
+                >
+                  <Download className="w-4 h-4" />
+                  {downloadingStatement === 'pdf' ? 'Preparing...' : 'PDF'}
+                </button>
+                <button
+                  onClick={() => downloadStatement('xlsx')}
+                  disabled={downloadingStatement !== null}
+                  className="btn-secondary flex-1"
+                >
+                  <Download className="w-4 h-4" />
+                  {downloadingStatement === 'xlsx' ? 'Preparing...' : 'Excel'}
+                </button>
+              </div>
+            </div>
+
+            {/* Credit Control */}
+            {credit && (
+              <div className={`rounded-lg p-6 border ${credit.creditHold ? 'bg-red-50 border-red-200' : 'bg-white/80 backdrop-blur border-white/70 shadow-sm'}`}>
+                <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                  <ShieldAlert className={`w-5 h-5 ${credit.creditHold ? 'text-red-600' : 'text-gray-500'}`} />
+                  Credit Control
+                  {credit.creditHold && <span className="badge-danger">On hold</span>}
+                </h3>
+
+                {credit.creditHold && (
+                  <p className="text-sm text-red-700 mb-4">
+                    {credit.creditHoldReason}
+                    {credit.creditHoldAt && ` (since ${formatDate(credit.creditHoldAt)})`}
+                  </p>
+                )}
+
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">Outstanding invoices</span>
+                    <span className="font-medium text-gray-900">{formatCurrency(credit.exposure.outstandingInvoices)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">Open sales orders</span>
+                    <span className="font-medium text-gray-900">{formatCurrency(credit.exposure.openOrders)}</span>
+                  </div>
+                  {credit.exposure.unappliedCredit > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-700">Unapplied credit</span>
+                      <span className="font-medium text-green-700">-{formatCurrency(credit.exposure.unappliedCredit)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between pt-2 border-t border-gray-200">
+                    <span className="text-gray-700">Available credit</span>
+                    <span className={`font-bold ${credit.available !== null && credit.available < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {credit.available === null ? 'No limit' : formatCurrency(credit.available)}
+                    </span>
+                  </div>
+                </div>
+
+                {canManageCredit && (
+                  <div className="space-y-3 mt-4 pt-4 border-t border-gray-200">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Credit Limit</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={creditForm.creditLimit}
+                          onChange={(e) => setCreditForm({ ...creditForm, creditLimit: e.target.value })}
+                          className="input"
+                          placeholder="No limit"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">When Exceeded</label>
+                        <select
+                          value={creditForm.creditLimitAction}
+                          onChange={(e) => setCreditForm({ ...creditForm, creditLimitAction: e.target.value })}
+                          className="input"
+                        >
+                          <option value="">
+                            Default ({CREDIT_LIMIT_ACTION_LABELS[credit.defaultCreditLimitAction]})
+                          </option>
+                          {Object.entries(CREDIT_LIMIT_ACTION_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    <button onClick={handleSaveCreditLimit} disabled={savingCredit} className="btn-secondary w-full">
+                      Save Limit
+                    </button>
+
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Hold Reason</label>
+                      <input
+                        value={creditForm.creditHoldReason}
+                        onChange={(e) => setCreditForm({ ...creditForm, creditHoldReason: e.target.value })}
+                        className="input"
+                        placeholder="e.g. Cheque bounced, account under review"
+                        disabled={credit.creditHold}
+                      />
+                    </div>
+                    <button
+                      onClick={handleToggleCreditHold}
+                      disabled={savingCredit}
+                      className={credit.creditHold ? 'btn-secondary w-full' : 'btn-primary w-full'}
+                    >
+                      {credit.creditHold ? 'Lift Credit Hold' : 'Place on Credit Hold'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Unapplied Credit */}
+            {unappliedCredit && (unappliedCredit.total > 0 || unappliedCredit.allocations.length > 0) && (
+              <div className="bg-white/80 backdrop-blur rounded-lg shadow-sm border border-white/70 p-6">
+                <h3 className="font-semibold text-gray-900 mb-1 flex items-center gap-2">
+                  <Wallet className="w-5 h-5 text-gray-500" />
+                  Unapplied Credit
+                </h3>
+                <p className="text-xs text-gray-500 mb-4">
+                  Paid on account or overpaid, held on customer deposits until applied to an invoice or refunded
+                </p>
+                <div className="flex justify-between text-sm mb-3">
+                  <span className="text-gray-700">Available</span>
+                  <span className="font-bold text-green-700">{formatCurrency(unappliedCredit.total)}</span>
+                </div>
+
+                {unappliedCredit.payments.length > 0 && (
+                  <ul className="space-y-2 text-xs mb-4">
+                    {unappliedCredit.payments.map((payment) => (
+                      <li key={payment.id} className="flex items-center justify-between gap-2">
+                        <div>
+                          <p className="text-gray-900">
+                            {payment.reference} · {formatDate(payment.paymentDate)}
+                          </p>
+                          <p className="text-gray-500">
+                            {formatCurrency(payment.unappliedAmount)} of {formatCurrency(payment.amount)} unapplied
+                          </p>
+                        </div>
+                        {canCollectPayments && (
+                          <button
+                            onClick={() => handleRefundCredit(payment.id, payment.unappliedAmount)}
+                            disabled={applyingCredit}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            Refund
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {canCollectPayments && unappliedCredit.total > 0 && (
+                  <div className="space-y-3 pt-4 border-t border-gray-200">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Invoice</label>
+                        <select
+                          value={applyCreditForm.invoiceId}
+                          onChange={(e) => setApplyCreditForm({ ...applyCreditForm, invoiceId: e.target.value })}
+                          className="input"
+                        >
+                          <option value="">Select...</option>
+                          {currentInvoices
+                            .filter((invoice) => invoice.status !== 'DRAFT')
+                            .map((invoice) => (
+                              <option key={invoice.id} value={invoice.id}>
+                                {invoice.invoiceNumber}
+                                {invoice.balanceAmount !== undefined && ` (${formatCurrency(invoice.balanceAmount)})`}
+                              </option>
+                            ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Amount</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={applyCreditForm.amount}
+                          onChange={(e) => setApplyCreditForm({ ...applyCreditForm, amount: e.target.value })}
+                          className="input"
+                          placeholder="Up to balance"
+                        />
+                      </div>
+                    </div>
+                    <button onClick={handleApplyCredit} disabled={applyingCredit} className="btn-secondary w-full">
+                      Apply Credit
+                    </button>
+                  </div>
+                )}
+
+                {unappliedCredit.allocations.length > 0 && (
+                  <ul className="mt-4 pt-4 border-t border-gray-200 space-y-1 text-xs">
+                    {unappliedCredit.allocations.map((allocation) => (
+                      <li key={allocation.id} className="flex justify-between gap-2 text-gray-600">
+                        <span>
+                          {formatDate(allocation.allocatedAt)} · {allocation.invoice.invoiceNumber}
+                          {allocation.isAutomatic ? ' (on issue)' : ''}
+                        </span>
+                        <span className="text-gray-900">{formatCurrency(allocation.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Customer Portal */}
+            {canSharePortal && (
+              <div className="bg-white/80 backdrop-blur rounded-lg shadow-sm border border-white/70 p-6">
+                <h3 className="font-semibold text-gray-900 mb-1 flex items-center gap-2">
+                  <Link2 className="w-5 h-5 text-gray-500" />
+                  Customer Portal
+                </h3>
+                <p className="text-xs text-gray-500 mb-4">
+                  A private link where the customer can see their invoices, receipts and statement and accept quotes
+                </p>
+                <div className="grid grid-cols-3 gap-2">
+                  <button
+                    onClick={() => handleSharePortal('SMS')}
+                    disabled={sharingPortal || !customer.phone}
+                    className="btn-secondary"
+                  >
+                    SMS
+                  </button>
+                  <button
+                    onClick={() => handleSharePortal('EMAIL')}
+                    disabled={sharingPortal || !customer.email}
+                    className="btn-secondary"
+                  >
+                    Email
+                  </button>
+                  <button onClick={() => handleSharePortal()} disabled={sharingPortal} className="btn-secondary">
+                    <Copy className="w-4 h-4" />
+                    Copy
+                  </button>
+                </div>
+                {portalUrl && (
+                  <input readOnly value={portalUrl} onFocus={(e) => e.target.select()} className="input mt-3 text-xs" />
+                )}
+                {portalLinks.length > 0 && (
+                  <ul className="mt-4 space-y-2 text-xs">
+                    {portalLinks.map((link) => {
+                      const active = !link.revokedAt && new Date(link.expiresAt) > new Date();
+
+                      return (
+                        <li key={link.id} className="flex items-center justify-between gap-2">
+                          <div>
+                            <p className="text-gray-900">
+                              {link.sentVia ? `${link.sentVia === 'SMS' ? 'SMS' : 'Email'} to ${link.sentTo}` : 'Copied link'} ·{' '}
+                              {formatDate(link.createdAt)}
+                            </p>
+                            <p className="text-gray-500">
+                              {link.revokedAt
+                                ? 'Revoked'
+                                : active
+                                  ? `Expires ${formatDate(link.expiresAt)}`
+                                  : 'Expired'}
+                              {link.accessCount > 0 && ` · opened ${link.accessCount} time${link.accessCount === 1 ? '' : 's'}`}
+                            </p>
+                          </div>
+                          {active && (
+                            <button
+                              onClick={() => handleRevokePortalLink(link.id)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              Revoke
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            )}
+
             {/* Performance Metrics */}
             {performance && (
               <div className="bg-gradient-to-br from-purple-50 to-purple-100 rounded-lg p-6 border border-purple-200">
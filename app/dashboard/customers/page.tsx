@@ -38,6 +38,15 @@ interface Customer {
   invoices?: Array<{ id: string; status: string; issueDate: string; dueDate: string }>;
 }
 
+interface StatementRunResult {
+  customerId: string;
+  customerName: string;
+  closingBalance: number;
+  email: string | null;
+  sent: boolean;
+  error?: string;
+}
+
 export default function CustomersPage() {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(true);
@@ -47,6 +56,13 @@ export default function CustomersPage() {
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [sortBy, setSortBy] = useState<'name' | 'balance' | 'paid'>('name');
   const [filterBy, setFilterBy] = useState<'all' | 'hasBalance' | 'noPaid'>('all');
+  const [showStatements, setShowStatements] = useState(false);
+  const [statementMonth, setStatementMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth() - 1, 1).toLocaleDateString('en-CA').slice(0, 7);
+  });
+  const [statementResults, setStatementResults] = useState<StatementRunResult[] | null>(null);
+  const [runningStatements, setRunningStatements] = useState(false);
   const [formData, setFormData] = useState({
     customerCode: '',
     name: '',
@@ -252,6 +268,40 @@ export default function CustomersPage() {
     }
   };
 
+  const runStatements = async (send: boolean) => {
+    if (send && !confirm(`Email ${statementMonth} statements to every customer with a balance?`)) {
+      return;
+    }
+
+    try {
+      setRunningStatements(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/customers/statements', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ month: statementMonth, send }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to run month-end statements');
+      }
+
+      setStatementResults(data.data.results);
+      if (send) {
+        toast.success(`${data.data.sent} of ${data.data.customers} statements sent`);
+      }
+    } catch (error) {
+      console.error('Month-end statements error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to run month-end statements');
+    } finally {
+      setRunningStatements(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -268,6 +318,16 @@ export default function CustomersPage() {
             <RefreshCw className="w-4 h-4" />
             Refresh
           </button>
+          <button
+            onClick={() => {
+              setStatementResults(null);
+              setShowStatements(true);
+            }}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex items-center gap-2"
+          >
+            <Mail className="w-4 h-4" />
+            Month-End Statements
+          </button>
           <button
             onClick={() => {
               resetForm();
@@ -320,6 +380,89 @@ export default function CustomersPage() {
         </div>
       </div>
 
+      {/* Month-End Statements Modal */}
+      {showStatements && (
+        <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Month-End Statements</h2>
+                <p className="text-sm text-gray-500 mt-1">Statements for every customer with a balance</p>
+              </div>
+              <button
+                onClick={() => setShowStatements(false)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+
+            <div className="px-6 py-4 flex items-end gap-3 border-b border-gray-200">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Month</label>
+                <input
+                  type="month"
+                  value={statementMonth}
+                  onChange={(e) => {
+                    setStatementMonth(e.target.value);
+                    setStatementResults(null);
+                  }}
+                  className="input"
+                />
+              </div>
+              <button onClick={() => runStatements(false)} disabled={runningStatements} className="btn-secondary">
+                Preview
+              </button>
+              <button
+                onClick={() => runStatements(true)}
+                disabled={runningStatements || !statementResults?.length}
+                className="btn-primary"
+              >
+                <Mail className="w-4 h-4" />
+                {runningStatements ? 'Working...' : 'Email Statements'}
+              </button>
+            </div>
+
+            <div className="overflow-y-auto flex-1">
+              {statementResults === null ? (
+                <p className="px-6 py-8 text-center text-gray-500">Preview to see which customers will receive a statement.</p>
+              ) : statementResults.length === 0 ? (
+                <p className="px-6 py-8 text-center text-gray-500">No customers had a balance at the end of this month.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {statementResults.map((result) => (
+                      <tr key={result.customerId}>
+                        <td className="px-4 py-2 text-gray-900">{result.customerName}</td>
+                        <td className="px-4 py-2 text-right text-gray-900">
+                          KES {result.closingBalance.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                        </td>
+                        <td className="px-4 py-2">
+                          {result.sent ? (
+                            <span className="badge-success">Sent</span>
+                          ) : result.error ? (
+                            <span className="text-xs text-red-600">{result.error}</span>
+                          ) : (
+                            <span className="text-gray-600">{result.email || 'No email address'}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Add/Edit Form Modal */}
       {showForm && (
         <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,566 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, CheckCircle, Download, Lock, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface BankAccount {
+  id: string;
+  bankName: string;
+  accountNumber: string;
+  currency: string;
+  lastReconciledDate?: string | null;
+}
+
+interface ReconciliationSummary {
+  id: string;
+  periodStart?: string | null;
+  reconciliationDate: string;
+  endingBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  reconciliationRatio?: number | null;
+  status: string;
+  isLocked: boolean;
+  completedAt?: string | null;
+}
+
+interface OutstandingItem {
+  type: string;
+  id: string;
+  date: string;
+  reference: string;
+  description: string;
+  amount: number;
+}
+
+interface ReconciliationReport {
+  ledgerAccountCode: string;
+  statementBalance: number;
+  ledgerBalance: number;
+  unclearedDeposits: OutstandingItem[];
+  unpresentedPayments: OutstandingItem[];
+  unrecordedItems: OutstandingItem[];
+  totals: {
+    unclearedDeposits: number;
+    unpresentedPayments: number;
+    unrecordedCredits: number;
+    unrecordedDebits: number;
+  };
+  adjustedStatementBalance: number;
+  adjustedLedgerBalance: number;
+  difference: number;
+  reconciliationRatio: number;
+}
+
+interface ReconciliationDetail extends ReconciliationSummary {
+  notes?: string | null;
+  reconciledBalance?: number | null;
+  signature?: string | null;
+}
+
+const UNRECORDED_LABELS: Record<string, string> = {
+  UNRECORDED_CREDIT: 'Credit',
+  UNRECORDED_DEBIT: 'Debit',
+};
+
+export default function BankAccountReconciliationPage() {
+  const params = useParams<{ id: string }>();
+  const [account, setAccount] = useState<BankAccount | null>(null);
+  const [history, setHistory] = useState<ReconciliationSummary[]>([]);
+  const [selected, setSelected] = useState<ReconciliationDetail | null>(null);
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [statementBalance, setStatementBalance] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const currency = account?.currency || 'KES';
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  const loadReconciliation = useCallback(async (id: string) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/financial/bank-reconciliations/${id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to load reconciliation');
+      }
+
+      setSelected(data.data.reconciliation);
+      setReport(data.data.report);
+      setStatementBalance(String(data.data.reconciliation.endingBalance));
+      setNotes(data.data.reconciliation.notes || '');
+    } catch (error) {
+      console.error('Load reconciliation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load reconciliation');
+    }
+  }, []);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/financial/bank-accounts/${params.id}/reconciliations`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setAccount(data.data.account);
+        setHistory(data.data.reconciliations || []);
+
+        const draft = (data.data.reconciliations as ReconciliationSummary[]).find((r) => !r.isLocked);
+        if (draft) {
+          await loadReconciliation(draft.id);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading reconciliations:', error);
+      toast.error('Failed to load reconciliations');
+    } finally {
+      setLoading(false);
+    }
+  }, [params.id, loadReconciliation]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleStart = async () => {
+    if (!periodEnd || statementBalance === '') {
+      toast.error('Statement date and closing balance are required');
+      return;
+    }
+
+    try {
+      setWorking(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/financial/bank-accounts/${params.id}/reconciliations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          periodEnd,
+          statementBalance: parseFloat(statementBalance),
+          notes: notes || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to start reconciliation');
+      }
+
+      toast.success('Reconciliation started');
+      fetchHistory();
+    } catch (error) {
+      console.error('Start reconciliation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start reconciliation');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    if (!selected) return;
+
+    try {
+      setWorking(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/financial/bank-reconciliations/${selected.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          statementBalance: parseFloat(statementBalance),
+          notes,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to refresh reconciliation');
+      }
+
+      setSelected(data.data.reconciliation);
+      setReport(data.data.report);
+      toast.success('Reconciliation refreshed');
+    } catch (error) {
+      console.error('Refresh reconciliation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to refresh reconciliation');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!selected || !report) return;
+
+    const balanced = Math.abs(report.difference) < 0.01;
+    if (!balanced && !notes.trim()) {
+      toast.error('Explain the difference in the notes before completing');
+      return;
+    }
+    if (!confirm('Complete and lock this reconciliation? Locked reconciliations cannot be edited.')) return;
+
+    try {
+      setWorking(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/financial/bank-reconciliations/${selected.id}/complete`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ notes: notes || undefined }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to complete reconciliation');
+      }
+
+      toast.success('Reconciliation completed and locked');
+      await fetchHistory();
+      await loadReconciliation(selected.id);
+    } catch (error) {
+      console.error('Complete reconciliation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to complete reconciliation');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDownload = async (reconciliation: ReconciliationSummary) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/financial/bank-reconciliations/${reconciliation.id}/pdf`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to download PDF');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `bank-reconciliation-${reconciliation.reconciliationDate.slice(0, 10)}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Download reconciliation PDF error:', error);
+      toast.error('Failed to download PDF');
+    }
+  };
+
+  const renderItems = (title: string, items: OutstandingItem[], total: number, showType = false) => (
+    <div className="card overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h3 className="font-semibold text-gray-900">{title}</h3>
+        <span className="text-sm text-gray-600">
+          {items.length} item(s) · {money(total)}
+        </span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <tbody className="divide-y divide-gray-100">
+            {items.map((item) => (
+              <tr key={`${item.type}-${item.id}`}>
+                <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{formatDate(item.date)}</td>
+                {showType && (
+                  <td className="px-4 py-2 text-gray-600">{UNRECORDED_LABELS[item.type] || item.type}</td>
+                )}
+                <td className="px-4 py-2 font-mono text-gray-700">{item.reference}</td>
+                <td className="px-4 py-2 text-gray-700">{item.description}</td>
+                <td className="px-4 py-2 text-right text-gray-900">{money(item.amount)}</td>
+              </tr>
+            ))}
+            {items.length === 0 && (
+              <tr>
+                <td className="px-4 py-4 text-center text-gray-500">None</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!account) {
+    return <div className="card p-6 text-center text-gray-500">Bank account not found.</div>;
+  }
+
+  const hasDraft = history.some((r) => !r.isLocked);
+  const balanced = report ? Math.abs(report.difference) < 0.01 : false;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href="/dashboard/financial/bank-accounts"
+          className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Bank Accounts
+        </Link>
+        <h1 className="text-2xl font-display font-bold text-gray-900 mt-2">
+          {account.bankName} · <span className="font-mono">{account.accountNumber}</span>
+        </h1>
+        <p className="text-sm text-gray-600">
+          Last reconciled: {account.lastReconciledDate ? formatDate(account.lastReconciledDate) : 'Never'}
+        </p>
+      </div>
+
+      {!hasDraft && (
+        <div className="card p-4 space-y-4">
+          <h2 className="font-semibold text-gray-900">New Reconciliation</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Statement Date</label>
+              <input
+                type="date"
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Statement Closing Balance</label>
+              <input
+                type="number"
+                step="0.01"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+                className="input"
+              />
+            </div>
+            <div className="flex items-end">
+              <button onClick={handleStart} className="btn-primary" disabled={working}>
+                {working ? 'Starting...' : 'Start Reconciliation'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {selected && report && (
+        <div className="space-y-4">
+          <div className="card p-4">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+              <div>
+                <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                  {selected.isLocked && <Lock className="w-4 h-4 text-gray-500" />}
+                  Statement of {formatDate(selected.reconciliationDate)}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  {selected.periodStart ? `From ${formatDate(selected.periodStart)} · ` : ''}
+                  Ledger account {report.ledgerAccountCode} · {report.reconciliationRatio}% of statement lines
+                  reconciled
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => handleDownload(selected)} className="btn-secondary">
+                  <Download className="w-4 h-4" />
+                  PDF
+                </button>
+                {!selected.isLocked && (
+                  <>
+                    <button onClick={handleRefresh} className="btn-secondary" disabled={working}>
+                      <RefreshCw className="w-4 h-4" />
+                      Refresh
+                    </button>
+                    <button onClick={handleComplete} className="btn-primary" disabled={working}>
+                      <CheckCircle className="w-4 h-4" />
+                      Complete &amp; Lock
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+              <dl className="space-y-2">
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Balance per bank statement</dt>
+                  <dd className="text-gray-900">
+                    {selected.isLocked ? (
+                      money(report.statementBalance)
+                    ) : (
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={statementBalance}
+                        onChange={(e) => setStatementBalance(e.target.value)}
+                        className="input w-40 text-right"
+                      />
+                    )}
+                  </dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Add: uncleared deposits</dt>
+                  <dd>{money(report.totals.unclearedDeposits)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Less: unpresented payments</dt>
+                  <dd>{money(report.totals.unpresentedPayments)}</dd>
+                </div>
+                <div className="flex justify-between font-semibold border-t pt-2">
+                  <dt>Adjusted bank balance</dt>
+                  <dd>{money(report.adjustedStatementBalance)}</dd>
+                </div>
+              </dl>
+              <dl className="space-y-2">
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Balance per ledger</dt>
+                  <dd>{money(report.ledgerBalance)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Add: statement credits not in ledger</dt>
+                  <dd>{money(report.totals.unrecordedCredits)}</dd>
+                </div>
+                <div className="flex justify-between">
+                  <dt className="text-gray-600">Less: statement debits not in ledger</dt>
+                  <dd>{money(report.totals.unrecordedDebits)}</dd>
+                </div>
+                <div className="flex justify-between font-semibold border-t pt-2">
+                  <dt>Adjusted ledger balance</dt>
+                  <dd>{money(report.adjustedLedgerBalance)}</dd>
+                </div>
+              </dl>
+            </div>
+
+            <div
+              className={`mt-4 rounded-lg p-3 flex justify-between text-sm font-semibold ${
+                balanced ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+              }`}
+            >
+              <span>Difference</span>
+              <span>{money(report.difference)}</span>
+            </div>
+
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              {selected.isLocked ? (
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{selected.notes || '-'}</p>
+              ) : (
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="input"
+                  rows={3}
+                  placeholder="Required when the reconciliation does not balance"
+                />
+              )}
+            </div>
+
+            {selected.signature && (
+              <p className="mt-4 text-xs text-gray-500 font-mono break-all">
+                Signed {selected.completedAt ? formatDate(selected.completedAt, true) : ''} · {selected.signature}
+              </p>
+            )}
+          </div>
+
+          {renderItems('Uncleared Deposits', report.unclearedDeposits, report.totals.unclearedDeposits)}
+          {renderItems('Unpresented Payments', report.unpresentedPayments, report.totals.unpresentedPayments)}
+          {renderItems(
+            'Statement Items Not in Ledger',
+            report.unrecordedItems,
+            report.totals.unrecordedCredits + report.totals.unrecordedDebits,
+            true
+          )}
+        </div>
+      )}
+
+      <div className="card overflow-hidden">
+        <div className="px-4 py-3 border-b">
+          <h2 className="font-semibold text-gray-900">History</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Statement Date</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Statement</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Ledger</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Difference</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {history.map((reconciliation) => (
+                <tr key={reconciliation.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-gray-900">{formatDate(reconciliation.reconciliationDate)}</td>
+                  <td className="px-4 py-3 text-right">{money(reconciliation.endingBalance)}</td>
+                  <td className="px-4 py-3 text-right">{money(reconciliation.ledgerBalance)}</td>
+                  <td className="px-4 py-3 text-right">{money(reconciliation.difference)}</td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={
+                        reconciliation.status === 'COMPLETE'
+                          ? 'badge-success'
+                          : reconciliation.status === 'DISCREPANCIES'
+                            ? 'badge-danger'
+                            : 'badge-warning'
+                      }
+                    >
+                      {reconciliation.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-3">
+                      <button
+                        onClick={() => loadReconciliation(reconciliation.id)}
+                        className="text-primary-600 hover:text-primary-700"
+                      >
+                        View
+                      </button>
+                      <button
+                        onClick={() => handleDownload(reconciliation)}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Download PDF"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {history.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                    No reconciliations yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Landmark, Plus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface BankReconciliationSummary {
+  id: string;
+  reconciliationDate: string;
+  status: string;
+  difference: number;
+  isLocked: boolean;
+}
+
+interface BankAccount {
+  id: string;
+  bankName: string;
+  accountNumber: string;
+  accountHolder: string;
+  accountType: string;
+  currency: string;
+  ledgerAccountCode: string;
+  reconciledBalance: number;
+  isPrimary: boolean;
+  lastReconciledDate?: string | null;
+  reconciliations: BankReconciliationSummary[];
+}
+
+const emptyForm = {
+  bankName: '',
+  accountNumber: '',
+  accountHolder: '',
+  accountType: 'BUSINESS',
+  currency: 'KES',
+  ledgerAccountCode: '',
+  swiftCode: '',
+  isPrimary: false,
+};
+
+export default function BankAccountsPage() {
+  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  const fetchAccounts = async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/financial/bank-accounts', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setAccounts(data.data.accounts || []);
+      }
+    } catch (error) {
+      console.error('Error loading bank accounts:', error);
+      toast.error('Failed to load bank accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.bankName || !form.accountNumber || !form.accountHolder || !form.ledgerAccountCode) {
+      toast.error('Bank name, account number, account holder and ledger account are required');
+      return;
+    }
+
+    try {
+      setCreating(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/financial/bank-accounts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          ...form,
+          swiftCode: form.swiftCode || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to create bank account');
+      }
+
+      setForm(emptyForm);
+      setShowCreate(false);
+      toast.success('Bank account created');
+      fetchAccounts();
+    } catch (error) {
+      console.error('Create bank account error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create bank account');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-gray-900">Bank Accounts</h1>
+          <p className="text-sm text-gray-600">
+            Reconcile statement closing balances against the ledger at each period end
+          </p>
+        </div>
+        <button onClick={() => setShowCreate(true)} className="btn-primary">
+          <Plus className="w-4 h-4" />
+          New Account
+        </button>
+      </div>
+
+      <div className="card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Account</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Holder</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ledger Account</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Reconciled</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Reconciled Balance</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Latest</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {accounts.map((account) => {
+                const latest = account.reconciliations[0];
+                return (
+                  <tr key={account.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <Landmark className="w-4 h-4 text-gray-400" />
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {account.bankName}
+                            {account.isPrimary && <span className="badge-info ml-2">Primary</span>}
+                          </p>
+                          <p className="text-xs text-gray-500 font-mono">{account.accountNumber}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">{account.accountHolder}</td>
+                    <td className="px-4 py-3 font-mono text-gray-700">{account.ledgerAccountCode}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {account.lastReconciledDate ? formatDate(account.lastReconciledDate) : 'Never'}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900">
+                      {formatCurrency(account.reconciledBalance, account.currency)}
+                    </td>
+                    <td className="px-4 py-3">
+                      {latest ? (
+                        <span
+                          className={
+                            latest.status === 'COMPLETE'
+                              ? 'badge-success'
+                              : latest.status === 'DISCREPANCIES'
+                                ? 'badge-danger'
+                                : 'badge-warning'
+                          }
+                        >
+                          {latest.status} · {formatDate(latest.reconciliationDate)}
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <Link
+                        href={`/dashboard/financial/bank-accounts/${account.id}`}
+                        className="text-primary-600 hover:text-primary-700 font-medium"
+                      >
+                        Reconcile
+                      </Link>
+                    </td>
+                  </tr>
+                );
+              })}
+              {accounts.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-6 text-center text-gray-500">
+                    No bank accounts yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showCreate && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h3 className="text-lg font-semibold">New Bank Account</h3>
+              <button onClick={() => setShowCreate(false)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Bank Name</label>
+                  <input
+                    value={form.bankName}
+                    onChange={(e) => setForm((prev) => ({ ...prev, bankName: e.target.value }))}
+                    className="input"
+                    placeholder="DTB Bank"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Account Number</label>
+                  <input
+                    value={form.accountNumber}
+                    onChange={(e) => setForm((prev) => ({ ...prev, accountNumber: e.target.value }))}
+                    className="input font-mono"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Account Holder</label>
+                  <input
+                    value={form.accountHolder}
+                    onChange={(e) => setForm((prev) => ({ ...prev, accountHolder: e.target.value }))}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Ledger Cash Account</label>
+                  <input
+                    value={form.ledgerAccountCode}
+                    onChange={(e) => setForm((prev) => ({ ...prev, ledgerAccountCode: e.target.value }))}
+                    className="input font-mono"
+                    placeholder="1020"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Created as an asset account if it does not exist</p>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Type</label>
+                  <select
+                    value={form.accountType}
+                    onChange={(e) => setForm((prev) => ({ ...prev, accountType: e.target.value }))}
+                    className="input"
+                  >
+                    <option value="BUSINESS">Business</option>
+                    <option value="CHECKING">Checking</option>
+                    <option value="SAVINGS">Savings</option>
+                    <option value="MOBILE_MONEY">Mobile Money</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Currency</label>
+                  <input
+                    value={form.currency}
+                    maxLength={3}
+                    onChange={(e) => setForm((prev) => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">SWIFT</label>
+                  <input
+                    value={form.swiftCode}
+                    onChange={(e) => setForm((prev) => ({ ...prev, swiftCode: e.target.value }))}
+                    className="input font-mono"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isPrimary}
+                  onChange={(e) => setForm((prev) => ({ ...prev, isPrimary: e.target.checked }))}
+                />
+                Primary account
+              </label>
+            </div>
+            <div className="flex justify-end gap-3 p-4 border-t">
+              <button className="btn-secondary" onClick={() => setShowCreate(false)}>
+                Cancel
+              </button>
+              <button className="btn-primary" onClick={handleCreate} disabled={creating}>
+                {creating ? 'Creating...' : 'Create Account'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,417 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { format, endOfMonth, subMonths } from 'date-fns';
+import { ArrowLeftRight, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface ExchangeRate {
+  id: string;
+  currency: string;
+  rateDate: string;
+  rate: number;
+  source: string | null;
+}
+
+interface FxRevaluationLine {
+  id: string;
+  documentType: 'INVOICE' | 'SUPPLIER_BILL';
+  documentNumber: string;
+  currency: string;
+  openAmount: number;
+  bookedRate: number;
+  closingRate: number;
+  adjustment: number;
+}
+
+interface FxRevaluation {
+  id: string;
+  periodEnd: string;
+  receivablesAdjustment: number;
+  payablesAdjustment: number;
+  transactionId: string | null;
+  reversedAt: string | null;
+  lines: FxRevaluationLine[];
+}
+
+const emptyForm = {
+  currency: 'USD',
+  rateDate: format(new Date(), 'yyyy-MM-dd'),
+  rate: '',
+  source: '',
+};
+
+export default function ExchangeRatesPage() {
+  const [baseCurrency, setBaseCurrency] = useState('KES');
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [revaluations, setRevaluations] = useState<FxRevaluation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [periodEnd, setPeriodEnd] = useState(format(endOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd'));
+  const [revaluing, setRevaluing] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('token');
+      const headers = { Authorization: `Bearer ${token}` };
+      const [ratesResponse, revaluationsResponse] = await Promise.all([
+        fetch('/api/financial/exchange-rates', { headers }),
+        fetch('/api/financial/fx-revaluations', { headers }),
+      ]);
+
+      if (ratesResponse.ok) {
+        const data = await ratesResponse.json();
+        setBaseCurrency(data.data.baseCurrency);
+        setRates(data.data.rates || []);
+      }
+
+      if (revaluationsResponse.ok) {
+        const data = await revaluationsResponse.json();
+        setRevaluations(data.data.revaluations || []);
+      }
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+      toast.error('Failed to load exchange rates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form.currency || !form.rateDate || !(parseFloat(form.rate) > 0)) {
+      toast.error('Currency, date and a positive rate are required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/financial/exchange-rates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          currency: form.currency,
+          rateDate: form.rateDate,
+          rate: parseFloat(form.rate),
+          source: form.source || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to save exchange rate');
+      }
+
+      setForm(emptyForm);
+      setShowCreate(false);
+      toast.success('Exchange rate saved');
+      fetchData();
+    } catch (error) {
+      console.error('Save exchange rate error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save exchange rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Remove the ${rate.currency} rate for ${formatDate(rate.rateDate)}?`)) {
+      return;
+    }
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/financial/exchange-rates/${rate.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to remove exchange rate');
+      }
+
+      toast.success('Exchange rate removed');
+      fetchData();
+    } catch (error) {
+      console.error('Delete exchange rate error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove exchange rate');
+    }
+  };
+
+  const handleRevalue = async () => {
+    if (!confirm(`Revalue open foreign-currency invoices and bills at ${formatDate(periodEnd)}?`)) {
+      return;
+    }
+
+    try {
+      setRevaluing(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/financial/fx-revaluations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ periodEnd }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to run FX revaluation');
+      }
+
+      toast.success(data.message || 'FX revaluation posted');
+      fetchData();
+    } catch (error) {
+      console.error('FX revaluation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to run FX revaluation');
+    } finally {
+      setRevaluing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-gray-900">Exchange Rates</h1>
+          <p className="text-sm text-gray-600">
+            {baseCurrency} per unit of each currency. Documents take the latest rate on or before their date.
+          </p>
+        </div>
+        <button onClick={() => setShowCreate(true)} className="btn-primary">
+          <Plus className="w-4 h-4" />
+          New Rate
+        </button>
+      </div>
+
+      <div className="card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Currency</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Effective From</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Source</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rates.map((rate) => (
+                <tr key={rate.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-2">
+                      <ArrowLeftRight className="w-4 h-4 text-gray-400" />
+                      <span className="font-medium text-gray-900">{rate.currency}</span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{formatDate(rate.rateDate)}</td>
+                  <td className="px-4 py-3 text-right font-mono text-gray-900">{rate.rate.toFixed(4)}</td>
+                  <td className="px-4 py-3 text-gray-700">{rate.source || '-'}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => handleDelete(rate)}
+                      className="text-red-600 hover:text-red-700"
+                      title="Remove rate"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {rates.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                    No exchange rates yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="card p-4 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Period-End Revaluation</h2>
+            <p className="text-sm text-gray-600">
+              Restates open foreign-currency invoices and supplier bills at the period-end rate. Each run
+              reverses the previous one.
+            </p>
+          </div>
+          <div className="flex items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Period End</label>
+              <input
+                type="date"
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+                className="input"
+              />
+            </div>
+            <button className="btn-primary" onClick={handleRevalue} disabled={revaluing || !periodEnd}>
+              {revaluing ? 'Revaluing...' : 'Revalue'}
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Period End</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Documents</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Receivables</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Payables</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {revaluations.map((revaluation) => (
+                <Fragment key={revaluation.id}>
+                  <tr
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setExpanded(expanded === revaluation.id ? null : revaluation.id)}
+                  >
+                    <td className="px-4 py-3 font-medium text-gray-900">{formatDate(revaluation.periodEnd)}</td>
+                    <td className="px-4 py-3 text-right text-gray-700">{revaluation.lines.length}</td>
+                    <td className="px-4 py-3 text-right text-gray-900">
+                      {formatCurrency(revaluation.receivablesAdjustment, baseCurrency)}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900">
+                      {formatCurrency(revaluation.payablesAdjustment, baseCurrency)}
+                    </td>
+                    <td className="px-4 py-3">
+                      {revaluation.reversedAt ? (
+                        <span className="badge-warning">Reversed {formatDate(revaluation.reversedAt)}</span>
+                      ) : revaluation.transactionId ? (
+                        <span className="badge-success">Posted</span>
+                      ) : (
+                        <span className="badge-info">Nothing to post</span>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded === revaluation.id &&
+                    revaluation.lines.map((line) => (
+                      <tr key={line.id} className="bg-gray-50 text-xs">
+                        <td className="px-8 py-2 text-gray-700">
+                          {line.documentType === 'INVOICE' ? 'Invoice' : 'Bill'} {line.documentNumber}
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-700">
+                          {formatCurrency(line.openAmount, line.currency)}
+                        </td>
+                        <td className="px-4 py-2 text-right font-mono text-gray-600" colSpan={2}>
+                          {line.bookedRate.toFixed(4)} → {line.closingRate.toFixed(4)}
+                        </td>
+                        <td className={`px-4 py-2 ${line.adjustment < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                          {formatCurrency(line.adjustment, baseCurrency)}
+                        </td>
+                      </tr>
+                    ))}
+                </Fragment>
+              ))}
+              {revaluations.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                    No revaluations yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showCreate && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h3 className="text-lg font-semibold">New Exchange Rate</h3>
+              <button onClick={() => setShowCreate(false)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Currency</label>
+                  <input
+                    value={form.currency}
+                    maxLength={3}
+                    onChange={(e) => setForm((prev) => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Effective From</label>
+                  <input
+                    type="date"
+                    value={form.rateDate}
+                    onChange={(e) => setForm((prev) => ({ ...prev, rateDate: e.target.value }))}
+                    className="input"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Rate ({baseCurrency} per {form.currency || 'unit'})
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={form.rate}
+                    onChange={(e) => setForm((prev) => ({ ...prev, rate: e.target.value }))}
+                    className="input font-mono"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Source</label>
+                  <input
+                    value={form.source}
+                    onChange={(e) => setForm((prev) => ({ ...prev, source: e.target.value }))}
+                    className="input"
+                    placeholder="CBK"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">A rate already on file for the same currency and day is replaced.</p>
+            </div>
+            <div className="flex justify-end gap-3 p-4 border-t">
+              <button className="btn-secondary" onClick={() => setShowCreate(false)}>
+                Cancel
+              </button>
+              <button className="btn-primary" onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Rate'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { BarChart3, DollarSign, TrendingUp, LineChart, PieChart, AlertCircle, Plus } from 'lucide-react';
+import { BarChart3, DollarSign, TrendingUp, LineChart, PieChart, AlertCircle, Plus, ArrowLeftRight } from 'lucide-react';
 
 interface FinancialSummary {
   accountsCount: number;
@@ -100,6 +100,14 @@ export default function FinancialDashboard() {
       color: 'from-indigo-500 to-indigo-600',
       count: 0,
     },
+    {
+      title: 'Exchange Rates',
+      description: 'Currency rates and FX revaluation',
+      icon: ArrowLeftRight,
+      href: '/dashboard/financial/exchange-rates',
+      color: 'from-teal-500 to-teal-600',
+      count: 0,
+    },
   ];
 
   return (
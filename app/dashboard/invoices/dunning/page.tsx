@@ -0,0 +1,543 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { FileText, Pencil, Play, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface DunningStage {
+  id?: string;
+  sequence?: number;
+  name: string;
+  dayOffset: number;
+  channel: string;
+  subject?: string | null;
+  template: string;
+  isFinalNotice: boolean;
+}
+
+interface DunningPolicy {
+  id: string;
+  name: string;
+  description?: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+  stages: DunningStage[];
+  _count: { customers: number };
+}
+
+interface DunningContact {
+  id: string;
+  stageSequence: number;
+  channel: string;
+  status: string;
+  recipient?: string | null;
+  error?: string | null;
+  balanceAmount: number;
+  daysOverdue: number;
+  createdAt: string;
+  invoice: { id: string; invoiceNumber: string; balanceAmount: number; status: string; currency: string };
+  customer: { id: string; name: string };
+  stage?: { name: string } | null;
+}
+
+interface StageForm {
+  name: string;
+  dayOffset: string;
+  channel: string;
+  subject: string;
+  template: string;
+  isFinalNotice: boolean;
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  isDefault: false,
+  isActive: true,
+};
+
+const CHANNEL_LABELS: Record<string, string> = {
+  EMAIL: 'Email',
+  SMS: 'SMS',
+  BOTH: 'Email & SMS',
+  LETTER: 'Letter',
+};
+
+function describeOffset(dayOffset: number) {
+  if (dayOffset === 0) return 'On due date';
+  return dayOffset < 0 ? `${-dayOffset} days before due` : `${dayOffset} days overdue`;
+}
+
+function toStageForm(stage: DunningStage): StageForm {
+  return {
+    name: stage.name,
+    dayOffset: stage.dayOffset.toString(),
+    channel: stage.channel,
+    subject: stage.subject || '',
+    template: stage.template,
+    isFinalNotice: stage.isFinalNotice,
+  };
+}
+
+export default function DunningPage() {
+  const [policies, setPolicies] = useState<DunningPolicy[]>([]);
+  const [suggestedStages, setSuggestedStages] = useState<DunningStage[]>([]);
+  const [contacts, setContacts] = useState<DunningContact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [editing, setEditing] = useState<DunningPolicy | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [stages, setStages] = useState<StageForm[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/dunning/policies', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPolicies(data.data.policies || []);
+        setSuggestedStages(data.data.suggestedStages || []);
+      }
+    } catch (error) {
+      console.error('Error loading dunning policies:', error);
+      toast.error('Failed to load dunning policies');
+    }
+  }, []);
+
+  const fetchContacts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('token');
+      const params = new URLSearchParams();
+      if (statusFilter) params.set('status', statusFilter);
+
+      const response = await fetch(`/api/dunning/contacts?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setContacts(data.data.contacts || []);
+      }
+    } catch (error) {
+      console.error('Error loading dunning contacts:', error);
+      toast.error('Failed to load dunning contacts');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  useEffect(() => {
+    fetchContacts();
+  }, [fetchContacts]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({ ...emptyForm, isDefault: policies.length === 0 });
+    setStages(suggestedStages.map(toStageForm));
+    setShowForm(true);
+  };
+
+  const openEdit = (policy: DunningPolicy) => {
+    setEditing(policy);
+    setForm({
+      name: policy.name,
+      description: policy.description || '',
+      isDefault: policy.isDefault,
+      isActive: policy.isActive,
+    });
+    setStages(policy.stages.map(toStageForm));
+    setShowForm(true);
+  };
+
+  const updateStage = (index: number, changes: Partial<StageForm>) => {
+    setStages((prev) => prev.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const savePolicy = async () => {
+    if (!form.name.trim() || stages.length === 0) {
+      toast.error('Enter a name and at least one stage');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(editing ? `/api/dunning/policies/${editing.id}` : '/api/dunning/policies', {
+        method: editing ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          ...form,
+          description: form.description || undefined,
+          stages: stages.map((stage) => ({
+            name: stage.name,
+            dayOffset: parseInt(stage.dayOffset || '0'),
+            channel: stage.channel,
+            subject: stage.subject || undefined,
+            template: stage.template,
+            isFinalNotice: stage.isFinalNotice,
+          })),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to save dunning policy');
+      }
+
+      toast.success(editing ? 'Dunning policy updated' : 'Dunning policy created');
+      setShowForm(false);
+      fetchPolicies();
+    } catch (error) {
+      console.error('Save dunning policy error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save dunning policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runNow = async () => {
+    try {
+      setRunning(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/dunning/run', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Dunning run failed');
+      }
+
+      toast.success(`Dunning run: ${data.data.contacted} contacted, ${data.data.failed} failed`);
+      fetchContacts();
+    } catch (error) {
+      console.error('Dunning run error:', error);
+      toast.error(error instanceof Error ? error.message : 'Dunning run failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const downloadFinalNotice = async (contact: DunningContact) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/invoices/${contact.invoice.id}/final-notice`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Download failed');
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `Final_Notice_${contact.invoice.invoiceNumber}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Download error:', error);
+      toast.error('Failed to download final notice');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <Link href="/dashboard/invoices" className="text-sm text-primary-600 hover:text-primary-700">
+            ← Invoices
+          </Link>
+          <h1 className="text-2xl font-display font-bold text-gray-900">Dunning</h1>
+          <p className="text-sm text-gray-600">Reminder schedules for overdue invoices</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={runNow} disabled={running} className="btn-secondary">
+            <Play className="w-4 h-4" />
+            {running ? 'Running...' : 'Run Now'}
+          </button>
+          <button onClick={openCreate} className="btn-primary">
+            <Plus className="w-4 h-4" />
+            New Policy
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {policies.map((policy) => (
+          <div key={policy.id} className="card p-4 space-y-3">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="font-semibold text-gray-900">
+                  {policy.name}
+                  {policy.isDefault && <span className="badge-success ml-2">Default</span>}
+                  {!policy.isActive && <span className="badge-gray ml-2">Inactive</span>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {policy.description || 'No description'} · {policy._count.customers} assigned customer
+                  {policy._count.customers === 1 ? '' : 's'}
+                </p>
+              </div>
+              <button onClick={() => openEdit(policy)} className="text-gray-600 hover:text-gray-900" title="Edit">
+                <Pencil className="w-4 h-4" />
+              </button>
+            </div>
+            <ol className="space-y-1 text-sm">
+              {policy.stages.map((stage) => (
+                <li key={stage.id} className="flex items-center justify-between">
+                  <span className="text-gray-900">
+                    {stage.sequence}. {stage.name}
+                    {stage.isFinalNotice && <span className="badge-danger ml-2">Final notice</span>}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {describeOffset(stage.dayOffset)} · {CHANNEL_LABELS[stage.channel] || stage.channel}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+        {policies.length === 0 && (
+          <div className="card p-6 text-center text-gray-500 lg:col-span-2">
+            No dunning policies yet. Create one to start sending reminders.
+          </div>
+        )}
+      </div>
+
+      <div className="card overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="font-semibold text-gray-900">Contact Log</h2>
+          <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className="input w-auto">
+            <option value="">All contacts</option>
+            <option value="SENT">Sent</option>
+            <option value="FAILED">Failed</option>
+          </select>
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Invoice</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Stage</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {contacts.map((contact) => (
+                  <tr key={contact.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-gray-700">{formatDate(contact.createdAt)}</td>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{contact.invoice.invoiceNumber}</p>
+                      <p className="text-xs text-gray-500">{contact.customer.name}</p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {contact.stage?.name || `Stage ${contact.stageSequence}`}
+                      <p className="text-xs text-gray-500">
+                        {CHANNEL_LABELS[contact.channel] || contact.channel} · {contact.daysOverdue} days overdue
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900">{formatCurrency(contact.balanceAmount, contact.invoice.currency)}</td>
+                    <td className="px-4 py-3">
+                      <span className={contact.status === 'SENT' ? 'badge-success' : 'badge-danger'}>
+                        {contact.status}
+                      </span>
+                      {contact.recipient && <p className="text-xs text-gray-500">{contact.recipient}</p>}
+                      {contact.error && <p className="text-xs text-red-600">{contact.error}</p>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end">
+                        {contact.channel === 'LETTER' && (
+                          <button
+                            onClick={() => downloadFinalNotice(contact)}
+                            className="text-primary-600 hover:text-primary-700"
+                            title="Download final notice"
+                          >
+                            <FileText className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {contacts.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                      No dunning contacts yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h3 className="text-lg font-semibold">{editing ? 'Edit Dunning Policy' : 'New Dunning Policy'}</h3>
+              <button onClick={() => setShowForm(false)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-4 overflow-y-auto flex-1">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="input"
+                    placeholder="e.g. Standard trade terms"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                  <input
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className="input"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.isDefault}
+                    onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+                  />
+                  Default for customers without their own policy
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                  />
+                  Active
+                </label>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="font-semibold text-gray-900">Stages</h4>
+                    <p className="text-xs text-gray-500">
+                      Days are relative to the due date. Templates can use {'{customerName}'}, {'{invoiceNumber}'},{' '}
+                      {'{balance}'}, {'{dueDate}'} and {'{daysOverdue}'}.
+                    </p>
+                  </div>
+                  <button
+                    onClick={() =>
+                      setStages((prev) => [
+                        ...prev,
+                        { name: '', dayOffset: '', channel: 'EMAIL', subject: '', template: '', isFinalNotice: false },
+                      ])
+                    }
+                    disabled={stages.length >= 10}
+                    className="text-sm text-primary-600 hover:text-primary-700 inline-flex items-center gap-1"
+                  >
+                    <Plus className="w-4 h-4" /> Add stage
+                  </button>
+                </div>
+                {stages.map((stage, index) => (
+                  <div key={index} className="border rounded-lg p-3 space-y-2">
+                    <div className="grid grid-cols-12 gap-2 items-center">
+                      <input
+                        value={stage.name}
+                        onChange={(e) => updateStage(index, { name: e.target.value })}
+                        className="input col-span-3"
+                        placeholder="Stage name"
+                      />
+                      <input
+                        type="number"
+                        value={stage.dayOffset}
+                        onChange={(e) => updateStage(index, { dayOffset: e.target.value })}
+                        className="input col-span-2"
+                        placeholder="Days"
+                        title="Days after due date (negative for before)"
+                      />
+                      <select
+                        value={stage.channel}
+                        onChange={(e) => updateStage(index, { channel: e.target.value })}
+                        className="input col-span-2"
+                      >
+                        {Object.entries(CHANNEL_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        value={stage.subject}
+                        onChange={(e) => updateStage(index, { subject: e.target.value })}
+                        className="input col-span-3"
+                        placeholder="Email subject"
+                      />
+                      <label className="col-span-1 flex items-center gap-1 text-xs text-gray-700" title="Attach final-notice letter">
+                        <input
+                          type="checkbox"
+                          checked={stage.isFinalNotice}
+                          onChange={(e) => updateStage(index, { isFinalNotice: e.target.checked })}
+                        />
+                        Final
+                      </label>
+                      <button
+                        onClick={() => setStages((prev) => prev.filter((_, i) => i !== index))}
+                        disabled={stages.length === 1}
+                        className="col-span-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <textarea
+                      value={stage.template}
+                      onChange={(e) => updateStage(index, { template: e.target.value })}
+                      className="input"
+                      rows={3}
+                      placeholder="Message"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="p-4 border-t flex justify-end gap-2">
+              <button className="btn-secondary" onClick={() => setShowForm(false)}>
+                Cancel
+              </button>
+              <button className="btn-primary" onClick={savePolicy} disabled={saving}>
+                {saving ? 'Saving...' : editing ? 'Save' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Play, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatDate } from '@/lib/utils';
+
+interface FiscalSubmission {
+  id: string;
+  documentType: 'INVOICE' | 'CREDIT_NOTE';
+  documentNumber: string;
+  receiptNumber: number;
+  status: 'PENDING' | 'SIGNED' | 'FAILED';
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  lastError: string | null;
+  signedAt: string | null;
+  invoice: { id: string; cuInvoiceNumber: string | null; customer: { name: string } } | null;
+  creditNote: { id: string; cuInvoiceNumber: string | null; customer: { name: string } } | null;
+}
+
+const STATUS_BADGES: Record<string, string> = {
+  SIGNED: 'badge-success',
+  PENDING: 'badge-warning',
+  FAILED: 'badge-danger',
+};
+
+export default function EtimsPage() {
+  const [submissions, setSubmissions] = useState<FiscalSubmission[]>([]);
+  const [summary, setSummary] = useState<Record<string, number>>({});
+  const [enabled, setEnabled] = useState(true);
+  const [status, setStatus] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const fetchSubmissions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('token');
+      const params = new URLSearchParams();
+      if (status) params.set('status', status);
+
+      const response = await fetch(`/api/etims/submissions?${params.toString()}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSubmissions(data.data.submissions || []);
+        setSummary(data.data.summary || {});
+        setEnabled(data.data.enabled);
+      }
+    } catch (error) {
+      console.error('Error loading eTIMS submissions:', error);
+      toast.error('Failed to load eTIMS submissions');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, [fetchSubmissions]);
+
+  const processQueue = async () => {
+    try {
+      setProcessing(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/etims/process', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to process the eTIMS queue');
+      }
+
+      toast.success(`${data.data.signed} signed, ${data.data.pending} pending, ${data.data.failed} failed`);
+      fetchSubmissions();
+    } catch (error) {
+      console.error('eTIMS queue error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to process the eTIMS queue');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const retry = async (submission: FiscalSubmission) => {
+    try {
+      setRetryingId(submission.id);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/etims/submissions/${submission.id}/retry`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to resubmit');
+      }
+
+      if (data.data.submission.status === 'SIGNED') {
+        toast.success(`${submission.documentNumber} signed`);
+      } else {
+        toast.error(data.data.submission.lastError || 'Submission failed');
+      }
+      fetchSubmissions();
+    } catch (error) {
+      console.error('eTIMS retry error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to resubmit');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <Link href="/dashboard/invoices" className="text-sm text-primary-600 hover:text-primary-700">
+            ← Invoices
+          </Link>
+          <h1 className="text-2xl font-display font-bold text-gray-900">KRA eTIMS</h1>
+          <p className="text-sm text-gray-600">Invoices and credit notes transmitted to the control unit</p>
+        </div>
+        <button onClick={processQueue} disabled={processing || !enabled} className="btn-primary">
+          <Play className="w-4 h-4" />
+          {processing ? 'Sending...' : 'Send Pending Now'}
+        </button>
+      </div>
+
+      {!enabled && (
+        <div className="card p-4 text-sm text-amber-800 bg-amber-50">
+          eTIMS is disabled. Set ETIMS_ENABLED=true and ETIMS_TIN to start transmitting documents.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {(['SIGNED', 'PENDING', 'FAILED'] as const).map((key) => (
+          <button
+            key={key}
+            onClick={() => setStatus(status === key ? '' : key)}
+            className={`card p-4 text-left ${status === key ? 'ring-2 ring-primary-500' : ''}`}
+          >
+            <p className="text-sm text-gray-600">{key.charAt(0) + key.slice(1).toLowerCase()}</p>
+            <p className="text-2xl font-bold text-gray-900">{summary[key] || 0}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="card overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Receipt No</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Document</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">CU Invoice No</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Attempt</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {submissions.map((submission) => {
+                  const document = submission.invoice ?? submission.creditNote;
+
+                  return (
+                    <tr key={submission.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-gray-700">{submission.receiptNumber}</td>
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-gray-900">{submission.documentNumber}</p>
+                        <p className="text-xs text-gray-500">
+                          {submission.documentType === 'INVOICE' ? 'Invoice' : 'Credit note'}
+                          {document ? ` · ${document.customer.name}` : ''}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={STATUS_BADGES[submission.status] || 'badge-gray'}>{submission.status}</span>
+                        {submission.attempts > 0 && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {submission.attempts} attempt{submission.attempts === 1 ? '' : 's'}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {document?.cuInvoiceNumber || '—'}
+                        {submission.signedAt && (
+                          <p className="text-xs text-gray-500">{formatDate(submission.signedAt, true)}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {submission.lastAttemptAt ? (
+                          <p className="text-gray-700">{formatDate(submission.lastAttemptAt, true)}</p>
+                        ) : (
+                          <p className="text-gray-500">Not sent yet</p>
+                        )}
+                        {submission.lastError && submission.status !== 'SIGNED' && (
+                          <p className="text-xs text-red-600">{submission.lastError}</p>
+                        )}
+                        {submission.status === 'PENDING' && submission.attempts > 0 && (
+                          <p className="text-xs text-gray-500">Next try {formatDate(submission.nextAttemptAt, true)}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end">
+                          {submission.status !== 'SIGNED' && (
+                            <button
+                              onClick={() => retry(submission)}
+                              disabled={retryingId === submission.id || !enabled}
+                              className="text-primary-600 hover:text-primary-700"
+                              title="Send now"
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {submissions.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                      No documents have been queued for eTIMS.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
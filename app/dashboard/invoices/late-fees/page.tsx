@@ -0,0 +1,539 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Calculator, Pencil, Play, Plus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface LateFeePolicy {
+  id: string;
+  name: string;
+  description?: string | null;
+  flatFee: number;
+  monthlyRate: number;
+  graceDays: number;
+  maxTotalFee?: number | null;
+  isDefault: boolean;
+  isActive: boolean;
+  _count: { customers: number; charges: number };
+}
+
+interface LateFeeCharge {
+  id: string;
+  period: string;
+  balanceAmount: number;
+  daysOverdue: number;
+  flatFee: number;
+  interestAmount: number;
+  amount: number;
+  createdAt: string;
+  invoice: { id: string; invoiceNumber: string };
+  feeInvoice: { id: string; invoiceNumber: string; status: string; balanceAmount: number };
+  customer: { id: string; name: string };
+  policy: { name: string };
+}
+
+interface RunResult {
+  period: string;
+  dryRun: boolean;
+  charged: number;
+  failed: number;
+  totalAmount: number;
+  results: {
+    invoiceId: string;
+    invoiceNumber: string;
+    customerName: string;
+    balanceAmount: number;
+    daysOverdue: number;
+    amount: number;
+    feeInvoiceNumber?: string;
+    error?: string;
+  }[];
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  flatFee: '0',
+  monthlyRate: '2',
+  graceDays: '7',
+  maxTotalFee: '',
+  isDefault: false,
+  isActive: true,
+};
+
+function formatPeriod(period: string) {
+  return format(new Date(parseInt(period.slice(0, 4)), parseInt(period.slice(4)) - 1, 1), 'MMM yyyy');
+}
+
+export default function LateFeesPage() {
+  const [policies, setPolicies] = useState<LateFeePolicy[]>([]);
+  const [charges, setCharges] = useState<LateFeeCharge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<LateFeePolicy | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [runResult, setRunResult] = useState<RunResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const fetchPolicies = useCallback(async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/late-fees/policies', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPolicies(data.data.policies || []);
+      }
+    } catch (error) {
+      console.error('Error loading late fee policies:', error);
+      toast.error('Failed to load late fee policies');
+    }
+  }, []);
+
+  const fetchCharges = useCallback(async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/late-fees/charges', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setCharges(data.data.charges || []);
+      }
+    } catch (error) {
+      console.error('Error loading late fee charges:', error);
+      toast.error('Failed to load late fee charges');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPolicies();
+    fetchCharges();
+  }, [fetchPolicies, fetchCharges]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({ ...emptyForm, isDefault: policies.length === 0 });
+    setShowForm(true);
+  };
+
+  const openEdit = (policy: LateFeePolicy) => {
+    setEditing(policy);
+    setForm({
+      name: policy.name,
+      description: policy.description || '',
+      flatFee: policy.flatFee.toString(),
+      monthlyRate: policy.monthlyRate.toString(),
+      graceDays: policy.graceDays.toString(),
+      maxTotalFee: policy.maxTotalFee?.toString() || '',
+      isDefault: policy.isDefault,
+      isActive: policy.isActive,
+    });
+    setShowForm(true);
+  };
+
+  const savePolicy = async () => {
+    if (!form.name.trim()) {
+      toast.error('Enter a policy name');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(editing ? `/api/late-fees/policies/${editing.id}` : '/api/late-fees/policies', {
+        method: editing ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || undefined,
+          flatFee: parseFloat(form.flatFee || '0'),
+          monthlyRate: parseFloat(form.monthlyRate || '0'),
+          graceDays: parseInt(form.graceDays || '0'),
+          maxTotalFee: form.maxTotalFee ? parseFloat(form.maxTotalFee) : null,
+          isDefault: form.isDefault,
+          isActive: form.isActive,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to save late fee policy');
+      }
+
+      toast.success(editing ? 'Late fee policy updated' : 'Late fee policy created');
+      setShowForm(false);
+      fetchPolicies();
+    } catch (error) {
+      console.error('Save late fee policy error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save late fee policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runLateFees = async (dryRun: boolean) => {
+    if (!dryRun && !confirm('Raise late fee invoices for this month?')) {
+      return;
+    }
+
+    try {
+      setRunning(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/late-fees/run', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ dryRun }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Late fee run failed');
+      }
+
+      setRunResult(data.data);
+      if (!dryRun) {
+        toast.success(`${data.data.charged} late fees charged (${formatCurrency(data.data.totalAmount)})`);
+        fetchCharges();
+        fetchPolicies();
+      }
+    } catch (error) {
+      console.error('Late fee run error:', error);
+      toast.error(error instanceof Error ? error.message : 'Late fee run failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <Link href="/dashboard/invoices" className="text-sm text-primary-600 hover:text-primary-700">
+            ← Invoices
+          </Link>
+          <h1 className="text-2xl font-display font-bold text-gray-900">Late Fees</h1>
+          <p className="text-sm text-gray-600">Interest and fees charged on overdue invoices</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => runLateFees(true)} disabled={running} className="btn-secondary">
+            <Calculator className="w-4 h-4" />
+            Preview
+          </button>
+          <button onClick={() => runLateFees(false)} disabled={running} className="btn-secondary">
+            <Play className="w-4 h-4" />
+            {running ? 'Running...' : 'Charge Now'}
+          </button>
+          <button onClick={openCreate} className="btn-primary">
+            <Plus className="w-4 h-4" />
+            New Policy
+          </button>
+        </div>
+      </div>
+
+      <div className="card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Policy</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Flat Fee</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Monthly Rate</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Grace</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Cap</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {policies.map((policy) => (
+                <tr key={policy.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900">{policy.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {policy._count.customers} assigned customer{policy._count.customers === 1 ? '' : 's'} ·{' '}
+                      {policy._count.charges} charge{policy._count.charges === 1 ? '' : 's'}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-700">
+                    {policy.flatFee ? formatCurrency(policy.flatFee) : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-700">
+                    {policy.monthlyRate ? `${policy.monthlyRate}%` : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-700">{policy.graceDays} days</td>
+                  <td className="px-4 py-3 text-right text-gray-700">
+                    {policy.maxTotalFee ? formatCurrency(policy.maxTotalFee) : 'None'}
+                  </td>
+                  <td className="px-4 py-3">
+                    {policy.isDefault && <span className="badge-success mr-1">Default</span>}
+                    <span className={policy.isActive ? 'badge-success' : 'badge-gray'}>
+                      {policy.isActive ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center justify-end">
+                      <button onClick={() => openEdit(policy)} className="text-gray-600 hover:text-gray-900" title="Edit">
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {policies.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-6 text-center text-gray-500">
+                    No late fee policies yet. Nothing is charged until one is set up.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {runResult && (
+        <div className="card overflow-hidden">
+          <div className="flex items-center justify-between p-4 border-b">
+            <div>
+              <h2 className="font-semibold text-gray-900">
+                {runResult.dryRun ? 'Preview' : 'Run'} for {formatPeriod(runResult.period)}
+              </h2>
+              <p className="text-xs text-gray-500">
+                {runResult.dryRun
+                  ? `${runResult.results.length} invoice${runResult.results.length === 1 ? '' : 's'} would be charged`
+                  : `${runResult.charged} charged, ${runResult.failed} failed · ${formatCurrency(runResult.totalAmount)}`}
+              </p>
+            </div>
+            <button onClick={() => setRunResult(null)}>
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Invoice</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Overdue Balance</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Days Overdue</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Charge</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fee Invoice</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {runResult.results.map((result) => (
+                  <tr key={result.invoiceId}>
+                    <td className="px-4 py-2">
+                      <p className="font-medium text-gray-900">{result.invoiceNumber}</p>
+                      <p className="text-xs text-gray-500">{result.customerName}</p>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-700">{formatCurrency(result.balanceAmount)}</td>
+                    <td className="px-4 py-2 text-right text-gray-700">{result.daysOverdue}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(result.amount)}</td>
+                    <td className="px-4 py-2">
+                      {result.error ? (
+                        <span className="text-xs text-red-600">{result.error}</span>
+                      ) : (
+                        result.feeInvoiceNumber || '—'
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {runResult.results.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                      Nothing to charge this month.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="card overflow-hidden">
+        <div className="p-4 border-b">
+          <h2 className="font-semibold text-gray-900">Charges</h2>
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Month</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Overdue Invoice</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Fee</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Interest</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fee Invoice</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {charges.map((charge) => (
+                  <tr key={charge.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-gray-700">
+                      {formatPeriod(charge.period)}
+                      <p className="text-xs text-gray-500">{charge.policy.name}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{charge.invoice.invoiceNumber}</p>
+                      <p className="text-xs text-gray-500">
+                        {charge.customer.name} · {charge.daysOverdue} days overdue
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(charge.balanceAmount)}</td>
+                    <td className="px-4 py-3 text-right text-gray-700">
+                      {charge.flatFee ? formatCurrency(charge.flatFee) : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700">
+                      {charge.interestAmount ? formatCurrency(charge.interestAmount) : '—'}
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="text-gray-900">
+                        {charge.feeInvoice.invoiceNumber} · {formatCurrency(charge.amount)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {charge.feeInvoice.status} · raised {formatDate(charge.createdAt)}
+                      </p>
+                    </td>
+                  </tr>
+                ))}
+                {charges.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                      No late fees charged yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-xl">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h3 className="text-lg font-semibold">{editing ? 'Edit Late Fee Policy' : 'New Late Fee Policy'}</h3>
+              <button onClick={() => setShowForm(false)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="input"
+                  placeholder="e.g. Standard contract terms"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <input
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="input"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Flat fee (once)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.flatFee}
+                    onChange={(e) => setForm({ ...form, flatFee: e.target.value })}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Monthly interest (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="10"
+                    step="0.01"
+                    value={form.monthlyRate}
+                    onChange={(e) => setForm({ ...form, monthlyRate: e.target.value })}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Grace period (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.graceDays}
+                    onChange={(e) => setForm({ ...form, graceDays: e.target.value })}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Cap per invoice</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.maxTotalFee}
+                    onChange={(e) => setForm({ ...form, maxTotalFee: e.target.value })}
+                    className="input"
+                    placeholder="No cap"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isDefault}
+                  onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+                />
+                Default for customers without their own policy
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                />
+                Active
+              </label>
+            </div>
+            <div className="p-4 border-t flex justify-end gap-2">
+              <button className="btn-secondary" onClick={() => setShowForm(false)}>
+                Cancel
+              </button>
+              <button className="btn-primary" onClick={savePolicy} disabled={saving}>
+                {saving ? 'Saving...' : editing ? 'Save' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ interface Invoice {
   totalAmount: number;
   paidAmount: number;
   balanceAmount: number;
+  currency?: string;
   status: string;
   customer?: { name?: string | null; phone?: string | null } | null;
 }
@@ -64,10 +65,10 @@ export default function InvoicesPage() {
     fetchInvoices();
   }, [fetchInvoices]);
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency = 'KES') => {
     return new Intl.NumberFormat('en-KE', {
       style: 'currency',
-      currency: 'KES',
+      currency,
       minimumFractionDigits: 2,
     }).format(amount);
   };
@@ -291,9 +292,9 @@ export default function InvoicesPage() {
                     <td className="text-xs sm:text-sm truncate max-w-[120px] sm:max-w-none">{invoice.customer?.name}</td>
                     <td className="hidden md:table-cell text-xs sm:text-sm">{formatDate(invoice.issueDate)}</td>
                     <td className="hidden md:table-cell text-xs sm:text-sm">{formatDate(invoice.dueDate)}</td>
-                    <td className="text-xs sm:text-sm font-semibold">{formatCurrency(invoice.totalAmount)}</td>
-                    <td className="hidden lg:table-cell text-xs sm:text-sm">{formatCurrency(invoice.paidAmount)}</td>
-                    <td className="text-xs sm:text-sm font-medium">{formatCurrency(invoice.balanceAmount)}</td>
+                    <td className="text-xs sm:text-sm font-semibold">{formatCurrency(invoice.totalAmount, invoice.currency)}</td>
+                    <td className="hidden lg:table-cell text-xs sm:text-sm">{formatCurrency(invoice.paidAmount, invoice.currency)}</td>
+                    <td className="text-xs sm:text-sm font-medium">{formatCurrency(invoice.balanceAmount, invoice.currency)}</td>
                     <td className="hidden sm:table-cell">
                       <span className={`badge text-xs ${getStatusBadge(invoice.status)}`}>
                         {invoice.status}
@@ -459,21 +460,22 @@ export default function InvoicesPage() {
                 <div className="grid grid-cols-2 gap-3">
                   <div className="bg-white rounded p-3 border border-gray-200">
                     <p className="text-xs text-gray-600 mb-1">Total Invoice Amount</p>
-                    <p className="text-lg font-bold text-gray-900">{formatCurrency(selectedInvoice.totalAmount)}</p>
+                    <p className="text-lg font-bold text-gray-900">{formatCurrency(selectedInvoice.totalAmount, selectedInvoice.currency)}</p>
                   </div>
                   <div className="bg-green-50 rounded p-3 border border-green-200">
                     <p className="text-xs text-green-700 mb-1">Already Paid</p>
-                    <p className="text-lg font-bold text-green-700">{formatCurrency(selectedInvoice.paidAmount)}</p>
+                    <p className="text-lg font-bold text-green-700">{formatCurrency(selectedInvoice.paidAmount, selectedInvoice.currency)}</p>
                   </div>
                   <div className="bg-orange-50 rounded p-3 border border-orange-200">
                     <p className="text-xs text-orange-700 mb-1">Balance Due</p>
-                    <p className="text-lg font-bold text-orange-700">{formatCurrency(selectedInvoice.balanceAmount)}</p>
+                    <p className="text-lg font-bold text-orange-700">{formatCurrency(selectedInvoice.balanceAmount, selectedInvoice.currency)}</p>
                   </div>
                   <div className="bg-blue-50 rounded p-3 border border-blue-200">
                     <p className="text-xs text-blue-700 mb-1">New Balance After Payment</p>
                     <p className="text-lg font-bold text-blue-700">
                       {formatCurrency(
-                        Math.max(0, selectedInvoice.balanceAmount - (parseFloat(paymentForm.amount) || 0))
+                        Math.max(0, selectedInvoice.balanceAmount - (parseFloat(paymentForm.amount) || 0)),
+                        selectedInvoice.currency
                       )}
                     </p>
                   </div>
@@ -488,7 +490,7 @@ export default function InvoicesPage() {
                   </svg>
                   Payment Amount *
                   {selectedInvoice.balanceAmount > 0 && (
-                    <span className="text-xs text-gray-500">(Max: {formatCurrency(selectedInvoice.balanceAmount)})</span>
+                    <span className="text-xs text-gray-500">(Max: {formatCurrency(selectedInvoice.balanceAmount, selectedInvoice.currency)})</span>
                   )}
                   {selectedInvoice.balanceAmount === 0 && (
                     <span className="text-xs text-amber-600">(Invoice fully paid - enter refund or adjustment amount)</span>
@@ -507,7 +509,7 @@ export default function InvoicesPage() {
                     onChange={(e) => {
                       const value = parseFloat(e.target.value) || 0;
                       if (selectedInvoice.balanceAmount > 0 && value > selectedInvoice.balanceAmount) {
-                        alert(`Payment amount cannot exceed balance due of ${formatCurrency(selectedInvoice.balanceAmount)}`);
+                        alert(`Payment amount cannot exceed balance due of ${formatCurrency(selectedInvoice.balanceAmount, selectedInvoice.currency)}`);
                         setPaymentForm({ ...paymentForm, amount: selectedInvoice.balanceAmount.toString() });
                       } else {
                         setPaymentForm({ ...paymentForm, amount: e.target.value });
@@ -523,7 +525,7 @@ export default function InvoicesPage() {
                     <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
                       <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
                     </svg>
-                    Partial payment - Invoice will remain open with balance of {formatCurrency(selectedInvoice.balanceAmount - parseFloat(paymentForm.amount))}
+                    Partial payment - Invoice will remain open with balance of {formatCurrency(selectedInvoice.balanceAmount - parseFloat(paymentForm.amount), selectedInvoice.currency)}
                   </p>
                 )}
               </div>
@@ -685,16 +687,16 @@ export default function InvoicesPage() {
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span className="text-gray-700">Total Amount:</span>
-                    <span className="font-semibold text-gray-900">{formatCurrency(selectedInvoice.totalAmount)}</span>
+                    <span className="font-semibold text-gray-900">{formatCurrency(selectedInvoice.totalAmount, selectedInvoice.currency)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-700">Paid Amount:</span>
-                    <span className="font-semibold text-green-700">{formatCurrency(selectedInvoice.paidAmount)}</span>
+                    <span className="font-semibold text-green-700">{formatCurrency(selectedInvoice.paidAmount, selectedInvoice.currency)}</span>
                   </div>
                   <div className="flex justify-between border-t border-gray-200 pt-2 mt-2">
                     <span className="text-gray-700 font-semibold">Balance Due:</span>
                     <span className={`font-bold text-lg ${selectedInvoice.balanceAmount > 0 ? 'text-orange-700' : 'text-green-700'}`}>
-                      {formatCurrency(selectedInvoice.balanceAmount)}
+                      {formatCurrency(selectedInvoice.balanceAmount, selectedInvoice.currency)}
                     </span>
                   </div>
                 </div>
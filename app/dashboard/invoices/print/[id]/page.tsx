@@ -3,6 +3,7 @@
 import Image from 'next/image';
 import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
+import QRCode from 'qrcode';
 
 interface Product {
   name: string;
@@ -52,6 +53,10 @@ interface Invoice {
   status: string;
   description: string | null;
   notes: string | null;
+  cuInvoiceNumber: string | null;
+  fiscalSignature: string | null;
+  fiscalQrUrl: string | null;
+  fiscalisedAt: string | null;
   customer: Customer;
   payments: Payment[];
   posOrders: PosOrder[];
@@ -61,6 +66,7 @@ export default function InvoicePrintPage() {
   const params = useParams();
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [loading, setLoading] = useState(true);
+  const [fiscalQr, setFiscalQr] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchInvoice = async () => {
@@ -87,13 +93,21 @@ export default function InvoicePrintPage() {
   }, [params.id]);
 
   useEffect(() => {
-    // Auto-print when page loads
-    if (invoice && !loading) {
+    if (invoice?.fiscalQrUrl) {
+      QRCode.toDataURL(invoice.fiscalQrUrl, { margin: 1, width: 160 })
+        .then(setFiscalQr)
+        .catch((error) => console.error('Error rendering eTIMS QR code:', error));
+    }
+  }, [invoice?.fiscalQrUrl]);
+
+  useEffect(() => {
+    // Auto-print when page loads (and the eTIMS QR code has rendered)
+    if (invoice && !loading && (!invoice.fiscalQrUrl || fiscalQr)) {
       setTimeout(() => {
         window.print();
       }, 500);
     }
-  }, [invoice, loading]);
+  }, [invoice, loading, fiscalQr]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-KE', {
@@ -380,6 +394,19 @@ export default function InvoicePrintPage() {
             </div>
           )}
 
+          {/* KRA eTIMS - Only on first page */}
+          {pageIdx === 0 && invoice.cuInvoiceNumber && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '16px', marginTop: '16px', fontSize: '12px', color: '#374151' }}>
+              {fiscalQr && <Image src={fiscalQr} alt="KRA eTIMS QR code" width={96} height={96} unoptimized />}
+              <div>
+                <p style={{ fontWeight: 'bold', color: '#111827', textTransform: 'uppercase', margin: '0 0 4px 0' }}>KRA eTIMS</p>
+                <p style={{ margin: '0 0 2px 0' }}>CU Invoice No: {invoice.cuInvoiceNumber}</p>
+                <p style={{ margin: '0 0 2px 0', wordBreak: 'break-all' }}>Receipt Signature: {invoice.fiscalSignature}</p>
+                {invoice.fiscalisedAt && <p style={{ margin: 0 }}>Signed: {formatDate(invoice.fiscalisedAt)}</p>}
+              </div>
+            </div>
+          )}
+
           {/* Footer */}
           <div style={{ borderTop: '2px solid #d1d5db', paddingTop: '12px', marginTop: '16px', textAlign: 'center', fontSize: '12px', color: '#4b5563' }}>
             <p style={{ fontWeight: 'bold', color: '#111827', marginBottom: '4px', fontSize: '14px', margin: 0 }}>Thank you for your business!</p>
@@ -0,0 +1,677 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { History, Pause, Play, Plus, Repeat, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface TemplateItem {
+  id: string;
+  productId?: string | null;
+  description?: string | null;
+  quantity: number;
+  unitPrice?: number | null;
+  discount: number;
+  taxCode: string;
+}
+
+interface TemplateRun {
+  id: string;
+  scheduledFor: string;
+  status: string;
+  error?: string | null;
+  attempts: number;
+  emailSent: boolean;
+  smsSent: boolean;
+  deliveryError?: string | null;
+  createdAt: string;
+  invoice?: { id: string; invoiceNumber: string; totalAmount: number; status: string } | null;
+}
+
+interface RecurringTemplate {
+  id: string;
+  name: string;
+  frequency: string;
+  startDate: string;
+  endDate?: string | null;
+  nextRunDate?: string | null;
+  paymentTermsDays: number;
+  status: string;
+  autoSend: boolean;
+  sendChannel: string;
+  lastRunAt?: string | null;
+  runCount: number;
+  failureCount: number;
+  customer: { id: string; name: string };
+  items: TemplateItem[];
+  runs: TemplateRun[];
+}
+
+interface CustomerOption {
+  id: string;
+  name: string;
+}
+
+interface ProductOption {
+  id: string;
+  name: string;
+  price: number;
+}
+
+interface LineForm {
+  productId: string;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  taxCode: string;
+}
+
+const emptyLine: LineForm = { productId: '', description: '', quantity: '1', unitPrice: '', taxCode: 'VAT16' };
+
+const emptyForm = {
+  name: '',
+  customerId: '',
+  frequency: 'MONTHLY',
+  startDate: new Date().toISOString().slice(0, 10),
+  endDate: '',
+  paymentTermsDays: '30',
+  autoSend: false,
+  sendChannel: 'EMAIL',
+  description: '',
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  ACTIVE: 'badge-success',
+  PAUSED: 'badge-warning',
+  ENDED: 'badge-gray',
+};
+
+export default function RecurringInvoicesPage() {
+  const [templates, setTemplates] = useState<RecurringTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [lines, setLines] = useState<LineForm[]>([{ ...emptyLine }]);
+  const [customers, setCustomers] = useState<CustomerOption[]>([]);
+  const [products, setProducts] = useState<ProductOption[]>([]);
+  const [history, setHistory] = useState<RecurringTemplate | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('token');
+      const params = new URLSearchParams();
+      if (statusFilter) params.set('status', statusFilter);
+
+      const response = await fetch(`/api/recurring-invoices?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(data.data.templates || []);
+      }
+    } catch (error) {
+      console.error('Error loading recurring invoices:', error);
+      toast.error('Failed to load recurring invoices');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const openCreate = async () => {
+    setForm(emptyForm);
+    setLines([{ ...emptyLine }]);
+    setShowCreate(true);
+
+    if (customers.length > 0) return;
+
+    try {
+      const token = localStorage.getItem('token');
+      const [customersRes, productsRes] = await Promise.all([
+        fetch('/api/customers?limit=500', { headers: { Authorization: `Bearer ${token}` } }),
+        fetch('/api/products?limit=500', { headers: { Authorization: `Bearer ${token}` } }),
+      ]);
+
+      if (customersRes.ok) {
+        const data = await customersRes.json();
+        setCustomers(data.data.customers || []);
+      }
+
+      if (productsRes.ok) {
+        const data = await productsRes.json();
+        setProducts(data.data.items || []);
+      }
+    } catch (error) {
+      console.error('Error loading customers and products:', error);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<LineForm>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const createTemplate = async () => {
+    if (!form.name.trim() || !form.customerId) {
+      toast.error('Enter a name and choose a customer');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/recurring-invoices', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          ...form,
+          endDate: form.endDate || null,
+          paymentTermsDays: parseInt(form.paymentTermsDays || '0'),
+          description: form.description || undefined,
+          items: lines.map((line) => ({
+            productId: line.productId || undefined,
+            description: line.description || undefined,
+            quantity: parseFloat(line.quantity || '0'),
+            unitPrice: line.unitPrice ? parseFloat(line.unitPrice) : undefined,
+            taxCode: line.taxCode,
+          })),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to create recurring invoice');
+      }
+
+      toast.success('Recurring invoice created');
+      setShowCreate(false);
+      fetchTemplates();
+    } catch (error) {
+      console.error('Create recurring invoice error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create recurring invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setStatus = async (template: RecurringTemplate, status: 'ACTIVE' | 'PAUSED') => {
+    try {
+      setBusyId(template.id);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/recurring-invoices/${template.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ status }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to update recurring invoice');
+      }
+
+      toast.success(status === 'PAUSED' ? 'Recurring invoice paused' : 'Recurring invoice resumed');
+      fetchTemplates();
+    } catch (error) {
+      console.error('Update recurring invoice error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update recurring invoice');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const runNow = async (template: RecurringTemplate) => {
+    try {
+      setBusyId(template.id);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/recurring-invoices/${template.id}/run`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Run failed');
+      }
+
+      toast.success(
+        data.data.deliveryError ? `Invoice issued, delivery failed: ${data.data.deliveryError}` : 'Invoice issued'
+      );
+      fetchTemplates();
+    } catch (error) {
+      console.error('Run recurring invoice error:', error);
+      toast.error(error instanceof Error ? error.message : 'Run failed');
+      fetchTemplates();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openHistory = async (id: string) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/recurring-invoices/${id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to load run history');
+      }
+
+      setHistory(data.data);
+    } catch (error) {
+      console.error('Load run history error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load run history');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <Link href="/dashboard/invoices" className="text-sm text-primary-600 hover:text-primary-700">
+            ← Invoices
+          </Link>
+          <h1 className="text-2xl font-display font-bold text-gray-900">Recurring Invoices</h1>
+          <p className="text-sm text-gray-600">Subscription and retainer billing schedules</p>
+        </div>
+        <button onClick={openCreate} className="btn-primary">
+          <Plus className="w-4 h-4" />
+          New Template
+        </button>
+      </div>
+
+      <div className="card p-4 flex flex-wrap items-center gap-4">
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className="input w-auto">
+          <option value="">All statuses</option>
+          <option value="ACTIVE">Active</option>
+          <option value="PAUSED">Paused</option>
+          <option value="ENDED">Ended</option>
+        </select>
+      </div>
+
+      <div className="card overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Template</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Schedule</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Next Run</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Run</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {templates.map((template) => {
+                  const lastRun = template.runs[0];
+
+                  return (
+                    <tr key={template.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-gray-900">{template.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {template.customer.name} · {template.items.length} line
+                          {template.items.length === 1 ? '' : 's'}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        <p>{template.frequency.charAt(0) + template.frequency.slice(1).toLowerCase()}</p>
+                        <p className="text-xs text-gray-500">
+                          Net {template.paymentTermsDays} · {template.autoSend ? `Auto-send ${template.sendChannel}` : 'Manual send'}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {template.nextRunDate ? formatDate(template.nextRunDate) : '—'}
+                        {template.endDate && (
+                          <p className="text-xs text-gray-500">Ends {formatDate(template.endDate)}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {lastRun ? (
+                          <>
+                            <span className={lastRun.status === 'SUCCESS' ? 'badge-success' : 'badge-danger'}>
+                              {lastRun.status}
+                            </span>
+                            <p className="text-xs text-gray-500">{formatDate(lastRun.scheduledFor)}</p>
+                            {(lastRun.error || lastRun.deliveryError) && (
+                              <p className="text-xs text-red-600">{lastRun.error || lastRun.deliveryError}</p>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-gray-500">Never</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={STATUS_BADGES[template.status] || 'badge-gray'}>{template.status}</span>
+                        {template.failureCount > 0 && (
+                          <p className="text-xs text-red-600">{template.failureCount} failed</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end gap-3">
+                          {template.status === 'ACTIVE' && (
+                            <>
+                              <button
+                                onClick={() => runNow(template)}
+                                disabled={busyId === template.id}
+                                className="text-primary-600 hover:text-primary-700"
+                                title="Run now"
+                              >
+                                <Play className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => setStatus(template, 'PAUSED')}
+                                disabled={busyId === template.id}
+                                className="text-gray-600 hover:text-gray-900"
+                                title="Pause"
+                              >
+                                <Pause className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                          {template.status === 'PAUSED' && (
+                            <button
+                              onClick={() => setStatus(template, 'ACTIVE')}
+                              disabled={busyId === template.id}
+                              className="text-green-600 hover:text-green-700"
+                              title="Resume"
+                            >
+                              <Repeat className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => openHistory(template.id)}
+                            className="text-gray-600 hover:text-gray-900"
+                            title="Run history"
+                          >
+                            <History className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {templates.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                      No recurring invoices yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showCreate && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h3 className="text-lg font-semibold">New Recurring Invoice</h3>
+              <button onClick={() => setShowCreate(false)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-4 overflow-y-auto flex-1">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="input"
+                    placeholder="e.g. Monthly support retainer"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Customer</label>
+                  <select
+                    value={form.customerId}
+                    onChange={(e) => setForm({ ...form, customerId: e.target.value })}
+                    className="input"
+                  >
+                    <option value="">Select customer</option>
+                    {customers.map((customer) => (
+                      <option key={customer.id} value={customer.id}>
+                        {customer.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+                  <select
+                    value={form.frequency}
+                    onChange={(e) => setForm({ ...form, frequency: e.target.value })}
+                    className="input"
+                  >
+                    <option value="WEEKLY">Weekly</option>
+                    <option value="MONTHLY">Monthly</option>
+                    <option value="QUARTERLY">Quarterly</option>
+                    <option value="YEARLY">Yearly</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Payment terms (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.paymentTermsDays}
+                    onChange={(e) => setForm({ ...form, paymentTermsDays: e.target.value })}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">First invoice date</label>
+                  <input
+                    type="date"
+                    value={form.startDate}
+                    onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">End date (optional)</label>
+                  <input
+                    type="date"
+                    value={form.endDate}
+                    onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                    className="input"
+                  />
+                </div>
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.autoSend}
+                      onChange={(e) => setForm({ ...form, autoSend: e.target.checked })}
+                    />
+                    Send automatically
+                  </label>
+                  {form.autoSend && (
+                    <select
+                      value={form.sendChannel}
+                      onChange={(e) => setForm({ ...form, sendChannel: e.target.value })}
+                      className="input w-auto"
+                    >
+                      <option value="EMAIL">Email</option>
+                      <option value="SMS">SMS</option>
+                      <option value="BOTH">Email & SMS</option>
+                    </select>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                  <input
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    className="input"
+                    placeholder="Defaults to the template name and billing date"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold text-gray-900">Lines</h4>
+                  <button
+                    onClick={() => setLines((prev) => [...prev, { ...emptyLine }])}
+                    className="text-sm text-primary-600 hover:text-primary-700 inline-flex items-center gap-1"
+                  >
+                    <Plus className="w-4 h-4" /> Add line
+                  </button>
+                </div>
+                {lines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <select
+                      value={line.productId}
+                      onChange={(e) => updateLine(index, { productId: e.target.value })}
+                      className="input col-span-3"
+                    >
+                      <option value="">Free text</option>
+                      {products.map((product) => (
+                        <option key={product.id} value={product.id}>
+                          {product.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      value={line.description}
+                      onChange={(e) => updateLine(index, { description: e.target.value })}
+                      className="input col-span-3"
+                      placeholder="Description"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      className="input col-span-1"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.unitPrice}
+                      onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                      className="input col-span-2"
+                      placeholder={line.productId ? 'Product price' : 'Unit price'}
+                    />
+                    <select
+                      value={line.taxCode}
+                      onChange={(e) => updateLine(index, { taxCode: e.target.value })}
+                      className="input col-span-2"
+                    >
+                      <option value="VAT16">VAT 16%</option>
+                      <option value="VAT8">VAT 8%</option>
+                      <option value="ZERO">Zero-rated</option>
+                      <option value="EXEMPT">Exempt</option>
+                    </select>
+                    <button
+                      onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                      disabled={lines.length === 1}
+                      className="col-span-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="p-4 border-t flex justify-end gap-2">
+              <button className="btn-secondary" onClick={() => setShowCreate(false)}>
+                Cancel
+              </button>
+              <button className="btn-primary" onClick={createTemplate} disabled={saving}>
+                {saving ? 'Saving...' : 'Create'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {history && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b">
+              <div>
+                <h3 className="text-lg font-semibold">{history.name}</h3>
+                <p className="text-sm text-gray-500">
+                  {history.customer.name} · {history.runCount} invoice{history.runCount === 1 ? '' : 's'} issued
+                </p>
+              </div>
+              <button onClick={() => setHistory(null)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="overflow-y-auto flex-1">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Billing Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Invoice</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Delivery</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {history.runs.map((run) => (
+                    <tr key={run.id}>
+                      <td className="px-4 py-2 text-gray-900">
+                        {formatDate(run.scheduledFor)}
+                        {run.attempts > 1 && <p className="text-xs text-gray-500">{run.attempts} attempts</p>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={run.status === 'SUCCESS' ? 'badge-success' : 'badge-danger'}>{run.status}</span>
+                        {run.error && <p className="text-xs text-red-600">{run.error}</p>}
+                      </td>
+                      <td className="px-4 py-2 text-gray-700">
+                        {run.invoice
+                          ? `${run.invoice.invoiceNumber} · ${formatCurrency(run.invoice.totalAmount)}`
+                          : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-gray-700">
+                        {[run.emailSent && 'Email', run.smsSent && 'SMS'].filter(Boolean).join(', ') || '—'}
+                        {run.deliveryError && <p className="text-xs text-red-600">{run.deliveryError}</p>}
+                      </td>
+                    </tr>
+                  ))}
+                  {history.runs.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-6 text-center text-gray-500">
+                        No runs yet.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -38,9 +38,14 @@ import {
   MessageSquare,
   Settings,
   Award,
+  ArrowLeftRight,
   Target,
   BookOpen,
   Clock,
+  Repeat,
+  BellRing,
+  Percent,
+  ShieldCheck,
 } from 'lucide-react';
 
 export default function DashboardLayout({ children }: { children: React.ReactNode }) {
@@ -117,6 +122,7 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
         { name: 'Bank Accounts', href: '/dashboard/financial/bank-accounts', icon: DollarSign },
         { name: 'Budgets', href: '/dashboard/financial/budgets', icon: BarChart3 },
         { name: 'Cash Flow', href: '/dashboard/financial/cash-flow', icon: TrendingUp },
+        { name: 'Exchange Rates', href: '/dashboard/financial/exchange-rates', icon: ArrowLeftRight },
       ],
     },
     {
@@ -149,6 +155,10 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
       items: [
         { name: 'All Invoices', href: '/dashboard/invoices', icon: FileText },
         { name: 'Unpaid Invoices', href: '/dashboard/invoices/unpaid', icon: AlertCircle },
+        { name: 'Recurring Invoices', href: '/dashboard/invoices/recurring', icon: Repeat },
+        { name: 'Dunning', href: '/dashboard/invoices/dunning', icon: BellRing },
+        { name: 'Late Fees', href: '/dashboard/invoices/late-fees', icon: Percent },
+        { name: 'KRA eTIMS', href: '/dashboard/invoices/etims', icon: ShieldCheck },
       ],
     },
     { name: 'Credit Notes', href: '/dashboard/credit-notes', icon: Receipt },
@@ -91,6 +91,18 @@ interface IntegrationSummary {
   }>;
 }
 
+interface CashPosition {
+  bankAccountId: string;
+  bankName: string;
+  accountNumber: string;
+  currency: string;
+  ledgerAccountCode: string;
+  ledgerBalance: number;
+  statementBalance: number | null;
+  statementDate: string | null;
+  lastReconciledDate: string | null;
+}
+
 interface DashboardData {
   summary: {
     totalCollectedThisMonth: number;
@@ -101,6 +113,7 @@ interface DashboardData {
   };
   recentTransactions: RecentTransaction[];
   topCustomers: TopCustomer[];
+  cashPositions: CashPosition[];
 }
 
 const emptyDashboardData: DashboardData = {
@@ -113,6 +126,7 @@ const emptyDashboardData: DashboardData = {
   },
   recentTransactions: [],
   topCustomers: [],
+  cashPositions: [],
 };
 
 const emptyIntegrationSummary: IntegrationSummary = {
@@ -309,7 +323,7 @@ export default function DashboardPage() {
       const contentType = response.headers.get('content-type');
       if (contentType && contentType.includes('application/json')) {
         const result = await response.json();
-        setData(result.data || emptyDashboardData);
+        setData(result.data ? { ...emptyDashboardData, ...result.data } : emptyDashboardData);
       } else {
         console.error('Expected JSON but got:', contentType);
         setData(emptyDashboardData);
@@ -953,6 +967,42 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {/* Cash Positions */}
+      {data.cashPositions.length > 0 && (
+        <div className="card hover:shadow-lg transition-shadow">
+          <div className="card-header flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Cash Positions</h3>
+            <Link href="/dashboard/financial/bank-accounts" className="text-sm text-primary-600 hover:text-primary-700">
+              Bank Accounts
+            </Link>
+          </div>
+          <div className="card-body">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {data.cashPositions.map((position) => (
+                <div key={position.bankAccountId} className="p-4 rounded-lg border border-gray-100">
+                  <div className="flex items-center gap-2">
+                    <Wallet className="w-4 h-4 text-primary-600" />
+                    <p className="text-sm font-medium text-gray-900">{position.bankName}</p>
+                    <span className="text-xs text-gray-500">
+                      {position.accountNumber} · GL {position.ledgerAccountCode}
+                    </span>
+                  </div>
+                  <p className="text-xl font-bold text-gray-900 mt-2">{formatCurrency(position.ledgerBalance)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {position.statementBalance !== null
+                      ? `Statement ${formatCurrency(position.statementBalance)}${position.statementDate ? ` on ${formatDate(position.statementDate)}` : ''}`
+                      : 'No statement imported'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Reconciled to {position.lastReconciledDate ? formatDate(position.lastReconciledDate) : 'never'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Recent Transactions */}
         <div className="card hover:shadow-lg transition-shadow">
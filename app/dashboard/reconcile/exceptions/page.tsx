@@ -0,0 +1,517 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, CheckCircle, Clock, MessageSquare, Play, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface UserSummary {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface ReconciliationException {
+  id: string;
+  status: string;
+  priority: string;
+  reason?: string | null;
+  dueAt: string;
+  escalationLevel: number;
+  createdAt: string;
+  assignee?: UserSummary | null;
+  bankTransaction: {
+    id: string;
+    bankTransactionId: string;
+    transactionDate: string;
+    amount: number;
+    reference: string;
+    bankAccount?: { bankName: string; accountNumber: string } | null;
+  };
+  _count: { comments: number };
+}
+
+interface ExceptionComment {
+  id: string;
+  comment: string;
+  createdAt: string;
+  user: UserSummary;
+}
+
+interface ExceptionDetail extends Omit<ReconciliationException, '_count'> {
+  resolution?: string | null;
+  comments: ExceptionComment[];
+}
+
+interface ExceptionSummary {
+  slaHours: number;
+  totalOpen: number;
+  totalOverdue: number;
+  workload: {
+    userId: string | null;
+    name: string;
+    open: number;
+    overdue: number;
+    amount: number;
+    oldestDays: number;
+  }[];
+  ageing: { label: string; count: number; amount: number }[];
+  assignees: (UserSummary & { role: string })[];
+}
+
+const PRIORITY_BADGES: Record<string, string> = {
+  HIGH: 'badge-danger',
+  MEDIUM: 'badge-warning',
+  LOW: 'badge-gray',
+};
+
+export default function ReconciliationExceptionsPage() {
+  const [exceptions, setExceptions] = useState<ReconciliationException[]>([]);
+  const [summary, setSummary] = useState<ExceptionSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [escalating, setEscalating] = useState(false);
+  const [statusFilter, setStatusFilter] = useState('ACTIVE');
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [selected, setSelected] = useState<ExceptionDetail | null>(null);
+  const [comment, setComment] = useState('');
+  const [resolution, setResolution] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('token');
+      const params = new URLSearchParams({ status: statusFilter, limit: '50' });
+      if (assigneeFilter) params.set('assignedTo', assigneeFilter);
+      if (overdueOnly) params.set('overdue', 'true');
+
+      const [exceptionsRes, summaryRes] = await Promise.all([
+        fetch(`/api/reconciliation/exceptions?${params}`, { headers: { Authorization: `Bearer ${token}` } }),
+        fetch('/api/reconciliation/exceptions/summary', { headers: { Authorization: `Bearer ${token}` } }),
+      ]);
+
+      if (exceptionsRes.ok) {
+        const data = await exceptionsRes.json();
+        setExceptions(data.data.exceptions || []);
+      }
+
+      if (summaryRes.ok) {
+        const data = await summaryRes.json();
+        setSummary(data.data);
+      }
+    } catch (error) {
+      console.error('Error loading exceptions:', error);
+      toast.error('Failed to load exceptions');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, assigneeFilter, overdueOnly]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const openDetail = async (id: string) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/reconciliation/exceptions/${id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to load exception');
+      }
+
+      setSelected(data.data);
+      setComment('');
+      setResolution('');
+    } catch (error) {
+      console.error('Load exception error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load exception');
+    }
+  };
+
+  const assign = async (id: string, assignedTo: string) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/reconciliation/exceptions/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ assignedTo: assignedTo || null }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to assign exception');
+      }
+
+      toast.success(assignedTo ? 'Exception assigned' : 'Exception returned to the queue');
+      fetchData();
+    } catch (error) {
+      console.error('Assign exception error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to assign exception');
+    }
+  };
+
+  const addComment = async () => {
+    if (!selected || !comment.trim()) return;
+
+    try {
+      setSaving(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/reconciliation/exceptions/${selected.id}/comments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ comment: comment.trim() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to add comment');
+      }
+
+      setSelected((prev) => (prev ? { ...prev, comments: [...prev.comments, data.data] } : prev));
+      setComment('');
+      fetchData();
+    } catch (error) {
+      console.error('Add comment error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add comment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resolve = async () => {
+    if (!selected || !resolution.trim()) {
+      toast.error('Enter a resolution note');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/reconciliation/exceptions/${selected.id}/resolve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ resolution: resolution.trim() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to resolve exception');
+      }
+
+      toast.success('Exception resolved');
+      setSelected(null);
+      fetchData();
+    } catch (error) {
+      console.error('Resolve exception error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve exception');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runEscalation = async () => {
+    try {
+      setEscalating(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/reconciliation/exceptions/escalate', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to run escalation');
+      }
+
+      toast.success(`${data.data.opened} opened, ${data.data.escalated} escalated`);
+      fetchData();
+    } catch (error) {
+      console.error('Escalation error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to run escalation');
+    } finally {
+      setEscalating(false);
+    }
+  };
+
+  const isOverdue = (exception: { status: string; dueAt: string }) =>
+    exception.status !== 'RESOLVED' && new Date(exception.dueAt) < new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <Link href="/dashboard/reconcile" className="text-sm text-primary-600 hover:text-primary-700">
+            ← Reconciliation
+          </Link>
+          <h1 className="text-2xl font-display font-bold text-gray-900">Reconciliation Exceptions</h1>
+          <p className="text-sm text-gray-600">
+            Unmatched transactions awaiting manual work
+            {summary && ` · SLA ${summary.slaHours} hours`}
+          </p>
+        </div>
+        <button onClick={runEscalation} className="btn-secondary" disabled={escalating}>
+          <Play className="w-4 h-4" />
+          {escalating ? 'Running...' : 'Run Escalation'}
+        </button>
+      </div>
+
+      {summary && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="card p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900">Open Exceptions</h3>
+              <Clock className="w-5 h-5 text-gray-400" />
+            </div>
+            <p className="text-3xl font-bold text-gray-900">{summary.totalOpen}</p>
+            <p className={summary.totalOverdue > 0 ? 'text-sm text-red-600' : 'text-sm text-gray-500'}>
+              {summary.totalOverdue} past SLA
+            </p>
+            <div className="space-y-2 pt-2 border-t">
+              {summary.ageing.map((bucket) => (
+                <div key={bucket.label} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600">{bucket.label}</span>
+                  <span className="text-gray-900">
+                    {bucket.count} · {formatCurrency(bucket.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="card overflow-hidden lg:col-span-2">
+            <div className="p-4 border-b">
+              <h3 className="font-semibold text-gray-900">Workload</h3>
+            </div>
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Assignee</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Open</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Overdue</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Oldest</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summary.workload.map((row) => (
+                  <tr
+                    key={row.userId ?? 'unassigned'}
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setAssigneeFilter(row.userId ?? 'unassigned')}
+                  >
+                    <td className="px-4 py-2 text-gray-900">{row.name}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{row.open}</td>
+                    <td className="px-4 py-2 text-right">
+                      <span className={row.overdue > 0 ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                        {row.overdue}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(row.amount)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{row.oldestDays}d</td>
+                  </tr>
+                ))}
+                {summary.workload.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                      No open exceptions.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="card p-4 flex flex-wrap items-center gap-4">
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} className="input w-auto">
+          <option value="ACTIVE">Open & In Progress</option>
+          <option value="OPEN">Open</option>
+          <option value="IN_PROGRESS">In Progress</option>
+          <option value="RESOLVED">Resolved</option>
+        </select>
+        <select value={assigneeFilter} onChange={(e) => setAssigneeFilter(e.target.value)} className="input w-auto">
+          <option value="">All assignees</option>
+          <option value="unassigned">Unassigned</option>
+          {summary?.assignees.map((user) => (
+            <option key={user.id} value={user.id}>
+              {user.firstName} {user.lastName}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked)} />
+          Overdue only
+        </label>
+      </div>
+
+      <div className="card overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Transaction</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Priority</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Due</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Assignee</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {exceptions.map((exception) => (
+                  <tr key={exception.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{exception.bankTransaction.reference}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(exception.bankTransaction.transactionDate)} ·{' '}
+                        <span className="font-mono">{exception.bankTransaction.bankTransactionId}</span>
+                        {exception.bankTransaction.bankAccount &&
+                          ` · ${exception.bankTransaction.bankAccount.bankName}`}
+                      </p>
+                      {exception.reason && <p className="text-xs text-gray-500">{exception.reason}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900">
+                      {formatCurrency(exception.bankTransaction.amount)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={PRIORITY_BADGES[exception.priority] || 'badge-gray'}>
+                        {exception.priority}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={isOverdue(exception) ? 'text-red-600 font-medium' : 'text-gray-700'}>
+                        {formatDate(exception.dueAt)}
+                      </span>
+                      {exception.escalationLevel > 0 && (
+                        <span className="badge-danger ml-2">
+                          <AlertTriangle className="w-3 h-3 inline" /> L{exception.escalationLevel}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {exception.status === 'RESOLVED' ? (
+                        <span className="badge-success">Resolved</span>
+                      ) : (
+                        <select
+                          value={exception.assignee?.id ?? ''}
+                          onChange={(e) => assign(exception.id, e.target.value)}
+                          className="input py-1"
+                        >
+                          <option value="">Unassigned</option>
+                          {summary?.assignees.map((user) => (
+                            <option key={user.id} value={user.id}>
+                              {user.firstName} {user.lastName}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => openDetail(exception.id)}
+                        className="text-primary-600 hover:text-primary-700 font-medium inline-flex items-center gap-1"
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                        {exception._count.comments}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {exceptions.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                      No exceptions match these filters.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b">
+              <div>
+                <h3 className="text-lg font-semibold">{selected.bankTransaction.reference}</h3>
+                <p className="text-sm text-gray-500">
+                  {formatCurrency(selected.bankTransaction.amount)} ·{' '}
+                  {formatDate(selected.bankTransaction.transactionDate)} · Due {formatDate(selected.dueAt)}
+                </p>
+              </div>
+              <button onClick={() => setSelected(null)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-3 overflow-y-auto flex-1">
+              {selected.comments.map((item) => (
+                <div key={item.id} className="rounded-lg bg-gray-50 p-3">
+                  <p className="text-xs text-gray-500">
+                    {item.user.firstName} {item.user.lastName} · {formatDate(item.createdAt)}
+                  </p>
+                  <p className="text-sm text-gray-900 whitespace-pre-wrap">{item.comment}</p>
+                </div>
+              ))}
+              {selected.comments.length === 0 && (
+                <p className="text-sm text-gray-500">No comments yet.</p>
+              )}
+            </div>
+            {selected.status !== 'RESOLVED' && (
+              <div className="p-4 border-t space-y-3">
+                <div className="flex gap-2">
+                  <input
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    className="input flex-1"
+                    placeholder="Add a comment"
+                  />
+                  <button className="btn-secondary" onClick={addComment} disabled={saving || !comment.trim()}>
+                    Comment
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    value={resolution}
+                    onChange={(e) => setResolution(e.target.value)}
+                    className="input flex-1"
+                    placeholder="Resolution note (e.g. bank error raised with DTB)"
+                  />
+                  <button className="btn-primary" onClick={resolve} disabled={saving}>
+                    <CheckCircle className="w-4 h-4" />
+                    Resolve
+                  </button>
+                </div>
+              </div>
+            )}
+            {selected.status === 'RESOLVED' && selected.resolution && (
+              <div className="p-4 border-t text-sm text-gray-700">Resolution: {selected.resolution}</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
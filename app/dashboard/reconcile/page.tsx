@@ -13,6 +13,9 @@ import {
   RefreshCw,
   FileText,
   Zap,
+  ListChecks,
+  Receipt,
+  AlertTriangle,
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -28,6 +31,8 @@ interface BankTransaction {
   reference: string;
   status: string;
   payments?: PaymentPreview[];
+  supplierPayments?: { supplier?: { name: string } | null }[];
+  expenses?: { vendor?: string | null; expenseNumber: string }[];
 }
 
 interface Customer {
@@ -36,10 +41,68 @@ interface Customer {
   name: string;
 }
 
+interface MatchCandidate {
+  customerId: string;
+  customerCode: string;
+  customerName: string;
+  confidence: number;
+  matchedOn: string;
+}
+
+interface DebitCandidate {
+  targetType: 'SUPPLIER_PAYMENT' | 'EXPENSE' | 'SUPPLIER_BILL';
+  targetId: string;
+  documentNumber: string;
+  payee: string | null;
+  amount: number;
+  date: string;
+  confidence: number;
+  reason: string;
+}
+
+interface MatchSuggestion {
+  id: string;
+  confidence: number;
+  matchType: string;
+  reason?: string | null;
+  bankTransaction: {
+    id: string;
+    bankTransactionId: string;
+    transactionDate: string;
+    amount: number;
+    reference: string;
+  };
+  customer: Customer;
+  invoice?: { id: string; invoiceNumber: string; balanceAmount: number } | null;
+}
+
+interface AutoMatchDetail {
+  id: string;
+  transactionId: string;
+  amount: number;
+  reference: string;
+  status: 'MATCHED' | 'SUGGESTED' | 'UNMATCHED' | 'FAILED';
+  confidence?: number;
+  reason?: string;
+  error?: string;
+}
+
+interface AutoMatchPreview {
+  autoCommitThreshold: number;
+  suggestThreshold: number;
+  total: number;
+  matched: number;
+  suggested: number;
+  unmatched: number;
+  failed: number;
+  details: AutoMatchDetail[];
+}
+
 interface Invoice {
   id: string;
   invoiceNumber: string;
   balanceAmount: number;
+  dueDate: string;
 }
 
 export default function ReconcilePage() {
@@ -52,7 +115,15 @@ export default function ReconcilePage() {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [selectedCustomer, setSelectedCustomer] = useState('');
-  const [selectedInvoice, setSelectedInvoice] = useState('');
+  const [candidates, setCandidates] = useState<MatchCandidate[]>([]);
+  const [debitTransaction, setDebitTransaction] = useState<BankTransaction | null>(null);
+  const [debitCandidates, setDebitCandidates] = useState<DebitCandidate[]>([]);
+  const [selectedDebitCandidate, setSelectedDebitCandidate] = useState<DebitCandidate | null>(null);
+  const [suggestions, setSuggestions] = useState<MatchSuggestion[]>([]);
+  const [selectedSuggestions, setSelectedSuggestions] = useState<string[]>([]);
+  const [reviewing, setReviewing] = useState(false);
+  const [preview, setPreview] = useState<AutoMatchPreview | null>(null);
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [stats, setStats] = useState({
@@ -128,43 +199,73 @@ export default function ReconcilePage() {
     }
   }, []);
 
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/reconciliation/suggestions?status=PENDING', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch suggestions');
+
+      const data = await response.json();
+      setSuggestions(data.data.suggestions);
+      setSelectedSuggestions([]);
+    } catch (error) {
+      console.error('Error fetching suggestions:', error);
+    }
+  }, []);
+
   useEffect(() => {
     fetchTransactions();
     fetchCustomers();
-  }, [fetchCustomers, fetchTransactions]);
+    fetchSuggestions();
+  }, [fetchCustomers, fetchTransactions, fetchSuggestions]);
 
   const fetchCustomerInvoices = async (customerId: string) => {
     try {
       const token = localStorage.getItem('token');
-      const response = await fetch(`/api/invoices?customerId=${customerId}&status=SENT`, {
+      const response = await fetch(`/api/invoices?customerId=${customerId}&limit=100`, {
         headers: { Authorization: `Bearer ${token}` },
       });
 
       if (!response.ok) throw new Error('Failed to fetch invoices');
 
       const data = await response.json();
-      setInvoices(data.data.invoices);
+      const openInvoices = (data.data.invoices as Invoice[])
+        .filter((invoice) => invoice.balanceAmount > 0)
+        .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+      setInvoices(openInvoices);
     } catch (error) {
       console.error('Error fetching invoices:', error);
     }
   };
 
   const handleAutoMatch = async () => {
-    if (!confirm('Run automatic matching for all pending transactions?')) return;
+    if (!preview && !confirm('Run automatic matching for all pending transactions?')) return;
 
+    setPreview(null);
     setLoading(true);
     try {
       const token = localStorage.getItem('token');
       const response = await fetch('/api/reconciliation/auto-match', {
         method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ dryRun: false }),
       });
 
       if (!response.ok) throw new Error('Auto-match failed');
 
       const data = await response.json();
-      showNotification('success', `Auto-match completed: ${data.data.matched} matched, ${data.data.unmatched} unmatched`);
+      showNotification(
+        'success',
+        `Auto-match completed: ${data.data.matched} matched, ${data.data.suggested} for review, ${data.data.unmatched} unmatched`
+      );
       fetchTransactions();
+      fetchSuggestions();
     } catch (error) {
       showNotification('error', 'Auto-match failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
     } finally {
@@ -172,12 +273,232 @@ export default function ReconcilePage() {
     }
   };
 
+  const handlePreviewAutoMatch = async () => {
+    setLoading(true);
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/reconciliation/auto-match', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ dryRun: true }),
+      });
+
+      if (!response.ok) throw new Error('Preview failed');
+
+      const data = await response.json();
+      setPreview(data.data);
+    } catch (error) {
+      showNotification('error', 'Preview failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnmatch = async (txn: BankTransaction) => {
+    const reason = prompt(
+      `Unmatch ${txn.bankTransactionId}? Its payments and ledger entries will be reversed.\n\nReason:`
+    );
+    if (!reason?.trim()) return;
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/reconciliation/unmatch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ bankTransactionId: txn.id, reason: reason.trim() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Unmatch failed');
+
+      showNotification('success', 'Transaction unmatched and ready to be matched again');
+      fetchTransactions();
+    } catch (error) {
+      showNotification('error', 'Unmatch failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const toggleSuggestion = (id: string) => {
+    setSelectedSuggestions((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]
+    );
+  };
+
+  const handleReviewSuggestions = async (decision: 'ACCEPT' | 'REJECT') => {
+    if (selectedSuggestions.length === 0) return;
+
+    setReviewing(true);
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/reconciliation/suggestions/review', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ suggestionIds: selectedSuggestions, decision }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Review failed');
+
+      showNotification(
+        data.data.failed > 0 ? 'error' : 'success',
+        `${data.data.succeeded} suggestion(s) ${decision === 'ACCEPT' ? 'accepted' : 'rejected'}` +
+          (data.data.failed > 0 ? `, ${data.data.failed} failed` : '')
+      );
+      fetchSuggestions();
+      fetchTransactions();
+    } catch (error) {
+      showNotification('error', 'Review failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const allocatedTotal = Object.values(allocations).reduce(
+    (sum, value) => sum + (parseFloat(value) || 0),
+    0
+  );
+
+  const allocateOldestFirst = () => {
+    if (!selectedTransaction) return;
+
+    let remaining = selectedTransaction.amount;
+    const next: Record<string, string> = {};
+    for (const invoice of invoices) {
+      if (remaining <= 0) break;
+      const amount = Math.min(remaining, invoice.balanceAmount);
+      next[invoice.id] = amount.toFixed(2);
+      remaining = Math.round((remaining - amount) * 100) / 100;
+    }
+    setAllocations(next);
+  };
+
+  const resetMatchModal = () => {
+    setSelectedTransaction(null);
+    setSelectedCustomer('');
+    setAllocations({});
+    setInvoices([]);
+    setCandidates([]);
+  };
+
+  const openMatchModal = async (txn: BankTransaction) => {
+    if (txn.amount < 0) {
+      openDebitModal(txn);
+      return;
+    }
+
+    setSelectedTransaction(txn);
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/reconciliation/candidates?bankTransactionId=${txn.id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch candidates');
+
+      const data = await response.json();
+      setCandidates(data.data.candidates);
+    } catch (error) {
+      console.error('Error fetching match candidates:', error);
+    }
+  };
+
+  const resetDebitModal = () => {
+    setDebitTransaction(null);
+    setDebitCandidates([]);
+    setSelectedDebitCandidate(null);
+  };
+
+  const openDebitModal = async (txn: BankTransaction) => {
+    setDebitTransaction(txn);
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/reconciliation/debit-candidates?bankTransactionId=${txn.id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch debit candidates');
+
+      const data = await response.json();
+      setDebitCandidates(data.data.candidates);
+      setSelectedDebitCandidate(data.data.candidates[0] || null);
+    } catch (error) {
+      console.error('Error fetching debit candidates:', error);
+    }
+  };
+
+  const handleDebitMatch = async () => {
+    if (!debitTransaction || !selectedDebitCandidate) {
+      showNotification('error', 'Please select a payment, expense or bill');
+      return;
+    }
+
+    setMatching(true);
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/reconciliation/debit-match', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          bankTransactionId: debitTransaction.id,
+          targetType: selectedDebitCandidate.targetType,
+          targetId: selectedDebitCandidate.targetId,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Debit match failed');
+
+      showNotification(
+        'success',
+        selectedDebitCandidate.targetType === 'SUPPLIER_BILL'
+          ? `Supplier payment recorded against ${selectedDebitCandidate.documentNumber}`
+          : 'Transaction matched successfully!'
+      );
+      resetDebitModal();
+      fetchTransactions();
+    } catch (error) {
+      showNotification('error', 'Match failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  const selectCustomer = (customerId: string) => {
+    setSelectedCustomer(customerId);
+    setAllocations({});
+    if (customerId) {
+      fetchCustomerInvoices(customerId);
+    } else {
+      setInvoices([]);
+    }
+  };
+
   const handleManualMatch = async () => {
     if (!selectedTransaction || !selectedCustomer) {
       showNotification('error', 'Please select a customer');
       return;
     }
 
+    if (allocatedTotal > selectedTransaction.amount + 0.001) {
+      showNotification('error', 'Allocations exceed the transaction amount');
+      return;
+    }
+
     setMatching(true);
 
     try {
@@ -191,18 +512,29 @@ export default function ReconcilePage() {
         body: JSON.stringify({
           bankTransactionId: selectedTransaction.id,
           customerId: selectedCustomer,
-          invoiceId: selectedInvoice || undefined,
           amount: selectedTransaction.amount,
+          allocationMode: 'MANUAL',
+          allocations: Object.entries(allocations)
+            .map(([invoiceId, value]) => ({ invoiceId, amount: parseFloat(value) || 0 }))
+            .filter((allocation) => allocation.amount > 0),
         }),
       });
 
-      if (!response.ok) throw new Error('Manual match failed');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Manual match failed');
 
-      showNotification('success', 'Transaction matched successfully!');
-      setSelectedTransaction(null);
-      setSelectedCustomer('');
-      setSelectedInvoice('');
-      setInvoices([]);
+      const matchedMessage =
+        data.data.creditAmount > 0
+          ? `Transaction matched. ${formatCurrency(data.data.creditAmount)} held as customer credit`
+          : 'Transaction matched successfully!';
+
+      showNotification(
+        'success',
+        data.data.suggestedRule
+          ? `${matchedMessage} A matching rule "${data.data.suggestedRule.pattern}" was suggested for review.`
+          : matchedMessage
+      );
+      resetMatchModal();
       fetchTransactions();
     } catch (error) {
       showNotification('error', 'Match failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
@@ -273,6 +605,27 @@ export default function ReconcilePage() {
             <FileText className="w-4 h-4" />
             Upload Statement
           </Link>
+          <Link
+            href="/dashboard/reconcile/rules"
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex items-center gap-2"
+          >
+            <ListChecks className="w-4 h-4" />
+            Matching Rules
+          </Link>
+          <Link
+            href="/dashboard/reconcile/posting-rules"
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex items-center gap-2"
+          >
+            <Receipt className="w-4 h-4" />
+            Bank Posting Rules
+          </Link>
+          <Link
+            href="/dashboard/reconcile/exceptions"
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex items-center gap-2"
+          >
+            <AlertTriangle className="w-4 h-4" />
+            Exceptions
+          </Link>
           <button
             onClick={() => fetchTransactions()}
             className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium flex items-center gap-2"
@@ -447,6 +800,13 @@ export default function ReconcilePage() {
             </div>
 
             <div className="flex items-center gap-3">
+              <button
+                onClick={handlePreviewAutoMatch}
+                disabled={loading || stats.pending === 0}
+                className="px-3 py-1.5 text-sm bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors font-medium disabled:opacity-50"
+              >
+                Preview Auto-Match
+              </button>
               <button
                 onClick={() => setStatusFilter('PENDING')}
                 className="px-3 py-1.5 text-sm bg-yellow-100 text-yellow-700 rounded-lg hover:bg-yellow-200 transition-colors font-medium"
@@ -464,6 +824,92 @@ export default function ReconcilePage() {
         </div>
       </div>
 
+      {/* Auto-Match Review Queue */}
+      {suggestions.length > 0 && (
+        <div className="card">
+          <div className="card-header flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Suggested Matches</h2>
+              <p className="text-sm text-gray-500">
+                Auto-match results below the auto-commit threshold awaiting review
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleReviewSuggestions('REJECT')}
+                disabled={reviewing || selectedSuggestions.length === 0}
+                className="px-3 py-1.5 text-sm bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+              >
+                Reject Selected
+              </button>
+              <button
+                onClick={() => handleReviewSuggestions('ACCEPT')}
+                disabled={reviewing || selectedSuggestions.length === 0}
+                className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors font-medium disabled:opacity-50"
+              >
+                {reviewing ? 'Saving...' : `Accept Selected (${selectedSuggestions.length})`}
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={selectedSuggestions.length === suggestions.length}
+                      onChange={(e) =>
+                        setSelectedSuggestions(e.target.checked ? suggestions.map((s) => s.id) : [])
+                      }
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">Date</th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">Reference</th>
+                  <th className="px-4 py-3 text-right font-semibold text-gray-700">Amount</th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">Customer</th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">Invoice</th>
+                  <th className="px-4 py-3 text-center font-semibold text-gray-700">Confidence</th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-700">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {suggestions.map((suggestion) => (
+                  <tr key={suggestion.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedSuggestions.includes(suggestion.id)}
+                        onChange={() => toggleSuggestion(suggestion.id)}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {formatDate(suggestion.bankTransaction.transactionDate)}
+                    </td>
+                    <td className="px-4 py-3 text-gray-900 max-w-[220px] truncate">
+                      {suggestion.bankTransaction.reference}
+                    </td>
+                    <td className="px-4 py-3 text-right font-medium text-gray-900">
+                      {formatCurrency(suggestion.bankTransaction.amount)}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {suggestion.customer.customerCode} - {suggestion.customer.name}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {suggestion.invoice?.invoiceNumber || 'Oldest open'}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <span className="badge-info">{suggestion.confidence}%</span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600 text-xs">{suggestion.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Transactions Table */}
       <div className="card">
         <div className="card-header flex items-center justify-between">
@@ -547,7 +993,13 @@ export default function ReconcilePage() {
                       </span>
                     </td>
                     <td className="px-4 py-3 text-gray-900">
-                      {txn.payments?.[0]?.customer?.name ? (
+                      {txn.supplierPayments?.[0]?.supplier?.name || txn.expenses?.[0] ? (
+                        <span className="truncate max-w-[150px] text-gray-700">
+                          {txn.supplierPayments?.[0]?.supplier?.name ||
+                            txn.expenses?.[0]?.vendor ||
+                            txn.expenses?.[0]?.expenseNumber}
+                        </span>
+                      ) : txn.payments?.[0]?.customer?.name ? (
                         <div className="flex items-center gap-2">
                           <div className="w-6 h-6 bg-primary-100 rounded-full flex items-center justify-center">
                             <span className="text-xs text-primary-700 font-medium">
@@ -565,11 +1017,18 @@ export default function ReconcilePage() {
                     <td className="px-4 py-3 text-center">
                       {txn.status === 'PENDING' || txn.status === 'UNMATCHED' ? (
                         <button
-                          onClick={() => setSelectedTransaction(txn)}
+                          onClick={() => openMatchModal(txn)}
                           className="px-3 py-1.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors text-xs font-medium"
                         >
                           Match
                         </button>
+                      ) : txn.status === 'MATCHED' ? (
+                        <button
+                          onClick={() => handleUnmatch(txn)}
+                          className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-xs font-medium"
+                        >
+                          Unmatch
+                        </button>
                       ) : (
                         <span className="text-xs text-gray-400">Completed</span>
                       )}
@@ -610,20 +1069,36 @@ export default function ReconcilePage() {
                 </div>
               </div>
 
+              {/* Name Match Candidates */}
+              {candidates.length > 0 && (
+                <div>
+                  <label className="label">Suggested Customers</label>
+                  <div className="flex flex-wrap gap-2">
+                    {candidates.map((candidate) => (
+                      <button
+                        key={candidate.customerId}
+                        type="button"
+                        onClick={() => selectCustomer(candidate.customerId)}
+                        title={`Matched on "${candidate.matchedOn}"`}
+                        className={`px-3 py-1.5 rounded-lg border text-xs font-medium transition-colors ${
+                          selectedCustomer === candidate.customerId
+                            ? 'bg-primary-600 border-primary-600 text-white'
+                            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        {candidate.customerName} ({candidate.confidence}%)
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Customer Selection */}
               <div>
                 <label className="label">Select Customer *</label>
                 <select
                   value={selectedCustomer}
-                  onChange={(e) => {
-                    setSelectedCustomer(e.target.value);
-                    setSelectedInvoice('');
-                    if (e.target.value) {
-                      fetchCustomerInvoices(e.target.value);
-                    } else {
-                      setInvoices([]);
-                    }
-                  }}
+                  onChange={(e) => selectCustomer(e.target.value)}
                   className="input"
                 >
                   <option value="">Choose customer...</option>
@@ -635,34 +1110,80 @@ export default function ReconcilePage() {
                 </select>
               </div>
 
-              {/* Invoice Selection */}
+              {/* Invoice Allocation */}
               {selectedCustomer && (
                 <div>
-                  <label className="label">Select Invoice (Optional)</label>
-                  <select
-                    value={selectedInvoice}
-                    onChange={(e) => setSelectedInvoice(e.target.value)}
-                    className="input"
-                  >
-                    <option value="">No specific invoice</option>
-                    {invoices.map((invoice) => (
-                      <option key={invoice.id} value={invoice.id}>
-                        {invoice.invoiceNumber} - {formatCurrency(invoice.balanceAmount)} outstanding
-                      </option>
-                    ))}
-                  </select>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="label mb-0">Allocate to Invoices</label>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={allocateOldestFirst}
+                        disabled={invoices.length === 0}
+                        className="px-3 py-1 text-xs bg-primary-50 text-primary-700 rounded-lg hover:bg-primary-100 font-medium"
+                      >
+                        Oldest first
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setAllocations({})}
+                        className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 font-medium"
+                      >
+                        Clear
+                      </button>
+                    </div>
+                  </div>
+
+                  {invoices.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      No open invoices. The full amount will be held as customer credit.
+                    </p>
+                  ) : (
+                    <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-64 overflow-y-auto">
+                      {invoices.map((invoice) => (
+                        <div key={invoice.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                          <div>
+                            <p className="font-medium text-gray-900">{invoice.invoiceNumber}</p>
+                            <p className="text-xs text-gray-500">
+                              Due {formatDate(invoice.dueDate)} · {formatCurrency(invoice.balanceAmount)} outstanding
+                            </p>
+                          </div>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            max={invoice.balanceAmount}
+                            value={allocations[invoice.id] || ''}
+                            onChange={(e) =>
+                              setAllocations((prev) => ({ ...prev, [invoice.id]: e.target.value }))
+                            }
+                            placeholder="0.00"
+                            className="input w-32 text-right"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="mt-3 grid grid-cols-2 gap-3 text-sm">
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-gray-600">Allocated</p>
+                      <p className="font-semibold">{formatCurrency(allocatedTotal)}</p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-gray-600">Customer credit</p>
+                      <p className={`font-semibold ${allocatedTotal > selectedTransaction.amount ? 'text-red-600' : ''}`}>
+                        {formatCurrency(Math.max(selectedTransaction.amount - allocatedTotal, 0))}
+                      </p>
+                    </div>
+                  </div>
                 </div>
               )}
             </div>
 
             <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
               <button
-                onClick={() => {
-                  setSelectedTransaction(null);
-                  setSelectedCustomer('');
-                  setSelectedInvoice('');
-                  setInvoices([]);
-                }}
+                onClick={resetMatchModal}
                 className="btn-secondary"
                 disabled={matching}
               >
@@ -679,6 +1200,192 @@ export default function ReconcilePage() {
           </div>
         </div>
       )}
+
+      {/* Debit Match Modal */}
+      {debitTransaction && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Match Outgoing Payment</h3>
+            </div>
+
+            <div className="px-6 py-4 space-y-4">
+              <div className="bg-gray-50 rounded-lg p-4">
+                <h4 className="text-sm font-semibold text-gray-900 mb-3">Transaction Details</h4>
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-gray-600">Date:</p>
+                    <p className="font-medium">{formatDate(debitTransaction.transactionDate)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-600">Amount:</p>
+                    <p className="font-medium">{formatCurrency(debitTransaction.amount)}</p>
+                  </div>
+                  <div className="col-span-2">
+                    <p className="text-gray-600">Reference:</p>
+                    <p className="font-medium">{debitTransaction.reference}</p>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="label">Supplier Payments, Expenses & Open Bills</label>
+                {debitCandidates.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    Nothing with this amount was found around the transaction date.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {debitCandidates.map((candidate) => (
+                      <label
+                        key={`${candidate.targetType}-${candidate.targetId}`}
+                        className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${
+                          selectedDebitCandidate?.targetId === candidate.targetId
+                            ? 'border-primary-600 bg-primary-50'
+                            : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="debitCandidate"
+                          checked={selectedDebitCandidate?.targetId === candidate.targetId}
+                          onChange={() => setSelectedDebitCandidate(candidate)}
+                          className="mt-1"
+                        />
+                        <div className="flex-1 text-sm">
+                          <div className="flex justify-between">
+                            <span className="font-medium text-gray-900">
+                              {candidate.documentNumber}
+                              {candidate.payee ? ` - ${candidate.payee}` : ''}
+                            </span>
+                            <span className="text-gray-600">{candidate.confidence}%</span>
+                          </div>
+                          <p className="text-gray-500">
+                            {candidate.targetType === 'SUPPLIER_BILL' ? 'Bill balance' : 'Amount'}{' '}
+                            {formatCurrency(candidate.amount)} &middot; {formatDate(candidate.date)}
+                          </p>
+                          <p className="text-xs text-gray-500 mt-1">{candidate.reason}</p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                {selectedDebitCandidate?.targetType === 'SUPPLIER_BILL' && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Confirming records a supplier payment of{' '}
+                    {formatCurrency(Math.abs(debitTransaction.amount))} against this bill.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end space-x-3">
+              <button
+                onClick={resetDebitModal}
+                className="btn-secondary"
+                disabled={matching}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDebitMatch}
+                className="btn-primary"
+                disabled={matching || !selectedDebitCandidate}
+              >
+                {matching ? 'Matching...' : 'Confirm Match'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Auto-Match Preview Modal */}
+      {preview && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Auto-Match Preview</h3>
+              <p className="text-sm text-gray-500 mt-1">
+                Nothing has been saved. Matches at {preview.autoCommitThreshold}% or above will be
+                committed; {preview.suggestThreshold}-{preview.autoCommitThreshold - 1}% go to review.
+              </p>
+            </div>
+
+            <div className="px-6 py-4 space-y-4">
+              <div className="grid grid-cols-4 gap-3 text-sm">
+                <div className="bg-green-50 rounded-lg p-3">
+                  <p className="text-gray-600">Will match</p>
+                  <p className="text-xl font-bold text-green-700">{preview.matched}</p>
+                </div>
+                <div className="bg-blue-50 rounded-lg p-3">
+                  <p className="text-gray-600">For review</p>
+                  <p className="text-xl font-bold text-blue-700">{preview.suggested}</p>
+                </div>
+                <div className="bg-red-50 rounded-lg p-3">
+                  <p className="text-gray-600">Unmatched</p>
+                  <p className="text-xl font-bold text-red-700">{preview.unmatched}</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-gray-600">Failed</p>
+                  <p className="text-xl font-bold text-gray-700">{preview.failed}</p>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Reference</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">Amount</th>
+                    <th className="px-3 py-2 text-center font-semibold text-gray-700">Outcome</th>
+                    <th className="px-3 py-2 text-center font-semibold text-gray-700">Confidence</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {preview.details.map((detail) => (
+                    <tr key={detail.id}>
+                      <td className="px-3 py-2 text-gray-900 max-w-[220px] truncate">{detail.reference}</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(detail.amount)}</td>
+                      <td className="px-3 py-2 text-center">
+                        <span
+                          className={
+                            detail.status === 'MATCHED'
+                              ? 'badge-success'
+                              : detail.status === 'SUGGESTED'
+                                ? 'badge-info'
+                                : 'badge-danger'
+                          }
+                        >
+                          {detail.status}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-center">
+                        {detail.confidence !== undefined ? `${detail.confidence}%` : '-'}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600 text-xs">{detail.error || detail.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={() => setPreview(null)}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleAutoMatch}
+                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors text-sm font-medium"
+              >
+                Run Auto-Match
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
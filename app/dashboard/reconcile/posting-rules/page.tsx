@@ -0,0 +1,432 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Play, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface ExpenseCategory {
+  id: string;
+  name: string;
+}
+
+interface BankPostingRule {
+  id: string;
+  name: string;
+  pattern: string;
+  patternType: string;
+  matchField: string;
+  expenseCategoryId: string;
+  ledgerAccountCode: string;
+  vendor?: string | null;
+  priority: number;
+  isEnabled: boolean;
+  hitCount: number;
+  lastMatchedAt?: string | null;
+  expenseCategory: ExpenseCategory;
+}
+
+const MATCH_FIELD_LABELS: Record<string, string> = {
+  REFERENCE: 'Reference',
+  COUNTERPARTY_NAME: 'Payee Name',
+};
+
+const emptyForm = {
+  name: '',
+  pattern: '',
+  patternType: 'CONTAINS',
+  matchField: 'REFERENCE',
+  expenseCategoryId: '',
+  ledgerAccountCode: '6100',
+  vendor: '',
+  priority: '100',
+};
+
+export default function BankPostingRulesPage() {
+  const [rules, setRules] = useState<BankPostingRule[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('token');
+      const [rulesRes, categoriesRes] = await Promise.all([
+        fetch('/api/reconciliation/posting-rules', { headers: { Authorization: `Bearer ${token}` } }),
+        fetch('/api/expense-categories', { headers: { Authorization: `Bearer ${token}` } }),
+      ]);
+
+      if (rulesRes.ok) {
+        const data = await rulesRes.json();
+        setRules(data.data.rules || []);
+      }
+
+      if (categoriesRes.ok) {
+        const data = await categoriesRes.json();
+        setCategories(data.data.categories || []);
+      }
+    } catch (error) {
+      console.error('Error loading bank posting rules:', error);
+      toast.error('Failed to load bank posting rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRule = async (id: string, changes: Record<string, unknown>, successMessage: string) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/reconciliation/posting-rules/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to update rule');
+      }
+
+      setRules((prev) => prev.map((rule) => (rule.id === id ? data.data : rule)));
+      toast.success(successMessage);
+    } catch (error) {
+      console.error('Update posting rule error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update rule');
+    }
+  };
+
+  const deleteRule = async (rule: BankPostingRule) => {
+    if (!confirm(`Delete rule "${rule.name}"? Expenses it already posted are kept.`)) return;
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/reconciliation/posting-rules/${rule.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to delete rule');
+      }
+
+      setRules((prev) => prev.filter((item) => item.id !== rule.id));
+      toast.success('Rule deleted');
+    } catch (error) {
+      console.error('Delete posting rule error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete rule');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.name || !form.pattern || !form.expenseCategoryId) {
+      toast.error('Name, pattern and expense category are required');
+      return;
+    }
+
+    try {
+      setCreating(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/reconciliation/posting-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          ...form,
+          vendor: form.vendor || undefined,
+          priority: parseInt(form.priority, 10) || 100,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to create rule');
+      }
+
+      setForm(emptyForm);
+      setShowCreate(false);
+      toast.success('Rule created');
+      fetchData();
+    } catch (error) {
+      console.error('Create posting rule error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create rule');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!confirm('Post all matching pending bank debits as expenses?')) return;
+
+    try {
+      setApplying(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/reconciliation/posting-rules/apply', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({}),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to apply rules');
+      }
+
+      toast.success(
+        `${data.data.posted} debit(s) posted` +
+          (data.data.failed > 0 ? `, ${data.data.failed} failed` : '')
+      );
+      fetchData();
+    } catch (error) {
+      console.error('Apply posting rules error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to apply rules');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-gray-900">Bank Posting Rules</h1>
+          <p className="text-sm text-gray-600">
+            Bank charges and standing orders matching a rule are posted as expenses and reconciled
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleApply} className="btn-secondary" disabled={applying}>
+            <Play className="w-4 h-4" />
+            {applying ? 'Posting...' : 'Apply to Pending Debits'}
+          </button>
+          <button onClick={() => setShowCreate(true)} className="btn-primary">
+            <Plus className="w-4 h-4" />
+            New Rule
+          </button>
+        </div>
+      </div>
+
+      <div className="card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Priority</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Condition</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Account</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Hits</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rules.map((rule) => (
+                <tr key={rule.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <input
+                      type="number"
+                      min={0}
+                      defaultValue={rule.priority}
+                      onBlur={(e) => {
+                        const priority = parseInt(e.target.value, 10);
+                        if (!isNaN(priority) && priority !== rule.priority) {
+                          updateRule(rule.id, { priority }, 'Priority updated');
+                        }
+                      }}
+                      className="input w-20"
+                    />
+                  </td>
+                  <td className="px-4 py-3 font-medium text-gray-900">
+                    {rule.name}
+                    {rule.vendor && <p className="text-xs text-gray-500">{rule.vendor}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {MATCH_FIELD_LABELS[rule.matchField] || rule.matchField}{' '}
+                    {rule.patternType.toLowerCase()}{' '}
+                    <span className="font-mono">{rule.pattern}</span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{rule.expenseCategory.name}</td>
+                  <td className="px-4 py-3 font-mono text-gray-700">{rule.ledgerAccountCode}</td>
+                  <td className="px-4 py-3 text-gray-700">{rule.hitCount}</td>
+                  <td className="px-4 py-3">
+                    <button
+                      onClick={() =>
+                        updateRule(
+                          rule.id,
+                          { isEnabled: !rule.isEnabled },
+                          rule.isEnabled ? 'Rule disabled' : 'Rule enabled'
+                        )
+                      }
+                      className={rule.isEnabled ? 'badge-success' : 'badge-gray'}
+                    >
+                      {rule.isEnabled ? 'Enabled' : 'Disabled'}
+                    </button>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end">
+                      <button
+                        onClick={() => deleteRule(rule)}
+                        className="text-red-600 hover:text-red-700"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-gray-500">
+                    No bank posting rules yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showCreate && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h3 className="text-lg font-semibold">New Bank Posting Rule</h3>
+              <button onClick={() => setShowCreate(false)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  className="input"
+                  placeholder="Ledger fees"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Field</label>
+                  <select
+                    value={form.matchField}
+                    onChange={(e) => setForm((prev) => ({ ...prev, matchField: e.target.value }))}
+                    className="input"
+                  >
+                    {Object.entries(MATCH_FIELD_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Match</label>
+                  <select
+                    value={form.patternType}
+                    onChange={(e) => setForm((prev) => ({ ...prev, patternType: e.target.value }))}
+                    className="input"
+                  >
+                    <option value="CONTAINS">Contains</option>
+                    <option value="EQUALS">Equals</option>
+                    <option value="REGEX">Regular expression</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Pattern</label>
+                <input
+                  value={form.pattern}
+                  onChange={(e) => setForm((prev) => ({ ...prev, pattern: e.target.value }))}
+                  className="input font-mono"
+                  placeholder="LEDGER FEE"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Expense Category</label>
+                  <select
+                    value={form.expenseCategoryId}
+                    onChange={(e) => setForm((prev) => ({ ...prev, expenseCategoryId: e.target.value }))}
+                    className="input"
+                  >
+                    <option value="">Select category</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Ledger Account</label>
+                  <input
+                    value={form.ledgerAccountCode}
+                    onChange={(e) => setForm((prev) => ({ ...prev, ledgerAccountCode: e.target.value }))}
+                    className="input font-mono"
+                    placeholder="6100"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Vendor</label>
+                  <input
+                    value={form.vendor}
+                    onChange={(e) => setForm((prev) => ({ ...prev, vendor: e.target.value }))}
+                    className="input"
+                    placeholder="DTB Bank"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Priority</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.priority}
+                    onChange={(e) => setForm((prev) => ({ ...prev, priority: e.target.value }))}
+                    className="input"
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="flex justify-end gap-3 p-4 border-t">
+              <button className="btn-secondary" onClick={() => setShowCreate(false)}>
+                Cancel
+              </button>
+              <button className="btn-primary" onClick={handleCreate} disabled={creating}>
+                {creating ? 'Creating...' : 'Create Rule'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,449 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Check, Plus, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface Customer {
+  id: string;
+  name: string;
+  customerCode: string;
+}
+
+interface ReconciliationRule {
+  id: string;
+  name: string;
+  pattern: string;
+  patternType: string;
+  matchField: string;
+  customerId: string;
+  confidence: number;
+  priority: number;
+  isEnabled: boolean;
+  source: string;
+  status: string;
+  hitCount: number;
+  lastMatchedAt?: string | null;
+  customer: Customer;
+}
+
+const MATCH_FIELD_LABELS: Record<string, string> = {
+  REFERENCE: 'Reference',
+  ACCOUNT_REFERENCE: 'Account No.',
+  COUNTERPARTY_PHONE: 'Payer Phone',
+  COUNTERPARTY_NAME: 'Payer Name',
+};
+
+const emptyForm = {
+  name: '',
+  pattern: '',
+  patternType: 'CONTAINS',
+  matchField: 'REFERENCE',
+  customerId: '',
+  confidence: '90',
+  priority: '100',
+};
+
+export default function ReconciliationRulesPage() {
+  const [rules, setRules] = useState<ReconciliationRule[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const token = localStorage.getItem('token');
+      const [rulesRes, customersRes] = await Promise.all([
+        fetch('/api/reconciliation/rules', { headers: { Authorization: `Bearer ${token}` } }),
+        fetch('/api/customers?limit=100', { headers: { Authorization: `Bearer ${token}` } }),
+      ]);
+
+      if (rulesRes.ok) {
+        const data = await rulesRes.json();
+        setRules(data.data.rules || []);
+      }
+
+      if (customersRes.ok) {
+        const data = await customersRes.json();
+        setCustomers(data.data.customers || []);
+      }
+    } catch (error) {
+      console.error('Error loading reconciliation rules:', error);
+      toast.error('Failed to load reconciliation rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const suggested = useMemo(() => rules.filter((rule) => rule.status === 'SUGGESTED'), [rules]);
+  const configured = useMemo(() => rules.filter((rule) => rule.status !== 'SUGGESTED'), [rules]);
+
+  const updateRule = async (id: string, changes: Record<string, unknown>, successMessage: string) => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/reconciliation/rules/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to update rule');
+      }
+
+      setRules((prev) => prev.map((rule) => (rule.id === id ? data.data : rule)));
+      toast.success(successMessage);
+    } catch (error) {
+      console.error('Update rule error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update rule');
+    }
+  };
+
+  const deleteRule = async (rule: ReconciliationRule) => {
+    if (!confirm(`Delete rule "${rule.name}"?`)) return;
+
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/reconciliation/rules/${rule.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to delete rule');
+      }
+
+      setRules((prev) => prev.filter((item) => item.id !== rule.id));
+      toast.success('Rule deleted');
+    } catch (error) {
+      console.error('Delete rule error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete rule');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.name || !form.pattern || !form.customerId) {
+      toast.error('Name, pattern and customer are required');
+      return;
+    }
+
+    try {
+      setCreating(true);
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/reconciliation/rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          ...form,
+          confidence: parseInt(form.confidence, 10) || 90,
+          priority: parseInt(form.priority, 10) || 100,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to create rule');
+      }
+
+      setForm(emptyForm);
+      setShowCreate(false);
+      toast.success('Rule created');
+      fetchData();
+    } catch (error) {
+      console.error('Create rule error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create rule');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-gray-900">Matching Rules</h1>
+          <p className="text-sm text-gray-600">
+            Rules run before the automatic matching strategies, lowest priority number first
+          </p>
+        </div>
+        <button onClick={() => setShowCreate(true)} className="btn-primary">
+          <Plus className="w-4 h-4" />
+          New Rule
+        </button>
+      </div>
+
+      {suggested.length > 0 && (
+        <div className="card overflow-hidden">
+          <div className="p-4 border-b border-gray-100">
+            <h2 className="text-lg font-semibold text-gray-900">Suggested Rules</h2>
+            <p className="text-sm text-gray-500">Learned from repeated manual matches</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Pattern</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {suggested.map((rule) => (
+                  <tr key={rule.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 font-mono text-gray-900">{rule.pattern}</td>
+                    <td className="px-4 py-3 text-gray-700">{MATCH_FIELD_LABELS[rule.matchField] || rule.matchField}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {rule.customer.customerCode} - {rule.customer.name}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          className="btn-primary"
+                          onClick={() => updateRule(rule.id, { status: 'ACTIVE' }, 'Rule accepted')}
+                        >
+                          <Check className="w-4 h-4" />
+                          Accept
+                        </button>
+                        <button
+                          className="btn-secondary"
+                          onClick={() => updateRule(rule.id, { status: 'DISMISSED' }, 'Suggestion dismissed')}
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="card overflow-hidden">
+        <div className="p-4 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900">Rules</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Priority</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Condition</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Confidence</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Hits</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {configured.map((rule) => (
+                <tr key={rule.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <input
+                      type="number"
+                      min={0}
+                      defaultValue={rule.priority}
+                      onBlur={(e) => {
+                        const priority = parseInt(e.target.value, 10);
+                        if (!isNaN(priority) && priority !== rule.priority) {
+                          updateRule(rule.id, { priority }, 'Priority updated');
+                        }
+                      }}
+                      className="input w-20"
+                    />
+                  </td>
+                  <td className="px-4 py-3 font-medium text-gray-900">
+                    {rule.name}
+                    {rule.source === 'LEARNED' && (
+                      <span className="ml-2 badge-info">Learned</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {MATCH_FIELD_LABELS[rule.matchField] || rule.matchField}{' '}
+                    {rule.patternType.toLowerCase()}{' '}
+                    <span className="font-mono">{rule.pattern}</span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {rule.customer.customerCode} - {rule.customer.name}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{rule.confidence}%</td>
+                  <td className="px-4 py-3 text-gray-700">{rule.hitCount}</td>
+                  <td className="px-4 py-3">
+                    {rule.status === 'DISMISSED' ? (
+                      <span className="badge-gray">Dismissed</span>
+                    ) : (
+                      <button
+                        onClick={() =>
+                          updateRule(
+                            rule.id,
+                            { isEnabled: !rule.isEnabled },
+                            rule.isEnabled ? 'Rule disabled' : 'Rule enabled'
+                          )
+                        }
+                        className={rule.isEnabled ? 'badge-success' : 'badge-gray'}
+                      >
+                        {rule.isEnabled ? 'Enabled' : 'Disabled'}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end">
+                      <button
+                        onClick={() => deleteRule(rule)}
+                        className="text-red-600 hover:text-red-700"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {configured.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-gray-500">
+                    No matching rules yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showCreate && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h3 className="text-lg font-semibold">New Matching Rule</h3>
+              <button onClick={() => setShowCreate(false)}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  className="input"
+                  placeholder="Safari Distributors transfers"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Field</label>
+                  <select
+                    value={form.matchField}
+                    onChange={(e) => setForm((prev) => ({ ...prev, matchField: e.target.value }))}
+                    className="input"
+                  >
+                    {Object.entries(MATCH_FIELD_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Match</label>
+                  <select
+                    value={form.patternType}
+                    onChange={(e) => setForm((prev) => ({ ...prev, patternType: e.target.value }))}
+                    className="input"
+                  >
+                    <option value="CONTAINS">Contains</option>
+                    <option value="EQUALS">Equals</option>
+                    <option value="REGEX">Regular expression</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Pattern</label>
+                <input
+                  value={form.pattern}
+                  onChange={(e) => setForm((prev) => ({ ...prev, pattern: e.target.value }))}
+                  className="input font-mono"
+                  placeholder="SAFARI DISTR"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Customer</label>
+                <select
+                  value={form.customerId}
+                  onChange={(e) => setForm((prev) => ({ ...prev, customerId: e.target.value }))}
+                  className="input"
+                >
+                  <option value="">Select customer</option>
+                  {customers.map((customer) => (
+                    <option key={customer.id} value={customer.id}>
+                      {customer.customerCode} - {customer.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Confidence (%)</label>
+                  <input
+                    type="number"
+                    min={50}
+                    max={100}
+                    value={form.confidence}
+                    onChange={(e) => setForm((prev) => ({ ...prev, confidence: e.target.value }))}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Priority</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.priority}
+                    onChange={(e) => setForm((prev) => ({ ...prev, priority: e.target.value }))}
+                    className="input"
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="flex justify-end gap-3 p-4 border-t">
+              <button className="btn-secondary" onClick={() => setShowCreate(false)}>
+                Cancel
+              </button>
+              <button className="btn-primary" onClick={handleCreate} disabled={creating}>
+                {creating ? 'Creating...' : 'Create Rule'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -24,6 +24,8 @@ interface CustomerBalance {
   totalInvoiced: number;
   totalPaid: number;
   totalBalance: number;
+  unappliedCredit: number;
+  netBalance: number;
   current: number;
   days30: number;
   days60: number;
@@ -70,6 +72,10 @@ export default function CustomerBalancesPage() {
     return filteredBalances.reduce((sum, customer) => sum + customer.totalBalance, 0);
   };
 
+  const getTotalUnappliedCredit = () => {
+    return filteredBalances.reduce((sum, customer) => sum + customer.unappliedCredit, 0);
+  };
+
   const getTotalOverdue = () => {
     return filteredBalances.reduce((sum, customer) => 
       sum + customer.days30 + customer.days60 + customer.days90 + customer.days90Plus, 0
@@ -104,11 +110,12 @@ export default function CustomerBalancesPage() {
           <button
             onClick={() => {
               let csv = 'Customer Balances Report\n\n';
-              csv += 'Customer Code,Customer Name,Email,Phone,Total Invoiced,Total Paid,Total Balance,Current,1-30 Days,31-60 Days,61-90 Days,90+ Days\n';
+              csv += 'Customer Code,Customer Name,Email,Phone,Total Invoiced,Total Paid,Total Balance,Unapplied Credit,Net Balance,Current,1-30 Days,31-60 Days,61-90 Days,90+ Days\n';
               
               filteredBalances.forEach(customer => {
                 csv += `${customer.customerCode},"${customer.customerName}",${customer.email},${customer.phone},`;
                 csv += `${customer.totalInvoiced},${customer.totalPaid},${customer.totalBalance},`;
+                csv += `${customer.unappliedCredit},${customer.netBalance},`;
                 csv += `${customer.current},${customer.days30},${customer.days60},${customer.days90},${customer.days90Plus}\n`;
               });
               
@@ -156,7 +163,11 @@ export default function CustomerBalancesPage() {
             KES {(getTotalBalance() / 1000000).toFixed(1)}M
           </div>
           <div className="text-blue-100 text-sm mt-1">Total Outstanding</div>
-          <div className="text-xs opacity-75 mt-2">All receivables</div>
+          <div className="text-xs opacity-75 mt-2">
+            {getTotalUnappliedCredit() > 0
+              ? `KES ${getTotalUnappliedCredit().toLocaleString()} unapplied credit held`
+              : 'All receivables'}
+          </div>
         </div>
 
         <div className="bg-gradient-to-br from-red-500 to-red-700 rounded-lg shadow-lg p-6 text-white">
@@ -214,6 +225,9 @@ export default function CustomerBalancesPage() {
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Total Balance
                 </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Unapplied Credit
+                </th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Current
                 </th>
@@ -234,7 +248,7 @@ export default function CustomerBalancesPage() {
             <tbody className="bg-white/50 divide-y divide-gray-200">
               {loading ? (
                 <tr>
-                  <td colSpan={8} className="px-6 py-12 text-center">
+                  <td colSpan={9} className="px-6 py-12 text-center">
                     <div className="flex justify-center">
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
                     </div>
@@ -242,7 +256,7 @@ export default function CustomerBalancesPage() {
                 </tr>
               ) : filteredBalances.length === 0 ? (
                 <tr>
-                  <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={9} className="px-6 py-12 text-center text-gray-500">
                     No customer balances found
                   </td>
                 </tr>
@@ -292,6 +306,11 @@ export default function CustomerBalancesPage() {
                         </span>
                       </div>
                     </td>
+                    <td className="px-6 py-4 text-right">
+                      <span className={`text-sm ${customer.unappliedCredit > 0 ? 'font-semibold text-green-600' : 'text-gray-500'}`}>
+                        KES {customer.unappliedCredit.toLocaleString()}
+                      </span>
+                    </td>
                     <td className="px-6 py-4 text-right text-sm text-gray-700">
                       KES {customer.current.toLocaleString()}
                     </td>
@@ -163,7 +163,8 @@ export default function SalesOrdersPage() {
 
   const handleAction = async (
     orderId: string,
-    action: 'SUBMIT' | 'APPROVE' | 'DELIVER' | 'INVOICE' | 'CANCEL'
+    action: 'SUBMIT' | 'APPROVE' | 'DELIVER' | 'INVOICE' | 'CANCEL',
+    creditOverrideReason?: string
   ) => {
     try {
       const token = localStorage.getItem('token');
@@ -173,16 +174,27 @@ export default function SalesOrdersPage() {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ action }),
+        body: JSON.stringify({ action, creditOverrideReason }),
       });
 
       const data = await response.json();
+      if (data?.error?.code === 'CREDIT_OVERRIDE_REQUIRED' && !creditOverrideReason) {
+        const reason = prompt(`${data.error.message}.\n\nReason for overriding the credit limit:`);
+        if (reason?.trim()) {
+          await handleAction(orderId, action, reason.trim());
+        }
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(data?.error?.message || 'Failed to update order');
       }
 
       setOrders((prev) => prev.map((order) => (order.id === orderId ? data.data : order)));
       toast.success(`Order ${action.toLowerCase()}`);
+      if (data.data.creditWarning) {
+        toast(data.data.creditWarning, { icon: '⚠️' });
+      }
     } catch (error) {
       console.error('Sales order action error:', error);
       toast.error(error instanceof Error ? error.message : 'Order update failed');
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Upload, CheckCircle, AlertCircle } from 'lucide-react';
 
@@ -13,23 +13,95 @@ interface UploadResults {
   total: number;
   imported: number;
   duplicates: number;
+  suspectedDuplicatesSkipped: number;
+  suspectedDuplicatesImported: number;
   errors: UploadError[];
 }
 
+interface SuspectedDuplicate {
+  rowNumber: number;
+  bankTransactionId: string;
+  transactionDate: string;
+  amount: number;
+  reference: string;
+  balance?: number;
+  reason: 'ALREADY_IMPORTED' | 'REPEATED_IN_FILE';
+  existing?: {
+    bankTransactionId: string;
+    transactionDate: string;
+    status: string;
+    statementFileName: string;
+  };
+}
+
+interface DuplicateReview {
+  total: number;
+  suspectedDuplicates: SuspectedDuplicate[];
+}
+
 interface UploadResponse {
   uploadId: string;
   fileName: string;
+  bankAccount?: { id: string; bankName: string; accountNumber: string };
+  profile?: string;
+  openingBalance?: number;
+  closingBalance?: number;
   results: UploadResults;
 }
 
+interface ImportProfile {
+  code: string;
+  name: string;
+  bankName: string;
+}
+
+interface BankAccountOption {
+  id: string;
+  bankName: string;
+  accountNumber: string;
+  isPrimary: boolean;
+}
+
 export default function UploadStatementPage() {
   const [uploading, setUploading] = useState(false);
   const [result, setResult] = useState<UploadResponse | null>(null);
   const [error, setError] = useState<string>('');
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [profileId, setProfileId] = useState<string>('');
+  const [bankAccounts, setBankAccounts] = useState<BankAccountOption[]>([]);
+  const [bankAccountId, setBankAccountId] = useState<string>('');
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [review, setReview] = useState<DuplicateReview | null>(null);
+  const [approvedIds, setApprovedIds] = useState<Set<string>>(new Set());
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (!file) return;
+  useEffect(() => {
+    const token = localStorage.getItem('token');
+    fetch('/api/reconciliation/profiles', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setProfiles(data?.data?.profiles || []))
+      .catch(() => setProfiles([]));
+
+    fetch('/api/financial/bank-accounts', {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const accounts: BankAccountOption[] = data?.data?.accounts || [];
+        setBankAccounts(accounts);
+        if (accounts.length === 1) {
+          setBankAccountId(accounts[0].id);
+        }
+      })
+      .catch(() => setBankAccounts([]));
+  }, []);
+
+  const submitStatement = useCallback(async (file: File, importTransactionIds?: string[]) => {
+    if (!bankAccountId) {
+      setError('Select the bank account this statement belongs to');
+      return;
+    }
 
     setUploading(true);
     setError('');
@@ -38,6 +110,13 @@ export default function UploadStatementPage() {
     try {
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('bankAccountId', bankAccountId);
+      if (profileId) {
+        formData.append('profileId', profileId);
+      }
+      if (importTransactionIds) {
+        formData.append('importTransactionIds', JSON.stringify(importTransactionIds));
+      }
 
       const token = localStorage.getItem('token');
       const response = await fetch('/api/reconciliation/upload', {
@@ -54,13 +133,49 @@ export default function UploadStatementPage() {
         throw new Error(data.error?.message || 'Upload failed');
       }
 
+      if (data.data.requiresReview) {
+        // Hold the file until the suspected duplicates are reviewed
+        setPendingFile(file);
+        setReview(data.data);
+        setApprovedIds(new Set());
+        return;
+      }
+
+      setPendingFile(null);
+      setReview(null);
       setResult(data.data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Upload failed');
     } finally {
       setUploading(false);
     }
-  }, []);
+  }, [profileId, bankAccountId]);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+
+    setReview(null);
+    await submitStatement(file);
+  }, [submitStatement]);
+
+  const toggleApproved = (bankTransactionId: string) => {
+    setApprovedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(bankTransactionId)) {
+        next.delete(bankTransactionId);
+      } else {
+        next.add(bankTransactionId);
+      }
+      return next;
+    });
+  };
+
+  const cancelReview = () => {
+    setPendingFile(null);
+    setReview(null);
+    setApprovedIds(new Set());
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -68,6 +183,9 @@ export default function UploadStatementPage() {
       'text/csv': ['.csv'],
       'application/vnd.ms-excel': ['.xls'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/xml': ['.xml'],
+      'application/x-ofx': ['.ofx', '.qfx'],
+      'application/octet-stream': ['.sta', '.mt940', '.940'],
     },
     maxFiles: 1,
     maxSize: 10 * 1024 * 1024, // 10MB
@@ -84,14 +202,51 @@ export default function UploadStatementPage() {
           <div className="bg-primary-50 border border-primary-200 rounded-lg p-4 mb-6">
             <h3 className="text-sm font-semibold text-primary-900 mb-2">Instructions:</h3>
             <ul className="text-sm text-primary-800 space-y-1 list-disc list-inside">
-              <li>Accept CSV or Excel (.xlsx, .xls) formats only</li>
+              <li>Accepts CSV, Excel (.xlsx, .xls), MT940 (.sta, .mt940), CAMT.053 (.xml) and OFX (.ofx, .qfx)</li>
               <li>Maximum file size: 10MB</li>
               <li>Ensure statement contains: Transaction Date, Transaction ID, Reference, Amount</li>
-              <li>Duplicate transactions will be automatically detected and skipped</li>
+              <li>DTB, Equity, KCB, Stanbic and M-Pesa Paybill/Till layouts are detected automatically from the header row</li>
+              <li>Transactions with an ID already on file are skipped; lines matching previously imported content are held for your review</li>
               <li>System will attempt to auto-match transactions after upload</li>
             </ul>
           </div>
 
+          {/* Bank Account */}
+          <div className="mb-4">
+            <label className="label" htmlFor="bank-account">Bank Account</label>
+            <select
+              id="bank-account"
+              value={bankAccountId}
+              onChange={(e) => setBankAccountId(e.target.value)}
+              className="input"
+            >
+              <option value="">Select bank account</option>
+              {bankAccounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.bankName} - {account.accountNumber}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Import Profile */}
+          <div className="mb-4">
+            <label className="label" htmlFor="import-profile">Bank Format</label>
+            <select
+              id="import-profile"
+              value={profileId}
+              onChange={(e) => setProfileId(e.target.value)}
+              className="input"
+            >
+              <option value="">Auto-detect from header row</option>
+              {profiles.map((profile) => (
+                <option key={profile.code} value={profile.code}>
+                  {profile.name} ({profile.bankName})
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Dropzone */}
           <div
             {...getRootProps()}
@@ -110,7 +265,7 @@ export default function UploadStatementPage() {
                 {isDragActive ? 'Drop the file here' : 'Drag & drop statement here'}
               </p>
               <p className="text-sm text-gray-600 mb-4">or click to browse files</p>
-              <p className="text-xs text-gray-500">CSV, XLS, XLSX up to 10MB</p>
+              <p className="text-xs text-gray-500">CSV, XLS, XLSX, MT940, CAMT.053, OFX up to 10MB</p>
             </div>
           </div>
 
@@ -137,6 +292,72 @@ export default function UploadStatementPage() {
             </div>
           )}
 
+          {/* Duplicate Review */}
+          {review && pendingFile && !uploading && (
+            <div className="mt-6 card">
+              <div className="card-header">
+                <h3 className="text-base font-semibold text-gray-900">Review Suspected Duplicates</h3>
+                <p className="text-sm text-gray-600 mt-1">
+                  {review.suspectedDuplicates.length} of {review.total} line(s) in {pendingFile.name} look like
+                  lines already imported. Nothing has been imported yet. Tick the lines that are genuine new
+                  transactions; the rest will be skipped.
+                </p>
+              </div>
+              <div className="card-body">
+                <div className="max-h-80 overflow-y-auto">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Import</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Matches</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {review.suspectedDuplicates.map((dup) => (
+                        <tr key={dup.bankTransactionId}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={approvedIds.has(dup.bankTransactionId)}
+                              onChange={() => toggleApproved(dup.bankTransactionId)}
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">{dup.rowNumber}</td>
+                          <td className="px-3 py-2 text-gray-700">
+                            {new Date(dup.transactionDate).toLocaleDateString('en-KE')}
+                          </td>
+                          <td className="px-3 py-2 text-gray-700">{dup.reference}</td>
+                          <td className="px-3 py-2 text-right text-gray-900">{dup.amount.toFixed(2)}</td>
+                          <td className="px-3 py-2 text-xs text-gray-600">
+                            {dup.existing
+                              ? `${dup.existing.bankTransactionId} (${dup.existing.status}) from ${dup.existing.statementFileName}`
+                              : 'Repeated earlier in this file'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="mt-6 flex justify-end space-x-3">
+                  <button onClick={cancelReview} className="btn-secondary">
+                    Cancel Upload
+                  </button>
+                  <button
+                    onClick={() => submitStatement(pendingFile, Array.from(approvedIds))}
+                    className="btn-primary"
+                  >
+                    Import ({approvedIds.size} duplicate(s) included)
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Success Result */}
           {result && (
             <div className="mt-6 space-y-4">
@@ -147,6 +368,8 @@ export default function UploadStatementPage() {
                     <h3 className="text-sm font-semibold text-success-900">Upload Successful</h3>
                     <p className="text-sm text-success-700 mt-1">
                       {result.results.imported} transaction(s) imported successfully
+                      {result.bankAccount && ` to ${result.bankAccount.bankName} ${result.bankAccount.accountNumber}`}
+                      {result.profile && ` using the ${result.profile} format`}
                     </p>
                   </div>
                 </div>
@@ -168,7 +391,7 @@ export default function UploadStatementPage() {
                       <p className="text-sm text-gray-600 mt-1">Imported</p>
                     </div>
                     <div className="text-center p-4 bg-warning-50 rounded-lg">
-                      <p className="text-2xl font-bold text-warning-700">{result.results.duplicates}</p>
+                      <p className="text-2xl font-bold text-warning-700">{result.results.duplicates + (result.results.suspectedDuplicatesSkipped || 0)}</p>
                       <p className="text-sm text-gray-600 mt-1">Duplicates</p>
                     </div>
                   </div>
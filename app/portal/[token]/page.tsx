@@ -0,0 +1,405 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useParams } from 'next/navigation';
+import { CheckCircle, Download, FileText, Receipt } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+interface PortalInvoice {
+  id: string;
+  invoiceNumber: string;
+  issueDate: string;
+  dueDate: string;
+  totalAmount: number;
+  paidAmount: number;
+  balanceAmount: number;
+  currency: string;
+  status: string;
+}
+
+interface PortalPayment {
+  id: string;
+  paymentNumber: string;
+  paymentDate: string;
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  reference: string;
+  invoice: { invoiceNumber: string } | null;
+}
+
+interface PortalQuote {
+  id: string;
+  quoteNumber: string;
+  status: string;
+  totalAmount: number;
+  validUntil: string | null;
+  notes: string | null;
+  acceptedAt: string | null;
+  createdAt: string;
+  items: {
+    id: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+    product: { name: string };
+  }[];
+}
+
+interface PortalAccount {
+  customer: { name: string; customerCode: string };
+  baseCurrency: string;
+  balanceDue: number;
+  openInvoices: PortalInvoice[];
+  payments: PortalPayment[];
+  quotes: PortalQuote[];
+  expiresAt: string;
+}
+
+interface StatementLine {
+  date: string;
+  type: string;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+interface Statement {
+  from: string;
+  to: string;
+  currency: string;
+  currencies: string[];
+  openingBalance: number;
+  closingBalance: number;
+  lines: StatementLine[];
+}
+
+export default function CustomerPortalPage() {
+  const params = useParams();
+  const token = params.token as string;
+  const [account, setAccount] = useState<PortalAccount | null>(null);
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+
+  const fetchAccount = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/portal/${token}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data?.error?.message || 'This link could not be opened');
+        return;
+      }
+
+      setAccount(data.data);
+    } catch (error) {
+      console.error('Error loading account:', error);
+      setError('Your account could not be loaded. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchAccount();
+  }, [fetchAccount]);
+
+  const loadStatement = async (currency?: string) => {
+    try {
+      const query = currency ? `?currency=${currency}` : '';
+      const response = await fetch(`/api/portal/${token}/statement${query}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to load statement');
+      }
+      setStatement(data.data);
+    } catch (error) {
+      console.error('Error loading statement:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load statement');
+    }
+  };
+
+  const acceptQuote = async (quote: PortalQuote) => {
+    const name = prompt(`Accept quote ${quote.quoteNumber} for ${formatCurrency(quote.totalAmount)}?\n\nYour full name:`);
+    if (!name?.trim()) return;
+
+    try {
+      setAcceptingId(quote.id);
+      const response = await fetch(`/api/portal/${token}/quotes/${quote.id}/accept`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error?.message || 'Failed to accept quote');
+      }
+
+      toast.success(`Quote ${quote.quoteNumber} accepted. Thank you!`);
+      fetchAccount();
+    } catch (error) {
+      console.error('Error accepting quote:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to accept quote');
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
+  if (loading && !account) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !account) {
+    return (
+      <div className="flex items-center justify-center min-h-screen p-4">
+        <div className="card p-8 max-w-md text-center">
+          <h1 className="text-xl font-display font-bold text-gray-900">Link unavailable</h1>
+          <p className="text-gray-600 mt-2">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const openQuotes = account.quotes.filter((quote) => quote.status === 'SENT');
+  const acceptedQuotes = account.quotes.filter((quote) => quote.status === 'ACCEPTED');
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center gap-3">
+        <Image src="/images/elegant-logo.jpg" alt="Elegant Steel" width={48} height={48} className="rounded-lg object-cover" />
+        <div>
+          <h1 className="text-2xl font-display font-bold text-gray-900">{account.customer.name}</h1>
+          <p className="text-sm text-gray-600">
+            Account {account.customer.customerCode} · Link valid until {formatDate(account.expiresAt, false)}
+          </p>
+        </div>
+      </div>
+
+      <div className="card p-6">
+        <p className="text-sm text-gray-600">Balance due</p>
+        <p className="text-3xl font-bold text-gray-900">{formatCurrency(account.balanceDue, account.baseCurrency)}</p>
+      </div>
+
+      {/* Open invoices */}
+      <div className="card overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-2">
+          <FileText className="w-5 h-5 text-gray-500" />
+          <h2 className="font-semibold text-gray-900">Open Invoices</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Invoice</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Due</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {account.openInvoices.map((invoice) => (
+                <tr key={invoice.id}>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-900">{invoice.invoiceNumber}</p>
+                    <p className="text-xs text-gray-500">Issued {formatDate(invoice.issueDate, false)}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={invoice.status === 'OVERDUE' ? 'text-red-600 font-medium' : 'text-gray-700'}>
+                      {formatDate(invoice.dueDate, false)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right text-gray-700">{formatCurrency(invoice.totalAmount, invoice.currency)}</td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-900">{formatCurrency(invoice.balanceAmount, invoice.currency)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <a href={`/api/portal/${token}/invoices/${invoice.id}`} className="text-primary-600 hover:text-primary-700" title="Download PDF">
+                      <Download className="w-4 h-4 inline" />
+                    </a>
+                  </td>
+                </tr>
+              ))}
+              {account.openInvoices.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                    You have no unpaid invoices.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Quotes */}
+      {account.quotes.length > 0 && (
+        <div className="card p-6 space-y-4">
+          <h2 className="font-semibold text-gray-900">Quotes</h2>
+          {[...openQuotes, ...acceptedQuotes].map((quote) => (
+            <div key={quote.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {quote.quoteNumber} · {formatCurrency(quote.totalAmount)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {quote.status === 'ACCEPTED'
+                      ? `Accepted ${quote.acceptedAt ? formatDate(quote.acceptedAt, false) : ''}`
+                      : quote.validUntil
+                        ? `Valid until ${formatDate(quote.validUntil, false)}`
+                        : `Sent ${formatDate(quote.createdAt, false)}`}
+                  </p>
+                </div>
+                {quote.status === 'SENT' ? (
+                  <button onClick={() => acceptQuote(quote)} disabled={acceptingId === quote.id} className="btn-primary">
+                    <CheckCircle className="w-4 h-4" />
+                    {acceptingId === quote.id ? 'Accepting...' : 'Accept Quote'}
+                  </button>
+                ) : (
+                  <span className="badge-success">Accepted</span>
+                )}
+              </div>
+              <ul className="mt-3 text-sm text-gray-700 space-y-1">
+                {quote.items.map((item) => (
+                  <li key={item.id} className="flex justify-between">
+                    <span>
+                      {item.quantity} × {item.product.name}
+                    </span>
+                    <span>{formatCurrency(item.totalPrice)}</span>
+                  </li>
+                ))}
+              </ul>
+              {quote.notes && <p className="mt-2 text-xs text-gray-500">{quote.notes}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Receipts */}
+      <div className="card overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 flex items-center gap-2">
+          <Receipt className="w-5 h-5 text-gray-500" />
+          <h2 className="font-semibold text-gray-900">Recent Payments</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {account.payments.map((payment) => (
+                <tr key={payment.id}>
+                  <td className="px-4 py-3 text-gray-700">{formatDate(payment.paymentDate, false)}</td>
+                  <td className="px-4 py-3">
+                    <p className="text-gray-900">{payment.reference}</p>
+                    {payment.invoice && <p className="text-xs text-gray-500">For {payment.invoice.invoiceNumber}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-900">{formatCurrency(payment.amount, payment.currency)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <a href={`/api/portal/${token}/receipts/${payment.id}`} className="text-primary-600 hover:text-primary-700" title="Download receipt">
+                      <Download className="w-4 h-4 inline" />
+                    </a>
+                  </td>
+                </tr>
+              ))}
+              {account.payments.length === 0 && (
+                <tr>
+                  <td className="px-4 py-6 text-center text-gray-500">No payments yet.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Statement */}
+      <div className="card p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <div>
+            <h2 className="font-semibold text-gray-900">Statement of Account</h2>
+            <p className="text-sm text-gray-600">The last 90 days</p>
+          </div>
+          <div className="flex gap-2">
+            {!statement && (
+              <button onClick={() => loadStatement()} className="btn-secondary">
+                View
+              </button>
+            )}
+            {statement && statement.currencies.length > 1 && (
+              <select
+                value={statement.currency}
+                onChange={(e) => loadStatement(e.target.value)}
+                className="input"
+              >
+                {Array.from(new Set([statement.currency, ...statement.currencies])).map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+            )}
+            <a
+              href={`/api/portal/${token}/statement?format=pdf${statement ? `&currency=${statement.currency}` : ''}`}
+              className="btn-secondary"
+            >
+              <Download className="w-4 h-4" />
+              PDF
+            </a>
+          </div>
+        </div>
+
+        {statement && (
+          <div className="overflow-x-auto mt-4">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Debit</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                <tr>
+                  <td className="px-3 py-2 text-gray-700">{formatDate(statement.from, false)}</td>
+                  <td className="px-3 py-2 text-gray-700" colSpan={3}>Opening balance</td>
+                  <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(statement.openingBalance, statement.currency)}</td>
+                </tr>
+                {statement.lines.map((line, index) => (
+                  <tr key={`${line.reference}-${index}`}>
+                    <td className="px-3 py-2 text-gray-700">{formatDate(line.date, false)}</td>
+                    <td className="px-3 py-2">
+                      <p className="text-gray-900">{line.reference}</p>
+                      <p className="text-xs text-gray-500">{line.description}</p>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-700">{line.debit ? formatCurrency(line.debit, statement.currency) : ''}</td>
+                    <td className="px-3 py-2 text-right text-gray-700">{line.credit ? formatCurrency(line.credit, statement.currency) : ''}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(line.balance, statement.currency)}</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="px-3 py-2 text-gray-700">{formatDate(statement.to, false)}</td>
+                  <td className="px-3 py-2 text-gray-700" colSpan={3}>Closing balance</td>
+                  <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(statement.closingBalance, statement.currency)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-center text-gray-500">
+        This page is private to your account. Please do not share the link.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Next.js server startup hook: starts the background job scheduler in the
+ * Node.js runtime
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('./lib/scheduler');
+    startScheduler();
+  }
+}
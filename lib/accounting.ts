@@ -6,6 +6,8 @@
  * - Ledger entries are immutable
  * - All changes are tracked
  * - Reversals are used instead of deletions
+ * - Balances are kept in the base currency; entries for foreign-currency
+ *   documents also keep the transaction currency amount and rate
  */
 
 import prisma from './prisma';
@@ -14,6 +16,7 @@ import type { TransactionClient } from './types';
 type LedgerEntryType = 'DEBIT' | 'CREDIT';
 
 import { generateTransactionId } from './utils';
+import { getBaseCurrency, isBaseCurrency, toBaseAmount } from './exchange-rates';
 import Decimal from 'decimal.js';
 
 /**
@@ -23,21 +26,100 @@ export const ACCOUNT_CODES = {
   DTB_BANK: '1010',           // DTB Bank Account (Asset)
   ACCOUNTS_RECEIVABLE: '1200', // Accounts Receivable (Asset)
   CASH_CLEARING: '1300',       // Cash Clearing (Asset) - for unmatched
+  ACCOUNTS_PAYABLE: '2000',    // Accounts Payable (Liability)
+  CUSTOMER_DEPOSITS: '2100',   // Customer Deposits - unapplied customer credit (Liability)
   SALES_REVENUE: '4000',       // Sales Revenue (Revenue)
   SERVICE_REVENUE: '4100',     // Service Revenue (Revenue)
+  INTEREST_INCOME: '4200',     // Late payment interest and fees (Revenue)
+  REALISED_FX: '4300',         // Realised FX Gain/Loss on settlement (Revenue)
+  UNREALISED_FX: '4310',       // Unrealised FX Gain/Loss on revaluation (Revenue)
   OWNERS_EQUITY: '3000',       // Owner's Equity (Equity)
+  PURCHASES: '5000',           // Purchases - supplier bills (Expense)
+  BANK_CHARGES: '6100',        // Bank Charges (Expense)
 } as const;
 
-interface LedgerEntryInput {
+export interface LedgerEntryInput {
   accountCode: string;
   entryType: LedgerEntryType;
-  amount: number | string | Decimal;
+  amount: number | string | Decimal; // In `currency`
   description: string;
   customerId?: string;
   invoiceId?: string;
   paymentId?: string;
   userId: string;
   entryDate?: Date;
+  currency?: string; // Defaults to the base currency
+  exchangeRate?: number; // Base currency units per unit of `currency`
+}
+
+/**
+ * Currency of a posting made for a foreign-currency document
+ */
+export interface LedgerCurrency {
+  currency: string;
+  /** Rate the money moved at (payment date, refund date, issue date) */
+  rate: number;
+  /**
+   * Rate the balance being settled was booked at (the invoice's or bill's, or
+   * that of the payment the credit is held on); any difference from `rate` is
+   * posted as realised FX gain or loss
+   */
+  bookedRate?: number;
+}
+
+/**
+ * Amount of an entry in the base currency
+ */
+function getBaseAmount(entry: LedgerEntryInput) {
+  if (isBaseCurrency(entry.currency)) {
+    return new Decimal(entry.amount);
+  }
+
+  if (!entry.exchangeRate) {
+    throw new Error(`An exchange rate is needed to post ${entry.currency} to the ledger`);
+  }
+
+  return toBaseAmount(entry.amount, entry.exchangeRate);
+}
+
+/**
+ * Currency fields for one side of a posting
+ */
+function inCurrency(fx: LedgerCurrency | undefined, rate?: number) {
+  return fx ? { currency: fx.currency, exchangeRate: rate ?? fx.rate } : {};
+}
+
+/**
+ * Balance entries made at different rates with a realised FX gain or loss
+ * line for the difference in the base currency
+ */
+function withExchangeDifference(entries: LedgerEntryInput[]): LedgerEntryInput[] {
+  const difference = entries.reduce((sum, entry) => {
+    const amount = getBaseAmount(entry);
+    return entry.entryType === 'DEBIT' ? sum.plus(amount) : sum.minus(amount);
+  }, new Decimal(0));
+
+  if (difference.isZero()) {
+    return entries;
+  }
+
+  const [first] = entries;
+
+  return [
+    ...entries,
+    {
+      accountCode: ACCOUNT_CODES.REALISED_FX,
+      // More debited than credited at the booked rate is a gain
+      entryType: difference.gt(0) ? 'CREDIT' : 'DEBIT',
+      amount: difference.abs(),
+      description: `Exchange difference: ${first.description}`,
+      customerId: first.customerId,
+      invoiceId: first.invoiceId,
+      paymentId: first.paymentId,
+      userId: first.userId,
+      entryDate: first.entryDate,
+    },
+  ];
 }
 
 /**
@@ -45,10 +127,14 @@ interface LedgerEntryInput {
  * This is the core of the accounting system - ensures debits = credits
  * 
  * @param entries - Array of ledger entries (must balance)
+ * @param client - Existing transaction client, to post as part of a larger transaction
  * @returns Array of created ledger entries
  * @throws Error if entries don't balance
  */
-export async function postLedgerTransaction(entries: LedgerEntryInput[]) {
+export async function postLedgerTransaction(
+  entries: LedgerEntryInput[],
+  client?: TransactionClient
+) {
   if (entries.length < 2) {
     throw new Error('Double-entry requires at least 2 entries (debit and credit)');
   }
@@ -58,7 +144,7 @@ export async function postLedgerTransaction(entries: LedgerEntryInput[]) {
   let creditTotal = new Decimal(0);
 
   for (const entry of entries) {
-    const amount = new Decimal(entry.amount);
+    const amount = getBaseAmount(entry);
     if (entry.entryType === 'DEBIT') {
       debitTotal = debitTotal.add(amount);
     } else {
@@ -78,7 +164,7 @@ export async function postLedgerTransaction(entries: LedgerEntryInput[]) {
   const entryDate = entries[0].entryDate || new Date();
 
   // Create all ledger entries in a transaction
-  const createdEntries = await prisma.$transaction(async (tx: TransactionClient) => {
+  const execute = async (tx: TransactionClient) => {
     const results = [];
 
     for (const entry of entries) {
@@ -91,13 +177,19 @@ export async function postLedgerTransaction(entries: LedgerEntryInput[]) {
         throw new Error(`Account not found: ${entry.accountCode}`);
       }
 
+      const amountDecimal = getBaseAmount(entry);
+      const foreign = !isBaseCurrency(entry.currency);
+
       // Create ledger entry (immutable)
       const ledgerEntry = await tx.ledgerEntry.create({
         data: {
           accountId: account.id,
           transactionId,
           entryType: entry.entryType,
-          amount: new Decimal(entry.amount).toNumber(),
+          amount: amountDecimal.toNumber(),
+          currency: foreign ? entry.currency!.toUpperCase() : getBaseCurrency(),
+          exchangeRate: foreign ? entry.exchangeRate! : 1,
+          transactionAmount: new Decimal(entry.amount).toNumber(),
           entryDate,
           description: entry.description,
           customerId: entry.customerId,
@@ -108,7 +200,6 @@ export async function postLedgerTransaction(entries: LedgerEntryInput[]) {
       });
 
       // Update account balance
-      const amountDecimal = new Decimal(entry.amount);
       let balanceChange = amountDecimal;
 
       // Determine balance impact based on account type and entry type
@@ -149,9 +240,13 @@ export async function postLedgerTransaction(entries: LedgerEntryInput[]) {
     }
 
     return results;
-  });
+  };
 
-  return createdEntries;
+  if (client) {
+    return execute(client);
+  }
+
+  return prisma.$transaction(execute);
 }
 
 /**
@@ -167,6 +262,9 @@ export async function postLedgerTransaction(entries: LedgerEntryInput[]) {
  * @param amount - Payment amount
  * @param userId - User performing the action
  * @param description - Payment description
+ * @param bankAccountCode - Ledger cash account of the receiving bank account
+ * @param client - Existing transaction client
+ * @param fx - Currency of a foreign-currency payment, at the payment rate and the invoice's booked rate
  */
 export async function postPaymentReceived(
   paymentId: string,
@@ -175,11 +273,14 @@ export async function postPaymentReceived(
   amount: number | Decimal,
   userId: string,
   description: string,
-  paymentDate: Date
+  paymentDate: Date,
+  bankAccountCode: string = ACCOUNT_CODES.DTB_BANK,
+  client?: TransactionClient,
+  fx?: LedgerCurrency
 ) {
   const entries: LedgerEntryInput[] = [
     {
-      accountCode: ACCOUNT_CODES.DTB_BANK,
+      accountCode: bankAccountCode,
       entryType: 'DEBIT',
       amount,
       description,
@@ -188,6 +289,7 @@ export async function postPaymentReceived(
       paymentId,
       userId,
       entryDate: paymentDate,
+      ...inCurrency(fx),
     },
     {
       accountCode: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE,
@@ -199,10 +301,314 @@ export async function postPaymentReceived(
       paymentId,
       userId,
       entryDate: paymentDate,
+      ...inCurrency(fx, fx?.bookedRate),
+    },
+  ];
+
+  return await postLedgerTransaction(withExchangeDifference(entries), client);
+}
+
+/**
+ * Post a payment taken on account, held as customer credit until it is
+ * allocated to an invoice or refunded
+ * 
+ * Accounting entry:
+ * DR: Bank Account (Asset increases)
+ * CR: Customer Deposits (Liability increases)
+ * 
+ * @param paymentId - Payment record ID
+ * @param customerId - Customer ID
+ * @param amount - Unapplied amount
+ * @param userId - User performing the action
+ * @param description - Payment description
+ * @param paymentDate - Date the money was received
+ * @param bankAccountCode - Ledger cash account of the receiving bank account
+ * @param client - Existing transaction client
+ * @param fx - Currency of a foreign-currency payment, at the payment rate
+ */
+export async function postCustomerDepositReceived(
+  paymentId: string,
+  customerId: string,
+  amount: number | Decimal,
+  userId: string,
+  description: string,
+  paymentDate: Date,
+  bankAccountCode: string = ACCOUNT_CODES.DTB_BANK,
+  client?: TransactionClient,
+  fx?: LedgerCurrency
+) {
+  const entries: LedgerEntryInput[] = [
+    {
+      accountCode: bankAccountCode,
+      entryType: 'DEBIT',
+      amount,
+      description,
+      customerId,
+      paymentId,
+      userId,
+      entryDate: paymentDate,
+      ...inCurrency(fx),
+    },
+    {
+      accountCode: ACCOUNT_CODES.CUSTOMER_DEPOSITS,
+      entryType: 'CREDIT',
+      amount,
+      description,
+      customerId,
+      paymentId,
+      userId,
+      entryDate: paymentDate,
+      ...inCurrency(fx),
     },
   ];
 
-  return await postLedgerTransaction(entries);
+  return await postLedgerTransaction(entries, client);
+}
+
+/**
+ * Post customer credit applied to an invoice
+ * 
+ * Accounting entry:
+ * DR: Customer Deposits (Liability decreases)
+ * CR: Accounts Receivable (Asset decreases)
+ * 
+ * @param paymentId - Payment on account the credit came from
+ * @param customerId - Customer ID
+ * @param invoiceId - Invoice the credit was applied to
+ * @param amount - Amount applied
+ * @param userId - User performing the action
+ * @param description - Allocation description
+ * @param client - Existing transaction client
+ * @param fx - Currency of foreign-currency credit, at the rate the credit was received at and the invoice's booked rate
+ */
+export async function postCustomerCreditApplied(
+  paymentId: string,
+  customerId: string,
+  invoiceId: string,
+  amount: number | Decimal,
+  userId: string,
+  description: string,
+  client?: TransactionClient,
+  fx?: LedgerCurrency
+) {
+  const entries: LedgerEntryInput[] = [
+    {
+      accountCode: ACCOUNT_CODES.CUSTOMER_DEPOSITS,
+      entryType: 'DEBIT',
+      amount,
+      description,
+      customerId,
+      invoiceId,
+      paymentId,
+      userId,
+      ...inCurrency(fx),
+    },
+    {
+      accountCode: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE,
+      entryType: 'CREDIT',
+      amount,
+      description,
+      customerId,
+      invoiceId,
+      paymentId,
+      userId,
+      ...inCurrency(fx, fx?.bookedRate),
+    },
+  ];
+
+  return await postLedgerTransaction(withExchangeDifference(entries), client);
+}
+
+/**
+ * Post unapplied customer credit paid back to the customer
+ * 
+ * Accounting entry:
+ * DR: Customer Deposits (Liability decreases)
+ * CR: Bank Account (Asset decreases)
+ * 
+ * @param refundId - Refund payment record ID
+ * @param customerId - Customer ID
+ * @param amount - Amount refunded
+ * @param userId - User performing the action
+ * @param description - Refund description
+ * @param bankAccountCode - Ledger cash account the refund is paid from
+ * @param client - Existing transaction client
+ * @param fx - Currency of foreign-currency credit, at the refund rate and the rate the credit was received at
+ */
+export async function postCustomerCreditRefunded(
+  refundId: string,
+  customerId: string,
+  amount: number | Decimal,
+  userId: string,
+  description: string,
+  bankAccountCode: string = ACCOUNT_CODES.DTB_BANK,
+  client?: TransactionClient,
+  fx?: LedgerCurrency
+) {
+  const entries: LedgerEntryInput[] = [
+    {
+      accountCode: ACCOUNT_CODES.CUSTOMER_DEPOSITS,
+      entryType: 'DEBIT',
+      amount,
+      description,
+      customerId,
+      paymentId: refundId,
+      userId,
+      ...inCurrency(fx, fx?.bookedRate),
+    },
+    {
+      accountCode: bankAccountCode,
+      entryType: 'CREDIT',
+      amount,
+      description,
+      customerId,
+      paymentId: refundId,
+      userId,
+      ...inCurrency(fx),
+    },
+  ];
+
+  return await postLedgerTransaction(withExchangeDifference(entries), client);
+}
+
+/**
+ * Post an expense paid directly from the bank (bank charges, standing orders)
+ * 
+ * Accounting entry:
+ * DR: Expense account (Expense increases)
+ * CR: Bank Account (Asset decreases)
+ * 
+ * @param amount - Expense amount (positive)
+ * @param userId - User performing the action
+ * @param description - Expense description
+ * @param expenseDate - Date of the bank debit
+ * @param expenseAccountCode - Expense account to debit
+ * @param bankAccountCode - Ledger cash account of the paying bank account
+ * @param client - Existing transaction client
+ */
+export async function postExpensePaid(
+  amount: number | Decimal,
+  userId: string,
+  description: string,
+  expenseDate: Date,
+  expenseAccountCode: string = ACCOUNT_CODES.BANK_CHARGES,
+  bankAccountCode: string = ACCOUNT_CODES.DTB_BANK,
+  client?: TransactionClient
+) {
+  const entries: LedgerEntryInput[] = [
+    {
+      accountCode: expenseAccountCode,
+      entryType: 'DEBIT',
+      amount,
+      description,
+      userId,
+      entryDate: expenseDate,
+    },
+    {
+      accountCode: bankAccountCode,
+      entryType: 'CREDIT',
+      amount,
+      description,
+      userId,
+      entryDate: expenseDate,
+    },
+  ];
+
+  return await postLedgerTransaction(entries, client);
+}
+
+/**
+ * Post a supplier bill on approval
+ * 
+ * Accounting entry:
+ * DR: Purchases (Expense increases)
+ * CR: Accounts Payable (Liability increases)
+ * 
+ * @param amount - Bill amount
+ * @param userId - User approving the bill
+ * @param description - Bill description
+ * @param billDate - Issue date of the bill
+ * @param client - Existing transaction client
+ * @param fx - Currency of a foreign-currency bill, at its exchange rate
+ */
+export async function postSupplierBillApproved(
+  amount: number | Decimal,
+  userId: string,
+  description: string,
+  billDate: Date,
+  client?: TransactionClient,
+  fx?: LedgerCurrency
+) {
+  const entries: LedgerEntryInput[] = [
+    {
+      accountCode: ACCOUNT_CODES.PURCHASES,
+      entryType: 'DEBIT',
+      amount,
+      description,
+      userId,
+      entryDate: billDate,
+      ...inCurrency(fx),
+    },
+    {
+      accountCode: ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+      entryType: 'CREDIT',
+      amount,
+      description,
+      userId,
+      entryDate: billDate,
+      ...inCurrency(fx),
+    },
+  ];
+
+  return await postLedgerTransaction(entries, client);
+}
+
+/**
+ * Post a payment made against a supplier bill
+ * 
+ * Accounting entry:
+ * DR: Accounts Payable (Liability decreases)
+ * CR: Bank Account (Asset decreases)
+ * 
+ * @param amount - Payment amount
+ * @param userId - User recording the payment
+ * @param description - Payment description
+ * @param paymentDate - Date the money was paid
+ * @param bankAccountCode - Ledger cash account of the paying bank account
+ * @param client - Existing transaction client
+ * @param fx - Currency of a foreign-currency payment, at the payment rate and the bill's booked rate
+ */
+export async function postSupplierPaymentMade(
+  amount: number | Decimal,
+  userId: string,
+  description: string,
+  paymentDate: Date,
+  bankAccountCode: string = ACCOUNT_CODES.DTB_BANK,
+  client?: TransactionClient,
+  fx?: LedgerCurrency
+) {
+  const entries: LedgerEntryInput[] = [
+    {
+      accountCode: ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+      entryType: 'DEBIT',
+      amount,
+      description,
+      userId,
+      entryDate: paymentDate,
+      ...inCurrency(fx, fx?.bookedRate),
+    },
+    {
+      accountCode: bankAccountCode,
+      entryType: 'CREDIT',
+      amount,
+      description,
+      userId,
+      entryDate: paymentDate,
+      ...inCurrency(fx),
+    },
+  ];
+
+  return await postLedgerTransaction(withExchangeDifference(entries), client);
 }
 
 /**
@@ -217,6 +623,8 @@ export async function postPaymentReceived(
  * @param amount - Invoice amount
  * @param userId - User creating the invoice
  * @param description - Invoice description
+ * @param client - Existing transaction client, to post as part of a larger transaction
+ * @param fx - Currency of a foreign-currency invoice, at its exchange rate
  */
 export async function postInvoiceCreated(
   invoiceId: string,
@@ -224,7 +632,9 @@ export async function postInvoiceCreated(
   amount: number | Decimal,
   userId: string,
   description: string,
-  invoiceDate: Date
+  invoiceDate: Date,
+  client?: TransactionClient,
+  fx?: LedgerCurrency
 ) {
   const entries: LedgerEntryInput[] = [
     {
@@ -236,6 +646,7 @@ export async function postInvoiceCreated(
       invoiceId,
       userId,
       entryDate: invoiceDate,
+      ...inCurrency(fx),
     },
     {
       accountCode: ACCOUNT_CODES.SALES_REVENUE,
@@ -246,10 +657,61 @@ export async function postInvoiceCreated(
       invoiceId,
       userId,
       entryDate: invoiceDate,
+      ...inCurrency(fx),
+    },
+  ];
+
+  return await postLedgerTransaction(entries, client);
+}
+
+/**
+ * Post a late payment charge raised on an overdue invoice
+ * 
+ * Accounting entry:
+ * DR: Accounts Receivable (Asset increases)
+ * CR: Interest Income (Revenue increases)
+ * 
+ * @param feeInvoiceId - Invoice raised for the charge
+ * @param customerId - Customer ID
+ * @param amount - Charge amount
+ * @param userId - User running the charge
+ * @param description - Charge description
+ * @param chargeDate - Date of the charge
+ * @param client - Existing transaction client, to post as part of a larger transaction
+ */
+export async function postLateFeeCharged(
+  feeInvoiceId: string,
+  customerId: string,
+  amount: number | Decimal,
+  userId: string,
+  description: string,
+  chargeDate: Date,
+  client?: TransactionClient
+) {
+  const entries: LedgerEntryInput[] = [
+    {
+      accountCode: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE,
+      entryType: 'DEBIT',
+      amount,
+      description,
+      customerId,
+      invoiceId: feeInvoiceId,
+      userId,
+      entryDate: chargeDate,
+    },
+    {
+      accountCode: ACCOUNT_CODES.INTEREST_INCOME,
+      entryType: 'CREDIT',
+      amount,
+      description,
+      customerId,
+      invoiceId: feeInvoiceId,
+      userId,
+      entryDate: chargeDate,
     },
   ];
 
-  return await postLedgerTransaction(entries);
+  return await postLedgerTransaction(entries, client);
 }
 
 /**
@@ -259,14 +721,18 @@ export async function postInvoiceCreated(
  * @param transactionId - Original transaction ID to reverse
  * @param userId - User performing the reversal
  * @param reason - Reason for reversal
+ * @param client - Existing transaction client, to reverse as part of a larger transaction
+ * @param entryDate - Date of the reversal entries (defaults to now)
  */
 export async function reverseLedgerTransaction(
   transactionId: string,
   userId: string,
-  reason: string
+  reason: string,
+  client?: TransactionClient,
+  entryDate: Date = new Date()
 ) {
   // Get original entries
-  const originalEntries = await prisma.ledgerEntry.findMany({
+  const originalEntries = await (client ?? prisma).ledgerEntry.findMany({
     where: { transactionId },
     include: { account: true },
   });
@@ -282,7 +748,7 @@ export async function reverseLedgerTransaction(
   // Create reversal entries (opposite type)
   const reversalTransactionId = generateTransactionId('REVERSAL');
 
-  await prisma.$transaction(async (tx: TransactionClient) => {
+  const execute = async (tx: TransactionClient) => {
     for (const original of originalEntries) {
       // Create opposite entry
       const reversalEntry = await tx.ledgerEntry.create({
@@ -291,7 +757,10 @@ export async function reverseLedgerTransaction(
           transactionId: reversalTransactionId,
           entryType: original.entryType === 'DEBIT' ? 'CREDIT' : 'DEBIT',
           amount: original.amount,
-          entryDate: new Date(),
+          currency: original.currency,
+          exchangeRate: original.exchangeRate,
+          transactionAmount: original.transactionAmount,
+          entryDate,
           description: `REVERSAL: ${reason}`,
           customerId: original.customerId,
           invoiceId: original.invoiceId,
@@ -342,7 +811,14 @@ export async function reverseLedgerTransaction(
         },
       });
     }
-  });
+  };
+
+  // If a client is provided, it's already a transaction client
+  if (client) {
+    await execute(client);
+  } else {
+    await prisma.$transaction(execute);
+  }
 
   return reversalTransactionId;
 }
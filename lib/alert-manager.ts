@@ -15,6 +15,7 @@ export enum AlertEventType {
   ACCOUNT_BALANCE_LOW = 'ACCOUNT_BALANCE_LOW',
   LARGE_EXPENSE = 'LARGE_EXPENSE',
   UNUSUAL_ACTIVITY = 'UNUSUAL_ACTIVITY',
+  EXCEPTION_SLA_BREACHED = 'EXCEPTION_SLA_BREACHED',
 }
 
 export interface AlertTriggerParams {
@@ -316,6 +317,13 @@ export async function createDefaultAlertRules(): Promise<void> {
       priority: 'WARNING',
       triggerCondition: { unusual: true },
     },
+    {
+      name: 'Reconciliation Exception SLA Breach',
+      eventType: AlertEventType.EXCEPTION_SLA_BREACHED,
+      description: 'Alert when a reconciliation exception ages past its SLA',
+      priority: 'HIGH',
+      triggerCondition: { overdue: true },
+    },
   ];
 
   for (const rule of defaultRules) {
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { Decimal } from 'decimal.js';
+import { getCashPositions, type CashPosition } from '@/lib/bank-accounts';
 
 /**
  * Financial Analytics Service
@@ -53,6 +54,7 @@ export interface DashboardMetrics {
   totalLiabilities: Decimal;
   totalEquity: Decimal;
   cashOnHand: Decimal;
+  cashPositions: CashPosition[];
   accountsReceivable: Decimal;
   accountsPayable: Decimal;
   outstandingInvoices: number;
@@ -217,18 +219,27 @@ export async function generateCashFlowForecast(
 }
 
 /**
- * Get current cash balance from bank account
+ * Get current cash balance across all bank accounts' ledger cash accounts
  */
 async function getCurrentCashBalance(): Promise<Decimal> {
   try {
-    // Get the main bank account (typically '1010')
-    const cashAccount = await prisma.account.findFirst({
-      where: {
-        accountCode: '1010',
-      },
-    });
+    const positions = await getCashPositions();
+
+    if (positions.length === 0) {
+      // No bank accounts set up yet: fall back to the main DTB account
+      const cashAccount = await prisma.account.findFirst({
+        where: {
+          accountCode: '1010',
+        },
+      });
+
+      return new Decimal(String(cashAccount?.currentBalance || 0));
+    }
 
-    return new Decimal(String(cashAccount?.currentBalance || 0));
+    return positions.reduce(
+      (sum: Decimal, position: CashPosition) => sum.plus(new Decimal(String(position.ledgerBalance))),
+      new Decimal(0)
+    );
   } catch {
     return new Decimal(0);
   }
@@ -310,6 +321,7 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
       totalLiabilities,
       totalEquity,
       cashOnHand,
+      cashPositions,
       accountsReceivable,
       accountsPayable,
     ] = await Promise.all([
@@ -320,6 +332,7 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
       getTotalLiabilities(),
       getTotalEquity(),
       getCashBalance(),
+      getCashPositions(),
       getAccountsReceivable(),
       getAccountsPayable(),
     ]);
@@ -344,6 +357,7 @@ export async function getDashboardMetrics(): Promise<DashboardMetrics> {
       totalLiabilities,
       totalEquity,
       cashOnHand,
+      cashPositions,
       accountsReceivable,
       accountsPayable,
       outstandingInvoices,
@@ -5,11 +5,54 @@ export type AuditAction =
   | 'LOGIN'
   | 'LOGOUT'
   | 'UPLOAD_STATEMENT'
+  | 'SAVE_IMPORT_PROFILE'
   | 'RECONCILE_PAYMENT'
+  | 'RECONCILE_DEBIT'
+  | 'REVIEW_MATCH_SUGGESTION'
+  | 'CREATE_RECONCILIATION_RULE'
+  | 'UPDATE_RECONCILIATION_RULE'
+  | 'DELETE_RECONCILIATION_RULE'
+  | 'CREATE_BANK_POSTING_RULE'
+  | 'UPDATE_BANK_POSTING_RULE'
+  | 'DELETE_BANK_POSTING_RULE'
+  | 'APPLY_BANK_POSTING_RULES'
+  | 'CREATE_BANK_ACCOUNT'
+  | 'UPDATE_BANK_ACCOUNT'
+  | 'CREATE_BANK_RECONCILIATION'
+  | 'COMPLETE_BANK_RECONCILIATION'
+  | 'ASSIGN_RECONCILIATION_EXCEPTION'
+  | 'RESOLVE_RECONCILIATION_EXCEPTION'
+  | 'ESCALATE_RECONCILIATION_EXCEPTIONS'
   | 'CREATE_CUSTOMER'
   | 'UPDATE_CUSTOMER'
   | 'CREATE_INVOICE'
   | 'UPDATE_INVOICE'
+  | 'CREATE_RECURRING_INVOICE'
+  | 'UPDATE_RECURRING_INVOICE'
+  | 'RUN_RECURRING_INVOICES'
+  | 'CREATE_DUNNING_POLICY'
+  | 'UPDATE_DUNNING_POLICY'
+  | 'UPDATE_CUSTOMER_DUNNING'
+  | 'RUN_DUNNING'
+  | 'CREATE_LATE_FEE_POLICY'
+  | 'UPDATE_LATE_FEE_POLICY'
+  | 'UPDATE_CUSTOMER_LATE_FEE_POLICY'
+  | 'RUN_LATE_FEES'
+  | 'RETRY_FISCAL_SUBMISSION'
+  | 'PROCESS_FISCAL_QUEUE'
+  | 'UPDATE_CUSTOMER_CREDIT'
+  | 'OVERRIDE_CREDIT_LIMIT'
+  | 'CREATE_PORTAL_LINK'
+  | 'REVOKE_PORTAL_LINK'
+  | 'PORTAL_VIEW'
+  | 'PORTAL_DOWNLOAD'
+  | 'PORTAL_ACCEPT_QUOTE'
+  | 'APPLY_CUSTOMER_CREDIT'
+  | 'SAVE_EXCHANGE_RATE'
+  | 'DELETE_EXCHANGE_RATE'
+  | 'RUN_FX_REVALUATION'
+  | 'SEND_CUSTOMER_STATEMENTS'
+  | 'UPDATE_DOCUMENT_SEQUENCE'
   | 'CREATE_SUPPLIER'
   | 'CREATE_SUPPLIER_BILL'
   | 'SUPPLIER_BILL_SUBMIT'
@@ -22,12 +22,27 @@ const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     'reconciliation.upload',
     'reconciliation.match',
     'reconciliation.view',
+    'reconciliation.configure',
+    'reconciliation.unmatch',
+    'reconciliation.close',
+    'reconciliation.assign',
     'customer.create',
     'customer.edit',
     'customer.view',
     'invoice.create',
     'invoice.edit',
     'invoice.view',
+    'dunning.run',
+    'dunning.configure',
+    'late_fee.run',
+    'late_fee.configure',
+    'statement.send',
+    'etims.submit',
+    'credit.manage',
+    'credit.override',
+    'exchange_rate.manage',
+    'fx.revalue',
+    'customer.portal',
     'payment.create',
     'payment.view',
     'reports.view',
@@ -89,6 +104,7 @@ const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     'customer.create',
     'customer.edit',
     'customer.view',
+    'customer.portal',
     'invoice.view',
     'invoice.collect',
     'payment.create',
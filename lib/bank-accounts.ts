@@ -0,0 +1,149 @@
+/**
+ * Bank Accounts and their ledger cash accounts
+ *
+ * Each BankAccount (bank current accounts, the M-Pesa float) maps to its own
+ * asset account in the chart of accounts. Statement lines are uploaded
+ * against a bank account, and receipts or debits reconciled from them post
+ * to that account's ledger cash account. Lines imported before accounts
+ * were tracked have no bank account and fall back to the main DTB account.
+ */
+
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { ACCOUNT_CODES } from './accounting';
+
+export interface CashPosition {
+  bankAccountId: string;
+  bankName: string;
+  accountNumber: string;
+  accountType: string;
+  currency: string;
+  ledgerAccountCode: string;
+  ledgerAccountName: string | null;
+  ledgerBalance: number;
+  statementBalance: number | null; // Running balance on the latest imported statement line
+  statementDate: Date | null;
+  lastReconciledDate: Date | null;
+  reconciledBalance: number;
+}
+
+/**
+ * Ledger cash account for a bank account
+ * @param bankAccountId - Bank account, or null for lines imported without one
+ * @returns Ledger account code
+ */
+export async function getLedgerAccountCodeForBankAccount(
+  bankAccountId: string | null | undefined,
+  client: TransactionClient = prisma
+): Promise<string> {
+  if (!bankAccountId) {
+    return ACCOUNT_CODES.DTB_BANK;
+  }
+
+  const account = await client.bankAccount.findUnique({
+    where: { id: bankAccountId },
+    select: { ledgerAccountCode: true },
+  });
+
+  return account?.ledgerAccountCode ?? ACCOUNT_CODES.DTB_BANK;
+}
+
+/**
+ * Check that a ledger account can serve as a bank account's cash account:
+ * it must be an asset account (or not exist yet) and not already be used by
+ * another active bank account
+ * @returns Error message, or null when valid
+ */
+export async function validateBankLedgerAccount(
+  ledgerAccountCode: string,
+  excludeBankAccountId?: string
+): Promise<string | null> {
+  const [account, inUse] = await Promise.all([
+    prisma.account.findUnique({ where: { accountCode: ledgerAccountCode } }),
+    prisma.bankAccount.findFirst({
+      where: {
+        ledgerAccountCode,
+        isActive: true,
+        ...(excludeBankAccountId && { id: { not: excludeBankAccountId } }),
+      },
+      select: { bankName: true, accountNumber: true },
+    }),
+  ]);
+
+  if (account && account.accountType !== 'ASSET') {
+    return `Ledger account ${ledgerAccountCode} is not an asset account`;
+  }
+
+  if (inUse) {
+    return `Ledger account ${ledgerAccountCode} is already mapped to ${inUse.bankName} ${inUse.accountNumber}`;
+  }
+
+  return null;
+}
+
+/**
+ * Create the ledger cash account for a bank account if it does not exist yet
+ */
+export async function ensureBankLedgerAccount(
+  ledgerAccountCode: string,
+  bankAccount: { bankName: string; accountNumber: string },
+  client: TransactionClient = prisma
+) {
+  return client.account.upsert({
+    where: { accountCode: ledgerAccountCode },
+    update: {},
+    create: {
+      accountCode: ledgerAccountCode,
+      accountName: `${bankAccount.bankName} (${bankAccount.accountNumber})`,
+      accountType: 'ASSET',
+      description: 'Bank cash account',
+    },
+  });
+}
+
+/**
+ * Cash position of every active bank account: ledger balance of its cash
+ * account alongside the latest statement balance
+ */
+export async function getCashPositions(): Promise<CashPosition[]> {
+  const accounts = await prisma.bankAccount.findMany({
+    where: { isActive: true },
+    orderBy: [{ isPrimary: 'desc' }, { bankName: 'asc' }],
+  });
+
+  const [ledgerAccounts, latestLines] = await Promise.all([
+    prisma.account.findMany({
+      where: { accountCode: { in: accounts.map((a) => a.ledgerAccountCode) } },
+      select: { accountCode: true, accountName: true, currentBalance: true },
+    }),
+    Promise.all(
+      accounts.map((a) =>
+        prisma.bankTransaction.findFirst({
+          where: { bankAccountId: a.id, balance: { not: null } },
+          orderBy: [{ transactionDate: 'desc' }, { rowNumber: 'desc' }],
+          select: { balance: true, transactionDate: true },
+        })
+      )
+    ),
+  ]);
+
+  return accounts.map((account, index) => {
+    const ledger = ledgerAccounts.find((l) => l.accountCode === account.ledgerAccountCode);
+    const latest = latestLines[index];
+
+    return {
+      bankAccountId: account.id,
+      bankName: account.bankName,
+      accountNumber: account.accountNumber,
+      accountType: account.accountType,
+      currency: account.currency,
+      ledgerAccountCode: account.ledgerAccountCode,
+      ledgerAccountName: ledger?.accountName ?? null,
+      ledgerBalance: ledger?.currentBalance ?? 0,
+      statementBalance: latest?.balance ?? null,
+      statementDate: latest?.transactionDate ?? null,
+      lastReconciledDate: account.lastReconciledDate,
+      reconciledBalance: account.reconciledBalance,
+    };
+  });
+}
@@ -0,0 +1,196 @@
+/**
+ * Bank Posting Rules
+ *
+ * Bank charges, excise duty, SMS fees and standing orders appear on every
+ * statement with no matching document. Posting rules recognise them by
+ * pattern and post them straight to the books: an Expense record plus
+ * balanced ledger entries (DR expense account / CR the bank account's cash
+ * account), with the bank transaction marked reconciled and the rule
+ * recorded in its log.
+ */
+
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { ruleMatches } from './reconciliation-rules';
+import { postExpensePaid } from './accounting';
+import { allocateDocumentNumber } from './document-sequences';
+import { getLedgerAccountCodeForBankAccount } from './bank-accounts';
+import { resolveExceptionForTransaction } from './reconciliation-exceptions';
+import type { BankPostingRule, BankTransaction, ExpenseCategory } from '@prisma/client';
+
+type PostingRuleWithCategory = BankPostingRule & { expenseCategory: ExpenseCategory };
+
+/**
+ * Find the first enabled posting rule (by priority) that matches a bank debit
+ * @param transaction - Bank transaction
+ * @returns Matching rule with its expense category, or null
+ */
+export async function findPostingRule(
+  transaction: BankTransaction
+): Promise<PostingRuleWithCategory | null> {
+  if (transaction.amount >= 0) {
+    return null;
+  }
+
+  const rules = await prisma.bankPostingRule.findMany({
+    where: { isEnabled: true },
+    include: { expenseCategory: true },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return rules.find((rule) => ruleMatches(rule, transaction)) || null;
+}
+
+/**
+ * Post a bank debit as an expense under a posting rule
+ *
+ * Creates the Expense, posts DR expense account / CR bank, links both to
+ * the bank transaction, marks it MATCHED and logs the rule - all in one
+ * database transaction.
+ *
+ * @param transaction - Bank transaction (negative amount, PENDING or UNMATCHED)
+ * @param rule - Posting rule to apply
+ * @param userId - User (or auto-match runner) performing the posting
+ * @returns The created expense
+ */
+export async function applyPostingRule(
+  transaction: BankTransaction,
+  rule: PostingRuleWithCategory,
+  userId: string
+) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const current = await tx.bankTransaction.findUnique({
+      where: { id: transaction.id },
+      select: { status: true },
+    });
+
+    if (!current || (current.status !== 'PENDING' && current.status !== 'UNMATCHED')) {
+      throw new Error('Transaction has already been processed');
+    }
+
+    const amount = Math.abs(transaction.amount);
+    const description = `${rule.name}: ${transaction.reference}`;
+
+    const entries = await postExpensePaid(
+      amount,
+      userId,
+      description,
+      transaction.transactionDate,
+      rule.ledgerAccountCode,
+      await getLedgerAccountCodeForBankAccount(transaction.bankAccountId, tx),
+      tx
+    );
+
+    const expense = await tx.expense.create({
+      data: {
+        expenseNumber: await allocateDocumentNumber(tx, 'EXPENSE', { date: transaction.transactionDate }),
+        category: rule.expenseCategory.name,
+        categoryId: rule.expenseCategoryId,
+        amount,
+        description,
+        expenseDate: transaction.transactionDate,
+        paymentMethod: 'Bank Debit',
+        vendor: rule.vendor,
+        reference: transaction.bankTransactionId,
+        bankTransactionId: transaction.id,
+        ledgerTransactionId: entries[0].transactionId,
+        createdBy: userId,
+      },
+    });
+
+    await tx.bankTransaction.update({
+      where: { id: transaction.id },
+      data: {
+        status: 'MATCHED',
+        matchedAt: new Date(),
+        matchedBy: userId,
+      },
+    });
+
+    await resolveExceptionForTransaction(transaction.id, userId, 'Reconciled', tx);
+
+    await tx.reconciliationLog.create({
+      data: {
+        bankTransactionId: transaction.id,
+        action: 'AUTO_MATCHED',
+        matchedEntityType: 'EXPENSE',
+        matchedEntityId: expense.id,
+        matchedAmount: transaction.amount,
+        postingRuleId: rule.id,
+        reason: `Posted by bank posting rule "${rule.name}"`,
+        performedBy: userId,
+      },
+    });
+
+    await tx.bankPostingRule.update({
+      where: { id: rule.id },
+      data: {
+        hitCount: { increment: 1 },
+        lastMatchedAt: new Date(),
+      },
+    });
+
+    return expense;
+  });
+}
+
+/**
+ * Apply posting rules to every pending or unmatched bank debit
+ * @param userId - User ID for audit trail
+ * @param dryRun - Report what would be posted without writing anything
+ * @returns Summary of postings
+ */
+export async function applyPostingRules(userId: string, dryRun: boolean = false) {
+  const debits = await prisma.bankTransaction.findMany({
+    where: {
+      status: { in: ['PENDING', 'UNMATCHED'] },
+      amount: { lt: 0 },
+    },
+    orderBy: { transactionDate: 'asc' },
+  });
+
+  const results = {
+    dryRun,
+    total: debits.length,
+    posted: 0,
+    failed: 0,
+    details: [] as {
+      id: string;
+      transactionId: string;
+      amount: number;
+      reference: string;
+      ruleId: string;
+      ruleName: string;
+      expenseId?: string;
+      error?: string;
+    }[],
+  };
+
+  for (const transaction of debits) {
+    const rule = await findPostingRule(transaction);
+    if (!rule) continue;
+
+    const detail = {
+      id: transaction.id,
+      transactionId: transaction.bankTransactionId,
+      amount: transaction.amount,
+      reference: transaction.reference,
+      ruleId: rule.id,
+      ruleName: rule.name,
+    };
+
+    try {
+      const expense = dryRun ? null : await applyPostingRule(transaction, rule, userId);
+      results.posted++;
+      results.details.push({ ...detail, expenseId: expense?.id });
+    } catch (error) {
+      results.failed++;
+      results.details.push({
+        ...detail,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
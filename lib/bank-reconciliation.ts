@@ -0,0 +1,604 @@
+/**
+ * Bank Reconciliation (statement balance vs ledger)
+ *
+ * Period-end reconciliation of a bank account's statement closing balance
+ * against the ledger cash balance:
+ *
+ *   Statement balance + uncleared deposits - unpresented payments
+ *     = Ledger balance + statement lines not yet posted to the ledger
+ *
+ * Any remaining gap is the difference. Drafts are recomputed on demand;
+ * completing a reconciliation freezes the figures and outstanding items,
+ * locks the record and signs it for the auditor PDF.
+ */
+
+import { createHmac } from 'crypto';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { ACCOUNT_CODES } from './accounting';
+import { getLedgerAccountCodeForBankAccount } from './bank-accounts';
+import { decimal } from './utils';
+import Decimal from 'decimal.js';
+
+export type OutstandingItemType =
+  | 'UNCLEARED_DEPOSIT'
+  | 'UNPRESENTED_PAYMENT'
+  | 'UNRECORDED_CREDIT'
+  | 'UNRECORDED_DEBIT';
+
+export interface OutstandingItem {
+  type: OutstandingItemType;
+  id: string; // Ledger entry or bank transaction ID
+  date: Date;
+  reference: string;
+  description: string;
+  amount: number; // Always positive
+}
+
+export interface ReconciliationReport {
+  bankAccountId: string;
+  ledgerAccountCode: string;
+  periodStart: Date | null;
+  periodEnd: Date;
+  statementBalance: number;
+  ledgerBalance: number;
+  unclearedDeposits: OutstandingItem[];
+  unpresentedPayments: OutstandingItem[];
+  unrecordedItems: OutstandingItem[];
+  totals: {
+    unclearedDeposits: number;
+    unpresentedPayments: number;
+    unrecordedCredits: number;
+    unrecordedDebits: number;
+  };
+  adjustedStatementBalance: number;
+  adjustedLedgerBalance: number;
+  difference: number;
+  matchedCount: number;
+  transactionCount: number;
+  matchedAmount: number;
+  reconciliationRatio: number; // % of period statement lines reconciled
+}
+
+/** Differences below this are treated as balanced */
+export const RECONCILIATION_TOLERANCE = 0.01;
+
+const CLEARED_STATUSES = ['MATCHED', 'PARTIALLY_MATCHED'];
+
+
+/**
+ * Ledger balance (debits - credits) of an asset account at a date
+ * @param accountCode - Ledger account code
+ * @param asOf - Include entries dated on or before this date
+ */
+export async function getLedgerBalanceAsOf(
+  accountCode: string,
+  asOf: Date,
+  client: TransactionClient = prisma
+): Promise<Decimal> {
+  const totals = await client.ledgerEntry.groupBy({
+    by: ['entryType'],
+    where: {
+      account: { accountCode },
+      entryDate: { lte: asOf },
+    },
+    _sum: { amount: true },
+  });
+
+  const debits = totals.find((t) => t.entryType === 'DEBIT')?._sum.amount ?? 0;
+  const credits = totals.find((t) => t.entryType === 'CREDIT')?._sum.amount ?? 0;
+
+  return decimal.subtract(debits, credits);
+}
+
+/**
+ * Compute the reconciliation of a bank account at a period end
+ * @param bankAccountId - Bank account being reconciled
+ * @param periodEnd - Statement date
+ * @param statementBalance - Closing balance on the bank statement
+ * @param periodStart - Start of the period (for the reconciled ratio)
+ */
+export async function computeBankReconciliation(
+  bankAccountId: string,
+  periodEnd: Date,
+  statementBalance: number,
+  periodStart: Date | null = null,
+  client: TransactionClient = prisma
+): Promise<ReconciliationReport> {
+  const ledgerAccountCode = await getLedgerAccountCodeForBankAccount(bankAccountId, client);
+  const ledgerBalance = await getLedgerBalanceAsOf(ledgerAccountCode, periodEnd, client);
+
+  // Book-side items: live ledger postings to the cash account up to period end.
+  // Reversed entries and their reversals cancel out and are left out.
+  const entries = await client.ledgerEntry.findMany({
+    where: {
+      account: { accountCode: ledgerAccountCode },
+      entryDate: { lte: periodEnd },
+      isReversed: false,
+      reversedBy: null,
+    },
+    include: {
+      payment: {
+        select: {
+          paymentNumber: true,
+          reference: true,
+          bankTransaction: { select: { status: true, transactionDate: true } },
+        },
+      },
+    },
+    orderBy: { entryDate: 'asc' },
+  });
+
+  const postedExpenses = await client.expense.findMany({
+    where: {
+      ledgerTransactionId: { in: Array.from(new Set(entries.map((e) => e.transactionId))) },
+    },
+    select: {
+      expenseNumber: true,
+      ledgerTransactionId: true,
+      bankTransaction: { select: { status: true, transactionDate: true } },
+    },
+  });
+  const expenseByLedgerTxn = new Map(postedExpenses.map((e) => [e.ledgerTransactionId, e]));
+
+  const unclearedDeposits: OutstandingItem[] = [];
+  const unpresentedPayments: OutstandingItem[] = [];
+
+  for (const entry of entries) {
+    const expense = expenseByLedgerTxn.get(entry.transactionId);
+    const statementLine = entry.payment?.bankTransaction ?? expense?.bankTransaction ?? null;
+
+    const cleared =
+      !!statementLine &&
+      CLEARED_STATUSES.includes(statementLine.status) &&
+      statementLine.transactionDate <= periodEnd;
+
+    if (cleared) continue;
+
+    const item: OutstandingItem = {
+      type: entry.entryType === 'DEBIT' ? 'UNCLEARED_DEPOSIT' : 'UNPRESENTED_PAYMENT',
+      id: entry.id,
+      date: entry.entryDate,
+      reference: entry.payment?.paymentNumber ?? expense?.expenseNumber ?? entry.transactionId,
+      description: entry.description,
+      amount: entry.amount,
+    };
+
+    if (item.type === 'UNCLEARED_DEPOSIT') {
+      unclearedDeposits.push(item);
+    } else {
+      unpresentedPayments.push(item);
+    }
+  }
+
+  // Statement-side items: lines on the statement that never reached the ledger
+  // (unmatched lines, and debits matched to supplier payments or expenses
+  // recorded outside the ledger). Lines imported without a bank account
+  // belong to the main DTB cash account.
+  const statementLines = await client.bankTransaction.findMany({
+    where: {
+      transactionDate: { lte: periodEnd },
+      OR: [
+        { bankAccountId },
+        ...(ledgerAccountCode === ACCOUNT_CODES.DTB_BANK ? [{ bankAccountId: null }] : []),
+      ],
+    },
+    select: {
+      id: true,
+      bankTransactionId: true,
+      transactionDate: true,
+      amount: true,
+      reference: true,
+      status: true,
+      payments: { where: { status: { not: 'REVERSED' } }, select: { id: true } },
+      expenses: { where: { ledgerTransactionId: { not: null } }, select: { id: true } },
+    },
+    orderBy: { transactionDate: 'asc' },
+  });
+
+  const unrecordedItems: OutstandingItem[] = [];
+  let matchedCount = 0;
+  let transactionCount = 0;
+  let matchedAmount = new Decimal(0);
+
+  for (const line of statementLines) {
+    const postedToLedger =
+      CLEARED_STATUSES.includes(line.status) &&
+      (line.payments.length > 0 || line.expenses.length > 0);
+
+    if (!postedToLedger) {
+      unrecordedItems.push({
+        type: line.amount >= 0 ? 'UNRECORDED_CREDIT' : 'UNRECORDED_DEBIT',
+        id: line.id,
+        date: line.transactionDate,
+        reference: line.bankTransactionId,
+        description: line.reference,
+        amount: Math.abs(line.amount),
+      });
+    }
+
+    if (!periodStart || line.transactionDate >= periodStart) {
+      transactionCount++;
+      if (CLEARED_STATUSES.includes(line.status)) {
+        matchedCount++;
+        matchedAmount = matchedAmount.add(Math.abs(line.amount));
+      }
+    }
+  }
+
+  const sum = (items: OutstandingItem[]) => decimal.add(...items.map((item) => item.amount));
+
+  const totalUnclearedDeposits = sum(unclearedDeposits);
+  const totalUnpresentedPayments = sum(unpresentedPayments);
+  const totalUnrecordedCredits = sum(unrecordedItems.filter((i) => i.type === 'UNRECORDED_CREDIT'));
+  const totalUnrecordedDebits = sum(unrecordedItems.filter((i) => i.type === 'UNRECORDED_DEBIT'));
+
+  const adjustedStatementBalance = new Decimal(statementBalance)
+    .add(totalUnclearedDeposits)
+    .sub(totalUnpresentedPayments);
+  const adjustedLedgerBalance = ledgerBalance
+    .add(totalUnrecordedCredits)
+    .sub(totalUnrecordedDebits);
+
+  return {
+    bankAccountId,
+    ledgerAccountCode,
+    periodStart,
+    periodEnd,
+    statementBalance,
+    ledgerBalance: ledgerBalance.toNumber(),
+    unclearedDeposits,
+    unpresentedPayments,
+    unrecordedItems,
+    totals: {
+      unclearedDeposits: totalUnclearedDeposits.toNumber(),
+      unpresentedPayments: totalUnpresentedPayments.toNumber(),
+      unrecordedCredits: totalUnrecordedCredits.toNumber(),
+      unrecordedDebits: totalUnrecordedDebits.toNumber(),
+    },
+    adjustedStatementBalance: adjustedStatementBalance.toNumber(),
+    adjustedLedgerBalance: adjustedLedgerBalance.toNumber(),
+    difference: adjustedStatementBalance.sub(adjustedLedgerBalance).toNumber(),
+    matchedCount,
+    transactionCount,
+    matchedAmount: matchedAmount.toNumber(),
+    reconciliationRatio:
+      transactionCount > 0 ? Math.round((matchedCount / transactionCount) * 10000) / 100 : 100,
+  };
+}
+
+/**
+ * Figures stored on the BankReconciliation row for a computed report
+ */
+function reconciliationFigures(report: ReconciliationReport) {
+  return {
+    ledgerBalance: report.ledgerBalance,
+    unclearedDeposits: report.totals.unclearedDeposits,
+    unpresentedPayments: report.totals.unpresentedPayments,
+    difference: report.difference,
+    reconciledAmount: report.matchedAmount,
+    outstandingAmount: decimal
+      .add(
+        report.totals.unclearedDeposits,
+        report.totals.unpresentedPayments,
+        report.totals.unrecordedCredits,
+        report.totals.unrecordedDebits
+      )
+      .toNumber(),
+    reconciliationRatio: report.reconciliationRatio,
+  };
+}
+
+interface CreateBankReconciliationInput {
+  bankAccountId: string;
+  periodEnd: Date;
+  statementBalance: number;
+  notes?: string;
+  userId: string;
+}
+
+/**
+ * Start a draft reconciliation for a bank account. The period runs from the
+ * day after the last completed reconciliation.
+ */
+export async function createBankReconciliation(input: CreateBankReconciliationInput) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const account = await tx.bankAccount.findUnique({ where: { id: input.bankAccountId } });
+
+    if (!account) {
+      throw new Error('Bank account not found');
+    }
+
+    const [openDraft, previous] = await Promise.all([
+      tx.bankReconciliation.findFirst({
+        where: { bankAccountId: account.id, isLocked: false },
+      }),
+      tx.bankReconciliation.findFirst({
+        where: { bankAccountId: account.id, isLocked: true },
+        orderBy: { reconciliationDate: 'desc' },
+      }),
+    ]);
+
+    if (openDraft) {
+      throw new Error('A draft reconciliation is already open for this account');
+    }
+
+    if (previous && input.periodEnd <= previous.reconciliationDate) {
+      throw new Error('Period end must be after the last completed reconciliation');
+    }
+
+    const periodStart = previous
+      ? new Date(previous.reconciliationDate.getTime() + 24 * 60 * 60 * 1000)
+      : null;
+
+    const report = await computeBankReconciliation(
+      account.id,
+      input.periodEnd,
+      input.statementBalance,
+      periodStart,
+      tx
+    );
+
+    return tx.bankReconciliation.create({
+      data: {
+        bankAccountId: account.id,
+        periodStart,
+        reconciliationDate: input.periodEnd,
+        beginningBalance: previous?.endingBalance ?? 0,
+        endingBalance: input.statementBalance,
+        ...reconciliationFigures(report),
+        notes: input.notes,
+        createdBy: input.userId,
+      },
+    });
+  });
+}
+
+/**
+ * Recompute a draft reconciliation, optionally with a corrected statement balance
+ * @returns The refreshed reconciliation and its live report
+ */
+export async function refreshBankReconciliation(
+  reconciliationId: string,
+  changes: { statementBalance?: number; notes?: string } = {}
+) {
+  const reconciliation = await prisma.bankReconciliation.findUnique({
+    where: { id: reconciliationId },
+  });
+
+  if (!reconciliation) {
+    throw new Error('Reconciliation not found');
+  }
+
+  if (reconciliation.isLocked) {
+    throw new Error('Reconciliation is locked');
+  }
+
+  const statementBalance = changes.statementBalance ?? reconciliation.endingBalance;
+  const report = await computeBankReconciliation(
+    reconciliation.bankAccountId,
+    reconciliation.reconciliationDate,
+    statementBalance,
+    reconciliation.periodStart
+  );
+
+  const updated = await prisma.bankReconciliation.update({
+    where: { id: reconciliationId },
+    data: {
+      endingBalance: statementBalance,
+      ...reconciliationFigures(report),
+      ...(changes.notes !== undefined && { notes: changes.notes }),
+    },
+  });
+
+  return { reconciliation: updated, report };
+}
+
+// JSON with sorted keys, so a payload read back from a Json column signs identically
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function getSigningSecret() {
+  const secret = process.env.DOCUMENT_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('DOCUMENT_SIGNING_SECRET is not configured');
+  }
+  return secret;
+}
+
+/**
+ * HMAC-SHA256 signature over the locked figures and outstanding items
+ */
+export function signReconciliation(payload: Record<string, unknown>): string {
+  return createHmac('sha256', getSigningSecret()).update(canonicalJson(payload)).digest('hex');
+}
+
+/**
+ * Payload covered by the reconciliation signature
+ */
+export function getSignaturePayload(reconciliation: {
+  id: string;
+  bankAccountId: string;
+  reconciliationDate: Date;
+  endingBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  reconciledBalance: number | null;
+  reconciliationRatio: number | null;
+  outstandingItems: unknown;
+  completedBy: string | null;
+  completedAt: Date | null;
+}) {
+  return {
+    id: reconciliation.id,
+    bankAccountId: reconciliation.bankAccountId,
+    reconciliationDate: reconciliation.reconciliationDate.toISOString(),
+    endingBalance: reconciliation.endingBalance,
+    ledgerBalance: reconciliation.ledgerBalance,
+    difference: reconciliation.difference,
+    reconciledBalance: reconciliation.reconciledBalance,
+    reconciliationRatio: reconciliation.reconciliationRatio,
+    outstandingItems: reconciliation.outstandingItems,
+    completedBy: reconciliation.completedBy,
+    completedAt: reconciliation.completedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Complete and lock a reconciliation
+ *
+ * Figures and outstanding items are frozen, the record is signed and the
+ * bank account's last reconciled date and balance are rolled forward. A
+ * non-zero difference can only be accepted with an explanatory note and
+ * closes the period as DISCREPANCIES.
+ *
+ * @param reconciliationId - Draft reconciliation
+ * @param userId - User signing off
+ * @param notes - Required when the reconciliation does not balance
+ */
+export async function completeBankReconciliation(
+  reconciliationId: string,
+  userId: string,
+  notes?: string
+) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const reconciliation = await tx.bankReconciliation.findUnique({
+      where: { id: reconciliationId },
+    });
+
+    if (!reconciliation) {
+      throw new Error('Reconciliation not found');
+    }
+
+    if (reconciliation.isLocked) {
+      throw new Error('Reconciliation is already locked');
+    }
+
+    const report = await computeBankReconciliation(
+      reconciliation.bankAccountId,
+      reconciliation.reconciliationDate,
+      reconciliation.endingBalance,
+      reconciliation.periodStart,
+      tx
+    );
+
+    const balanced = Math.abs(report.difference) < RECONCILIATION_TOLERANCE;
+    const explanation = notes || reconciliation.notes;
+
+    if (!balanced && !explanation) {
+      throw new Error('Explain the unreconciled difference before completing');
+    }
+
+    const completedAt = new Date();
+    const outstandingItems = JSON.parse(
+      JSON.stringify({
+        unclearedDeposits: report.unclearedDeposits,
+        unpresentedPayments: report.unpresentedPayments,
+        unrecordedItems: report.unrecordedItems,
+        totals: report.totals,
+        adjustedStatementBalance: report.adjustedStatementBalance,
+        adjustedLedgerBalance: report.adjustedLedgerBalance,
+      })
+    );
+
+    const locked = {
+      ...reconciliation,
+      ...reconciliationFigures(report),
+      reconciledBalance: report.adjustedStatementBalance,
+      outstandingItems,
+      completedBy: userId,
+      completedAt,
+    };
+
+    const updated = await tx.bankReconciliation.update({
+      where: { id: reconciliationId },
+      data: {
+        ...reconciliationFigures(report),
+        reconciledBalance: locked.reconciledBalance,
+        outstandingItems,
+        status: balanced ? 'COMPLETE' : 'DISCREPANCIES',
+        notes: explanation,
+        isLocked: true,
+        completedBy: userId,
+        completedAt,
+        signature: signReconciliation(getSignaturePayload(locked)),
+      },
+    });
+
+    await tx.bankAccount.update({
+      where: { id: reconciliation.bankAccountId },
+      data: {
+        lastReconciledDate: reconciliation.reconciliationDate,
+        reconciledBalance: reconciliation.endingBalance,
+      },
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Load a reconciliation with its report: recomputed live for drafts, read
+ * from the frozen snapshot once locked
+ * @returns Reconciliation (with bank account) and report, or null
+ */
+export async function getBankReconciliationReport(reconciliationId: string) {
+  const reconciliation = await prisma.bankReconciliation.findUnique({
+    where: { id: reconciliationId },
+    include: { bankAccount: true },
+  });
+
+  if (!reconciliation) {
+    return null;
+  }
+
+  if (!reconciliation.isLocked) {
+    const report = await computeBankReconciliation(
+      reconciliation.bankAccountId,
+      reconciliation.reconciliationDate,
+      reconciliation.endingBalance,
+      reconciliation.periodStart
+    );
+    return { reconciliation, report };
+  }
+
+  const snapshot = (reconciliation.outstandingItems || {}) as unknown as Pick<
+    ReconciliationReport,
+    | 'unclearedDeposits'
+    | 'unpresentedPayments'
+    | 'unrecordedItems'
+    | 'totals'
+    | 'adjustedStatementBalance'
+    | 'adjustedLedgerBalance'
+  >;
+
+  const report = {
+    bankAccountId: reconciliation.bankAccountId,
+    ledgerAccountCode: reconciliation.bankAccount.ledgerAccountCode,
+    periodStart: reconciliation.periodStart,
+    periodEnd: reconciliation.reconciliationDate,
+    statementBalance: reconciliation.endingBalance,
+    ledgerBalance: reconciliation.ledgerBalance,
+    unclearedDeposits: snapshot.unclearedDeposits || [],
+    unpresentedPayments: snapshot.unpresentedPayments || [],
+    unrecordedItems: snapshot.unrecordedItems || [],
+    totals: snapshot.totals,
+    adjustedStatementBalance: snapshot.adjustedStatementBalance,
+    adjustedLedgerBalance: snapshot.adjustedLedgerBalance,
+    difference: reconciliation.difference,
+    reconciliationRatio: reconciliation.reconciliationRatio ?? 0,
+    matchedAmount: reconciliation.reconciledAmount,
+  };
+
+  return { reconciliation, report };
+}
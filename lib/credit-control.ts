@@ -0,0 +1,239 @@
+/**
+ * Credit Control
+ *
+ * A customer's exposure is the balance of their issued invoices plus the
+ * value of sales orders submitted but not yet invoiced, less any unapplied
+ * credit they hold. New credit (an
+ * unpaid POS sale on a named account, a sales order being submitted or
+ * approved, an invoice being issued) is checked against their credit limit,
+ * and what happens when it would go over depends on the customer's action:
+ *
+ * - WARN lets the sale through with a warning
+ * - BLOCK refuses it
+ * - OVERRIDE refuses it unless a user with credit.override gives a reason,
+ *   which is written to the audit log
+ *
+ * A customer on credit hold can take no new credit at all until the hold is
+ * lifted. Customers without a credit limit are only checked for a hold.
+ */
+
+import Decimal from 'decimal.js';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { CreditControlError } from './errors';
+import { formatCurrency } from './utils';
+import { createAuditLog } from './audit';
+import { toBaseAmount } from './exchange-rates';
+
+export const CREDIT_LIMIT_ACTIONS = ['WARN', 'BLOCK', 'OVERRIDE'] as const;
+export type CreditLimitAction = (typeof CREDIT_LIMIT_ACTIONS)[number];
+
+const OPEN_INVOICE_STATUSES = ['SENT', 'PARTIALLY_PAID', 'OVERDUE'];
+const OPEN_ORDER_STATUSES = ['PENDING_APPROVAL', 'APPROVED', 'DELIVERED'];
+
+export interface CreditCheckResult {
+  status: 'OK' | 'WARNING' | 'OVERRIDDEN';
+  customerId: string;
+  customerName: string;
+  creditLimit: number | null;
+  exposure: number;
+  amount: number;
+  available: number | null;
+  message?: string;
+  overrideReason?: string;
+}
+
+interface CreditCheckOptions {
+  /** Sales order being checked, so it is not counted twice */
+  excludeSalesOrderId?: string;
+  /** Invoice being checked, already saved as open, so it is not counted twice */
+  excludeInvoiceId?: string;
+  /** Reason given to go over the limit */
+  overrideReason?: string;
+  /** Whether the acting user holds credit.override */
+  canOverride?: boolean;
+}
+
+/**
+ * Action for customers without their own (CREDIT_LIMIT_ACTION, default OVERRIDE)
+ */
+export function getDefaultCreditLimitAction(): CreditLimitAction {
+  const action = process.env.CREDIT_LIMIT_ACTION as CreditLimitAction | undefined;
+  return action && CREDIT_LIMIT_ACTIONS.includes(action) ? action : 'OVERRIDE';
+}
+
+/**
+ * What a customer currently owes or has on order, in the base currency
+ * (foreign-currency invoices and credit at the rates they were booked at)
+ * @param customerId - Customer ID
+ * @param options.excludeSalesOrderId - Leave this sales order out
+ * @param options.excludeInvoiceId - Leave this invoice out
+ * @param client - Existing transaction client
+ */
+export async function getCustomerExposure(
+  customerId: string,
+  options: { excludeSalesOrderId?: string; excludeInvoiceId?: string } = {},
+  client: TransactionClient = prisma
+) {
+  const [invoices, orders, credit] = await Promise.all([
+    client.invoice.findMany({
+      where: {
+        customerId,
+        status: { in: OPEN_INVOICE_STATUSES },
+        ...(options.excludeInvoiceId && { id: { not: options.excludeInvoiceId } }),
+      },
+      select: { balanceAmount: true, exchangeRate: true },
+    }),
+    client.salesOrder.aggregate({
+      where: {
+        customerId,
+        status: { in: OPEN_ORDER_STATUSES },
+        invoiceId: null,
+        ...(options.excludeSalesOrderId && { id: { not: options.excludeSalesOrderId } }),
+      },
+      _sum: { totalAmount: true },
+    }),
+    client.payment.findMany({
+      where: { customerId, invoiceId: null, status: 'CONFIRMED', unappliedAmount: { gt: 0 } },
+      select: { unappliedAmount: true, exchangeRate: true },
+    }),
+  ]);
+
+  const outstandingInvoices = invoices
+    .reduce((sum, invoice) => sum.plus(toBaseAmount(invoice.balanceAmount, invoice.exchangeRate)), new Decimal(0))
+    .toNumber();
+  const openOrders = orders._sum.totalAmount ?? 0;
+  const unappliedCredit = credit
+    .reduce((sum, payment) => sum.plus(toBaseAmount(payment.unappliedAmount, payment.exchangeRate)), new Decimal(0))
+    .toNumber();
+
+  return {
+    outstandingInvoices,
+    openOrders,
+    unappliedCredit,
+    total: new Decimal(outstandingInvoices).plus(openOrders).minus(unappliedCredit).toDecimalPlaces(2).toNumber(),
+  };
+}
+
+/**
+ * Check new credit for a customer against their hold and credit limit
+ * @param customerId - Customer ID
+ * @param amount - New credit being extended
+ * @param options - Order or invoice to exclude and any override
+ * @param client - Existing transaction client
+ * @returns The outcome when the credit is allowed
+ * @throws CreditControlError when it is not
+ */
+export async function checkCreditLimit(
+  customerId: string,
+  amount: number,
+  options: CreditCheckOptions = {},
+  client: TransactionClient = prisma
+): Promise<CreditCheckResult> {
+  const customer = await client.customer.findUnique({
+    where: { id: customerId },
+    select: {
+      id: true,
+      name: true,
+      creditLimit: true,
+      creditLimitAction: true,
+      creditHold: true,
+      creditHoldReason: true,
+    },
+  });
+
+  if (!customer) {
+    throw new Error('Customer not found');
+  }
+
+  const base = {
+    customerId: customer.id,
+    customerName: customer.name,
+    creditLimit: customer.creditLimit,
+    amount,
+  };
+
+  if (amount <= 0) {
+    return { ...base, status: 'OK', exposure: 0, available: null };
+  }
+
+  if (customer.creditHold) {
+    throw new CreditControlError(
+      `${customer.name} is on credit hold${customer.creditHoldReason ? `: ${customer.creditHoldReason}` : ''}`,
+      'CREDIT_HOLD',
+      base
+    );
+  }
+
+  const exposure = await getCustomerExposure(customerId, options, client);
+
+  if (customer.creditLimit === null) {
+    return { ...base, status: 'OK', exposure: exposure.total, available: null };
+  }
+
+  const available = new Decimal(customer.creditLimit).minus(exposure.total).toDecimalPlaces(2).toNumber();
+  const result = { ...base, exposure: exposure.total, available };
+
+  if (amount <= available) {
+    return { ...result, status: 'OK' };
+  }
+
+  const message = `${customer.name} would exceed their ${formatCurrency(customer.creditLimit)} credit limit (owes ${formatCurrency(exposure.total)}, ${formatCurrency(Math.max(available, 0))} available)`;
+  const action = (customer.creditLimitAction as CreditLimitAction | null) ?? getDefaultCreditLimitAction();
+
+  if (action === 'WARN') {
+    return { ...result, status: 'WARNING', message };
+  }
+
+  if (action === 'OVERRIDE' && options.overrideReason?.trim()) {
+    if (!options.canOverride) {
+      throw new CreditControlError(`${message}. Only a manager can override the limit`, 'CREDIT_OVERRIDE_REQUIRED', result);
+    }
+
+    return { ...result, status: 'OVERRIDDEN', message, overrideReason: options.overrideReason.trim() };
+  }
+
+  throw new CreditControlError(
+    action === 'OVERRIDE' ? `${message}. A manager override with a reason is required` : message,
+    action === 'OVERRIDE' ? 'CREDIT_OVERRIDE_REQUIRED' : 'CREDIT_LIMIT_EXCEEDED',
+    { ...result, action }
+  );
+}
+
+/**
+ * Write the audit entry for a credit limit override
+ * @param check - Result of an overridden check
+ * @param context - Who overrode it and on which document
+ */
+export async function logCreditOverride(
+  check: CreditCheckResult,
+  context: {
+    userId: string;
+    entityType: string;
+    entityId?: string;
+    document: string;
+    ipAddress?: string;
+    userAgent?: string;
+  }
+) {
+  if (check.status !== 'OVERRIDDEN') {
+    return;
+  }
+
+  await createAuditLog({
+    userId: context.userId,
+    action: 'OVERRIDE_CREDIT_LIMIT',
+    entityType: context.entityType,
+    entityId: context.entityId,
+    description: `Credit limit overridden for ${check.customerName} on ${context.document}: ${check.overrideReason}`,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    metadata: {
+      customerId: check.customerId,
+      creditLimit: check.creditLimit,
+      exposure: check.exposure,
+      amount: check.amount,
+      reason: check.overrideReason,
+    },
+  });
+}
@@ -0,0 +1,244 @@
+/**
+ * Unapplied Customer Credit
+ *
+ * Money a customer pays that no invoice is waiting for (an overpayment, or a
+ * payment taken on account before anything has been invoiced) is recorded as
+ * a payment without an invoice and held on the customer deposits liability
+ * account. Its unapplied amount is allocated to invoices later, oldest
+ * credit first: automatically when an invoice is issued (unless
+ * AUTO_APPLY_CUSTOMER_CREDIT is false), or by hand. Whatever is still
+ * unapplied can be refunded through recordRefund.
+ *
+ * Credit is only applied to invoices in the currency it was received in;
+ * for a foreign currency, the difference between the rate it was received
+ * at and the invoice's rate is posted as realised FX.
+ */
+
+import Decimal from 'decimal.js';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { postCustomerCreditApplied } from './accounting';
+import { isBaseCurrency, toBaseAmount } from './exchange-rates';
+import { calculateInvoiceStatus } from './payment-methods';
+import { formatCurrency } from './utils';
+import type { ApplyCustomerCreditInput } from './validations';
+
+const OPEN_INVOICE_STATUSES = ['SENT', 'PARTIALLY_PAID', 'OVERDUE'];
+
+export interface CustomerCreditApplication {
+  amount: number;
+  allocations: {
+    id: string;
+    paymentId: string;
+    amount: number;
+  }[];
+  invoice: {
+    id: string;
+    invoiceNumber: string;
+    paidAmount: number;
+    balanceAmount: number;
+    status: string;
+    paidDate: Date | null;
+  };
+}
+
+/**
+ * Whether credit is applied to invoices as they are issued
+ */
+export function isAutoApplyCustomerCreditEnabled() {
+  return process.env.AUTO_APPLY_CUSTOMER_CREDIT !== 'false';
+}
+
+/**
+ * A customer's unapplied credit and the payments it is held on
+ * @param customerId - Customer ID
+ * @param client - Existing transaction client
+ */
+export async function getUnappliedCredit(customerId: string, client: TransactionClient = prisma) {
+  const payments = await client.payment.findMany({
+    where: { customerId, invoiceId: null, status: 'CONFIRMED', unappliedAmount: { gt: 0 } },
+    orderBy: [{ paymentDate: 'asc' }, { createdAt: 'asc' }],
+    select: {
+      id: true,
+      paymentNumber: true,
+      paymentDate: true,
+      paymentMethod: true,
+      reference: true,
+      amount: true,
+      unappliedAmount: true,
+      currency: true,
+      exchangeRate: true,
+    },
+  });
+
+  return {
+    // In the base currency, at the rates the credit was received at
+    total: payments
+      .reduce((sum, payment) => sum.plus(toBaseAmount(payment.unappliedAmount, payment.exchangeRate)), new Decimal(0))
+      .toNumber(),
+    payments,
+  };
+}
+
+/**
+ * Apply a customer's unapplied credit to one of their open invoices,
+ * oldest credit first
+ * @param tx - Transaction client
+ * @param invoiceId - Invoice to apply the credit to
+ * @param userId - User applying it (or issuing the invoice)
+ * @param options.amount - How much to apply (defaults to as much as the invoice needs)
+ * @param options.paymentId - Apply only the credit held on this payment
+ * @param options.automatic - Applied on issue: quietly does nothing when there is nothing to apply
+ * @returns What was applied, or null when nothing was
+ */
+export async function applyCustomerCredit(
+  tx: TransactionClient,
+  invoiceId: string,
+  userId: string,
+  options: { amount?: number; paymentId?: string; automatic?: boolean } = {}
+): Promise<CustomerCreditApplication | null> {
+  const invoice = await tx.invoice.findUnique({
+    where: { id: invoiceId },
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  if (!OPEN_INVOICE_STATUSES.includes(invoice.status) || invoice.balanceAmount <= 0) {
+    if (options.automatic) {
+      return null;
+    }
+    throw new Error(`Invoice ${invoice.invoiceNumber} is not open for payment`);
+  }
+
+  const credit = await tx.payment.findMany({
+    where: {
+      customerId: invoice.customerId,
+      invoiceId: null,
+      status: 'CONFIRMED',
+      unappliedAmount: { gt: 0 },
+      currency: invoice.currency,
+      ...(options.paymentId && { id: options.paymentId }),
+    },
+    orderBy: [{ paymentDate: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const available = credit.reduce((sum, payment) => sum.plus(payment.unappliedAmount), new Decimal(0));
+
+  if (options.amount !== undefined) {
+    if (new Decimal(options.amount).gt(available)) {
+      throw new Error(
+        `Only ${formatCurrency(available.toNumber(), invoice.currency)} of unapplied ${invoice.currency} credit is available`
+      );
+    }
+    if (new Decimal(options.amount).gt(invoice.balanceAmount)) {
+      throw new Error(`Amount exceeds the balance of invoice ${invoice.invoiceNumber}`);
+    }
+  }
+
+  let remaining = Decimal.min(options.amount ?? invoice.balanceAmount, invoice.balanceAmount, available);
+
+  if (remaining.lte(0)) {
+    if (options.automatic) {
+      return null;
+    }
+    throw new Error(`The customer has no unapplied ${invoice.currency} credit`);
+  }
+
+  const allocations: CustomerCreditApplication['allocations'] = [];
+
+  for (const payment of credit) {
+    if (remaining.lte(0)) break;
+
+    const amount = Decimal.min(remaining, payment.unappliedAmount);
+
+    // Guarded so two applications (or an application and a refund) cannot
+    // both spend the same credit
+    const spent = await tx.payment.updateMany({
+      where: { id: payment.id, unappliedAmount: { gte: amount.toNumber() } },
+      data: { unappliedAmount: { decrement: amount.toNumber() } },
+    });
+
+    if (spent.count === 0) {
+      throw new Error(`Credit on payment ${payment.reference} has changed; try again`);
+    }
+
+    const allocation = await tx.customerCreditAllocation.create({
+      data: {
+        paymentId: payment.id,
+        invoiceId: invoice.id,
+        amount: amount.toNumber(),
+        isAutomatic: !!options.automatic,
+        allocatedBy: userId,
+      },
+    });
+
+    await postCustomerCreditApplied(
+      payment.id,
+      invoice.customerId,
+      invoice.id,
+      amount,
+      userId,
+      `Customer credit from ${payment.reference} applied to ${invoice.invoiceNumber}`,
+      tx,
+      isBaseCurrency(invoice.currency)
+        ? undefined
+        : { currency: invoice.currency, rate: payment.exchangeRate, bookedRate: invoice.exchangeRate }
+    );
+
+    allocations.push({ id: allocation.id, paymentId: payment.id, amount: allocation.amount });
+    remaining = remaining.minus(amount);
+  }
+
+  const applied = allocations.reduce((sum, allocation) => sum.plus(allocation.amount), new Decimal(0));
+  const newPaidAmount = new Decimal(invoice.paidAmount).plus(applied);
+  const newBalanceAmount = Decimal.max(new Decimal(invoice.totalAmount).minus(newPaidAmount), 0);
+  const newStatus = calculateInvoiceStatus(
+    invoice.totalAmount,
+    newPaidAmount.toNumber(),
+    invoice.dueDate,
+    invoice.status
+  );
+
+  const updated = await tx.invoice.update({
+    where: { id: invoice.id },
+    data: {
+      paidAmount: newPaidAmount.toNumber(),
+      balanceAmount: newBalanceAmount.toNumber(),
+      status: newStatus,
+      ...(newStatus === 'PAID' && { paidDate: new Date() }),
+    },
+    select: { id: true, invoiceNumber: true, paidAmount: true, balanceAmount: true, status: true, paidDate: true },
+  });
+
+  return { amount: applied.toNumber(), allocations, invoice: updated };
+}
+
+/**
+ * Apply a customer's credit to one of their invoices by hand
+ * @param customerId - Customer the credit belongs to
+ * @param input - Invoice, and optionally the amount and payment to take it from
+ * @param userId - User applying it
+ */
+export async function allocateCustomerCredit(
+  customerId: string,
+  input: ApplyCustomerCreditInput,
+  userId: string
+) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: input.invoiceId },
+      select: { customerId: true },
+    });
+
+    if (!invoice || invoice.customerId !== customerId) {
+      throw new Error('Invoice not found for this customer');
+    }
+
+    return (await applyCustomerCredit(tx, input.invoiceId, userId, {
+      amount: input.amount,
+      paymentId: input.paymentId,
+    }))!;
+  });
+}
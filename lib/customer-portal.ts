@@ -0,0 +1,364 @@
+/**
+ * Customer Portal
+ *
+ * Customers reach their account through a signed, expiring link sent by SMS
+ * or email, with no User account. The token carries the link ID, customer
+ * ID and expiry, signed with PORTAL_LINK_SECRET; the link row is checked on
+ * every request so a link can be revoked before it expires. Everything the
+ * portal reads is scoped to the customer the link was issued for.
+ *
+ * Portal activity is written to the audit log under the staff user who
+ * issued the link, with the link and customer in the metadata.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import Decimal from 'decimal.js';
+import { addDays, format } from 'date-fns';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { getBaseCurrency, toBaseAmount } from './exchange-rates';
+import { createAuditLog, type AuditAction } from './audit';
+import { isRateLimited } from './rate-limit';
+import { sendPortalLinkSms } from './sms-service';
+import { sendPortalLinkEmail } from './email-service';
+import type { CreatePortalLinkInput } from './validations';
+
+const DEFAULT_LINK_TTL_DAYS = 14;
+const OPEN_INVOICE_STATUSES = ['SENT', 'PARTIALLY_PAID', 'OVERDUE'];
+const HIDDEN_INVOICE_STATUSES = ['DRAFT', 'CANCELLED'];
+
+export interface PortalLink {
+  id: string;
+  customerId: string;
+  createdBy: string;
+  expiresAt: Date;
+}
+
+function getPortalSecret() {
+  const secret = process.env.PORTAL_LINK_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('PORTAL_LINK_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(value: string) {
+  return createHmac('sha256', getPortalSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Token for a link: `<linkId>.<expiry>.<signature>`, expiry in base-36 seconds
+ */
+function signPortalToken(link: PortalLink) {
+  const expiry = Math.floor(link.expiresAt.getTime() / 1000).toString(36);
+  return `${link.id}.${expiry}.${sign(`${link.id}.${link.customerId}.${expiry}`)}`;
+}
+
+/**
+ * Public URL of the portal for a link
+ */
+export function getPortalUrl(link: PortalLink) {
+  const baseUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${baseUrl}/portal/${signPortalToken(link)}`;
+}
+
+/**
+ * Whether a portal request should be refused, limited both per client IP
+ * (against token guessing) and per token (against a leaked link being scraped)
+ * @param ipAddress - Client IP
+ * @param token - Token from the URL
+ */
+export function isPortalRateLimited(ipAddress: string | undefined, token: string) {
+  const maxRequests = parseInt(process.env.PORTAL_RATE_LIMIT_MAX_REQUESTS || '60', 10);
+  const byIp = isRateLimited(`portal-ip:${ipAddress || 'unknown'}`, maxRequests);
+  const byToken = isRateLimited(`portal-token:${token.slice(0, 64)}`, maxRequests);
+  return byIp || byToken;
+}
+
+/**
+ * Issue a portal link for a customer, optionally sending it to them
+ * @param customerId - Customer ID
+ * @param userId - Staff user issuing the link
+ * @param input - Delivery channel and lifetime
+ * @returns The link and its URL
+ */
+export async function createPortalLink(customerId: string, userId: string, input: CreatePortalLinkInput) {
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+    select: { id: true, name: true, email: true, phone: true, isActive: true },
+  });
+
+  if (!customer) {
+    throw new Error('Customer not found');
+  }
+
+  if (!customer.isActive) {
+    throw new Error('Portal links cannot be issued to inactive customers');
+  }
+
+  const sentTo = input.sendVia === 'SMS' ? customer.phone : input.sendVia === 'EMAIL' ? customer.email : null;
+  if (input.sendVia && !sentTo) {
+    throw new Error(`${customer.name} has no ${input.sendVia === 'SMS' ? 'phone number' : 'email address'} on file`);
+  }
+
+  const ttlDays = input.expiresInDays ?? parseInt(process.env.PORTAL_LINK_TTL_DAYS || String(DEFAULT_LINK_TTL_DAYS), 10);
+
+  const link = await prisma.customerPortalLink.create({
+    data: {
+      customerId,
+      expiresAt: addDays(new Date(), ttlDays),
+      sentVia: input.sendVia,
+      sentTo,
+      createdBy: userId,
+    },
+  });
+
+  const url = getPortalUrl(link);
+
+  try {
+    if (input.sendVia === 'SMS') {
+      const result = await sendPortalLinkSms(sentTo!, customer.name, url, link.expiresAt);
+      if (!result.success) {
+        throw new Error(result.error || 'SMS could not be sent');
+      }
+    } else if (input.sendVia === 'EMAIL') {
+      await sendPortalLinkEmail(sentTo!, customer.name, url, format(link.expiresAt, 'PPP'));
+    }
+  } catch (error) {
+    // A link the customer never received should not stay usable
+    await prisma.customerPortalLink.delete({ where: { id: link.id } });
+    throw new Error(`Failed to send the portal link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return { link, url };
+}
+
+/**
+ * Revoke a customer's portal link
+ * @param customerId - Customer the link belongs to
+ * @param linkId - Link ID
+ * @param userId - User revoking it
+ */
+export async function revokePortalLink(customerId: string, linkId: string, userId: string) {
+  const link = await prisma.customerPortalLink.findFirst({
+    where: { id: linkId, customerId },
+  });
+
+  if (!link) {
+    throw new Error('Portal link not found');
+  }
+
+  if (link.revokedAt) {
+    return link;
+  }
+
+  return prisma.customerPortalLink.update({
+    where: { id: link.id },
+    data: { revokedAt: new Date(), revokedBy: userId },
+  });
+}
+
+/**
+ * Resolve a token from a portal URL to its link, recording the access
+ * @param token - Token from the URL
+ * @returns The link, or null if the token is malformed, forged, expired or revoked
+ */
+export async function resolvePortalToken(token: string): Promise<PortalLink | null> {
+  const [linkId, expiry, signature] = token.split('.');
+  if (!linkId || !expiry || !signature || linkId.length > 40) {
+    return null;
+  }
+
+  const expiresAt = parseInt(expiry, 36) * 1000;
+  if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+    return null;
+  }
+
+  const link = await prisma.customerPortalLink.findUnique({
+    where: { id: linkId },
+    select: { id: true, customerId: true, createdBy: true, expiresAt: true, revokedAt: true },
+  });
+
+  if (!link || link.revokedAt || link.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${link.id}.${link.customerId}.${expiry}`));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    return null;
+  }
+
+  await prisma.customerPortalLink.update({
+    where: { id: link.id },
+    data: { lastAccessedAt: new Date(), accessCount: { increment: 1 } },
+  });
+
+  return { id: link.id, customerId: link.customerId, createdBy: link.createdBy, expiresAt: link.expiresAt };
+}
+
+/**
+ * Audit something a customer did through the portal
+ */
+export async function logPortalActivity(
+  link: PortalLink,
+  action: Extract<AuditAction, 'PORTAL_VIEW' | 'PORTAL_DOWNLOAD' | 'PORTAL_ACCEPT_QUOTE'>,
+  entry: {
+    description: string;
+    entityType?: string;
+    entityId?: string;
+    ipAddress?: string;
+    userAgent?: string;
+    metadata?: Record<string, unknown>;
+  }
+) {
+  await createAuditLog({
+    userId: link.createdBy,
+    action,
+    entityType: entry.entityType ?? 'Customer',
+    entityId: entry.entityId ?? link.customerId,
+    description: `Customer portal: ${entry.description}`,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+    metadata: { portalLinkId: link.id, customerId: link.customerId, ...entry.metadata },
+  });
+}
+
+/**
+ * What the portal home page shows: open invoices, recent receipts and quotes awaiting acceptance
+ * @param customerId - Customer the link was issued for
+ */
+export async function getPortalAccount(customerId: string) {
+  const [customer, openInvoices, payments, quotes] = await Promise.all([
+    prisma.customer.findUnique({
+      where: { id: customerId },
+      select: { name: true, customerCode: true, email: true, phone: true },
+    }),
+    prisma.invoice.findMany({
+      where: { customerId, status: { in: OPEN_INVOICE_STATUSES }, balanceAmount: { gt: 0 } },
+      orderBy: { dueDate: 'asc' },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        issueDate: true,
+        dueDate: true,
+        totalAmount: true,
+        paidAmount: true,
+        balanceAmount: true,
+        currency: true,
+        exchangeRate: true,
+        status: true,
+      },
+    }),
+    prisma.payment.findMany({
+      where: { customerId, status: 'CONFIRMED' },
+      orderBy: { paymentDate: 'desc' },
+      take: 20,
+      select: {
+        id: true,
+        paymentNumber: true,
+        paymentDate: true,
+        amount: true,
+        currency: true,
+        paymentMethod: true,
+        reference: true,
+        invoice: { select: { invoiceNumber: true } },
+      },
+    }),
+    prisma.salesQuote.findMany({
+      where: { customerId, status: { in: ['SENT', 'ACCEPTED'] } },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      select: {
+        id: true,
+        quoteNumber: true,
+        status: true,
+        subtotal: true,
+        tax: true,
+        totalAmount: true,
+        validUntil: true,
+        notes: true,
+        acceptedAt: true,
+        createdAt: true,
+        items: {
+          select: {
+            id: true,
+            quantity: true,
+            unitPrice: true,
+            discount: true,
+            totalPrice: true,
+            product: { select: { name: true } },
+          },
+        },
+      },
+    }),
+  ]);
+
+  if (!customer) {
+    return null;
+  }
+
+  return {
+    customer,
+    baseCurrency: getBaseCurrency(),
+    balanceDue: openInvoices
+      .reduce((sum, invoice) => sum.plus(toBaseAmount(invoice.balanceAmount, invoice.exchangeRate)), new Decimal(0))
+      .toNumber(),
+    openInvoices,
+    payments,
+    quotes,
+  };
+}
+
+/**
+ * An issued invoice, only if it belongs to the customer
+ */
+export function findPortalInvoice(customerId: string, invoiceId: string) {
+  return prisma.invoice.findFirst({
+    where: { id: invoiceId, customerId, status: { notIn: HIDDEN_INVOICE_STATUSES } },
+    select: { id: true, invoiceNumber: true },
+  });
+}
+
+/**
+ * A confirmed payment, only if it belongs to the customer
+ */
+export function findPortalPayment(customerId: string, paymentId: string) {
+  return prisma.payment.findFirst({
+    where: { id: paymentId, customerId, status: 'CONFIRMED' },
+    select: { id: true, paymentNumber: true },
+  });
+}
+
+/**
+ * Accept a sent quote on the customer's behalf
+ * @param customerId - Customer the link was issued for
+ * @param quoteId - Quote ID
+ * @param name - Name the customer accepted under
+ * @returns The accepted quote, or null if it is not the customer's
+ */
+export async function acceptPortalQuote(customerId: string, quoteId: string, name: string) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const quote = await tx.salesQuote.findFirst({
+      where: { id: quoteId, customerId },
+    });
+
+    if (!quote) {
+      return null;
+    }
+
+    if (quote.status !== 'SENT') {
+      throw new Error(`Quote ${quote.quoteNumber} can no longer be accepted`);
+    }
+
+    if (quote.validUntil && quote.validUntil < new Date()) {
+      throw new Error(`Quote ${quote.quoteNumber} expired on ${format(quote.validUntil, 'PPP')}`);
+    }
+
+    return tx.salesQuote.update({
+      where: { id: quote.id },
+      data: { status: 'ACCEPTED', acceptedAt: new Date(), acceptedByName: name },
+      select: { id: true, quoteNumber: true, status: true, totalAmount: true, acceptedAt: true },
+    });
+  });
+}
@@ -0,0 +1,653 @@
+/**
+ * Customer Statements
+ *
+ * Statement of account for a customer over a period: the opening balance,
+ * every invoice, payment, credit note and refund in date order with a
+ * running balance, the closing balance and an ageing of what is still owed.
+ * Rendered as PDF or Excel, and sent in bulk at month end to every customer
+ * with a balance.
+ *
+ * A statement is in one currency. Invoices and payments in another currency
+ * go on a statement of their own, so balances in different currencies are
+ * never added together; credit notes are raised in the base currency.
+ */
+
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { Workbook } from 'exceljs';
+import Decimal from 'decimal.js';
+import {
+  differenceInCalendarDays,
+  endOfDay,
+  endOfMonth,
+  format as formatDate,
+  startOfDay,
+  startOfMonth,
+  subMonths,
+} from 'date-fns';
+import prisma from '@/lib/prisma';
+import { formatCurrency } from '@/lib/utils';
+import { sendStatementEmail } from '@/lib/email-service';
+import { getBaseCurrency, isBaseCurrency } from '@/lib/exchange-rates';
+
+function getLastTableY(doc: jsPDF, fallback: number): number {
+  return (doc as unknown as { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? fallback;
+}
+
+export type StatementLineType = 'INVOICE' | 'PAYMENT' | 'CREDIT_NOTE' | 'REFUND';
+
+export interface StatementLine {
+  date: Date;
+  type: StatementLineType;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface StatementAgeing {
+  current: number;
+  days1To30: number;
+  days31To60: number;
+  days61To90: number;
+  over90: number;
+  /** Payments on account and credit notes not yet applied to an invoice (negative) */
+  unallocated: number;
+}
+
+export interface CustomerStatement {
+  customer: {
+    id: string;
+    name: string;
+    customerCode: string;
+    billingAddress: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+  currency: string;
+  /** Every currency the customer has been invoiced in */
+  currencies: string[];
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  lines: StatementLine[];
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  ageing: StatementAgeing;
+}
+
+/** Invoices that count towards the account balance */
+const EXCLUDED_INVOICE_STATUSES = ['DRAFT', 'CANCELLED'];
+/** Refunded payments were still received, the refund is its own (negative) row */
+const STATEMENT_PAYMENT_STATUSES = ['CONFIRMED', 'REFUNDED'];
+const ISSUED_CREDIT_NOTE_STATUSES = ['APPROVED', 'APPLIED'];
+
+/** Same-day entries list the invoice before what settles it */
+const LINE_ORDER: Record<StatementLineType, number> = {
+  INVOICE: 0,
+  REFUND: 1,
+  CREDIT_NOTE: 2,
+  PAYMENT: 3,
+};
+
+const LINE_LABELS: Record<StatementLineType, string> = {
+  INVOICE: 'Invoice',
+  PAYMENT: 'Payment',
+  CREDIT_NOTE: 'Credit Note',
+  REFUND: 'Refund',
+};
+
+/**
+ * Build a customer's statement of account
+ * @param customerId - Customer ID
+ * @param from - First day of the statement (defaults to start of this month)
+ * @param to - Last day of the statement (defaults to today)
+ * @param currency - Currency of the statement (defaults to the base currency)
+ * @returns The statement, or null if the customer does not exist
+ */
+export async function getCustomerStatement(
+  customerId: string,
+  from?: Date,
+  to?: Date,
+  currency: string = getBaseCurrency()
+): Promise<CustomerStatement | null> {
+  const periodEnd = endOfDay(to ?? new Date());
+  const periodStart = startOfDay(from ?? startOfMonth(periodEnd));
+
+  if (periodStart > periodEnd) {
+    throw new Error('Statement start date must be before the end date');
+  }
+
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+    select: { id: true, name: true, customerCode: true, billingAddress: true, email: true, phone: true },
+  });
+
+  if (!customer) {
+    return null;
+  }
+
+  const [invoices, payments, baseCreditNotes, creditAllocations, currencies] = await Promise.all([
+    prisma.invoice.findMany({
+      where: {
+        customerId,
+        currency,
+        status: { notIn: EXCLUDED_INVOICE_STATUSES },
+        issueDate: { lte: periodEnd },
+      },
+      select: { id: true, invoiceNumber: true, issueDate: true, dueDate: true, totalAmount: true, description: true },
+    }),
+    prisma.payment.findMany({
+      where: {
+        customerId,
+        currency,
+        status: { in: STATEMENT_PAYMENT_STATUSES },
+        paymentDate: { lte: periodEnd },
+      },
+      select: {
+        id: true,
+        paymentNumber: true,
+        invoiceId: true,
+        amount: true,
+        paymentDate: true,
+        paymentMethod: true,
+        reference: true,
+        invoice: { select: { invoiceNumber: true } },
+      },
+    }),
+    prisma.creditNote.findMany({
+      where: {
+        customerId,
+        status: { in: ISSUED_CREDIT_NOTE_STATUSES },
+        issueDate: { lte: periodEnd },
+      },
+      select: {
+        id: true,
+        creditNoteNumber: true,
+        invoiceId: true,
+        totalAmount: true,
+        issueDate: true,
+        reason: true,
+      },
+    }),
+    prisma.customerCreditAllocation.findMany({
+      where: { payment: { customerId, currency }, allocatedAt: { lte: periodEnd } },
+      select: { invoiceId: true, amount: true },
+    }),
+    prisma.invoice.findMany({
+      where: { customerId, status: { notIn: EXCLUDED_INVOICE_STATUSES } },
+      distinct: ['currency'],
+      select: { currency: true },
+    }),
+  ]);
+
+  // Credit notes are raised in the base currency
+  const creditNotes = isBaseCurrency(currency) ? baseCreditNotes : [];
+
+  const entries: Omit<StatementLine, 'balance'>[] = [
+    ...invoices.map((invoice) => ({
+      date: invoice.issueDate,
+      type: 'INVOICE' as const,
+      reference: invoice.invoiceNumber,
+      description: invoice.description || `Due ${formatDate(invoice.dueDate, 'dd MMM yyyy')}`,
+      debit: invoice.totalAmount,
+      credit: 0,
+    })),
+    ...payments.map((payment) =>
+      payment.amount < 0
+        ? {
+            date: payment.paymentDate,
+            type: 'REFUND' as const,
+            reference: payment.paymentNumber,
+            description: payment.invoice ? `Refund on ${payment.invoice.invoiceNumber}` : 'Refund',
+            debit: -payment.amount,
+            credit: 0,
+          }
+        : {
+            date: payment.paymentDate,
+            type: 'PAYMENT' as const,
+            reference: payment.paymentNumber,
+            description: [
+              payment.paymentMethod.replace(/_/g, ' '),
+              payment.reference,
+              payment.invoice && `for ${payment.invoice.invoiceNumber}`,
+            ]
+              .filter(Boolean)
+              .join(' · '),
+            debit: 0,
+            credit: payment.amount,
+          }
+    ),
+    ...creditNotes.map((creditNote) => ({
+      date: creditNote.issueDate,
+      type: 'CREDIT_NOTE' as const,
+      reference: creditNote.creditNoteNumber,
+      description: creditNote.reason,
+      debit: 0,
+      credit: creditNote.totalAmount,
+    })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime() || LINE_ORDER[a.type] - LINE_ORDER[b.type]);
+
+  let balance = new Decimal(0);
+  let totalDebits = new Decimal(0);
+  let totalCredits = new Decimal(0);
+  const lines: StatementLine[] = [];
+
+  for (const entry of entries) {
+    balance = balance.plus(entry.debit).minus(entry.credit);
+
+    if (entry.date >= periodStart) {
+      totalDebits = totalDebits.plus(entry.debit);
+      totalCredits = totalCredits.plus(entry.credit);
+      lines.push({ ...entry, balance: balance.toNumber() });
+    }
+  }
+
+  const closingBalance = balance.toNumber();
+  const openingBalance = balance.minus(totalDebits).plus(totalCredits).toNumber();
+
+  // Ageing as at the statement date: each invoice less what was paid,
+  // credited or applied from customer credit against it by then; anything
+  // else is unallocated credit
+  const ageing: StatementAgeing = { current: 0, days1To30: 0, days31To60: 0, days61To90: 0, over90: 0, unallocated: 0 };
+  const settledByInvoice = new Map<string, Decimal>();
+
+  for (const payment of payments) {
+    if (payment.invoiceId) {
+      settledByInvoice.set(
+        payment.invoiceId,
+        (settledByInvoice.get(payment.invoiceId) ?? new Decimal(0)).plus(payment.amount)
+      );
+    } else {
+      ageing.unallocated = new Decimal(ageing.unallocated).minus(payment.amount).toNumber();
+    }
+  }
+
+  for (const allocation of creditAllocations) {
+    settledByInvoice.set(
+      allocation.invoiceId,
+      (settledByInvoice.get(allocation.invoiceId) ?? new Decimal(0)).plus(allocation.amount)
+    );
+    ageing.unallocated = new Decimal(ageing.unallocated).plus(allocation.amount).toNumber();
+  }
+
+  for (const creditNote of creditNotes) {
+    if (creditNote.invoiceId) {
+      settledByInvoice.set(
+        creditNote.invoiceId,
+        (settledByInvoice.get(creditNote.invoiceId) ?? new Decimal(0)).plus(creditNote.totalAmount)
+      );
+    } else {
+      ageing.unallocated = new Decimal(ageing.unallocated).minus(creditNote.totalAmount).toNumber();
+    }
+  }
+
+  for (const invoice of invoices) {
+    const outstanding = new Decimal(invoice.totalAmount).minus(settledByInvoice.get(invoice.id) ?? 0).toNumber();
+
+    if (outstanding < 0) {
+      ageing.unallocated = new Decimal(ageing.unallocated).plus(outstanding).toNumber();
+      continue;
+    }
+
+    const daysOverdue = differenceInCalendarDays(periodEnd, invoice.dueDate);
+    const bucket: keyof StatementAgeing =
+      daysOverdue <= 0
+        ? 'current'
+        : daysOverdue <= 30
+          ? 'days1To30'
+          : daysOverdue <= 60
+            ? 'days31To60'
+            : daysOverdue <= 90
+              ? 'days61To90'
+              : 'over90';
+
+    ageing[bucket] = new Decimal(ageing[bucket]).plus(outstanding).toNumber();
+  }
+
+  return {
+    customer,
+    currency,
+    currencies: Array.from(new Set([currency, ...currencies.map((invoice) => invoice.currency)])).sort(),
+    from: periodStart,
+    to: periodEnd,
+    openingBalance,
+    lines,
+    totalDebits: totalDebits.toNumber(),
+    totalCredits: totalCredits.toNumber(),
+    closingBalance,
+    ageing,
+  };
+}
+
+function getAgeingRows(ageing: StatementAgeing): [string, number][] {
+  return [
+    ['Current', ageing.current],
+    ['1-30 Days', ageing.days1To30],
+    ['31-60 Days', ageing.days31To60],
+    ['61-90 Days', ageing.days61To90],
+    ['Over 90 Days', ageing.over90],
+    ...(ageing.unallocated !== 0 ? [['Unapplied Credit', ageing.unallocated] as [string, number]] : []),
+  ];
+}
+
+/**
+ * Generate statement PDF
+ */
+export function generateStatementPDF(statement: CustomerStatement): jsPDF {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'A4' });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+
+  // Header - Company Name
+  doc.setFontSize(24);
+  doc.setFont('helvetica', 'bold');
+  doc.text('ELEGANT STEEL', pageWidth / 2, 25, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Your Trusted Business Partner', pageWidth / 2, 32, { align: 'center' });
+
+  // Statement Title
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 102, 204);
+  doc.text('STATEMENT OF ACCOUNT', pageWidth / 2, 45, { align: 'center' });
+  doc.setTextColor(0, 0, 0);
+
+  let yPos = 60;
+
+  // Customer and period box
+  doc.setFillColor(240, 240, 240);
+  doc.rect(margin, yPos, pageWidth - 2 * margin, 30, 'F');
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text(statement.customer.name, margin + 5, yPos + 8);
+  doc.text('Period:', pageWidth / 2 + 5, yPos + 8);
+  doc.text('Account:', pageWidth / 2 + 5, yPos + 16);
+
+  doc.setFont('helvetica', 'normal');
+  const contactLines = [
+    ...(statement.customer.billingAddress ? doc.splitTextToSize(statement.customer.billingAddress, 70).slice(0, 2) : []),
+    ...(statement.customer.email ? [statement.customer.email] : []),
+  ].slice(0, 3);
+  doc.text(contactLines, margin + 5, yPos + 15);
+  doc.text(
+    `${formatDate(statement.from, 'dd MMM yyyy')} - ${formatDate(statement.to, 'dd MMM yyyy')}`,
+    pageWidth / 2 + 30,
+    yPos + 8
+  );
+  doc.text(statement.customer.customerCode, pageWidth / 2 + 30, yPos + 16);
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Balance Due:', pageWidth / 2 + 5, yPos + 24);
+  doc.text(formatCurrency(statement.closingBalance, statement.currency), pageWidth / 2 + 30, yPos + 24);
+
+  yPos += 40;
+
+  // Transactions table
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Date', 'Type', 'Reference', 'Description', 'Debit', 'Credit', 'Balance']],
+    body: [
+      ['', '', '', 'Opening balance', '', '', formatCurrency(statement.openingBalance, statement.currency)],
+      ...statement.lines.map((line) => [
+        formatDate(line.date, 'dd MMM yyyy'),
+        LINE_LABELS[line.type],
+        line.reference,
+        line.description,
+        line.debit ? formatCurrency(line.debit, statement.currency) : '',
+        line.credit ? formatCurrency(line.credit, statement.currency) : '',
+        formatCurrency(line.balance, statement.currency),
+      ]),
+    ],
+    foot: [
+      [
+        '',
+        '',
+        '',
+        'Closing balance',
+        formatCurrency(statement.totalDebits, statement.currency),
+        formatCurrency(statement.totalCredits, statement.currency),
+        formatCurrency(statement.closingBalance, statement.currency),
+      ],
+    ],
+    theme: 'striped',
+    headStyles: { fillColor: [0, 102, 204], textColor: 255, fontStyle: 'bold' },
+    bodyStyles: { fontSize: 8 },
+    footStyles: { fillColor: [240, 240, 240], textColor: 0, fontStyle: 'bold', fontSize: 8 },
+    columnStyles: { 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' } },
+    margin: { top: 20 },
+  });
+
+  yPos = getLastTableY(doc, yPos) + 10;
+
+  if (yPos > pageHeight - 60) {
+    doc.addPage();
+    yPos = 20;
+  }
+
+  // Ageing summary
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('AGEING SUMMARY', margin, yPos);
+
+  const ageingRows = getAgeingRows(statement.ageing);
+  autoTable(doc, {
+    startY: yPos + 4,
+    head: [ageingRows.map(([label]) => label)],
+    body: [ageingRows.map(([, amount]) => formatCurrency(amount, statement.currency))],
+    theme: 'grid',
+    headStyles: { fillColor: [0, 51, 102], textColor: 255, fontStyle: 'bold', fontSize: 8 },
+    bodyStyles: { fontSize: 9, halign: 'right' },
+    margin: { top: 20 },
+  });
+
+  // Footer
+  const footerY = pageHeight - 30;
+  doc.setDrawColor(200, 200, 200);
+  doc.line(margin, footerY, pageWidth - margin, footerY);
+
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'italic');
+  doc.text(
+    'Please contact us within 14 days if this statement does not agree with your records.',
+    pageWidth / 2,
+    footerY + 6,
+    { align: 'center' }
+  );
+  doc.text(
+    `Generated on ${formatDate(new Date(), 'PPP')} at ${formatDate(new Date(), 'p')}`,
+    pageWidth / 2,
+    footerY + 11,
+    { align: 'center' }
+  );
+
+  return doc;
+}
+
+/**
+ * Generate statement PDF as buffer for download or email
+ */
+export function generateStatementPDFBuffer(statement: CustomerStatement): Buffer {
+  return Buffer.from(generateStatementPDF(statement).output('arraybuffer'));
+}
+
+/**
+ * Generate statement as an Excel workbook
+ */
+export async function generateStatementExcel(statement: CustomerStatement): Promise<Buffer> {
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet('Statement');
+
+  // Title
+  worksheet.mergeCells('A1:G1');
+  const titleCell = worksheet.getCell('A1');
+  titleCell.value = `Statement of Account - ${statement.customer.name}`;
+  titleCell.font = { bold: true, size: 16, color: { argb: 'FFFFFFFF' } };
+  titleCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF0066CC' } };
+  titleCell.alignment = { horizontal: 'center', vertical: 'middle' };
+  worksheet.getRow(1).height = 30;
+
+  worksheet.getCell('A2').value =
+    `Account: ${statement.customer.customerCode}   Period: ${formatDate(statement.from, 'dd MMM yyyy')} - ${formatDate(statement.to, 'dd MMM yyyy')}   Currency: ${statement.currency}`;
+
+  // Headers
+  const headers = ['Date', 'Type', 'Reference', 'Description', 'Debit', 'Credit', 'Balance'];
+  const headerRow = worksheet.getRow(4);
+  headers.forEach((header, index) => {
+    const cell = headerRow.getCell(index + 1);
+    cell.value = header;
+    cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF003366' } };
+    cell.alignment = { horizontal: 'center' };
+  });
+
+  const openingRow = worksheet.getRow(5);
+  openingRow.getCell(4).value = 'Opening balance';
+  openingRow.getCell(7).value = statement.openingBalance;
+  openingRow.font = { italic: true };
+
+  statement.lines.forEach((line, index) => {
+    const row = worksheet.getRow(6 + index);
+    row.getCell(1).value = line.date;
+    row.getCell(1).numFmt = 'dd mmm yyyy';
+    row.getCell(2).value = LINE_LABELS[line.type];
+    row.getCell(3).value = line.reference;
+    row.getCell(4).value = line.description;
+    row.getCell(5).value = line.debit || null;
+    row.getCell(6).value = line.credit || null;
+    row.getCell(7).value = line.balance;
+  });
+
+  const closingRow = worksheet.getRow(6 + statement.lines.length);
+  closingRow.getCell(4).value = 'Closing balance';
+  closingRow.getCell(5).value = statement.totalDebits;
+  closingRow.getCell(6).value = statement.totalCredits;
+  closingRow.getCell(7).value = statement.closingBalance;
+  closingRow.font = { bold: true };
+
+  for (let rowNumber = 5; rowNumber <= closingRow.number; rowNumber++) {
+    [5, 6, 7].forEach((column) => {
+      worksheet.getRow(rowNumber).getCell(column).numFmt = '#,##0.00';
+    });
+  }
+
+  // Ageing summary
+  const ageingTitleRow = worksheet.getRow(closingRow.number + 2);
+  ageingTitleRow.getCell(1).value = 'Ageing Summary';
+  ageingTitleRow.font = { bold: true };
+
+  getAgeingRows(statement.ageing).forEach(([label, amount], index) => {
+    const row = worksheet.getRow(closingRow.number + 3 + index);
+    row.getCell(1).value = label;
+    row.getCell(2).value = amount;
+    row.getCell(2).numFmt = '#,##0.00';
+  });
+
+  worksheet.columns = [
+    { width: 14 },
+    { width: 14 },
+    { width: 22 },
+    { width: 40 },
+    { width: 15 },
+    { width: 15 },
+    { width: 15 },
+  ];
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.isBuffer(buffer) ? buffer : Buffer.from(buffer as ArrayBuffer);
+}
+
+/**
+ * Get statement filename, without extension
+ */
+export function getStatementFilename(statement: CustomerStatement): string {
+  const currency = isBaseCurrency(statement.currency) ? '' : `_${statement.currency}`;
+  return `Statement_${statement.customer.customerCode}${currency}_${formatDate(statement.to, 'yyyy-MM-dd')}`;
+}
+
+/**
+ * Month-end statement run: build last month's statement for every customer
+ * with a balance, one per currency they owe in, and, when `send` is set,
+ * email it to them
+ *
+ * @param options.month - Any date in the month to run for (defaults to last month)
+ * @param options.send - Email the statements (otherwise only report who would get one)
+ * @returns One result per customer and currency with a balance
+ */
+export async function runMonthEndStatements(options: { month?: Date; send?: boolean } = {}) {
+  const month = options.month ?? subMonths(new Date(), 1);
+  const from = startOfMonth(month);
+  const to = endOfMonth(month);
+  const periodLabel = formatDate(from, 'MMMM yyyy');
+
+  const accounts = await prisma.invoice.findMany({
+    where: {
+      status: { notIn: EXCLUDED_INVOICE_STATUSES },
+      issueDate: { lte: to },
+      customer: { isActive: true },
+    },
+    distinct: ['customerId', 'currency'],
+    select: { customerId: true, currency: true },
+    orderBy: [{ customer: { name: 'asc' } }, { currency: 'asc' }],
+  });
+
+  const results: {
+    customerId: string;
+    customerName: string;
+    currency: string;
+    closingBalance: number;
+    email: string | null;
+    sent: boolean;
+    error?: string;
+  }[] = [];
+
+  for (const { customerId, currency } of accounts) {
+    const statement = await getCustomerStatement(customerId, from, to, currency);
+
+    if (!statement || statement.closingBalance <= 0) {
+      continue;
+    }
+
+    const result: (typeof results)[number] = {
+      customerId,
+      customerName: statement.customer.name,
+      currency,
+      closingBalance: statement.closingBalance,
+      email: statement.customer.email,
+      sent: false,
+    };
+
+    if (options.send) {
+      if (!statement.customer.email) {
+        result.error = 'Customer has no email address';
+      } else {
+        try {
+          await sendStatementEmail(statement.customer.email, statement.customer.name, periodLabel, statement.closingBalance, statement.currency, {
+            filename: `${getStatementFilename(statement)}.pdf`,
+            content: generateStatementPDFBuffer(statement),
+          });
+          result.sent = true;
+        } catch (error) {
+          result.error = error instanceof Error ? error.message : 'Failed to send statement';
+        }
+      }
+    }
+
+    results.push(result);
+  }
+
+  return {
+    period: { from, to },
+    customers: results.length,
+    sent: results.filter((result) => result.sent).length,
+    failed: results.filter((result) => result.error).length,
+    results,
+  };
+}
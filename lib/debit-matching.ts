@@ -0,0 +1,465 @@
+/**
+ * Outgoing Payment (Debit) Matching
+ *
+ * Matches negative bank transactions to the money-out records they settle:
+ * recorded SupplierPayments, Expenses, or open SupplierBills (which records
+ * the supplier payment on confirmation). Candidates are scored on:
+ * - Amount (required - exact, or within a bill's outstanding balance)
+ * - Date proximity within a window
+ * - Supplier / vendor name similarity to the bank narrative
+ */
+
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { scoreNameMatch, tokenizeName, NAME_MATCH_THRESHOLD } from './name-matching';
+import { recordSupplierPayment } from './supplier-payments';
+import { reverseLedgerTransaction } from './accounting';
+import { resolveExceptionForTransaction } from './reconciliation-exceptions';
+import Decimal from 'decimal.js';
+
+export type DebitMatchTargetType = 'SUPPLIER_PAYMENT' | 'EXPENSE' | 'SUPPLIER_BILL';
+
+export interface DebitMatchCandidate {
+  targetType: DebitMatchTargetType;
+  targetId: string;
+  documentNumber: string; // Payment, expense or bill number
+  payee: string | null;
+  amount: number;
+  date: Date;
+  confidence: number; // 0-100
+  reason: string;
+}
+
+export interface DebitMatchResult {
+  success: boolean;
+  targetType?: DebitMatchTargetType;
+  targetId?: string;
+  confidence: number;
+  reason: string;
+}
+
+export interface FindDebitCandidatesOptions {
+  /** Days either side of the transaction date to search payments and expenses */
+  dateWindowDays?: number;
+  limit?: number;
+}
+
+const DEFAULT_DATE_WINDOW_DAYS = 7;
+const OPEN_BILL_STATUSES = ['OPEN', 'PARTIALLY_PAID', 'OVERDUE'];
+const AMOUNT_TOLERANCE = 0.01;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Confidence weights: amount 50, date 20, payee name 30
+const AMOUNT_WEIGHT = 50;
+const PARTIAL_AMOUNT_WEIGHT = 30;
+const DATE_WEIGHT = 20;
+const NAME_WEIGHT = 30;
+
+function amountsEqual(a: number, b: number): boolean {
+  return new Decimal(a).minus(b).abs().lte(AMOUNT_TOLERANCE);
+}
+
+function dateScore(a: Date, b: Date, windowDays: number): number {
+  const days = Math.abs(a.getTime() - b.getTime()) / DAY_MS;
+  return days > windowDays ? 0 : 1 - days / (windowDays + 1);
+}
+
+function nameScore(referenceTokens: string[], name: string | null | undefined): number {
+  if (!name) return 0;
+  const score = scoreNameMatch(referenceTokens, name);
+  return score >= NAME_MATCH_THRESHOLD ? score : 0;
+}
+
+function describe(parts: Array<string | false>): string {
+  return parts.filter(Boolean).join(', ');
+}
+
+/**
+ * Rank supplier payments, expenses and open supplier bills that could
+ * explain a bank debit
+ * @param bankTransactionId - Bank transaction (negative amount)
+ * @param options - Date window and result limit
+ * @returns Candidates, best first
+ */
+export async function findDebitCandidates(
+  bankTransactionId: string,
+  options: FindDebitCandidatesOptions = {}
+): Promise<DebitMatchCandidate[]> {
+  const windowDays = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+  const limit = options.limit ?? 5;
+
+  const transaction = await prisma.bankTransaction.findUnique({
+    where: { id: bankTransactionId },
+  });
+
+  if (!transaction) {
+    throw new Error('Bank transaction not found');
+  }
+
+  if (transaction.amount >= 0) {
+    return [];
+  }
+
+  const amount = Math.abs(transaction.amount);
+  const referenceTokens = tokenizeName(
+    [transaction.reference, transaction.counterpartyName].filter(Boolean).join(' ')
+  );
+  const windowStart = new Date(transaction.transactionDate.getTime() - windowDays * DAY_MS);
+  const windowEnd = new Date(transaction.transactionDate.getTime() + windowDays * DAY_MS);
+  const amountRange = { gte: amount - AMOUNT_TOLERANCE, lte: amount + AMOUNT_TOLERANCE };
+
+  const [payments, expenses, bills] = await Promise.all([
+    prisma.supplierPayment.findMany({
+      where: {
+        bankTransactionId: null,
+        amount: amountRange,
+        paymentDate: { gte: windowStart, lte: windowEnd },
+      },
+      include: { supplier: { select: { name: true } } },
+    }),
+    prisma.expense.findMany({
+      where: {
+        bankTransactionId: null,
+        amount: amountRange,
+        expenseDate: { gte: windowStart, lte: windowEnd },
+      },
+    }),
+    prisma.supplierBill.findMany({
+      where: {
+        status: { in: OPEN_BILL_STATUSES },
+        balanceAmount: { gte: amount - AMOUNT_TOLERANCE },
+      },
+      include: { supplier: { select: { name: true } } },
+    }),
+  ]);
+
+  const candidates: DebitMatchCandidate[] = [];
+
+  for (const payment of payments) {
+    const dates = dateScore(transaction.transactionDate, payment.paymentDate, windowDays);
+    const names = nameScore(referenceTokens, payment.supplier.name);
+
+    candidates.push({
+      targetType: 'SUPPLIER_PAYMENT',
+      targetId: payment.id,
+      documentNumber: payment.paymentNumber,
+      payee: payment.supplier.name,
+      amount: payment.amount,
+      date: payment.paymentDate,
+      confidence: Math.round(AMOUNT_WEIGHT + dates * DATE_WEIGHT + names * NAME_WEIGHT),
+      reason: describe([
+        `Supplier payment ${payment.paymentNumber} amount matches`,
+        names > 0 && `supplier name "${payment.supplier.name}" in reference`,
+      ]),
+    });
+  }
+
+  for (const expense of expenses) {
+    const dates = dateScore(transaction.transactionDate, expense.expenseDate, windowDays);
+    const names = nameScore(referenceTokens, expense.vendor);
+
+    candidates.push({
+      targetType: 'EXPENSE',
+      targetId: expense.id,
+      documentNumber: expense.expenseNumber,
+      payee: expense.vendor,
+      amount: expense.amount,
+      date: expense.expenseDate,
+      confidence: Math.round(AMOUNT_WEIGHT + dates * DATE_WEIGHT + names * NAME_WEIGHT),
+      reason: describe([
+        `Expense ${expense.expenseNumber} amount matches`,
+        names > 0 && `vendor "${expense.vendor}" in reference`,
+      ]),
+    });
+  }
+
+  for (const bill of bills) {
+    const exact = amountsEqual(bill.balanceAmount, amount);
+    const names = nameScore(referenceTokens, bill.supplier.name);
+
+    // A part payment of an arbitrary bill is only plausible when the payee is named
+    if (!exact && names === 0) continue;
+
+    // Bills are usually paid around their due date
+    const dates = dateScore(transaction.transactionDate, bill.dueDate, windowDays * 2);
+
+    candidates.push({
+      targetType: 'SUPPLIER_BILL',
+      targetId: bill.id,
+      documentNumber: bill.billNumber,
+      payee: bill.supplier.name,
+      amount: bill.balanceAmount,
+      date: bill.dueDate,
+      confidence: Math.round(
+        (exact ? AMOUNT_WEIGHT : PARTIAL_AMOUNT_WEIGHT) + dates * DATE_WEIGHT + names * NAME_WEIGHT
+      ),
+      reason: describe([
+        exact
+          ? `Bill ${bill.billNumber} balance matches`
+          : `Part payment of bill ${bill.billNumber}`,
+        names > 0 && `supplier name "${bill.supplier.name}" in reference`,
+      ]),
+    });
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence).slice(0, limit);
+}
+
+/**
+ * Pick the best debit candidate for a pending bank debit
+ * @param bankTransactionId - Bank transaction (negative amount)
+ * @returns Match result; confidence is lowered when the runner-up is close
+ */
+export async function autoMatchDebit(bankTransactionId: string): Promise<DebitMatchResult> {
+  const candidates = await findDebitCandidates(bankTransactionId, { limit: 2 });
+
+  if (candidates.length === 0) {
+    return {
+      success: false,
+      confidence: 0,
+      reason: 'No supplier payment, expense or open bill matches this debit',
+    };
+  }
+
+  const [best, runnerUp] = candidates;
+  const ambiguous = !!runnerUp && best.confidence - runnerUp.confidence < 10;
+
+  return {
+    success: true,
+    targetType: best.targetType,
+    targetId: best.targetId,
+    confidence: ambiguous ? Math.max(0, best.confidence - 15) : best.confidence,
+    reason: ambiguous ? `${best.reason} (ambiguous: ${runnerUp.documentNumber} also matches)` : best.reason,
+  };
+}
+
+interface ReconcileDebitInput {
+  bankTransactionId: string;
+  targetType: DebitMatchTargetType;
+  targetId: string;
+  userId: string;
+  notes?: string;
+  action?: 'AUTO_MATCHED' | 'MANUAL_MATCHED';
+}
+
+/**
+ * Reconcile a bank debit to a supplier payment, expense or open bill.
+ * Existing payments and expenses are linked to the transaction; matching an
+ * open bill records the supplier payment against it.
+ *
+ * @returns The matched record and, for bills, the payment recorded
+ */
+export async function reconcileDebit(input: ReconcileDebitInput) {
+  const { bankTransactionId, targetType, targetId, userId, notes } = input;
+  const action = input.action ?? 'MANUAL_MATCHED';
+
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const bankTx = await tx.bankTransaction.findUnique({
+      where: { id: bankTransactionId },
+    });
+
+    if (!bankTx) {
+      throw new Error('Bank transaction not found');
+    }
+
+    if (bankTx.status !== 'PENDING' && bankTx.status !== 'UNMATCHED') {
+      throw new Error('Transaction has already been processed');
+    }
+
+    if (bankTx.amount >= 0) {
+      throw new Error('Only debit transactions can be matched to outgoing payments');
+    }
+
+    const amount = Math.abs(bankTx.amount);
+    let supplierPaymentId: string | null = null;
+
+    if (targetType === 'SUPPLIER_PAYMENT') {
+      const payment = await tx.supplierPayment.findUnique({ where: { id: targetId } });
+
+      if (!payment) {
+        throw new Error('Supplier payment not found');
+      }
+      if (payment.bankTransactionId) {
+        throw new Error('Supplier payment is already matched to a bank transaction');
+      }
+      if (!amountsEqual(payment.amount, amount)) {
+        throw new Error('Supplier payment amount does not match the bank debit');
+      }
+
+      await tx.supplierPayment.update({
+        where: { id: targetId },
+        data: { bankTransactionId },
+      });
+      supplierPaymentId = payment.id;
+    } else if (targetType === 'EXPENSE') {
+      const expense = await tx.expense.findUnique({ where: { id: targetId } });
+
+      if (!expense) {
+        throw new Error('Expense not found');
+      }
+      if (expense.bankTransactionId) {
+        throw new Error('Expense is already matched to a bank transaction');
+      }
+      if (!amountsEqual(expense.amount, amount)) {
+        throw new Error('Expense amount does not match the bank debit');
+      }
+
+      await tx.expense.update({
+        where: { id: targetId },
+        data: { bankTransactionId },
+      });
+    } else {
+      const bill = await tx.supplierBill.findUnique({ where: { id: targetId } });
+
+      if (!bill) {
+        throw new Error('Supplier bill not found');
+      }
+      if (!OPEN_BILL_STATUSES.includes(bill.status)) {
+        throw new Error('Supplier bill cannot be paid');
+      }
+      if (bill.currency !== bankTx.currency) {
+        throw new Error(`Supplier bill is in ${bill.currency} but the bank debit is in ${bankTx.currency}`);
+      }
+      if (new Decimal(amount).minus(bill.balanceAmount).gt(AMOUNT_TOLERANCE)) {
+        throw new Error('Bank debit exceeds the bill balance');
+      }
+
+      const { payment } = await recordSupplierPayment(tx, {
+        bill,
+        amount,
+        paymentDate: bankTx.transactionDate,
+        paymentMethod: 'BANK_TRANSFER',
+        reference: bankTx.reference,
+        notes: notes || `Recorded from bank transaction ${bankTx.bankTransactionId}`,
+        bankTransactionId,
+        bankAccountId: bankTx.bankAccountId,
+        createdBy: userId,
+      });
+      supplierPaymentId = payment.id;
+    }
+
+    await tx.bankTransaction.update({
+      where: { id: bankTransactionId },
+      data: {
+        status: 'MATCHED',
+        matchedAt: new Date(),
+        matchedBy: userId,
+      },
+    });
+
+    await resolveExceptionForTransaction(bankTransactionId, userId, 'Reconciled', tx);
+
+    await tx.reconciliationLog.create({
+      data: {
+        bankTransactionId,
+        action,
+        matchedEntityType: targetType,
+        matchedEntityId: targetId,
+        matchedAmount: bankTx.amount,
+        notes,
+        performedBy: userId,
+      },
+    });
+
+    return { bankTransactionId, targetType, targetId, supplierPaymentId };
+  });
+}
+
+/**
+ * Undo a debit match inside an unmatch transaction. Linked payments and
+ * expenses are detached; supplier payments recorded by matching an open
+ * bill have their payables posting reversed and are deleted, and the bill's
+ * balance restored; expenses posted by a bank posting rule have their
+ * ledger entries reversed and are deleted.
+ *
+ * @returns IDs of the records released
+ */
+export async function releaseDebitMatch(
+  tx: TransactionClient,
+  bankTransactionId: string,
+  userId: string,
+  reason: string
+) {
+  const [payments, expenses, currentMatch] = await Promise.all([
+    tx.supplierPayment.findMany({ where: { bankTransactionId } }),
+    tx.expense.findMany({
+      where: { bankTransactionId },
+      select: { id: true, ledgerTransactionId: true },
+    }),
+    tx.reconciliationLog.findFirst({
+      where: { bankTransactionId, action: { in: ['AUTO_MATCHED', 'MANUAL_MATCHED'] } },
+      orderBy: { performedAt: 'desc' },
+      select: { matchedEntityType: true, matchedEntityId: true },
+    }),
+  ]);
+
+  // Only a bill match creates the payment; linked payments pre-date the match
+  const paidBillId =
+    currentMatch?.matchedEntityType === 'SUPPLIER_BILL' ? currentMatch.matchedEntityId : null;
+  const deletedPayments: string[] = [];
+  const unlinkedPayments: string[] = [];
+
+  for (const payment of payments) {
+    if (payment.billId !== paidBillId) {
+      unlinkedPayments.push(payment.id);
+      continue;
+    }
+
+    if (payment.ledgerTransactionId) {
+      await reverseLedgerTransaction(payment.ledgerTransactionId, userId, reason, tx);
+    }
+
+    await tx.supplierPayment.delete({ where: { id: payment.id } });
+    deletedPayments.push(payment.id);
+
+    const bill = await tx.supplierBill.findUnique({ where: { id: payment.billId } });
+    if (bill) {
+      const paidAmount = Decimal.max(new Decimal(bill.paidAmount).minus(payment.amount), 0);
+      const balanceAmount = new Decimal(bill.totalAmount).minus(paidAmount);
+
+      await tx.supplierBill.update({
+        where: { id: bill.id },
+        data: {
+          paidAmount: paidAmount.toNumber(),
+          balanceAmount: balanceAmount.toNumber(),
+          status: paidAmount.gt(0) ? 'PARTIALLY_PAID' : 'OPEN',
+        },
+      });
+    }
+  }
+
+  if (unlinkedPayments.length) {
+    await tx.supplierPayment.updateMany({
+      where: { id: { in: unlinkedPayments } },
+      data: { bankTransactionId: null },
+    });
+  }
+
+  const deletedExpenses: string[] = [];
+  const unlinkedExpenses: string[] = [];
+
+  for (const expense of expenses) {
+    if (!expense.ledgerTransactionId) {
+      unlinkedExpenses.push(expense.id);
+      continue;
+    }
+
+    await reverseLedgerTransaction(expense.ledgerTransactionId, userId, reason, tx);
+    await tx.expense.delete({ where: { id: expense.id } });
+    deletedExpenses.push(expense.id);
+  }
+
+  if (unlinkedExpenses.length) {
+    await tx.expense.updateMany({
+      where: { id: { in: unlinkedExpenses } },
+      data: { bankTransactionId: null },
+    });
+  }
+
+  return {
+    deletedSupplierPayments: deletedPayments,
+    unlinkedSupplierPayments: unlinkedPayments,
+    deletedExpenses,
+    unlinkedExpenses,
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * Document Numbering
+ *
+ * Central sequence service for every numbered document (invoices, quotes,
+ * orders, credit notes, POs, bills, journal entries, returns...). Each
+ * document type has a prefix, zero-padding and reset frequency, optionally
+ * overridden per branch; branch series carry the branch code in the number
+ * so they never collide with the organisation-wide series.
+ *
+ * Numbers are allocated by incrementing a counter row inside the caller's
+ * transaction. The row stays locked until that transaction commits, so
+ * concurrent allocations queue behind each other instead of reading the
+ * same "latest" number, and a rolled-back document gives its number back.
+ */
+
+import { format } from 'date-fns';
+import type { TransactionClient } from './types';
+
+export const DOCUMENT_TYPES = {
+  INVOICE: { label: 'Invoice', prefix: 'INV-' },
+  SALES_QUOTE: { label: 'Sales Quote', prefix: 'SQ-' },
+  SALES_ORDER: { label: 'Sales Order', prefix: 'SO-' },
+  DELIVERY: { label: 'Delivery Note', prefix: 'DEL-' },
+  CREDIT_NOTE: { label: 'Credit Note', prefix: 'CN-' },
+  PURCHASE_ORDER: { label: 'Purchase Order', prefix: 'PO-' },
+  SUPPLIER_BILL: { label: 'Supplier Bill', prefix: 'BILL-' },
+  SUPPLIER_PAYMENT: { label: 'Supplier Payment', prefix: 'SUPPAY-' },
+  EXPENSE: { label: 'Expense', prefix: 'EXP-' },
+  JOURNAL_ENTRY: { label: 'Journal Entry', prefix: 'JE' },
+  PRODUCT_RETURN: { label: 'Product Return', prefix: 'RET-' },
+} as const;
+
+export type DocumentType = keyof typeof DOCUMENT_TYPES;
+export type SequenceResetFrequency = 'NEVER' | 'YEARLY' | 'MONTHLY';
+
+export const DEFAULT_SEQUENCE_PADDING = 6;
+
+export interface SequenceSettings {
+  documentType: DocumentType;
+  branch: string;
+  prefix: string;
+  padding: number;
+  resetFrequency: SequenceResetFrequency;
+}
+
+interface AllocateOptions {
+  /** Branch code for a per-branch series */
+  branch?: string | null;
+  /** Document date, which picks the period for yearly/monthly series */
+  date?: Date;
+}
+
+export function normalizeBranch(branch?: string | null) {
+  return branch?.trim().toUpperCase() || '';
+}
+
+/**
+ * Counter period for a document date: "" for series that never reset
+ */
+export function getSequencePeriod(resetFrequency: string, date: Date) {
+  switch (resetFrequency) {
+    case 'YEARLY':
+      return format(date, 'yyyy');
+    case 'MONTHLY':
+      return format(date, 'yyyyMM');
+    default:
+      return '';
+  }
+}
+
+/**
+ * Everything in a document number before the running value,
+ * e.g. "INV-" or "INV-NBO-2026-"
+ */
+export function getNumberPrefix(prefix: string, branch: string, period: string) {
+  return `${prefix}${branch ? `${branch}-` : ''}${period ? `${period}-` : ''}`;
+}
+
+/**
+ * Effective settings for a series: the branch's own configuration, else the
+ * organisation-wide configuration, else the built-in defaults
+ */
+export async function getSequenceSettings(
+  client: TransactionClient,
+  documentType: DocumentType,
+  branch?: string | null
+): Promise<SequenceSettings> {
+  const branchCode = normalizeBranch(branch);
+
+  const configured = await client.documentSequence.findMany({
+    where: { documentType, branch: { in: branchCode ? [branchCode, ''] : [''] } },
+  });
+
+  const sequence =
+    configured.find((row) => row.branch === branchCode) ?? configured.find((row) => row.branch === '');
+
+  return {
+    documentType,
+    branch: branchCode,
+    prefix: sequence?.prefix ?? DOCUMENT_TYPES[documentType].prefix,
+    padding: sequence?.padding ?? DEFAULT_SEQUENCE_PADDING,
+    resetFrequency: (sequence?.resetFrequency as SequenceResetFrequency) ?? 'NEVER',
+  };
+}
+
+/**
+ * Whether a branch has its own numbering configured for a document type.
+ * Branch codes are printed in document numbers, so a branch taken from a
+ * request is only accepted once it has been configured.
+ */
+export async function isConfiguredBranch(client: TransactionClient, documentType: DocumentType, branch: string) {
+  const branchCode = normalizeBranch(branch);
+
+  if (!branchCode) {
+    return false;
+  }
+
+  const configured = await client.documentSequence.findUnique({
+    where: { documentType_branch: { documentType, branch: branchCode } },
+    select: { id: true },
+  });
+
+  return configured !== null;
+}
+
+/**
+ * Every number already issued with the given prefix. Used to seed a new
+ * counter so series numbered before this service existed carry on; all of
+ * them are read because text order does not follow the running value once
+ * its width changes (e.g. "INV-99999" sorts after "INV-100000").
+ */
+async function findIssuedNumbers(client: TransactionClient, documentType: DocumentType, startsWith: string) {
+  switch (documentType) {
+    case 'INVOICE':
+      return (
+        await client.invoice.findMany({
+          where: { invoiceNumber: { startsWith } },
+          select: { invoiceNumber: true },
+        })
+      ).map((row) => row.invoiceNumber);
+    case 'SALES_QUOTE':
+      return (
+        await client.salesQuote.findMany({
+          where: { quoteNumber: { startsWith } },
+          select: { quoteNumber: true },
+        })
+      ).map((row) => row.quoteNumber);
+    case 'SALES_ORDER':
+      return (
+        await client.salesOrder.findMany({
+          where: { orderNumber: { startsWith } },
+          select: { orderNumber: true },
+        })
+      ).map((row) => row.orderNumber);
+    case 'DELIVERY':
+      return (
+        await client.salesDelivery.findMany({
+          where: { deliveryNumber: { startsWith } },
+          select: { deliveryNumber: true },
+        })
+      ).map((row) => row.deliveryNumber);
+    case 'CREDIT_NOTE':
+      return (
+        await client.creditNote.findMany({
+          where: { creditNoteNumber: { startsWith } },
+          select: { creditNoteNumber: true },
+        })
+      ).map((row) => row.creditNoteNumber);
+    case 'PURCHASE_ORDER':
+      return (
+        await client.purchaseOrder.findMany({
+          where: { orderNumber: { startsWith } },
+          select: { orderNumber: true },
+        })
+      ).map((row) => row.orderNumber);
+    case 'SUPPLIER_BILL':
+      return (
+        await client.supplierBill.findMany({
+          where: { billNumber: { startsWith } },
+          select: { billNumber: true },
+        })
+      ).map((row) => row.billNumber);
+    case 'SUPPLIER_PAYMENT':
+      return (
+        await client.supplierPayment.findMany({
+          where: { paymentNumber: { startsWith } },
+          select: { paymentNumber: true },
+        })
+      ).map((row) => row.paymentNumber);
+    case 'EXPENSE':
+      return (
+        await client.expense.findMany({
+          where: { expenseNumber: { startsWith } },
+          select: { expenseNumber: true },
+        })
+      ).map((row) => row.expenseNumber);
+    case 'JOURNAL_ENTRY':
+      return (
+        await client.journalEntry.findMany({
+          where: { entryNumber: { startsWith } },
+          select: { entryNumber: true },
+        })
+      ).map((row) => row.entryNumber);
+    case 'PRODUCT_RETURN':
+      return (
+        await client.productReturn.findMany({
+          where: { returnNumber: { startsWith } },
+          select: { returnNumber: true },
+        })
+      ).map((row) => row.returnNumber);
+  }
+}
+
+/**
+ * Highest running value already issued under a number prefix. Numbers in
+ * other formats (e.g. the old timestamp-based credit note numbers) are
+ * ignored since they can never collide with sequence numbers.
+ */
+async function findHighestIssuedValue(client: TransactionClient, documentType: DocumentType, numberPrefix: string) {
+  const numbers = await findIssuedNumbers(client, documentType, numberPrefix);
+
+  return numbers.reduce((highest, number) => {
+    const digits = number.slice(numberPrefix.length);
+    return /^\d+$/.test(digits) ? Math.max(highest, parseInt(digits, 10)) : highest;
+  }, 0);
+}
+
+/**
+ * Allocate the next number in a document series
+ *
+ * Must be called with the transaction that creates the document, so the
+ * counter increment commits or rolls back with it.
+ *
+ * @param client - Transaction creating the document
+ * @param documentType - Kind of document being numbered
+ * @param options - Branch series and document date
+ * @returns The formatted document number, e.g. "INV-000124"
+ */
+export async function allocateDocumentNumber(
+  client: TransactionClient,
+  documentType: DocumentType,
+  options: AllocateOptions = {}
+) {
+  const settings = await getSequenceSettings(client, documentType, options.branch);
+  const period = getSequencePeriod(settings.resetFrequency, options.date ?? new Date());
+  const numberPrefix = getNumberPrefix(settings.prefix, settings.branch, period);
+  const key = { documentType, branch: settings.branch, period };
+
+  const counter = await client.documentSequenceCounter.findUnique({
+    where: { documentType_branch_period: key },
+    select: { id: true },
+  });
+
+  if (!counter) {
+    const lastValue = await findHighestIssuedValue(client, documentType, numberPrefix);
+
+    // ON CONFLICT DO NOTHING: a concurrent first allocation may have created
+    // the counter already, in which case we simply increment theirs
+    await client.documentSequenceCounter.createMany({
+      data: [{ ...key, lastValue }],
+      skipDuplicates: true,
+    });
+  }
+
+  const { lastValue } = await client.documentSequenceCounter.update({
+    where: { documentType_branch_period: key },
+    data: { lastValue: { increment: 1 } },
+    select: { lastValue: true },
+  });
+
+  return `${numberPrefix}${lastValue.toString().padStart(settings.padding, '0')}`;
+}
@@ -0,0 +1,203 @@
+/**
+ * Final Notice Letter
+ * PDF letter sent at the last dunning stage, listing everything the
+ * customer has overdue in the invoice's currency and the deadline before
+ * the account is escalated
+ */
+
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { addDays, differenceInCalendarDays, format as formatDate } from 'date-fns';
+import prisma from '@/lib/prisma';
+import { formatCurrency } from '@/lib/utils';
+
+/** Days the customer is given to pay after the letter date */
+const FINAL_NOTICE_DAYS = 7;
+
+export interface FinalNoticeData {
+  letterDate: Date;
+  invoiceNumber: string;
+  currency: string;
+  customer: {
+    name: string;
+    customerCode: string;
+    billingAddress: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+  overdueInvoices: {
+    invoiceNumber: string;
+    issueDate: Date;
+    dueDate: Date;
+    totalAmount: number;
+    balanceAmount: number;
+  }[];
+}
+
+/**
+ * Get final notice data for an invoice: the invoice plus every other
+ * overdue invoice on the customer's account in the same currency
+ */
+export async function getFinalNoticeData(invoiceId: string, letterDate = new Date()): Promise<FinalNoticeData | null> {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    include: {
+      customer: {
+        select: { id: true, name: true, customerCode: true, billingAddress: true, email: true, phone: true },
+      },
+    },
+  });
+
+  if (!invoice) {
+    return null;
+  }
+
+  const overdueInvoices = await prisma.invoice.findMany({
+    where: {
+      customerId: invoice.customerId,
+      currency: invoice.currency,
+      status: { in: ['SENT', 'PARTIALLY_PAID', 'OVERDUE'] },
+      balanceAmount: { gt: 0 },
+      OR: [{ id: invoice.id }, { dueDate: { lt: letterDate } }],
+    },
+    orderBy: { dueDate: 'asc' },
+    select: { invoiceNumber: true, issueDate: true, dueDate: true, totalAmount: true, balanceAmount: true },
+  });
+
+  return {
+    letterDate,
+    invoiceNumber: invoice.invoiceNumber,
+    currency: invoice.currency,
+    customer: invoice.customer,
+    overdueInvoices,
+  };
+}
+
+/**
+ * Generate final notice PDF
+ */
+export function generateFinalNoticePDF(data: FinalNoticeData): jsPDF {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'A4' });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const totalDue = data.overdueInvoices.reduce((sum, invoice) => sum + invoice.balanceAmount, 0);
+  const payBy = addDays(data.letterDate, FINAL_NOTICE_DAYS);
+
+  // Header - Company Name
+  doc.setFontSize(24);
+  doc.setFont('helvetica', 'bold');
+  doc.text('ELEGANT STEEL', pageWidth / 2, 25, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Your Trusted Business Partner', pageWidth / 2, 32, { align: 'center' });
+
+  // Letter Title
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(204, 0, 0);
+  doc.text('FINAL NOTICE', pageWidth / 2, 45, { align: 'center' });
+  doc.setTextColor(0, 0, 0);
+
+  let yPos = 60;
+
+  // Addressee and date
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text(data.customer.name, margin, yPos);
+  doc.setFont('helvetica', 'normal');
+  doc.text(formatDate(data.letterDate, 'PPP'), pageWidth - margin, yPos, { align: 'right' });
+
+  const addressLines = [
+    `Account: ${data.customer.customerCode}`,
+    ...(data.customer.billingAddress ? doc.splitTextToSize(data.customer.billingAddress, 90) : []),
+    ...(data.customer.phone ? [data.customer.phone] : []),
+    ...(data.customer.email ? [data.customer.email] : []),
+  ];
+  doc.text(addressLines, margin, yPos + 6);
+  yPos += 12 + addressLines.length * 5;
+
+  // Body
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Re: Overdue account - invoice ${data.invoiceNumber}`, margin, yPos);
+  yPos += 8;
+
+  doc.setFont('helvetica', 'normal');
+  const body = doc.splitTextToSize(
+    `Dear ${data.customer.name},\n\n` +
+      'Despite our previous reminders, the invoices listed below remain unpaid past their due dates. ' +
+      `The total overdue balance on your account is ${formatCurrency(totalDue, data.currency)}.\n\n` +
+      `Please settle this balance in full by ${formatDate(payBy, 'PPP')}. If payment is not received by then, ` +
+      'we may suspend credit on your account and refer the debt for collection without further notice.\n\n' +
+      'If you have already paid, please send us the payment reference so we can update our records.',
+    pageWidth - 2 * margin
+  );
+  doc.text(body, margin, yPos);
+  yPos += body.length * 5 + 6;
+
+  // Overdue invoices table
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Invoice', 'Issued', 'Due', 'Days Overdue', 'Invoice Total', 'Balance']],
+    body: data.overdueInvoices.map((invoice) => [
+      invoice.invoiceNumber,
+      formatDate(invoice.issueDate, 'dd MMM yyyy'),
+      formatDate(invoice.dueDate, 'dd MMM yyyy'),
+      Math.max(differenceInCalendarDays(data.letterDate, invoice.dueDate), 0).toString(),
+      formatCurrency(invoice.totalAmount, data.currency),
+      formatCurrency(invoice.balanceAmount, data.currency),
+    ]),
+    foot: [['', '', '', '', 'Total Due', formatCurrency(totalDue, data.currency)]],
+    theme: 'striped',
+    headStyles: { fillColor: [204, 0, 0], textColor: 255, fontStyle: 'bold' },
+    bodyStyles: { fontSize: 9 },
+    footStyles: { fillColor: [240, 240, 240], textColor: 0, fontStyle: 'bold' },
+    columnStyles: { 4: { halign: 'right' }, 5: { halign: 'right' } },
+    margin: { top: yPos },
+  });
+
+  const lastAutoTable = (doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable;
+  yPos = (lastAutoTable?.finalY ?? yPos) + 15;
+
+  doc.text('Yours faithfully,', margin, yPos);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Credit Control', margin, yPos + 12);
+
+  // Footer
+  const footerY = pageHeight - 30;
+  doc.setDrawColor(200, 200, 200);
+  doc.line(margin, footerY, pageWidth - margin, footerY);
+
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'italic');
+  doc.text(
+    `Generated on ${formatDate(new Date(), 'PPP')} at ${formatDate(new Date(), 'p')}`,
+    pageWidth / 2,
+    footerY + 6,
+    { align: 'center' }
+  );
+
+  return doc;
+}
+
+/**
+ * Generate final notice PDF as buffer for download or email
+ */
+export async function generateFinalNoticePDFBuffer(invoiceId: string, letterDate?: Date): Promise<Buffer> {
+  const data = await getFinalNoticeData(invoiceId, letterDate);
+
+  if (!data) {
+    throw new Error('Invoice not found');
+  }
+
+  return Buffer.from(generateFinalNoticePDF(data).output('arraybuffer'));
+}
+
+/**
+ * Get final notice filename
+ */
+export function getFinalNoticeFilename(invoiceNumber: string, letterDate = new Date()): string {
+  return `Final_Notice_${invoiceNumber}_${formatDate(letterDate, 'yyyy-MM-dd')}.pdf`;
+}
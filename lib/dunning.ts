@@ -0,0 +1,352 @@
+/**
+ * Dunning
+ *
+ * Policies define the stages an unpaid invoice moves through relative to
+ * its due date (e.g. 3 days before, on the day, +7, +14, +30), each with a
+ * channel and message template; the last stage is usually a final-notice
+ * letter. The daily run sends each open invoice the latest stage it has
+ * reached, records the contact on the invoice and moves the invoice's
+ * dunning position on. Paid invoices drop out of the run, and customers can
+ * be paused (e.g. while a dispute or payment plan is agreed).
+ */
+
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import type { DunningPolicyInput } from './validations';
+import { formatCurrency } from './utils';
+import { sendDunningEmail } from './email-service';
+import { sendSms } from './sms-service';
+import { generateFinalNoticePDFBuffer, getFinalNoticeFilename } from './dunning-letter';
+
+export type DunningChannel = 'EMAIL' | 'SMS' | 'BOTH' | 'LETTER';
+
+const OPEN_INVOICE_STATUSES = ['SENT', 'PARTIALLY_PAID', 'OVERDUE'];
+
+/**
+ * Suggested stages for a new policy
+ */
+export const DEFAULT_DUNNING_STAGES = [
+  {
+    name: 'Upcoming',
+    dayOffset: -3,
+    channel: 'EMAIL' as DunningChannel,
+    subject: 'Invoice {invoiceNumber} is due on {dueDate}',
+    template:
+      'Hi {customerName},\n\nA quick reminder that invoice {invoiceNumber} for {balance} is due on {dueDate}.\n\nThank you for your business.',
+    isFinalNotice: false,
+  },
+  {
+    name: 'Due today',
+    dayOffset: 0,
+    channel: 'BOTH' as DunningChannel,
+    subject: 'Invoice {invoiceNumber} is due today',
+    template: 'Hi {customerName},\n\nInvoice {invoiceNumber} for {balance} is due today. Please arrange payment.',
+    isFinalNotice: false,
+  },
+  {
+    name: 'First reminder',
+    dayOffset: 7,
+    channel: 'BOTH' as DunningChannel,
+    subject: 'Overdue: invoice {invoiceNumber}',
+    template:
+      'Hi {customerName},\n\nInvoice {invoiceNumber} is {daysOverdue} days overdue. The balance of {balance} was due on {dueDate}. Please settle it at your earliest convenience.',
+    isFinalNotice: false,
+  },
+  {
+    name: 'Second reminder',
+    dayOffset: 14,
+    channel: 'BOTH' as DunningChannel,
+    subject: 'Second reminder: invoice {invoiceNumber}',
+    template:
+      'Hi {customerName},\n\nInvoice {invoiceNumber} is now {daysOverdue} days overdue with {balance} outstanding. Please pay immediately or contact us to discuss.',
+    isFinalNotice: false,
+  },
+  {
+    name: 'Final notice',
+    dayOffset: 30,
+    channel: 'LETTER' as DunningChannel,
+    subject: 'Final notice: invoice {invoiceNumber}',
+    template:
+      'Hi {customerName},\n\nInvoice {invoiceNumber} is {daysOverdue} days overdue. Please find attached our final notice for {balance}.',
+    isFinalNotice: true,
+  },
+];
+
+/**
+ * Fill a stage template's {placeholders}
+ */
+export function renderDunningTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Stages are numbered in due-date order so an invoice's dunning position
+ * always moves forward
+ */
+function toStageRows(stages: DunningPolicyInput['stages']) {
+  return [...stages]
+    .sort((a, b) => a.dayOffset - b.dayOffset)
+    .map((stage, index) => ({
+      sequence: index + 1,
+      name: stage.name,
+      dayOffset: stage.dayOffset,
+      channel: stage.channel,
+      subject: stage.subject,
+      template: stage.template,
+      isFinalNotice: stage.isFinalNotice,
+    }));
+}
+
+/**
+ * Create a dunning policy with its stages
+ * @param input - Validated policy input
+ */
+export async function createDunningPolicy(input: DunningPolicyInput) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    if (input.isDefault) {
+      await tx.dunningPolicy.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+    }
+
+    return tx.dunningPolicy.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        isDefault: input.isDefault,
+        isActive: input.isActive,
+        stages: { create: toStageRows(input.stages) },
+      },
+      include: { stages: { orderBy: { sequence: 'asc' } } },
+    });
+  });
+}
+
+/**
+ * Update a dunning policy; stages, when given, replace the existing ones
+ * @param policyId - Policy ID
+ * @param input - Validated changes
+ */
+export async function updateDunningPolicy(policyId: string, input: Partial<DunningPolicyInput>) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const policy = await tx.dunningPolicy.findUnique({ where: { id: policyId } });
+
+    if (!policy) {
+      throw new Error('Dunning policy not found');
+    }
+
+    const { stages, ...fields } = input;
+
+    if (fields.isDefault) {
+      await tx.dunningPolicy.updateMany({
+        where: { isDefault: true, id: { not: policyId } },
+        data: { isDefault: false },
+      });
+    }
+
+    if (stages) {
+      await tx.dunningStage.deleteMany({ where: { policyId } });
+    }
+
+    return tx.dunningPolicy.update({
+      where: { id: policyId },
+      data: {
+        ...fields,
+        ...(stages && { stages: { create: toStageRows(stages) } }),
+      },
+      include: { stages: { orderBy: { sequence: 'asc' } } },
+    });
+  });
+}
+
+type PolicyWithStages = Awaited<ReturnType<typeof loadActivePolicies>>[number];
+
+async function loadActivePolicies() {
+  return prisma.dunningPolicy.findMany({
+    where: { isActive: true },
+    include: { stages: { orderBy: { sequence: 'asc' } } },
+  });
+}
+
+/**
+ * Send one stage's message over the stage's channel(s)
+ * @returns Who was contacted and any delivery errors
+ */
+async function deliverStage(
+  stage: PolicyWithStages['stages'][number],
+  invoice: { id: string; invoiceNumber: string },
+  customer: { name: string; email: string | null; phone: string | null },
+  subject: string,
+  message: string,
+  details: Record<string, string>,
+  asOf: Date
+) {
+  const recipients: string[] = [];
+  const errors: string[] = [];
+
+  const sendsEmail = stage.channel === 'EMAIL' || stage.channel === 'BOTH' || stage.channel === 'LETTER';
+  const sendsSms = stage.channel === 'SMS' || stage.channel === 'BOTH';
+
+  if (sendsEmail) {
+    if (!customer.email) {
+      errors.push(
+        stage.isFinalNotice
+          ? 'Customer has no email address; download and post the final notice'
+          : 'Customer has no email address'
+      );
+    } else {
+      try {
+        const letter = stage.isFinalNotice
+          ? {
+              filename: getFinalNoticeFilename(invoice.invoiceNumber, asOf),
+              content: await generateFinalNoticePDFBuffer(invoice.id, asOf),
+            }
+          : undefined;
+
+        await sendDunningEmail(customer.email, customer.name, subject, message, details, letter);
+        recipients.push(customer.email);
+      } catch (error) {
+        errors.push(`Email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  if (sendsSms) {
+    if (!customer.phone) {
+      errors.push('Customer has no phone number');
+    } else {
+      const result = await sendSms({ to: customer.phone, message, type: 'transactional' });
+
+      if (result.success) {
+        recipients.push(customer.phone);
+      } else {
+        errors.push(`SMS: ${result.error || 'Failed to send'}`);
+      }
+    }
+  }
+
+  return { recipients, errors };
+}
+
+/**
+ * Run the dunning policies against every open invoice
+ *
+ * Each invoice is sent only the latest stage it has reached; stages it
+ * skipped past (e.g. while its customer was paused) are not sent late. The
+ * invoice's position moves on even if delivery fails, and the failure is
+ * logged on the contact so it can be followed up by hand.
+ *
+ * @param options.asOf - Date to run as of (defaults to now)
+ * @param options.triggeredBy - User for manual runs
+ * @param options.invoiceId - Only run for this invoice
+ * @returns Counts of invoices checked, contacted and failed
+ */
+export async function runDunning(
+  options: { asOf?: Date; triggeredBy?: string; invoiceId?: string } = {}
+) {
+  const asOf = options.asOf ?? new Date();
+  const policies = await loadActivePolicies();
+  const defaultPolicy = policies.find((policy) => policy.isDefault);
+  const results = { invoices: 0, contacted: 0, failed: 0 };
+
+  if (policies.length === 0) {
+    return results;
+  }
+
+  // Earliest stage may fire before the due date
+  const leadDays = Math.max(0, ...policies.flatMap((policy) => policy.stages.map((stage) => -stage.dayOffset)));
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      ...(options.invoiceId && { id: options.invoiceId }),
+      status: { in: OPEN_INVOICE_STATUSES },
+      balanceAmount: { gt: 0 },
+      dueDate: { lte: addDays(asOf, leadDays) },
+      customer: { isActive: true, dunningPaused: false },
+    },
+    include: {
+      customer: { select: { id: true, name: true, email: true, phone: true, dunningPolicyId: true } },
+    },
+    orderBy: { dueDate: 'asc' },
+  });
+
+  for (const invoice of invoices) {
+    const policy =
+      policies.find((candidate) => candidate.id === invoice.customer.dunningPolicyId) ?? defaultPolicy;
+
+    if (!policy) {
+      continue;
+    }
+
+    const daysFromDue = differenceInCalendarDays(asOf, invoice.dueDate);
+    const stage = policy.stages
+      .filter((candidate) => candidate.sequence > invoice.dunningLevel && candidate.dayOffset <= daysFromDue)
+      .pop();
+
+    if (!stage) {
+      continue;
+    }
+
+    results.invoices++;
+
+    const daysOverdue = Math.max(daysFromDue, 0);
+    const values = {
+      customerName: invoice.customer.name,
+      invoiceNumber: invoice.invoiceNumber,
+      balance: formatCurrency(invoice.balanceAmount, invoice.currency),
+      dueDate: format(invoice.dueDate, 'dd MMM yyyy'),
+      daysOverdue: daysOverdue.toString(),
+    };
+    const subject = renderDunningTemplate(stage.subject || 'Payment reminder: invoice {invoiceNumber}', values);
+    const message = renderDunningTemplate(stage.template, values);
+
+    const { recipients, errors } = await deliverStage(
+      stage,
+      invoice,
+      invoice.customer,
+      subject,
+      message,
+      {
+        'Invoice Number': values.invoiceNumber,
+        'Amount Due': values.balance,
+        'Due Date': values.dueDate,
+      },
+      asOf
+    );
+
+    const status = recipients.length > 0 ? 'SENT' : 'FAILED';
+    if (status === 'SENT') {
+      results.contacted++;
+    } else {
+      results.failed++;
+    }
+
+    await prisma.$transaction([
+      prisma.dunningContact.create({
+        data: {
+          invoiceId: invoice.id,
+          customerId: invoice.customerId,
+          policyId: policy.id,
+          stageId: stage.id,
+          stageSequence: stage.sequence,
+          channel: stage.channel,
+          status,
+          recipient: recipients.join(', ') || null,
+          message,
+          error: errors.length ? errors.join('; ') : null,
+          balanceAmount: invoice.balanceAmount,
+          daysOverdue,
+          triggeredBy: options.triggeredBy,
+        },
+      }),
+      prisma.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          dunningLevel: stage.sequence,
+          lastDunnedAt: asOf,
+        },
+      }),
+    ]);
+  }
+
+  return results;
+}
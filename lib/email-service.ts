@@ -1,4 +1,5 @@
 import nodemailer from 'nodemailer';
+import { sanitizeHtml } from './security';
 
 // Email transporter configuration
 let transporter: nodemailer.Transporter | null = null;
@@ -41,6 +42,7 @@ export interface EmailOptions {
   recipientName?: string;
   details?: Record<string, unknown>;
   html?: string;
+  attachments?: { filename: string; content: Buffer; contentType?: string }[];
 }
 
 /**
@@ -165,6 +167,7 @@ export async function sendEmail(options: EmailOptions): Promise<void> {
       to: options.to,
       subject: options.subject,
       html,
+      attachments: options.attachments,
     };
 
     const info = await transporter.sendMail(mailOptions);
@@ -201,6 +204,109 @@ export async function sendPaymentReminderEmail(
   });
 }
 
+/**
+ * Send a newly issued invoice to the customer
+ */
+export async function sendInvoiceEmail(
+  customerEmail: string,
+  customerName: string,
+  invoiceNumber: string,
+  totalAmount: number,
+  dueDate: string,
+  invoiceUrl?: string
+): Promise<void> {
+  await sendEmail({
+    to: customerEmail,
+    subject: `Invoice ${invoiceNumber}`,
+    type: 'notification',
+    recipientName: customerName,
+    notificationTitle: `Invoice ${invoiceNumber}`,
+    notificationMessage: 'A new invoice has been issued to your account.',
+    actionUrl: invoiceUrl,
+    actionText: 'View Invoice',
+    details: {
+      'Invoice Number': invoiceNumber,
+      'Amount Due': `KES ${totalAmount.toFixed(2)}`,
+      'Due Date': dueDate,
+    },
+  });
+}
+
+/**
+ * Send a dunning stage message about an unpaid invoice, with the
+ * final-notice letter attached at the last stage
+ */
+export async function sendDunningEmail(
+  customerEmail: string,
+  customerName: string,
+  subject: string,
+  message: string,
+  details: Record<string, unknown>,
+  letter?: { filename: string; content: Buffer }
+): Promise<void> {
+  await sendEmail({
+    to: customerEmail,
+    subject,
+    type: 'reminder',
+    recipientName: customerName,
+    notificationTitle: subject,
+    notificationMessage: sanitizeHtml(message).replace(/\n/g, '<br>'),
+    details,
+    attachments: letter ? [{ ...letter, contentType: 'application/pdf' }] : undefined,
+  });
+}
+
+/**
+ * Send a customer their account statement with the PDF attached
+ */
+export async function sendStatementEmail(
+  customerEmail: string,
+  customerName: string,
+  periodLabel: string,
+  closingBalance: number,
+  currency: string,
+  statement: { filename: string; content: Buffer }
+): Promise<void> {
+  await sendEmail({
+    to: customerEmail,
+    subject: `Statement of account - ${periodLabel}`,
+    type: 'notification',
+    recipientName: customerName,
+    notificationTitle: `Statement of account - ${periodLabel}`,
+    notificationMessage: 'Please find attached your statement of account. Kindly contact us if anything does not agree with your records.',
+    details: {
+      Period: periodLabel,
+      'Balance Due': `${currency} ${closingBalance.toFixed(2)}`,
+    },
+    attachments: [{ ...statement, contentType: 'application/pdf' }],
+  });
+}
+
+/**
+ * Send a customer their account portal link
+ */
+export async function sendPortalLinkEmail(
+  customerEmail: string,
+  customerName: string,
+  portalUrl: string,
+  expiresAt: string
+): Promise<void> {
+  await sendEmail({
+    to: customerEmail,
+    subject: 'Your account online',
+    type: 'notification',
+    recipientName: customerName,
+    notificationTitle: 'Your account online',
+    notificationMessage:
+      'You can view your open invoices, download invoices and receipts, see your statement and accept quotes using the link below. The link is for you only; please do not forward it.',
+    actionUrl: portalUrl,
+    actionText: 'Open My Account',
+    details: {
+      'Link Expires': expiresAt,
+    },
+  });
+}
+
 /**
  * Send approval required email
  */
@@ -200,6 +200,21 @@ export class BusinessLogicError extends AppError {
   }
 }
 
+/**
+ * Credit Control Error (400)
+ * New credit refused: customer on hold, over the limit, or an override is needed
+ */
+export class CreditControlError extends AppError {
+  constructor(
+    message: string,
+    code: 'CREDIT_HOLD' | 'CREDIT_LIMIT_EXCEEDED' | 'CREDIT_OVERRIDE_REQUIRED',
+    details?: unknown
+  ) {
+    super(message, code, 400, details, true);
+    Object.setPrototypeOf(this, CreditControlError.prototype);
+  }
+}
+
 /**
  * Error Response Builder
  */
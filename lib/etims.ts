@@ -0,0 +1,660 @@
+/**
+ * KRA eTIMS Fiscalisation
+ *
+ * Issued invoices (including POS sales) and approved credit notes are sent
+ * to the eTIMS control unit (OSCU/VSCU), which signs each one and returns
+ * the control unit invoice number and receipt signature printed on the
+ * document, together with a QR code linking to KRA's verification page.
+ *
+ * Documents are queued inside the transaction that issues them, sent
+ * straight after it commits and retried by the scheduler with backoff, so
+ * a control unit or network outage never blocks a sale. `npm run etims-stub`
+ * starts a local control unit to test against.
+ */
+
+import Decimal from 'decimal.js';
+import { addMinutes, format } from 'date-fns';
+import QRCode from 'qrcode';
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { computeTaxTotals, TAX_CODES } from './tax';
+import type { TaxCode } from './tax';
+
+export type FiscalDocumentType = 'INVOICE' | 'CREDIT_NOTE';
+export type FiscalSubmissionStatus = 'PENDING' | 'SIGNED' | 'FAILED';
+
+// eTIMS tax types: A exempt, B standard rate, C zero rated, D non-VAT, E reduced rate
+export const ETIMS_TAX_TYPES: Record<TaxCode, string> = {
+  EXEMPT: 'A',
+  VAT16: 'B',
+  ZERO: 'C',
+  VAT8: 'E',
+};
+
+const TAX_TYPE_RATES: Record<string, number> = { A: 0, B: 16, C: 0, D: 0, E: 8 };
+
+// eTIMS payment type codes
+const PAYMENT_TYPES: Record<string, string> = {
+  CASH: '01',
+  CREDIT: '02',
+  CHEQUE: '04',
+  CARD: '05',
+  MPESA: '06',
+  MOBILE_MONEY: '06',
+};
+
+// eTIMS refund reason codes by credit note type
+const REFUND_REASONS: Record<string, string> = {
+  RETURN: '06',
+  REFUND: '06',
+  DAMAGED: '03',
+  ERROR_CORRECTION: '09',
+};
+
+const MAX_ATTEMPTS = 10;
+const MAX_RETRY_DELAY_MINUTES = 6 * 60;
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Defaults for lines without an item classification in the product catalogue
+const DEFAULT_ITEM_CLASS = '99000000';
+const PACKAGING_UNIT = 'NT';
+const QUANTITY_UNIT = 'U';
+
+interface EtimsConfig {
+  url: string;
+  tin: string;
+  branchId: string;
+  cmcKey: string;
+  receiptUrl: string;
+}
+
+interface FiscalLine {
+  code: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  taxCode: TaxCode;
+  taxableAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+interface FiscalDocument {
+  receiptType: 'S' | 'R';
+  documentNumber: string;
+  originalReceiptNumber: number;
+  customerName: string;
+  customerPhone: string | null;
+  date: Date;
+  paymentType: string;
+  refundReason: string | null;
+  lines: FiscalLine[];
+}
+
+interface EtimsResponse {
+  resultCd: string;
+  resultMsg: string;
+  resultDt?: string;
+  data?: {
+    rcptNo: number;
+    intrlData: string;
+    rcptSign: string;
+    totRcptNo: number;
+    vsdcRcptPbctDate: string;
+    sdcId: string;
+    mrcNo: string;
+  } | null;
+}
+
+export function isEtimsEnabled() {
+  return process.env.ETIMS_ENABLED === 'true';
+}
+
+function getEtimsConfig(): EtimsConfig {
+  const tin = process.env.ETIMS_TIN;
+
+  if (!tin) {
+    throw new Error('ETIMS_TIN is not configured');
+  }
+
+  return {
+    url: (process.env.ETIMS_URL || 'http://localhost:8089').replace(/\/$/, ''),
+    tin,
+    branchId: process.env.ETIMS_BRANCH_ID || '00',
+    cmcKey: process.env.ETIMS_CMC_KEY || '',
+    receiptUrl:
+      process.env.ETIMS_RECEIPT_URL || 'https://etims.kra.go.ke/common/link/etims/receipt/indexEtimsReceiptData',
+  };
+}
+
+/**
+ * Minutes to wait before the given attempt is retried: 1, 2, 4... capped at 6 hours
+ */
+function retryDelayMinutes(attempts: number) {
+  return Math.min(2 ** (attempts - 1), MAX_RETRY_DELAY_MINUTES);
+}
+
+function taxCodeForRate(rate: number): TaxCode {
+  const code = (Object.keys(TAX_CODES) as TaxCode[]).find((candidate) => TAX_CODES[candidate].rate === rate);
+
+  if (!code) {
+    throw new Error(`No eTIMS tax type for a ${rate}% tax rate`);
+  }
+
+  return code;
+}
+
+/**
+ * Queue a document for fiscalisation as part of the transaction that
+ * issues it. Does nothing while eTIMS is disabled.
+ * @param client - Transaction issuing the document
+ * @param documentType - INVOICE or CREDIT_NOTE
+ * @param documentId - Invoice or credit note ID
+ * @param documentNumber - Invoice or credit note number
+ */
+export async function queueFiscalDocument(
+  client: TransactionClient,
+  documentType: FiscalDocumentType,
+  documentId: string,
+  documentNumber: string
+) {
+  if (!isEtimsEnabled()) {
+    return null;
+  }
+
+  const submission = await client.fiscalSubmission.create({
+    data: {
+      documentType,
+      documentNumber,
+      ...(documentType === 'INVOICE' ? { invoiceId: documentId } : { creditNoteId: documentId }),
+    },
+  });
+
+  if (documentType === 'INVOICE') {
+    await client.invoice.update({ where: { id: documentId }, data: { fiscalStatus: 'PENDING' } });
+  } else {
+    await client.creditNote.update({ where: { id: documentId }, data: { fiscalStatus: 'PENDING' } });
+  }
+
+  return submission;
+}
+
+interface OrderForFiscalisation {
+  subtotal: number;
+  tax: number;
+  items: {
+    quantity: number;
+    unitPrice: number;
+    discount: number;
+    totalPrice: number;
+    product: { sku: string; name: string };
+  }[];
+}
+
+/**
+ * Lines of a POS or sales order, taxed at the order's rate
+ */
+function orderLines(order: OrderForFiscalisation): FiscalLine[] {
+  const rate = order.subtotal > 0 ? new Decimal(order.tax).dividedBy(order.subtotal).times(100) : new Decimal(0);
+  const taxCode = taxCodeForRate(rate.toDecimalPlaces(0).toNumber());
+
+  return order.items.map((item) => {
+    const tax = computeTaxTotals({ amount: item.totalPrice, taxRatePercent: TAX_CODES[taxCode].rate });
+
+    return {
+      code: item.product.sku,
+      name: item.product.name,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discount: item.discount,
+      taxCode,
+      taxableAmount: tax.taxableAmount,
+      taxAmount: tax.taxAmount,
+      totalAmount: tax.totalAmount,
+    };
+  });
+}
+
+/**
+ * Invoice lines as sent to eTIMS; POS and sales order invoices carry their
+ * lines on the order
+ */
+async function loadInvoiceDocument(invoiceId: string): Promise<FiscalDocument> {
+  const product = { select: { sku: true, name: true } };
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    include: {
+      customer: { select: { name: true, phone: true } },
+      items: { orderBy: { sortOrder: 'asc' }, include: { product } },
+      posOrders: { include: { orderItems: { include: { product } } } },
+      salesOrder: { include: { items: { include: { product } } } },
+    },
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  const orders: OrderForFiscalisation[] = [
+    ...invoice.posOrders.map((order) => ({ ...order, items: order.orderItems })),
+    ...(invoice.salesOrder ? [invoice.salesOrder] : []),
+  ];
+
+  const lines: FiscalLine[] =
+    invoice.items.length > 0
+      ? invoice.items.map((item, index) => ({
+          code: item.product?.sku || `SVC${index + 1}`,
+          name: item.description,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          discount: item.discount,
+          taxCode: item.taxCode as TaxCode,
+          taxableAmount: item.netAmount,
+          taxAmount: item.taxAmount,
+          totalAmount: item.totalAmount,
+        }))
+      : orders.flatMap(orderLines);
+
+  const posPaymentMethod = invoice.posOrders.find((order) => order.paymentMethod)?.paymentMethod;
+
+  return {
+    receiptType: 'S',
+    documentNumber: invoice.invoiceNumber,
+    originalReceiptNumber: 0,
+    customerName: invoice.customer.name,
+    customerPhone: invoice.customer.phone,
+    date: invoice.issueDate,
+    paymentType: PAYMENT_TYPES[posPaymentMethod || 'CREDIT'] || '07',
+    refundReason: null,
+    lines,
+  };
+}
+
+/**
+ * Credit note lines as sent to eTIMS. A credit note against an invoice
+ * references the invoice's receipt, so it waits until the invoice is signed.
+ */
+async function loadCreditNoteDocument(creditNoteId: string): Promise<FiscalDocument> {
+  const creditNote = await prisma.creditNote.findUnique({
+    where: { id: creditNoteId },
+    include: {
+      customer: { select: { name: true, phone: true } },
+      items: true,
+      invoice: { select: { invoiceNumber: true, fiscalSubmission: { select: { status: true, receiptNumber: true } } } },
+    },
+  });
+
+  if (!creditNote) {
+    throw new Error('Credit note not found');
+  }
+
+  let originalReceiptNumber = 0;
+  if (creditNote.invoice) {
+    const original = creditNote.invoice.fiscalSubmission;
+
+    if (!original || original.status !== 'SIGNED') {
+      throw new Error(`Invoice ${creditNote.invoice.invoiceNumber} has not been signed by eTIMS yet`);
+    }
+
+    originalReceiptNumber = original.receiptNumber;
+  }
+
+  return {
+    receiptType: 'R',
+    documentNumber: creditNote.creditNoteNumber,
+    originalReceiptNumber,
+    customerName: creditNote.customer.name,
+    customerPhone: creditNote.customer.phone,
+    date: creditNote.approvedDate ?? creditNote.issueDate,
+    paymentType: PAYMENT_TYPES.CREDIT,
+    refundReason: REFUND_REASONS[creditNote.creditNoteType] || '13',
+    lines: creditNote.items.map((item, index) => ({
+      code: item.sku || `SVC${index + 1}`,
+      name: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discount: 0,
+      taxCode: taxCodeForRate(item.taxRate),
+      taxableAmount: new Decimal(item.totalAmount).minus(item.taxAmount).toDecimalPlaces(2).toNumber(),
+      taxAmount: new Decimal(item.taxAmount).toDecimalPlaces(2).toNumber(),
+      totalAmount: new Decimal(item.totalAmount).toDecimalPlaces(2).toNumber(),
+    })),
+  };
+}
+
+/**
+ * Build the eTIMS sales transaction (trnsSales/saveSales) for a document
+ * @param config - Taxpayer and branch
+ * @param receiptNumber - invcNo for this submission
+ * @param document - Document header and lines
+ * @param sentAt - Confirmation time
+ */
+export function buildSalesPayload(
+  config: Pick<EtimsConfig, 'tin' | 'branchId'>,
+  receiptNumber: number,
+  document: FiscalDocument,
+  sentAt: Date = new Date()
+) {
+  if (document.lines.length === 0) {
+    throw new Error(`${document.documentNumber} has no lines to fiscalise`);
+  }
+
+  const confirmedAt = format(sentAt, 'yyyyMMddHHmmss');
+  const taxable: Record<string, Decimal> = {};
+  const tax: Record<string, Decimal> = {};
+
+  for (const type of Object.keys(TAX_TYPE_RATES)) {
+    taxable[type] = new Decimal(0);
+    tax[type] = new Decimal(0);
+  }
+
+  const itemList = document.lines.map((line, index) => {
+    const taxType = ETIMS_TAX_TYPES[line.taxCode];
+    const supplyAmount = new Decimal(line.unitPrice).times(line.quantity).toDecimalPlaces(2);
+
+    taxable[taxType] = taxable[taxType].plus(line.taxableAmount);
+    tax[taxType] = tax[taxType].plus(line.taxAmount);
+
+    return {
+      itemSeq: index + 1,
+      itemCd: line.code,
+      itemClsCd: DEFAULT_ITEM_CLASS,
+      itemNm: line.name,
+      bcd: null,
+      pkgUnitCd: PACKAGING_UNIT,
+      pkg: line.quantity,
+      qtyUnitCd: QUANTITY_UNIT,
+      qty: line.quantity,
+      prc: line.unitPrice,
+      splyAmt: supplyAmount.toNumber(),
+      dcRt: supplyAmount.isZero() ? 0 : new Decimal(line.discount).dividedBy(supplyAmount).times(100).toDecimalPlaces(2).toNumber(),
+      dcAmt: line.discount,
+      isrccCd: null,
+      isrccNm: null,
+      isrcRt: null,
+      isrcAmt: null,
+      taxTyCd: taxType,
+      taxblAmt: line.taxableAmount,
+      taxAmt: line.taxAmount,
+      totAmt: line.totalAmount,
+    };
+  });
+
+  const totalTaxable = Object.values(taxable).reduce((sum, amount) => sum.plus(amount), new Decimal(0));
+  const totalTax = Object.values(tax).reduce((sum, amount) => sum.plus(amount), new Decimal(0));
+  const byTaxType = (prefix: string, values: Record<string, Decimal | number>) =>
+    Object.fromEntries(
+      Object.entries(values).map(([type, value]) => [
+        `${prefix}${type}`,
+        value instanceof Decimal ? value.toDecimalPlaces(2).toNumber() : value,
+      ])
+    );
+
+  return {
+    tin: config.tin,
+    bhfId: config.branchId,
+    invcNo: receiptNumber,
+    orgInvcNo: document.originalReceiptNumber,
+    custTin: null,
+    custNm: document.customerName,
+    salesTyCd: 'N',
+    rcptTyCd: document.receiptType,
+    pmtTyCd: document.paymentType,
+    salesSttsCd: '02',
+    cfmDt: confirmedAt,
+    salesDt: format(document.date, 'yyyyMMdd'),
+    stockRlsDt: null,
+    cnclReqDt: null,
+    cnclDt: null,
+    rfdDt: document.receiptType === 'R' ? confirmedAt : null,
+    rfdRsnCd: document.refundReason,
+    totItemCnt: itemList.length,
+    ...byTaxType('taxblAmt', taxable),
+    ...byTaxType('taxRt', TAX_TYPE_RATES),
+    ...byTaxType('taxAmt', tax),
+    totTaxblAmt: totalTaxable.toDecimalPlaces(2).toNumber(),
+    totTaxAmt: totalTax.toDecimalPlaces(2).toNumber(),
+    totAmt: totalTaxable.plus(totalTax).toDecimalPlaces(2).toNumber(),
+    prchrAcptcYn: 'N',
+    remark: document.documentNumber,
+    regrId: 'system',
+    regrNm: 'system',
+    modrId: 'system',
+    modrNm: 'system',
+    receipt: {
+      custTin: null,
+      custMblNo: document.customerPhone,
+      rptNo: null,
+      rcptPbctDt: confirmedAt,
+      trdeNm: null,
+      adrs: null,
+      topMsg: null,
+      btmMsg: null,
+      prchrAcptcYn: 'N',
+    },
+    itemList,
+  };
+}
+
+/**
+ * Send one queued document to the control unit and record the outcome
+ *
+ * The submission is claimed before it is sent, so two runs that pick up
+ * the same submission cannot both send it; the one that loses the claim
+ * returns the submission as it stands. A failed attempt stays PENDING and
+ * is retried with backoff; after MAX_ATTEMPTS it is marked FAILED and needs
+ * a manual retry. A failure never overwrites a SIGNED submission or
+ * document.
+ *
+ * @param submissionId - Fiscal submission ID
+ * @returns The updated submission
+ */
+export async function submitFiscalDocument(submissionId: string) {
+  const submission = await prisma.fiscalSubmission.findUnique({ where: { id: submissionId } });
+
+  if (!submission) {
+    throw new Error('Fiscal submission not found');
+  }
+
+  if (submission.status === 'SIGNED') {
+    return submission;
+  }
+
+  const now = new Date();
+
+  // Until this attempt records its outcome the queue sees the submission as
+  // not yet due
+  const claimed = await prisma.fiscalSubmission.updateMany({
+    where: { id: submission.id, status: 'PENDING', lastAttemptAt: submission.lastAttemptAt },
+    data: { lastAttemptAt: now, nextAttemptAt: addMinutes(now, retryDelayMinutes(submission.attempts + 1)) },
+  });
+
+  if (claimed.count === 0) {
+    return prisma.fiscalSubmission.findUniqueOrThrow({ where: { id: submission.id } });
+  }
+
+  const documentWhere = { id: (submission.invoiceId ?? submission.creditNoteId)! };
+  let payload: ReturnType<typeof buildSalesPayload> | null = null;
+  let result: EtimsResponse | null = null;
+
+  try {
+    const config = getEtimsConfig();
+    const document =
+      submission.documentType === 'INVOICE'
+        ? await loadInvoiceDocument(submission.invoiceId!)
+        : await loadCreditNoteDocument(submission.creditNoteId!);
+
+    payload = buildSalesPayload(config, submission.receiptNumber, document, now);
+
+    const response = await fetch(`${config.url}/trnsSales/saveSales`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        tin: config.tin,
+        bhfId: config.branchId,
+        cmcKey: config.cmcKey,
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`eTIMS returned HTTP ${response.status}`);
+    }
+
+    result = (await response.json()) as EtimsResponse;
+
+    if (result.resultCd !== '000' || !result.data) {
+      throw new Error(`eTIMS rejected the document (${result.resultCd}): ${result.resultMsg}`);
+    }
+
+    const signed = {
+      fiscalStatus: 'SIGNED',
+      cuInvoiceNumber: `${result.data.sdcId}/${result.data.rcptNo}`,
+      fiscalSignature: result.data.rcptSign,
+      fiscalQrUrl: `${config.receiptUrl}?Data=${config.tin}${config.branchId}${result.data.rcptSign}`,
+      fiscalisedAt: now,
+    };
+
+    const [updated] = await prisma.$transaction([
+      prisma.fiscalSubmission.update({
+        where: { id: submission.id },
+        data: {
+          status: 'SIGNED',
+          attempts: { increment: 1 },
+          lastAttemptAt: now,
+          lastError: null,
+          payload: payload as Prisma.InputJsonValue,
+          response: result as unknown as Prisma.InputJsonValue,
+          signedAt: now,
+        },
+      }),
+      submission.documentType === 'INVOICE'
+        ? prisma.invoice.update({ where: documentWhere, data: signed })
+        : prisma.creditNote.update({ where: documentWhere, data: signed }),
+    ]);
+
+    return updated;
+  } catch (error) {
+    const attempts = submission.attempts + 1;
+    const status: FiscalSubmissionStatus = attempts >= MAX_ATTEMPTS ? 'FAILED' : 'PENDING';
+
+    await prisma.$transaction([
+      prisma.fiscalSubmission.updateMany({
+        where: { id: submission.id, status: { not: 'SIGNED' } },
+        data: {
+          status,
+          attempts,
+          lastAttemptAt: now,
+          nextAttemptAt: addMinutes(now, retryDelayMinutes(attempts)),
+          lastError: error instanceof Error ? error.message : 'Unknown error',
+          payload: payload ? (payload as Prisma.InputJsonValue) : Prisma.JsonNull,
+          response: result ? (result as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+        },
+      }),
+      submission.documentType === 'INVOICE'
+        ? prisma.invoice.updateMany({
+            where: { ...documentWhere, fiscalStatus: { not: 'SIGNED' } },
+            data: { fiscalStatus: status },
+          })
+        : prisma.creditNote.updateMany({
+            where: { ...documentWhere, fiscalStatus: { not: 'SIGNED' } },
+            data: { fiscalStatus: status },
+          }),
+    ]);
+
+    return prisma.fiscalSubmission.findUniqueOrThrow({ where: { id: submission.id } });
+  }
+}
+
+/**
+ * Send a document queued by a transaction that has just committed. Never
+ * throws; anything left unsigned is picked up by the queue run.
+ * @param document - The invoice or credit note
+ */
+export async function submitQueuedFiscalDocument(document: { invoiceId: string } | { creditNoteId: string }) {
+  if (!isEtimsEnabled()) {
+    return null;
+  }
+
+  try {
+    const submission = await prisma.fiscalSubmission.findFirst({
+      where: { ...document, status: 'PENDING' },
+      select: { id: true },
+    });
+
+    return submission ? await submitFiscalDocument(submission.id) : null;
+  } catch (error) {
+    console.error('eTIMS submission failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Send every queued document that is due, oldest receipt number first
+ * @param limit - Most documents to send in one run
+ * @returns Counts of documents sent, signed and still pending or failed
+ */
+export async function processFiscalQueue(limit = 100) {
+  const results = { processed: 0, signed: 0, pending: 0, failed: 0 };
+
+  if (!isEtimsEnabled()) {
+    return results;
+  }
+
+  const due = await prisma.fiscalSubmission.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+    orderBy: { receiptNumber: 'asc' },
+    take: limit,
+    select: { id: true },
+  });
+
+  for (const { id } of due) {
+    const submission = await submitFiscalDocument(id);
+    results.processed++;
+
+    if (submission.status === 'SIGNED') {
+      results.signed++;
+    } else if (submission.status === 'FAILED') {
+      results.failed++;
+    } else {
+      results.pending++;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Put a FAILED (or waiting) submission back at the front of the queue and
+ * send it now
+ * @param submissionId - Fiscal submission ID
+ */
+export async function retryFiscalSubmission(submissionId: string) {
+  const submission = await prisma.fiscalSubmission.findUnique({ where: { id: submissionId } });
+
+  if (!submission) {
+    throw new Error('Fiscal submission not found');
+  }
+
+  if (submission.status === 'SIGNED') {
+    throw new Error(`${submission.documentNumber} is already signed`);
+  }
+
+  await prisma.fiscalSubmission.update({
+    where: { id: submissionId },
+    data: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date() },
+  });
+
+  return submitFiscalDocument(submissionId);
+}
+
+/**
+ * QR code for a signed document's verification link, as a PNG data URL
+ * @param fiscalQrUrl - Verification link stored on the document
+ */
+export function getFiscalQrDataUrl(fiscalQrUrl: string) {
+  return QRCode.toDataURL(fiscalQrUrl, { margin: 1, width: 160 });
+}
@@ -0,0 +1,138 @@
+/**
+ * Exchange Rates
+ *
+ * The ledger is kept in the base currency (BASE_CURRENCY, default KES).
+ * Invoices, payments, supplier bills and purchase orders can be raised in
+ * another currency; each records the rate it was converted at, taken from
+ * the locally maintained rate table unless one is given explicitly. A rate
+ * is base currency units per one unit of the currency and applies from its
+ * date until the next rate for that currency.
+ */
+
+import Decimal from 'decimal.js';
+import { format, startOfDay } from 'date-fns';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import type { ExchangeRateInput } from './validations';
+
+/**
+ * Currency the ledger is kept in
+ */
+export function getBaseCurrency() {
+  return (process.env.BASE_CURRENCY || 'KES').toUpperCase();
+}
+
+export function isBaseCurrency(currency: string | null | undefined) {
+  return !currency || currency.toUpperCase() === getBaseCurrency();
+}
+
+/**
+ * Convert an amount in a document currency to the base currency
+ * @param amount - Amount in the document currency
+ * @param rate - Base currency units per unit of the document currency
+ */
+export function toBaseAmount(amount: number | string | Decimal, rate: number | string | Decimal) {
+  return new Decimal(amount).times(rate).toDecimalPlaces(2);
+}
+
+/**
+ * Rate for a currency on a date: the latest rate on file on or before it
+ * @param currency - ISO currency code
+ * @param date - Date the rate is needed for
+ * @param client - Existing transaction client
+ * @throws Error when no rate is on file for the currency by that date
+ */
+export async function getExchangeRate(
+  currency: string,
+  date: Date,
+  client: TransactionClient = prisma
+): Promise<number> {
+  if (isBaseCurrency(currency)) {
+    return 1;
+  }
+
+  const rate = await client.exchangeRate.findFirst({
+    where: { currency: currency.toUpperCase(), rateDate: { lte: date } },
+    orderBy: { rateDate: 'desc' },
+    select: { rate: true },
+  });
+
+  if (!rate) {
+    throw new Error(`No ${currency.toUpperCase()} exchange rate on file on or before ${format(date, 'dd MMM yyyy')}`);
+  }
+
+  return rate.rate;
+}
+
+/**
+ * Currency and rate for a new document: the base currency at 1, otherwise
+ * the rate given or, failing that, the rate on file for the document date
+ * @param currency - Document currency (defaults to the base currency)
+ * @param date - Document date
+ * @param rate - Rate entered on the document, if any
+ * @param client - Existing transaction client
+ */
+export async function resolveDocumentCurrency(
+  currency: string | undefined,
+  date: Date,
+  rate?: number,
+  client: TransactionClient = prisma
+) {
+  if (isBaseCurrency(currency)) {
+    return { currency: getBaseCurrency(), exchangeRate: 1 };
+  }
+
+  return {
+    currency: currency!.toUpperCase(),
+    exchangeRate: rate ?? (await getExchangeRate(currency!, date, client)),
+  };
+}
+
+/**
+ * Rates on file, latest first
+ * @param currency - Only this currency
+ */
+export function listExchangeRates(currency?: string) {
+  return prisma.exchangeRate.findMany({
+    where: currency ? { currency: currency.toUpperCase() } : undefined,
+    orderBy: [{ rateDate: 'desc' }, { currency: 'asc' }],
+    take: 200,
+  });
+}
+
+/**
+ * Record the rate for a currency on a date, replacing any rate already on
+ * file for that day
+ * @param input - Validated rate
+ * @param userId - User recording it
+ */
+export async function saveExchangeRate(input: ExchangeRateInput, userId: string) {
+  if (isBaseCurrency(input.currency)) {
+    throw new Error(`${getBaseCurrency()} is the base currency and always has a rate of 1`);
+  }
+
+  const rateDate = startOfDay(new Date(input.rateDate));
+  if (Number.isNaN(rateDate.getTime())) {
+    throw new Error('Invalid rate date');
+  }
+
+  return prisma.exchangeRate.upsert({
+    where: { currency_rateDate: { currency: input.currency, rateDate } },
+    create: { currency: input.currency, rateDate, rate: input.rate, source: input.source, createdBy: userId },
+    update: { rate: input.rate, source: input.source, createdBy: userId },
+  });
+}
+
+/**
+ * Remove a rate entered in error. Documents keep the rate they were raised at.
+ * @param id - Exchange rate ID
+ */
+export async function deleteExchangeRate(id: string) {
+  const rate = await prisma.exchangeRate.findUnique({ where: { id } });
+
+  if (!rate) {
+    throw new Error('Exchange rate not found');
+  }
+
+  return prisma.exchangeRate.delete({ where: { id } });
+}
@@ -19,6 +19,10 @@ function getAutoTable(doc: jsPDF): (options: AutoTableOptions) => void {
   return (doc as unknown as { autoTable: (options: AutoTableOptions) => void }).autoTable;
 }
 
+function getLastTableY(doc: jsPDF, fallback: number): number {
+  return (doc as unknown as { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? fallback;
+}
+
 /**
  * Export Service
  * Handles PDF and Excel export functionality with professional formatting
@@ -446,6 +450,144 @@ export async function exportDashboardToPDF(
   }
 }
 
+export interface BankReconciliationPDFItem {
+  date: string | Date;
+  reference: string;
+  description: string;
+  amount: number;
+}
+
+export interface BankReconciliationPDFData {
+  bankName: string;
+  accountNumber: string;
+  currency: string;
+  ledgerAccountCode: string;
+  periodStart: Date | null;
+  periodEnd: Date;
+  status: string;
+  statementBalance: number;
+  ledgerBalance: number;
+  adjustedStatementBalance: number;
+  adjustedLedgerBalance: number;
+  difference: number;
+  reconciliationRatio: number | null;
+  unclearedDeposits: BankReconciliationPDFItem[];
+  unpresentedPayments: BankReconciliationPDFItem[];
+  unrecordedItems: (BankReconciliationPDFItem & { type: string })[];
+  notes?: string | null;
+  preparedBy: string;
+  completedBy?: string | null;
+  completedAt?: Date | null;
+  signature?: string | null;
+}
+
+/**
+ * Export a bank reconciliation to PDF. Locked reconciliations carry the
+ * sign-off block and signature; drafts are watermarked.
+ */
+export async function exportBankReconciliationToPDF(
+  data: BankReconciliationPDFData
+): Promise<Buffer> {
+  try {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const money = (amount: number) =>
+      `${data.currency} ${amount.toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const day = (date: string | Date) => new Date(date).toLocaleDateString('en-KE');
+    const itemRows = (items: BankReconciliationPDFItem[]) =>
+      items.map((item) => [day(item.date), item.reference, item.description, money(item.amount)]);
+
+    doc.setFontSize(16);
+    doc.text('Bank Reconciliation Statement', 14, 22);
+
+    doc.setFontSize(10);
+    doc.text(`${data.bankName} - ${data.accountNumber} (Ledger ${data.ledgerAccountCode})`, 14, 30);
+    doc.text(
+      `Period: ${data.periodStart ? day(data.periodStart) : 'Opening'} to ${day(data.periodEnd)}`,
+      14,
+      36
+    );
+    doc.text(`Status: ${data.status}`, 14, 42);
+
+    if (!data.signature) {
+      doc.setFontSize(60);
+      doc.setTextColor(220, 220, 220);
+      doc.text('DRAFT', pageWidth / 2, 150, { align: 'center', angle: 45 });
+      doc.setTextColor(0, 0, 0);
+    }
+
+    getAutoTable(doc)({
+      head: [['Summary', 'Amount']],
+      body: [
+        ['Balance per bank statement', money(data.statementBalance)],
+        ['Add: uncleared deposits', money(data.unclearedDeposits.reduce((sum, i) => sum + i.amount, 0))],
+        ['Less: unpresented payments', money(data.unpresentedPayments.reduce((sum, i) => sum + i.amount, 0))],
+        ['Adjusted bank balance', money(data.adjustedStatementBalance)],
+        ['Balance per ledger', money(data.ledgerBalance)],
+        ['Add/(less): statement items not in ledger', money(data.adjustedLedgerBalance - data.ledgerBalance)],
+        ['Adjusted ledger balance', money(data.adjustedLedgerBalance)],
+        ['Difference', money(data.difference)],
+        ['Statement lines reconciled', data.reconciliationRatio !== null ? `${data.reconciliationRatio}%` : '-'],
+      ],
+      startY: 48,
+      margin: { top: 10, right: 10, bottom: 10, left: 10 },
+    });
+
+    const sections: [string, string[][]][] = [
+      ['Uncleared Deposits', itemRows(data.unclearedDeposits)],
+      ['Unpresented Payments', itemRows(data.unpresentedPayments)],
+      [
+        'Statement Items Not in Ledger',
+        data.unrecordedItems.map((item) => [
+          day(item.date),
+          item.reference,
+          item.description,
+          money(item.type === 'UNRECORDED_DEBIT' ? -item.amount : item.amount),
+        ]),
+      ],
+    ];
+
+    for (const [title, rows] of sections) {
+      const y = getLastTableY(doc, 48) + 10;
+      doc.setFontSize(12);
+      doc.text(title, 14, y);
+
+      getAutoTable(doc)({
+        head: [['Date', 'Reference', 'Description', 'Amount']],
+        body: rows.length ? rows : [['-', '-', 'None', '-']],
+        startY: y + 4,
+        margin: { top: 10, right: 10, bottom: 10, left: 10 },
+      });
+    }
+
+    let y = getLastTableY(doc, 48) + 12;
+    if (y > doc.internal.pageSize.getHeight() - 50) {
+      doc.addPage();
+      y = 22;
+    }
+
+    doc.setFontSize(10);
+    if (data.notes) {
+      doc.text(`Notes: ${data.notes}`, 14, y, { maxWidth: pageWidth - 28 });
+      y += 12;
+    }
+
+    doc.text(`Prepared by: ${data.preparedBy}`, 14, y);
+    if (data.completedBy && data.completedAt) {
+      doc.text(`Reviewed and locked by: ${data.completedBy} on ${data.completedAt.toLocaleString('en-KE')}`, 14, y + 6);
+    }
+    if (data.signature) {
+      doc.setFontSize(8);
+      doc.text(`Signature (HMAC-SHA256): ${data.signature}`, 14, y + 14);
+    }
+
+    return Buffer.from(doc.output('arraybuffer'));
+  } catch (error) {
+    console.error('Error exporting bank reconciliation to PDF:', error);
+    throw new Error('Failed to export bank reconciliation to PDF');
+  }
+}
+
 /**
  * Generic export function that routes to appropriate format
  */
@@ -0,0 +1,277 @@
+/**
+ * FX Revaluation
+ *
+ * At a period end, foreign-currency invoices and supplier bills open at that
+ * date are restated at the closing rate. The difference from the rate each
+ * was raised at is posted as an unrealised gain or loss against receivables
+ * and payables. Open balances are rebuilt as at the period end from the
+ * payments and applied credit dated on or before it, so a past period end is
+ * revalued on what was owed then rather than on today's balances. Only bills
+ * posted to payables on approval are revalued. Revaluing a period end
+ * reverses the one before it, so the ledger only carries the latest
+ * revaluation; settlement then realises the gain or loss against the rate
+ * the document was raised at. Each period end is revalued once.
+ */
+
+import Decimal from 'decimal.js';
+import { addDays, endOfDay, format, startOfDay } from 'date-fns';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { ACCOUNT_CODES, postLedgerTransaction, reverseLedgerTransaction, type LedgerEntryInput } from './accounting';
+import { getBaseCurrency, getExchangeRate, toBaseAmount } from './exchange-rates';
+
+const EXCLUDED_INVOICE_STATUSES = ['DRAFT', 'CANCELLED'];
+const SETTLED_PAYMENT_STATUSES = ['CONFIRMED', 'REFUNDED'];
+const EXCLUDED_BILL_STATUSES = ['DRAFT', 'CANCELLED'];
+
+interface RevaluationLine {
+  documentType: 'INVOICE' | 'SUPPLIER_BILL';
+  documentId: string;
+  documentNumber: string;
+  currency: string;
+  openAmount: number;
+  bookedRate: number;
+  closingRate: number;
+  adjustment: number;
+}
+
+/**
+ * Past revaluations, latest first
+ */
+export function listFxRevaluations() {
+  return prisma.fxRevaluation.findMany({
+    orderBy: { periodEnd: 'desc' },
+    take: 24,
+    include: { lines: { orderBy: [{ documentType: 'asc' }, { documentNumber: 'asc' }] } },
+  });
+}
+
+/**
+ * Revalue open foreign-currency receivables and payables at a period end
+ * @param periodEnd - Last day of the period; rates on file on or before it are used
+ * @param userId - User running the revaluation
+ * @returns The revaluation, and whether it had already been run for the period end
+ */
+export async function runFxRevaluation(periodEnd: Date, userId: string) {
+  const asOf = endOfDay(periodEnd);
+
+  if (Number.isNaN(asOf.getTime())) {
+    throw new Error('Invalid period end');
+  }
+
+  if (asOf > endOfDay(new Date())) {
+    throw new Error('A period end in the future cannot be revalued');
+  }
+
+  const existing = await prisma.fxRevaluation.findUnique({
+    where: { periodEnd: asOf },
+    include: { lines: true },
+  });
+
+  if (existing) {
+    return { revaluation: existing, alreadyRun: true };
+  }
+
+  const later = await prisma.fxRevaluation.findFirst({
+    where: { periodEnd: { gt: asOf } },
+    select: { periodEnd: true },
+  });
+
+  if (later) {
+    throw new Error(`${format(later.periodEnd, 'dd MMM yyyy')} has already been revalued`);
+  }
+
+  const revaluation = await prisma.$transaction(async (tx: TransactionClient) => {
+    const description = `FX revaluation at ${format(asOf, 'dd MMM yyyy')}`;
+
+    // Replace the previous revaluation rather than stacking on it
+    const previous = await tx.fxRevaluation.findMany({
+      where: { reversedAt: null, periodEnd: { lt: asOf } },
+    });
+
+    for (const earlier of previous) {
+      // Reversed on the first day after the period it belongs to, so balances at any date
+      // carry only the revaluation in force then
+      const reversalTransactionId = earlier.transactionId
+        ? await reverseLedgerTransaction(
+            earlier.transactionId,
+            userId,
+            `Superseded by ${description}`,
+            tx,
+            startOfDay(addDays(earlier.periodEnd, 1))
+          )
+        : null;
+
+      await tx.fxRevaluation.update({
+        where: { id: earlier.id },
+        data: { reversalTransactionId, reversedAt: new Date() },
+      });
+    }
+
+    const baseCurrency = getBaseCurrency();
+
+    const [invoices, bills] = await Promise.all([
+      tx.invoice.findMany({
+        where: {
+          status: { notIn: EXCLUDED_INVOICE_STATUSES },
+          currency: { not: baseCurrency },
+          issueDate: { lte: asOf },
+        },
+        select: {
+          id: true,
+          invoiceNumber: true,
+          customerId: true,
+          totalAmount: true,
+          currency: true,
+          exchangeRate: true,
+          // Refunds are negative payments dated when the money went back
+          payments: {
+            where: { status: { in: SETTLED_PAYMENT_STATUSES }, paymentDate: { lte: asOf } },
+            select: { amount: true },
+          },
+          creditAllocations: {
+            where: { allocatedAt: { lte: asOf } },
+            select: { amount: true },
+          },
+        },
+      }),
+      tx.supplierBill.findMany({
+        where: {
+          status: { notIn: EXCLUDED_BILL_STATUSES },
+          ledgerTransactionId: { not: null },
+          currency: { not: baseCurrency },
+          issueDate: { lte: asOf },
+        },
+        select: {
+          id: true,
+          billNumber: true,
+          totalAmount: true,
+          currency: true,
+          exchangeRate: true,
+          payments: {
+            where: { paymentDate: { lte: asOf } },
+            select: { amount: true },
+          },
+        },
+      }),
+    ]);
+
+    const closingRates = new Map<string, number>();
+    const closingRate = async (currency: string) => {
+      if (!closingRates.has(currency)) {
+        closingRates.set(currency, await getExchangeRate(currency, asOf, tx));
+      }
+      return closingRates.get(currency)!;
+    };
+
+    const lines: RevaluationLine[] = [];
+    const entries: LedgerEntryInput[] = [];
+    let receivablesAdjustment = new Decimal(0);
+    let payablesAdjustment = new Decimal(0);
+
+    for (const invoice of invoices) {
+      const openAmount = [...invoice.payments, ...invoice.creditAllocations]
+        .reduce((balance, settled) => balance.minus(settled.amount), new Decimal(invoice.totalAmount))
+        .toNumber();
+
+      if (openAmount <= 0) {
+        continue;
+      }
+
+      const rate = await closingRate(invoice.currency);
+      // A receivable is worth more when the currency strengthens
+      const adjustment = toBaseAmount(openAmount, rate).minus(toBaseAmount(openAmount, invoice.exchangeRate));
+
+      lines.push({
+        documentType: 'INVOICE',
+        documentId: invoice.id,
+        documentNumber: invoice.invoiceNumber,
+        currency: invoice.currency,
+        openAmount,
+        bookedRate: invoice.exchangeRate,
+        closingRate: rate,
+        adjustment: adjustment.toNumber(),
+      });
+
+      if (!adjustment.isZero()) {
+        receivablesAdjustment = receivablesAdjustment.plus(adjustment);
+        entries.push({
+          accountCode: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE,
+          entryType: adjustment.gt(0) ? 'DEBIT' : 'CREDIT',
+          amount: adjustment.abs(),
+          description: `${description}: ${invoice.invoiceNumber}`,
+          customerId: invoice.customerId,
+          invoiceId: invoice.id,
+          userId,
+          entryDate: asOf,
+        });
+      }
+    }
+
+    for (const bill of bills) {
+      const openAmount = bill.payments
+        .reduce((balance, payment) => balance.minus(payment.amount), new Decimal(bill.totalAmount))
+        .toNumber();
+
+      if (openAmount <= 0) {
+        continue;
+      }
+
+      const rate = await closingRate(bill.currency);
+      // A payable costs more when the currency strengthens
+      const adjustment = toBaseAmount(openAmount, bill.exchangeRate).minus(toBaseAmount(openAmount, rate));
+
+      lines.push({
+        documentType: 'SUPPLIER_BILL',
+        documentId: bill.id,
+        documentNumber: bill.billNumber,
+        currency: bill.currency,
+        openAmount,
+        bookedRate: bill.exchangeRate,
+        closingRate: rate,
+        adjustment: adjustment.toNumber(),
+      });
+
+      payablesAdjustment = payablesAdjustment.plus(adjustment);
+    }
+
+    if (!payablesAdjustment.isZero()) {
+      entries.push({
+        accountCode: ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+        entryType: payablesAdjustment.gt(0) ? 'DEBIT' : 'CREDIT',
+        amount: payablesAdjustment.abs(),
+        description: `${description}: supplier bills`,
+        userId,
+        entryDate: asOf,
+      });
+    }
+
+    const net = receivablesAdjustment.plus(payablesAdjustment);
+    if (!net.isZero()) {
+      entries.push({
+        accountCode: ACCOUNT_CODES.UNREALISED_FX,
+        entryType: net.gt(0) ? 'CREDIT' : 'DEBIT',
+        amount: net.abs(),
+        description,
+        userId,
+        entryDate: asOf,
+      });
+    }
+
+    const posted = entries.length > 0 ? await postLedgerTransaction(entries, tx) : null;
+
+    return tx.fxRevaluation.create({
+      data: {
+        periodEnd: asOf,
+        receivablesAdjustment: receivablesAdjustment.toNumber(),
+        payablesAdjustment: payablesAdjustment.toNumber(),
+        transactionId: posted?.[0].transactionId ?? null,
+        createdBy: userId,
+        lines: { create: lines },
+      },
+      include: { lines: true },
+    });
+  });
+
+  return { revaluation, alreadyRun: false };
+}
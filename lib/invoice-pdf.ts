@@ -0,0 +1,290 @@
+/**
+ * Invoice PDF
+ * Printable copy of an issued invoice, with the eTIMS QR code once the
+ * invoice has been fiscalised
+ */
+
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { format as formatDate } from 'date-fns';
+import prisma from '@/lib/prisma';
+import { formatCurrency } from '@/lib/utils';
+import { getFiscalQrDataUrl } from '@/lib/etims';
+
+export interface InvoicePDFData {
+  invoiceNumber: string;
+  status: string;
+  issueDate: Date;
+  dueDate: Date;
+  description: string | null;
+  notes: string | null;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  paidAmount: number;
+  balanceAmount: number;
+  currency: string;
+  customer: {
+    name: string;
+    customerCode: string;
+    billingAddress: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+  lines: {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    discount: number;
+    tax: string;
+    total: number;
+  }[];
+  fiscal: {
+    cuInvoiceNumber: string;
+    signature: string | null;
+    signedAt: Date | null;
+    qrDataUrl: string | null;
+  } | null;
+}
+
+/**
+ * Get invoice PDF data. Invoice lines take precedence; POS invoices fall
+ * back to their order items and anything else to a single summary line.
+ */
+export async function getInvoicePDFData(invoiceId: string): Promise<InvoicePDFData | null> {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    include: {
+      customer: {
+        select: { name: true, customerCode: true, billingAddress: true, email: true, phone: true },
+      },
+      items: { orderBy: { sortOrder: 'asc' } },
+      posOrders: {
+        include: { orderItems: { include: { product: { select: { name: true, sku: true } } } } },
+      },
+    },
+  });
+
+  if (!invoice) {
+    return null;
+  }
+
+  const posLines = invoice.posOrders.flatMap((order) => order.orderItems);
+
+  const lines =
+    invoice.items.length > 0
+      ? invoice.items.map((item) => ({
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          discount: item.discount,
+          tax: `${formatCurrency(item.taxAmount, invoice.currency)} (${item.taxCode})`,
+          total: item.totalAmount,
+        }))
+      : posLines.length > 0
+        ? posLines.map((item) => ({
+            description: item.product?.name || item.product?.sku || 'Product',
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            discount: 0,
+            tax: '-',
+            total: item.totalPrice,
+          }))
+        : [
+            {
+              description: invoice.description || `Invoice ${invoice.invoiceNumber}`,
+              quantity: 1,
+              unitPrice: invoice.subtotal,
+              discount: 0,
+              tax: formatCurrency(invoice.taxAmount, invoice.currency),
+              total: invoice.totalAmount,
+            },
+          ];
+
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    status: invoice.status,
+    issueDate: invoice.issueDate,
+    dueDate: invoice.dueDate,
+    description: invoice.description,
+    notes: invoice.notes,
+    subtotal: invoice.subtotal,
+    taxAmount: invoice.taxAmount,
+    totalAmount: invoice.totalAmount,
+    paidAmount: invoice.paidAmount,
+    balanceAmount: invoice.balanceAmount,
+    currency: invoice.currency,
+    customer: invoice.customer,
+    lines,
+    fiscal: invoice.cuInvoiceNumber
+      ? {
+          cuInvoiceNumber: invoice.cuInvoiceNumber,
+          signature: invoice.fiscalSignature,
+          signedAt: invoice.fiscalisedAt,
+          qrDataUrl: invoice.fiscalQrUrl ? await getFiscalQrDataUrl(invoice.fiscalQrUrl) : null,
+        }
+      : null,
+  };
+}
+
+/**
+ * Generate invoice PDF
+ */
+export function generateInvoicePDF(data: InvoicePDFData): jsPDF {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'A4' });
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+
+  // Header - Company Name
+  doc.setFontSize(24);
+  doc.setFont('helvetica', 'bold');
+  doc.text('ELEGANT STEEL', pageWidth / 2, 25, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Your Trusted Business Partner', pageWidth / 2, 32, { align: 'center' });
+
+  // Invoice Title
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(0, 102, 204);
+  doc.text('INVOICE', pageWidth / 2, 45, { align: 'center' });
+  doc.setTextColor(0, 0, 0);
+
+  let yPos = 60;
+
+  // Bill to and invoice details
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill To:', margin, yPos);
+  doc.text(data.customer.name, margin, yPos + 6);
+  doc.setFont('helvetica', 'normal');
+
+  const addressLines = [
+    `Account: ${data.customer.customerCode}`,
+    ...(data.customer.billingAddress ? doc.splitTextToSize(data.customer.billingAddress, 80) : []),
+    ...(data.customer.phone ? [data.customer.phone] : []),
+    ...(data.customer.email ? [data.customer.email] : []),
+  ];
+  doc.text(addressLines, margin, yPos + 12);
+
+  const detailsX = pageWidth - margin - 60;
+  const details: [string, string][] = [
+    ['Invoice No:', data.invoiceNumber],
+    ['Issue Date:', formatDate(data.issueDate, 'dd MMM yyyy')],
+    ['Due Date:', formatDate(data.dueDate, 'dd MMM yyyy')],
+    ['Status:', data.status.replace('_', ' ')],
+  ];
+  details.forEach(([label, value], index) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, detailsX, yPos + index * 6);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, pageWidth - margin, yPos + index * 6, { align: 'right' });
+  });
+
+  yPos += Math.max(18 + addressLines.length * 5, 30);
+
+  if (data.description) {
+    const description = doc.splitTextToSize(data.description, pageWidth - 2 * margin);
+    doc.text(description, margin, yPos);
+    yPos += description.length * 5 + 4;
+  }
+
+  // Lines
+  autoTable(doc, {
+    startY: yPos,
+    head: [['Description', 'Qty', 'Unit Price', 'Discount', 'Tax', 'Amount']],
+    body: data.lines.map((line) => [
+      line.description,
+      line.quantity.toString(),
+      formatCurrency(line.unitPrice, data.currency),
+      line.discount > 0 ? formatCurrency(line.discount, data.currency) : '-',
+      line.tax,
+      formatCurrency(line.total, data.currency),
+    ]),
+    foot: [
+      ['', '', '', '', 'Subtotal', formatCurrency(data.subtotal, data.currency)],
+      ['', '', '', '', 'Tax', formatCurrency(data.taxAmount, data.currency)],
+      ['', '', '', '', 'Total', formatCurrency(data.totalAmount, data.currency)],
+      ['', '', '', '', 'Paid', formatCurrency(data.paidAmount, data.currency)],
+      ['', '', '', '', 'Balance Due', formatCurrency(data.balanceAmount, data.currency)],
+    ],
+    theme: 'striped',
+    headStyles: { fillColor: [0, 102, 204], textColor: 255, fontStyle: 'bold' },
+    bodyStyles: { fontSize: 9 },
+    footStyles: { fillColor: [240, 240, 240], textColor: 0, fontStyle: 'bold' },
+    columnStyles: { 1: { halign: 'center' }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } },
+    margin: { top: yPos },
+  });
+
+  const lastAutoTable = (doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable;
+  yPos = (lastAutoTable?.finalY ?? yPos) + 10;
+
+  if (data.notes) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Notes', margin, yPos);
+    doc.setFont('helvetica', 'normal');
+    const notes = doc.splitTextToSize(data.notes, pageWidth - 2 * margin);
+    doc.text(notes, margin, yPos + 6);
+    yPos += notes.length * 5 + 10;
+  }
+
+  // KRA eTIMS block
+  if (data.fiscal) {
+    const textX = data.fiscal.qrDataUrl ? margin + 35 : margin;
+    if (data.fiscal.qrDataUrl) {
+      doc.addImage(data.fiscal.qrDataUrl, 'PNG', margin, yPos, 30, 30);
+    }
+
+    doc.setFont('helvetica', 'bold');
+    doc.text('KRA eTIMS', textX, yPos + 6);
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      [
+        `CU Invoice No: ${data.fiscal.cuInvoiceNumber}`,
+        `Receipt Signature: ${data.fiscal.signature || '-'}`,
+        `Signed: ${data.fiscal.signedAt ? formatDate(data.fiscal.signedAt, 'dd MMM yyyy HH:mm') : '-'}`,
+      ],
+      textX,
+      yPos + 12
+    );
+  }
+
+  // Footer
+  const footerY = pageHeight - 30;
+  doc.setDrawColor(200, 200, 200);
+  doc.line(margin, footerY, pageWidth - margin, footerY);
+
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'italic');
+  doc.text(
+    `Generated on ${formatDate(new Date(), 'PPP')} at ${formatDate(new Date(), 'p')}`,
+    pageWidth / 2,
+    footerY + 6,
+    { align: 'center' }
+  );
+
+  return doc;
+}
+
+/**
+ * Generate invoice PDF as buffer for download or email
+ */
+export async function generateInvoicePDFBuffer(invoiceId: string): Promise<Buffer> {
+  const data = await getInvoicePDFData(invoiceId);
+
+  if (!data) {
+    throw new Error('Invoice not found');
+  }
+
+  return Buffer.from(generateInvoicePDF(data).output('arraybuffer'));
+}
+
+/**
+ * Get invoice PDF filename
+ */
+export function getInvoiceFilename(invoiceNumber: string): string {
+  return `Invoice_${invoiceNumber}.pdf`;
+}
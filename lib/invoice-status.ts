@@ -3,25 +3,41 @@
  * Ensures accurate invoice status based on payment state
  */
 
+import Decimal from 'decimal.js';
 import prisma from '@/lib/prisma';
 import type { Prisma } from '@prisma/client';
+import type { TransactionClient } from '@/lib/types';
 import { calculateInvoiceStatus, InvoiceStatus, isInvoiceNotPaid } from '@/lib/payment-methods';
 
-type InvoiceWithPayments = Prisma.InvoiceGetPayload<{ include: { payments: true } }>;
+type InvoiceWithPayments = Prisma.InvoiceGetPayload<{ include: { payments: true; creditAllocations: true } }>;
 type InvoiceWithCustomerAndPayments = Prisma.InvoiceGetPayload<{
-  include: { customer: true; payments: true };
+  include: { customer: true; payments: true; creditAllocations: true };
 }>;
 
+/**
+ * What has been paid on an invoice: its confirmed payments plus any
+ * customer credit applied to it
+ */
+function getSettledAmount(invoice: { payments: { amount: number }[]; creditAllocations: { amount: number }[] }) {
+  return [...invoice.payments, ...invoice.creditAllocations].reduce((sum, p) => sum + p.amount, 0);
+}
+
 /**
  * Calculate and update invoice status based on actual payments
+ * @param invoiceId - Invoice to recalculate
+ * @param client - Existing transaction client (defaults to the shared client)
  */
-export async function calculateAndUpdateInvoiceStatus(invoiceId: string): Promise<InvoiceStatus> {
-  const invoice = await prisma.invoice.findUnique({
+export async function calculateAndUpdateInvoiceStatus(
+  invoiceId: string,
+  client: TransactionClient = prisma
+): Promise<InvoiceStatus> {
+  const invoice = await client.invoice.findUnique({
     where: { id: invoiceId },
     include: {
       payments: {
         where: { status: 'CONFIRMED' },
       },
+      creditAllocations: true,
     },
   });
 
@@ -29,8 +45,8 @@ export async function calculateAndUpdateInvoiceStatus(invoiceId: string): Promis
     throw new Error('Invoice not found');
   }
 
-  // Calculate actual paid amount from confirmed payments
-  const actualPaidAmount = invoice.payments.reduce((sum: number, p: { amount: number }) => sum + p.amount, 0);
+  // Calculate actual paid amount from confirmed payments and applied credit
+  const actualPaidAmount = getSettledAmount(invoice);
 
   // Calculate new status
   const newStatus = calculateInvoiceStatus(
@@ -42,7 +58,7 @@ export async function calculateAndUpdateInvoiceStatus(invoiceId: string): Promis
 
   // Update if changed
   if (newStatus !== invoice.status) {
-    await prisma.invoice.update({
+    await client.invoice.update({
       where: { id: invoiceId },
       data: {
         status: newStatus,
@@ -57,6 +73,41 @@ export async function calculateAndUpdateInvoiceStatus(invoiceId: string): Promis
   return newStatus;
 }
 
+/**
+ * Take reversed payments off an invoice. Adjusts the stored paid amount
+ * rather than recomputing it, so credit notes applied to the invoice (which
+ * have no payment rows) stay on it.
+ * @param invoiceId - Invoice the payments were against
+ * @param amount - Total of the reversed payments
+ * @param client - Existing transaction client (defaults to the shared client)
+ */
+export async function reverseInvoicePayments(
+  invoiceId: string,
+  amount: number | Decimal,
+  client: TransactionClient = prisma
+): Promise<InvoiceStatus> {
+  const invoice = await client.invoice.findUnique({ where: { id: invoiceId } });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  const paidAmount = Decimal.max(new Decimal(invoice.paidAmount).minus(amount), 0).toNumber();
+  const newStatus = calculateInvoiceStatus(invoice.totalAmount, paidAmount, invoice.dueDate, invoice.status);
+
+  await client.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      status: newStatus,
+      paidAmount,
+      balanceAmount: Math.max(new Decimal(invoice.totalAmount).minus(paidAmount).toNumber(), 0),
+      ...(newStatus !== InvoiceStatus.PAID && { paidDate: null }),
+    },
+  });
+
+  return newStatus;
+}
+
 /**
  * Get invoice with accurate status
  */
@@ -69,6 +120,7 @@ export async function getInvoiceWithAccurateStatus(invoiceId: string) {
         where: { status: 'CONFIRMED' },
         orderBy: { paymentDate: 'desc' },
       },
+      creditAllocations: true,
     },
   });
 
@@ -77,7 +129,7 @@ export async function getInvoiceWithAccurateStatus(invoiceId: string) {
   }
 
   // Calculate actual amounts
-  const actualPaidAmount = invoice.payments.reduce((sum: number, p: { amount: number }) => sum + p.amount, 0);
+  const actualPaidAmount = getSettledAmount(invoice);
   const actualStatus = calculateInvoiceStatus(
     invoice.totalAmount,
     actualPaidAmount,
@@ -105,12 +157,13 @@ export async function getCustomerInvoicesWithAccurateStatus(customerId: string)
       payments: {
         where: { status: 'CONFIRMED' },
       },
+      creditAllocations: true,
     },
     orderBy: { issueDate: 'desc' },
   });
 
   return invoices.map((invoice: InvoiceWithPayments) => {
-    const actualPaidAmount = invoice.payments.reduce((sum: number, p: { amount: number }) => sum + p.amount, 0);
+    const actualPaidAmount = getSettledAmount(invoice);
     const actualStatus = calculateInvoiceStatus(
       invoice.totalAmount,
       actualPaidAmount,
@@ -145,13 +198,14 @@ export async function getUnpaidInvoices(customerId?: string) {
       payments: {
         where: { status: 'CONFIRMED' },
       },
+      creditAllocations: true,
     },
     orderBy: { dueDate: 'asc' },
   });
 
   return invoices
     .map((invoice: InvoiceWithCustomerAndPayments) => {
-      const actualPaidAmount = invoice.payments.reduce((sum: number, p: { amount: number }) => sum + p.amount, 0);
+      const actualPaidAmount = getSettledAmount(invoice);
       const actualStatus = calculateInvoiceStatus(
         invoice.totalAmount,
         actualPaidAmount,
@@ -212,11 +266,12 @@ export async function recalculateCustomerInvoices(customerId: string) {
       payments: {
         where: { status: 'CONFIRMED' },
       },
+      creditAllocations: true,
     },
   });
 
   const updates = invoices.map(async (invoice: InvoiceWithPayments) => {
-    const actualPaidAmount = invoice.payments.reduce((sum: number, p: { amount: number }) => sum + p.amount, 0);
+    const actualPaidAmount = getSettledAmount(invoice);
     const newStatus = calculateInvoiceStatus(
       invoice.totalAmount,
       actualPaidAmount,
@@ -0,0 +1,362 @@
+/**
+ * Invoices raised directly (service invoices, fees) rather than from POS
+ * checkout or a sales order
+ *
+ * Lines are product or free-text with a quantity, unit price, discount and
+ * tax code; header totals are always computed from the lines. Invoices
+ * start as DRAFT and can be edited freely until they are SENT, at which
+ * point the customer's balance is raised, the invoice is posted to the
+ * ledger and any unapplied credit the customer holds is applied to it.
+ * Invoices issued by a user are first checked against the customer's
+ * credit limit and hold; scheduled ones (recurring, late fees) are not.
+ * An invoice in a foreign currency takes the rate on file for its issue
+ * date unless one is entered; balances and the ledger are in the base
+ * currency at that rate.
+ */
+
+import Decimal from 'decimal.js';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import type { CreateInvoiceInput, InvoiceItemInput, UpdateInvoiceInput } from './validations';
+import { calculateLineTotal, computeTaxTotals, DEFAULT_TAX_CODE, getTaxCodeRate } from './tax';
+import { postInvoiceCreated } from './accounting';
+import { allocateDocumentNumber } from './document-sequences';
+import { queueFiscalDocument } from './etims';
+import { checkCreditLimit, type CreditCheckResult } from './credit-control';
+import { isBaseCurrency, resolveDocumentCurrency, toBaseAmount } from './exchange-rates';
+import {
+  applyCustomerCredit,
+  isAutoApplyCustomerCreditEnabled,
+  type CustomerCreditApplication,
+} from './customer-credit';
+
+export interface ComputedInvoiceLine {
+  productId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  taxCode: string;
+  taxRate: number;
+  netAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  sortOrder: number;
+}
+
+/**
+ * Resolve product lines and compute line and header totals
+ * Product lines default their description and unit price from the product.
+ *
+ * @param items - Validated invoice lines
+ * @param client - Existing transaction client
+ */
+export async function computeInvoiceLines(
+  items: InvoiceItemInput[],
+  client: TransactionClient = prisma
+) {
+  const productIds = items.map((item) => item.productId).filter((id): id is string => !!id);
+  const products = productIds.length
+    ? await client.product.findMany({
+        where: { id: { in: productIds } },
+        select: { id: true, name: true, price: true },
+      })
+    : [];
+
+  let subtotal = new Decimal(0);
+  let taxAmount = new Decimal(0);
+
+  const lines: ComputedInvoiceLine[] = items.map((item, index) => {
+    const product = item.productId ? products.find((p) => p.id === item.productId) : undefined;
+
+    if (item.productId && !product) {
+      throw new Error(`Product not found on line ${index + 1}`);
+    }
+
+    const unitPrice = item.unitPrice ?? product!.price;
+    const taxCode = item.taxCode ?? DEFAULT_TAX_CODE;
+    const netAmount = calculateLineTotal({
+      unitPrice,
+      quantity: item.quantity,
+      discount: item.discount,
+    });
+    const tax = computeTaxTotals({ amount: netAmount, taxRatePercent: getTaxCodeRate(taxCode) });
+
+    subtotal = subtotal.plus(tax.taxableAmount);
+    taxAmount = taxAmount.plus(tax.taxAmount);
+
+    return {
+      productId: item.productId ?? null,
+      description: item.description || product!.name,
+      quantity: item.quantity,
+      unitPrice,
+      discount: item.discount ?? 0,
+      taxCode,
+      taxRate: tax.taxRatePercent,
+      netAmount: tax.taxableAmount,
+      taxAmount: tax.taxAmount,
+      totalAmount: tax.totalAmount,
+      sortOrder: index,
+    };
+  });
+
+  return {
+    lines,
+    subtotal: subtotal.toNumber(),
+    taxAmount: taxAmount.toNumber(),
+    totalAmount: subtotal.plus(taxAmount).toNumber(),
+  };
+}
+
+/**
+ * Credit control for an invoice being issued by a user
+ */
+export interface InvoiceCreditOptions {
+  /** Reason given to go over the customer's credit limit */
+  overrideReason?: string;
+  /** Whether the user holds credit.override */
+  canOverride: boolean;
+}
+
+/**
+ * Raise the customer's balance, post a SENT invoice to the ledger, apply
+ * the customer's unapplied credit and queue it for eTIMS
+ * @returns The credit check, when one was asked for, and any credit applied
+ */
+async function issueInvoice(
+  tx: TransactionClient,
+  invoice: {
+    id: string;
+    invoiceNumber: string;
+    customerId: string;
+    totalAmount: number;
+    issueDate: Date;
+    currency: string;
+    exchangeRate: number;
+  },
+  userId: string,
+  credit?: InvoiceCreditOptions
+): Promise<{ creditCheck: CreditCheckResult | null; creditApplied: CustomerCreditApplication | null }> {
+  const baseTotal = toBaseAmount(invoice.totalAmount, invoice.exchangeRate).toNumber();
+
+  const creditCheck = credit
+    ? await checkCreditLimit(invoice.customerId, baseTotal, { ...credit, excludeInvoiceId: invoice.id }, tx)
+    : null;
+
+  await tx.customer.update({
+    where: { id: invoice.customerId },
+    data: {
+      totalOutstanding: { increment: baseTotal },
+      currentBalance: { increment: baseTotal },
+    },
+  });
+
+  await postInvoiceCreated(
+    invoice.id,
+    invoice.customerId,
+    invoice.totalAmount,
+    userId,
+    `Invoice ${invoice.invoiceNumber} issued`,
+    invoice.issueDate,
+    tx,
+    isBaseCurrency(invoice.currency) ? undefined : { currency: invoice.currency, rate: invoice.exchangeRate }
+  );
+
+  const creditApplied = isAutoApplyCustomerCreditEnabled()
+    ? await applyCustomerCredit(tx, invoice.id, userId, { automatic: true })
+    : null;
+
+  await queueFiscalDocument(tx, 'INVOICE', invoice.id, invoice.invoiceNumber);
+
+  return { creditCheck, creditApplied };
+}
+
+function parseInvoiceDates(issueDate: string | Date, dueDate: string | Date) {
+  const issue = new Date(issueDate);
+  const due = new Date(dueDate);
+
+  if (Number.isNaN(issue.getTime()) || Number.isNaN(due.getTime())) {
+    throw new Error('Invalid issue or due date');
+  }
+
+  if (due < issue) {
+    throw new Error('Due date cannot be before the issue date');
+  }
+
+  return { issueDate: issue, dueDate: due };
+}
+
+/**
+ * Create an invoice from lines, as DRAFT or issued straight away as SENT
+ * @param input - Validated invoice input
+ * @param userId - User creating the invoice
+ * @param client - Existing transaction client, to create as part of a larger transaction
+ * @param credit - Apply credit control if the invoice is issued
+ * @returns The invoice, with the credit check when one was made and any customer credit applied
+ */
+export async function createInvoice(
+  input: CreateInvoiceInput,
+  userId: string,
+  client?: TransactionClient,
+  credit?: Omit<InvoiceCreditOptions, 'overrideReason'>
+) {
+  const dates = parseInvoiceDates(input.issueDate, input.dueDate);
+
+  const execute = async (tx: TransactionClient) => {
+    const customer = await tx.customer.findUnique({
+      where: { id: input.customerId },
+      select: { id: true },
+    });
+
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    if (input.invoiceNumber) {
+      const existing = await tx.invoice.findUnique({
+        where: { invoiceNumber: input.invoiceNumber },
+        select: { id: true },
+      });
+
+      if (existing) {
+        throw new Error(`Invoice number ${input.invoiceNumber} already exists`);
+      }
+    }
+
+    const totals = await computeInvoiceLines(input.items, tx);
+    const currency = await resolveDocumentCurrency(input.currency, dates.issueDate, input.exchangeRate, tx);
+    const invoiceNumber = input.invoiceNumber || (await allocateDocumentNumber(tx, 'INVOICE', { date: dates.issueDate }));
+
+    const invoice = await tx.invoice.create({
+      data: {
+        invoiceNumber,
+        customerId: input.customerId,
+        subtotal: totals.subtotal,
+        taxAmount: totals.taxAmount,
+        totalAmount: totals.totalAmount,
+        paidAmount: 0,
+        balanceAmount: totals.totalAmount,
+        ...currency,
+        status: input.status,
+        ...dates,
+        description: input.description,
+        notes: input.notes,
+        items: { create: totals.lines },
+      },
+      include: { items: { orderBy: { sortOrder: 'asc' } } },
+    });
+
+    if (invoice.status !== 'SENT') {
+      return { ...invoice, creditCheck: null, creditApplied: null };
+    }
+
+    const issued = await issueInvoice(tx, invoice, userId, credit && { ...credit, overrideReason: input.creditOverrideReason });
+
+    return { ...invoice, ...issued.creditApplied?.invoice, ...issued };
+  };
+
+  if (client) {
+    return execute(client);
+  }
+
+  return prisma.$transaction(execute);
+}
+
+/**
+ * Update an invoice. Lines, customer and dates can only change while the
+ * invoice is a DRAFT; a DRAFT can then be SENT (posting it) or CANCELLED.
+ * Issued invoices are corrected with credit notes instead.
+ *
+ * @param invoiceId - Invoice ID
+ * @param input - Validated changes
+ * @param userId - User making the change
+ * @param credit - Apply credit control if the invoice is sent
+ * @returns The updated invoice, the status it had before, any credit check and any customer credit applied
+ */
+export async function updateInvoice(
+  invoiceId: string,
+  input: UpdateInvoiceInput,
+  userId: string,
+  credit?: Omit<InvoiceCreditOptions, 'overrideReason'>
+) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+    });
+
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    const { status, items, creditOverrideReason, ...header } = input;
+    const changesCurrency =
+      header.currency !== undefined || header.exchangeRate !== undefined || header.issueDate !== undefined;
+    const editsDraftFields =
+      !!items || changesCurrency || header.customerId !== undefined || header.dueDate !== undefined;
+
+    // Notes and description can be changed at any time
+    if (invoice.status !== 'DRAFT' && (editsDraftFields || status)) {
+      throw new Error(`Only draft invoices can be edited (invoice is ${invoice.status})`);
+    }
+
+    if (header.customerId && header.customerId !== invoice.customerId) {
+      const customer = await tx.customer.findUnique({
+        where: { id: header.customerId },
+        select: { id: true },
+      });
+
+      if (!customer) {
+        throw new Error('Customer not found');
+      }
+    }
+
+    const dates = parseInvoiceDates(header.issueDate ?? invoice.issueDate, header.dueDate ?? invoice.dueDate);
+    const totals = items ? await computeInvoiceLines(items, tx) : null;
+
+    // A rate entered earlier is kept unless the currency or issue date changes
+    const currency = changesCurrency
+      ? await resolveDocumentCurrency(
+          header.currency ?? invoice.currency,
+          dates.issueDate,
+          header.exchangeRate ??
+            (header.currency === undefined && header.issueDate === undefined ? invoice.exchangeRate : undefined),
+          tx
+        )
+      : null;
+
+    if (totals) {
+      await tx.invoiceItem.deleteMany({ where: { invoiceId } });
+    }
+
+    const updated = await tx.invoice.update({
+      where: { id: invoiceId },
+      data: {
+        ...(header.customerId && { customerId: header.customerId }),
+        ...dates,
+        ...currency,
+        ...(header.description !== undefined && { description: header.description }),
+        ...(header.notes !== undefined && { notes: header.notes }),
+        ...(totals && {
+          subtotal: totals.subtotal,
+          taxAmount: totals.taxAmount,
+          totalAmount: totals.totalAmount,
+          balanceAmount: totals.totalAmount,
+          items: { create: totals.lines },
+        }),
+        ...(status && { status }),
+      },
+      include: { items: { orderBy: { sortOrder: 'asc' } } },
+    });
+
+    if (invoice.status === 'DRAFT' && status === 'SENT') {
+      if (updated.items.length === 0) {
+        throw new Error('An invoice needs at least one line before it is sent');
+      }
+
+      const issued = await issueInvoice(tx, updated, userId, credit && { ...credit, overrideReason: creditOverrideReason });
+      return { invoice: { ...updated, ...issued.creditApplied?.invoice }, previousStatus: invoice.status, ...issued };
+    }
+
+    return { invoice: updated, previousStatus: invoice.status, creditCheck: null, creditApplied: null };
+  });
+}
@@ -0,0 +1,299 @@
+/**
+ * Late Payment Charges
+ *
+ * Policies set a one-off flat fee, a monthly interest rate on the overdue
+ * balance, a grace period after the due date and an optional cap on the
+ * total charged against any one invoice. Customers use their own policy or
+ * the default one.
+ *
+ * The monthly run raises a fee invoice for each chargeable overdue invoice,
+ * linked back to it, and posts it to interest income. A charge is keyed on
+ * the overdue invoice and the month, so re-running a month (or running it
+ * daily) never charges the same invoice twice. Fees are charged in the
+ * base currency, on the base currency value of a foreign-currency balance
+ * at the rate the invoice was raised at.
+ */
+
+import Decimal from 'decimal.js';
+import { differenceInCalendarDays, format, subDays } from 'date-fns';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import type { LateFeePolicyInput } from './validations';
+import { ACCOUNT_CODES, postLateFeeCharged } from './accounting';
+import { allocateDocumentNumber } from './document-sequences';
+import { queueFiscalDocument } from './etims';
+import { toBaseAmount } from './exchange-rates';
+
+const OPEN_INVOICE_STATUSES = ['SENT', 'PARTIALLY_PAID', 'OVERDUE'];
+
+interface LateFeeTerms {
+  flatFee: number;
+  monthlyRate: number;
+  maxTotalFee: number | null;
+}
+
+/**
+ * Charge for one month on an overdue balance
+ * @param policy - Fee terms
+ * @param balance - Overdue balance
+ * @param chargedSoFar - Total already charged against the invoice
+ * @param isFirstCharge - Whether the flat fee is still due
+ * @returns The flat fee, interest and total after applying the cap
+ */
+export function calculateLateFee(
+  policy: LateFeeTerms,
+  balance: number,
+  chargedSoFar: number,
+  isFirstCharge: boolean
+) {
+  let flatFee = new Decimal(isFirstCharge ? policy.flatFee : 0);
+  let interest = new Decimal(balance).times(policy.monthlyRate).dividedBy(100).toDecimalPlaces(2);
+
+  if (policy.maxTotalFee !== null) {
+    const remaining = Decimal.max(new Decimal(policy.maxTotalFee).minus(chargedSoFar), 0);
+    flatFee = Decimal.min(flatFee, remaining);
+    interest = Decimal.min(interest, remaining.minus(flatFee));
+  }
+
+  return {
+    flatFee: flatFee.toNumber(),
+    interestAmount: interest.toNumber(),
+    amount: flatFee.plus(interest).toNumber(),
+  };
+}
+
+/**
+ * Create a late fee policy
+ * @param input - Validated policy input
+ * @param userId - User creating it; scheduled charges under the policy are posted as them
+ */
+export async function createLateFeePolicy(input: LateFeePolicyInput, userId: string) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    if (input.isDefault) {
+      await tx.lateFeePolicy.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+    }
+
+    return tx.lateFeePolicy.create({ data: { ...input, createdBy: userId } });
+  });
+}
+
+/**
+ * Update a late fee policy. New terms apply from the next charge; months
+ * already charged are not recalculated.
+ * @param policyId - Policy ID
+ * @param input - Validated changes
+ */
+export async function updateLateFeePolicy(policyId: string, input: Partial<LateFeePolicyInput>) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const policy = await tx.lateFeePolicy.findUnique({ where: { id: policyId } });
+
+    if (!policy) {
+      throw new Error('Late fee policy not found');
+    }
+
+    const flatFee = input.flatFee ?? policy.flatFee;
+    const monthlyRate = input.monthlyRate ?? policy.monthlyRate;
+    if (flatFee <= 0 && monthlyRate <= 0) {
+      throw new Error('Set a flat fee, a monthly rate or both');
+    }
+
+    if (input.isDefault) {
+      await tx.lateFeePolicy.updateMany({
+        where: { isDefault: true, id: { not: policyId } },
+        data: { isDefault: false },
+      });
+    }
+
+    return tx.lateFeePolicy.update({ where: { id: policyId }, data: input });
+  });
+}
+
+/**
+ * Charge late fees on every overdue invoice for the month of `asOf`
+ *
+ * Fee invoices themselves are never charged, so interest does not compound.
+ *
+ * @param options.asOf - Date to run as of (defaults to now); picks the month charged
+ * @param options.triggeredBy - User for manual runs; scheduled runs post as each policy's creator
+ * @param options.dryRun - Only calculate what would be charged
+ * @returns The month charged and one result per chargeable invoice
+ */
+export async function runLateFees(
+  options: { asOf?: Date; triggeredBy?: string; dryRun?: boolean } = {}
+) {
+  const asOf = options.asOf ?? new Date();
+  const period = format(asOf, 'yyyyMM');
+  const policies = await prisma.lateFeePolicy.findMany({ where: { isActive: true } });
+  const defaultPolicy = policies.find((policy) => policy.isDefault);
+
+  const results: {
+    invoiceId: string;
+    invoiceNumber: string;
+    customerName: string;
+    balanceAmount: number;
+    daysOverdue: number;
+    amount: number;
+    feeInvoiceNumber?: string;
+    error?: string;
+  }[] = [];
+
+  if (policies.length === 0) {
+    return { period, dryRun: !!options.dryRun, charged: 0, failed: 0, totalAmount: 0, results };
+  }
+
+  if (!options.dryRun) {
+    const interestAccount = await prisma.account.findUnique({
+      where: { accountCode: ACCOUNT_CODES.INTEREST_INCOME },
+      select: { id: true },
+    });
+
+    if (!interestAccount) {
+      throw new Error(`Interest income account ${ACCOUNT_CODES.INTEREST_INCOME} not found in the chart of accounts`);
+    }
+  }
+
+  const minGraceDays = Math.min(...policies.map((policy) => policy.graceDays));
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      status: { in: OPEN_INVOICE_STATUSES },
+      balanceAmount: { gt: 0 },
+      dueDate: { lt: subDays(asOf, minGraceDays) },
+      customer: { isActive: true },
+      lateFeeFor: null,
+      lateFeeCharges: { none: { period } },
+    },
+    include: {
+      customer: { select: { id: true, name: true, lateFeePolicyId: true } },
+      lateFeeCharges: { select: { amount: true } },
+    },
+    orderBy: { dueDate: 'asc' },
+  });
+
+  for (const invoice of invoices) {
+    const policy =
+      policies.find((candidate) => candidate.id === invoice.customer.lateFeePolicyId) ?? defaultPolicy;
+
+    if (!policy) {
+      continue;
+    }
+
+    const daysOverdue = differenceInCalendarDays(asOf, invoice.dueDate);
+    if (daysOverdue <= policy.graceDays) {
+      continue;
+    }
+
+    const balanceAmount = toBaseAmount(invoice.balanceAmount, invoice.exchangeRate).toNumber();
+    const chargedSoFar = invoice.lateFeeCharges.reduce((sum, charge) => sum + charge.amount, 0);
+    const fee = calculateLateFee(policy, balanceAmount, chargedSoFar, invoice.lateFeeCharges.length === 0);
+
+    if (fee.amount <= 0) {
+      continue;
+    }
+
+    const result: (typeof results)[number] = {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      customerName: invoice.customer.name,
+      balanceAmount,
+      daysOverdue,
+      amount: fee.amount,
+    };
+    results.push(result);
+
+    if (options.dryRun) {
+      continue;
+    }
+
+    const description = `Late payment charge on ${invoice.invoiceNumber} for ${format(asOf, 'MMMM yyyy')}`;
+    const userId = options.triggeredBy ?? policy.createdBy;
+
+    try {
+      result.feeInvoiceNumber = await prisma.$transaction(async (tx: TransactionClient) => {
+        const feeInvoice = await tx.invoice.create({
+          data: {
+            invoiceNumber: await allocateDocumentNumber(tx, 'INVOICE', { date: asOf }),
+            customerId: invoice.customerId,
+            subtotal: fee.amount,
+            taxAmount: 0,
+            totalAmount: fee.amount,
+            paidAmount: 0,
+            balanceAmount: fee.amount,
+            status: 'SENT',
+            issueDate: asOf,
+            dueDate: asOf,
+            description,
+            items: {
+              create: [
+                ...(fee.flatFee > 0
+                  ? [{ description: `Late payment fee - ${invoice.invoiceNumber}`, amount: fee.flatFee, sortOrder: 0 }]
+                  : []),
+                ...(fee.interestAmount > 0
+                  ? [
+                      {
+                        description: `Interest at ${policy.monthlyRate}% on overdue balance of ${invoice.invoiceNumber}`,
+                        amount: fee.interestAmount,
+                        sortOrder: 1,
+                      },
+                    ]
+                  : []),
+              ].map(({ amount, ...line }) => ({
+                ...line,
+                quantity: 1,
+                unitPrice: amount,
+                taxCode: 'EXEMPT',
+                taxRate: 0,
+                netAmount: amount,
+                taxAmount: 0,
+                totalAmount: amount,
+              })),
+            },
+          },
+        });
+
+        // Fails on the (invoice, period) key if a concurrent run got here first
+        await tx.lateFeeCharge.create({
+          data: {
+            invoiceId: invoice.id,
+            feeInvoiceId: feeInvoice.id,
+            customerId: invoice.customerId,
+            policyId: policy.id,
+            period,
+            balanceAmount,
+            daysOverdue,
+            flatFee: fee.flatFee,
+            interestAmount: fee.interestAmount,
+            amount: fee.amount,
+            createdBy: options.triggeredBy,
+          },
+        });
+
+        await tx.customer.update({
+          where: { id: invoice.customerId },
+          data: {
+            totalOutstanding: { increment: fee.amount },
+            currentBalance: { increment: fee.amount },
+          },
+        });
+
+        await postLateFeeCharged(feeInvoice.id, invoice.customerId, fee.amount, userId, description, asOf, tx);
+        await queueFiscalDocument(tx, 'INVOICE', feeInvoice.id, feeInvoice.invoiceNumber);
+
+        return feeInvoice.invoiceNumber;
+      });
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Failed to charge late fee';
+    }
+  }
+
+  const charged = results.filter((result) => !result.error);
+
+  return {
+    period,
+    dryRun: !!options.dryRun,
+    charged: options.dryRun ? 0 : charged.length,
+    failed: results.length - charged.length,
+    totalAmount: new Decimal(charged.reduce((sum, result) => sum + result.amount, 0)).toDecimalPlaces(2).toNumber(),
+    results,
+  };
+}
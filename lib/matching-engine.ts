@@ -5,18 +5,43 @@
  * bank transactions to customers and invoices.
  * 
  * Matching strategies:
+ * R. Active reconciliation rules (explicit or learned), by priority
+ * 0. M-Pesa Paybill account number / payer MSISDN
  * 1. Exact invoice number match
  * 2. Exact customer code match
- * 3. Amount + customer fuzzy match
+ * 3. Fuzzy customer name / alias similarity
  * 4. Reference pattern matching
+ *
+ * Debits (money out) are posted by bank posting rules (bank-posting-rules.ts)
+ * or matched to supplier payments, expenses and open supplier bills
+ * (debit-matching.ts).
+ *
+ * Transactions left UNMATCHED open an exception in the work queue
+ * (reconciliation-exceptions.ts), which closes once they are reconciled.
  */
 
 import prisma from './prisma';
 import type { TransactionClient } from './types';
-import { postPaymentReceived } from './accounting';
-import { decimal } from './utils';
+import { ACCOUNT_CODES, postCustomerDepositReceived, postPaymentReceived, reverseLedgerTransaction } from './accounting';
+import { getExchangeRate, isBaseCurrency, toBaseAmount } from './exchange-rates';
+import { reverseInvoicePayments } from './invoice-status';
+import { decimal, normalizeMsisdn } from './utils';
+import { calculateInvoiceStatus } from './payment-methods';
+import { findMatchingRule, recordRuleHit } from './reconciliation-rules';
+import { findNameCandidates, nameMatchConfidence } from './name-matching';
+import { autoMatchDebit, reconcileDebit, releaseDebitMatch } from './debit-matching';
+import { applyPostingRule, findPostingRule } from './bank-posting-rules';
+import { openException, resolveExceptionForTransaction } from './reconciliation-exceptions';
 import Decimal from 'decimal.js';
 
+export interface MatchCandidate {
+  customerId: string;
+  customerCode: string;
+  customerName: string;
+  confidence: number;
+  reason: string;
+}
+
 export interface MatchResult {
   success: boolean;
   matchType: 'EXACT' | 'FUZZY' | 'PARTIAL' | 'NONE';
@@ -25,6 +50,160 @@ export interface MatchResult {
   invoiceId?: string;
   matchedAmount?: number;
   reason?: string;
+  ruleId?: string; // Set when a reconciliation rule produced the match
+  alternatives?: MatchCandidate[]; // Runner-up customers for manual review
+}
+
+const OPEN_INVOICE_STATUSES = ['SENT', 'PARTIALLY_PAID', 'OVERDUE'];
+
+/**
+ * Compare a customer's phone with a (possibly masked) payer MSISDN
+ * e.g. "+254712345678" matches "2547****5678"
+ */
+function msisdnMatches(customerPhone: string, msisdn: string): boolean {
+  const phone = normalizeMsisdn(customerPhone);
+  if (phone.length !== msisdn.length) return false;
+
+  return msisdn.split('').every((digit, i) => digit === '*' || digit === phone[i]);
+}
+
+/**
+ * Match on payer details captured from M-Pesa statements: the Paybill
+ * account number (invoice number or customer code) and the payer MSISDN
+ */
+async function matchPayerDetails(
+  transaction: { accountReference: string | null; counterpartyPhone: string | null },
+  amount: Decimal
+): Promise<MatchResult | null> {
+  const accountReference = transaction.accountReference?.trim();
+
+  if (accountReference) {
+    // Account number as invoice number
+    const invoice = await prisma.invoice.findFirst({
+      where: {
+        invoiceNumber: { equals: accountReference, mode: 'insensitive' },
+        status: { in: OPEN_INVOICE_STATUSES },
+      },
+    });
+
+    if (invoice) {
+      const balanceAmount = new Decimal(invoice.balanceAmount);
+
+      if (amount.sub(balanceAmount).abs().lte(balanceAmount.mul(0.01))) {
+        return {
+          success: true,
+          matchType: 'EXACT',
+          confidence: 95,
+          customerId: invoice.customerId,
+          invoiceId: invoice.id,
+          matchedAmount: amount.toNumber(),
+          reason: `Paybill account number matched invoice ${invoice.invoiceNumber}`,
+        };
+      }
+
+      if (amount.lt(balanceAmount)) {
+        return {
+          success: true,
+          matchType: 'PARTIAL',
+          confidence: 90,
+          customerId: invoice.customerId,
+          invoiceId: invoice.id,
+          matchedAmount: amount.toNumber(),
+          reason: `Partial Paybill payment for invoice ${invoice.invoiceNumber}`,
+        };
+      }
+
+      return {
+        success: true,
+        matchType: 'FUZZY',
+        confidence: 75,
+        customerId: invoice.customerId,
+        matchedAmount: amount.toNumber(),
+        reason: `Paybill payment exceeds balance of invoice ${invoice.invoiceNumber}`,
+      };
+    }
+
+    // Account number as customer code
+    const customer = await prisma.customer.findFirst({
+      where: {
+        customerCode: { equals: accountReference, mode: 'insensitive' },
+        isActive: true,
+      },
+    });
+
+    if (customer) {
+      const oldestInvoice = await prisma.invoice.findFirst({
+        where: { customerId: customer.id, status: { in: OPEN_INVOICE_STATUSES } },
+        orderBy: { dueDate: 'asc' },
+      });
+
+      if (oldestInvoice && amount.lte(new Decimal(oldestInvoice.balanceAmount).mul(1.01))) {
+        return {
+          success: true,
+          matchType: 'FUZZY',
+          confidence: 85,
+          customerId: customer.id,
+          invoiceId: oldestInvoice.id,
+          matchedAmount: amount.toNumber(),
+          reason: `Paybill account number matched customer ${customer.customerCode}, applied to oldest invoice`,
+        };
+      }
+
+      return {
+        success: true,
+        matchType: 'FUZZY',
+        confidence: 75,
+        customerId: customer.id,
+        matchedAmount: amount.toNumber(),
+        reason: `Paybill account number matched customer ${customer.customerCode}, no specific invoice`,
+      };
+    }
+  }
+
+  const msisdn = transaction.counterpartyPhone;
+  const visibleSuffix = msisdn?.split('*').pop() || '';
+
+  if (msisdn && visibleSuffix.length >= 3) {
+    // Narrow by the visible trailing digits, then compare the full (masked) number
+    const candidates = await prisma.customer.findMany({
+      where: {
+        isActive: true,
+        phone: { endsWith: visibleSuffix.slice(-9) },
+      },
+      select: { id: true, customerCode: true, phone: true },
+    });
+
+    const customers = candidates.filter((c) => c.phone && msisdnMatches(c.phone, msisdn));
+
+    if (customers.length === 1) {
+      const customer = customers[0];
+      const invoice = await prisma.invoice.findFirst({
+        where: {
+          customerId: customer.id,
+          status: { in: OPEN_INVOICE_STATUSES },
+          balanceAmount: {
+            gte: amount.mul(0.99).toNumber(),
+            lte: amount.mul(1.01).toNumber(),
+          },
+        },
+        orderBy: { dueDate: 'asc' },
+      });
+
+      return {
+        success: true,
+        matchType: 'FUZZY',
+        confidence: invoice ? 75 : 65,
+        customerId: customer.id,
+        invoiceId: invoice?.id,
+        matchedAmount: amount.toNumber(),
+        reason: invoice
+          ? `Payer phone matched customer ${customer.customerCode} and invoice amount`
+          : `Payer phone matched customer ${customer.customerCode}`,
+      };
+    }
+  }
+
+  return null;
 }
 
 /**
@@ -48,9 +227,54 @@ export async function autoMatchTransaction(
     throw new Error('Transaction has already been processed');
   }
 
+  // Debits (money out) are never customer receipts
+  if (transaction.amount <= 0) {
+    return {
+      success: false,
+      matchType: 'NONE',
+      confidence: 0,
+      reason: 'Debit transaction - not a customer payment',
+    };
+  }
+
   const reference = transaction.reference.toUpperCase().trim();
   const amount = new Decimal(transaction.amount);
 
+  // Rules: explicit and learned reconciliation rules run first
+  const rule = await findMatchingRule(transaction);
+  if (rule) {
+    const invoice = await prisma.invoice.findFirst({
+      where: {
+        customerId: rule.customerId,
+        status: { in: OPEN_INVOICE_STATUSES },
+        balanceAmount: {
+          gte: amount.mul(0.99).toNumber(),
+          lte: amount.mul(1.01).toNumber(),
+        },
+      },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    return {
+      success: true,
+      matchType: invoice ? 'EXACT' : 'FUZZY',
+      confidence: rule.confidence,
+      customerId: rule.customerId,
+      invoiceId: invoice?.id,
+      matchedAmount: amount.toNumber(),
+      reason: invoice
+        ? `Rule "${rule.name}" matched customer ${rule.customer.customerCode}, invoice ${invoice.invoiceNumber}`
+        : `Rule "${rule.name}" matched customer ${rule.customer.customerCode}`,
+      ruleId: rule.id,
+    };
+  }
+
+  // Strategy 0: Paybill account number / payer MSISDN
+  const payerMatch = await matchPayerDetails(transaction, amount);
+  if (payerMatch) {
+    return payerMatch;
+  }
+
   // Strategy 1: Try to extract and match invoice number
   const invoiceMatch = reference.match(/INV[- ]?(\d{4}[- ]?\d{4})/i);
   if (invoiceMatch) {
@@ -150,52 +374,45 @@ export async function autoMatchTransaction(
     }
   }
 
-  // Strategy 3: Search for customer by name in reference
-  const customers = await prisma.customer.findMany({
-    where: { isActive: true },
-    select: { id: true, name: true, customerCode: true },
-  });
-
-  for (const customer of customers) {
-    const customerNamePattern = customer.name
-      .toUpperCase()
-      .split(' ')
-      .filter((word: string) => word.length > 3); // Only significant words
+  // Strategy 3: Fuzzy customer name / alias similarity
+  const candidates = await findNameCandidates(
+    [transaction.reference, transaction.counterpartyName].filter(Boolean).join(' ')
+  );
 
-    const matchedWords = customerNamePattern.filter((word: string) =>
-      reference.includes(word)
-    );
+  if (candidates.length > 0) {
+    const [best, runnerUp] = candidates;
+    const ambiguous = !!runnerUp && best.score - runnerUp.score < 0.1;
 
-    if (matchedWords.length > 0 && matchedWords.length >= customerNamePattern.length * 0.5) {
-      // Find matching invoice by amount
-      const invoice = await prisma.invoice.findFirst({
-        where: {
-          customerId: customer.id,
-          status: {
-            in: ['SENT', 'PARTIALLY_PAID', 'OVERDUE'],
-          },
-          balanceAmount: {
-            gte: amount.mul(0.99).toNumber(),
-            lte: amount.mul(1.01).toNumber(),
-          },
-        },
-        orderBy: {
-          dueDate: 'asc',
+    const invoice = await prisma.invoice.findFirst({
+      where: {
+        customerId: best.customerId,
+        status: { in: OPEN_INVOICE_STATUSES },
+        balanceAmount: {
+          gte: amount.mul(0.99).toNumber(),
+          lte: amount.mul(1.01).toNumber(),
         },
-      });
+      },
+      orderBy: { dueDate: 'asc' },
+    });
 
-      if (invoice) {
-        return {
-          success: true,
-          matchType: 'FUZZY',
-          confidence: 65,
-          customerId: customer.id,
-          invoiceId: invoice.id,
-          matchedAmount: amount.toNumber(),
-          reason: `Fuzzy matched customer name and amount`,
-        };
-      }
-    }
+    return {
+      success: true,
+      matchType: 'FUZZY',
+      confidence: nameMatchConfidence(best.score, !!invoice, ambiguous),
+      customerId: best.customerId,
+      invoiceId: invoice?.id,
+      matchedAmount: amount.toNumber(),
+      reason: invoice
+        ? `Customer name "${best.matchedOn}" ${Math.round(best.score * 100)}% similar, amount matched ${invoice.invoiceNumber}`
+        : `Customer name "${best.matchedOn}" ${Math.round(best.score * 100)}% similar`,
+      alternatives: candidates.slice(1).map((candidate) => ({
+        customerId: candidate.customerId,
+        customerCode: candidate.customerCode,
+        customerName: candidate.customerName,
+        confidence: nameMatchConfidence(candidate.score, false, false),
+        reason: `Customer name "${candidate.matchedOn}" ${Math.round(candidate.score * 100)}% similar`,
+      })),
+    };
   }
 
   // Strategy 4: Amount-based matching for unique amounts
@@ -234,35 +451,75 @@ export async function autoMatchTransaction(
   };
 }
 
+export type AllocationMode = 'OLDEST_FIRST' | 'MANUAL';
+
+export interface InvoiceAllocation {
+  invoiceId: string;
+  amount: number;
+}
+
+export interface AllocateBankTransactionOptions {
+  bankTransactionId: string;
+  customerId: string;
+  userId: string;
+  /** OLDEST_FIRST spreads the receipt over open invoices by due date; MANUAL uses `allocations` */
+  mode?: AllocationMode;
+  /** Invoice amounts for MANUAL mode */
+  allocations?: InvoiceAllocation[];
+  /** Limit OLDEST_FIRST to these invoices (in this order) */
+  invoiceIds?: string[];
+  action?: 'AUTO_MATCHED' | 'MANUAL_MATCHED';
+  notes?: string;
+}
+
+export interface AllocationResult {
+  bankTransactionId: string;
+  customerId: string;
+  amount: number;
+  allocatedAmount: number;
+  creditAmount: number; // Unallocated remainder held as customer credit
+  payments: Array<{
+    id: string;
+    invoiceId: string | null;
+    invoiceNumber?: string;
+    amount: number;
+    reference: string;
+  }>;
+}
+
 /**
- * Process and reconcile a matched transaction
- * Creates payment record and posts to ledger
- * 
- * @param bankTransactionId - Bank transaction ID
- * @param customerId - Matched customer ID
- * @param invoiceId - Matched invoice ID (optional)
- * @param userId - User performing reconciliation
- * @param notes - Additional notes
+ * Allocate a bank receipt across one or more invoices of a customer
+ *
+ * Creates one Payment per invoice allocation. Any unallocated remainder is
+ * recorded as an on-account Payment (no invoice) and stays as customer credit.
+ * Each payment is posted to the ledger (DR the statement's bank cash
+ * account, CR AR) in the same database transaction, so a failed posting
+ * leaves nothing behind. A receipt is only allocated to invoices in its own
+ * currency; for a foreign currency, the payments take the rate for the
+ * transaction date and any difference from an invoice's rate is realised FX.
+ *
+ * @param options - Allocation options
+ * @returns Allocation summary with the created payments
  */
-export async function reconcileTransaction(
-  bankTransactionId: string,
-  customerId: string,
-  invoiceId: string | undefined,
-  userId: string,
-  notes?: string
-) {
-  type ReconcileResult = {
-    payment: { id: string; reference: string };
-    customerId: string;
-    invoiceId?: string;
-    amount: number;
-    paymentDate: Date;
-  };
+export async function allocateBankTransaction(
+  options: AllocateBankTransactionOptions
+): Promise<AllocationResult> {
+  const {
+    bankTransactionId,
+    customerId,
+    userId,
+    mode = 'OLDEST_FIRST',
+    allocations = [],
+    invoiceIds,
+    action = 'MANUAL_MATCHED',
+    notes,
+  } = options;
 
   return await prisma.$transaction(async (tx: TransactionClient) => {
     // Get bank transaction
     const bankTx = await tx.bankTransaction.findUnique({
       where: { id: bankTransactionId },
+      include: { bankAccount: { select: { ledgerAccountCode: true } } },
     });
 
     if (!bankTx) {
@@ -273,6 +530,10 @@ export async function reconcileTransaction(
       throw new Error('Transaction has already been reconciled');
     }
 
+    if (bankTx.amount <= 0) {
+      throw new Error('Only credit (money in) transactions can be matched to customers');
+    }
+
     // Get customer
     const customer = await tx.customer.findUnique({
       where: { id: customerId },
@@ -283,133 +544,501 @@ export async function reconcileTransaction(
     }
 
     const amount = new Decimal(bankTx.amount);
+    const exchangeRate = await getExchangeRate(bankTx.currency, bankTx.transactionDate, tx);
+
+    // Work out how much goes to each invoice
+    const planned: Array<{
+      invoice: {
+        id: string;
+        invoiceNumber: string;
+        totalAmount: number;
+        paidAmount: number;
+        dueDate: Date;
+        status: string;
+        currency: string;
+        exchangeRate: number;
+      };
+      amount: Decimal;
+    }> = [];
+
+    if (mode === 'MANUAL') {
+      const seen = new Set<string>();
+
+      for (const allocation of allocations) {
+        if (seen.has(allocation.invoiceId)) {
+          throw new Error('Each invoice can only be allocated once');
+        }
+        seen.add(allocation.invoiceId);
+
+        const invoice = await tx.invoice.findUnique({
+          where: { id: allocation.invoiceId },
+        });
+
+        if (!invoice) {
+          throw new Error('Invoice not found');
+        }
+
+        if (invoice.customerId !== customerId) {
+          throw new Error('Invoice does not belong to the specified customer');
+        }
+
+        if (!OPEN_INVOICE_STATUSES.includes(invoice.status)) {
+          throw new Error(`Invoice ${invoice.invoiceNumber} is not open for payment`);
+        }
+
+        if (invoice.currency !== bankTx.currency) {
+          throw new Error(`Invoice ${invoice.invoiceNumber} is in ${invoice.currency} but the receipt is in ${bankTx.currency}`);
+        }
+
+        const allocationAmount = new Decimal(allocation.amount);
+        if (allocationAmount.lte(0)) {
+          throw new Error('Allocation amounts must be positive');
+        }
+
+        if (allocationAmount.gt(new Decimal(invoice.balanceAmount).add(0.01))) {
+          throw new Error(`Allocation exceeds the balance of invoice ${invoice.invoiceNumber}`);
+        }
+
+        planned.push({ invoice, amount: allocationAmount });
+      }
 
-    // Get invoice if provided
-    let invoice = null;
-    if (invoiceId) {
-      invoice = await tx.invoice.findUnique({
-        where: { id: invoiceId },
+      const totalAllocated = planned.reduce((sum, p) => sum.add(p.amount), new Decimal(0));
+      if (totalAllocated.gt(amount)) {
+        throw new Error('Allocations exceed the bank transaction amount');
+      }
+    } else {
+      const openInvoices = await tx.invoice.findMany({
+        where: {
+          customerId,
+          status: { in: OPEN_INVOICE_STATUSES },
+          balanceAmount: { gt: 0 },
+          currency: bankTx.currency,
+          ...(invoiceIds ? { id: { in: invoiceIds } } : {}),
+        },
+        orderBy: [{ dueDate: 'asc' }, { issueDate: 'asc' }],
       });
 
-      if (!invoice) {
-        throw new Error('Invoice not found');
+      if (invoiceIds) {
+        for (const id of invoiceIds) {
+          const invoice = await tx.invoice.findUnique({ where: { id } });
+          if (!invoice) {
+            throw new Error('Invoice not found');
+          }
+          if (invoice.customerId !== customerId) {
+            throw new Error('Invoice does not belong to the specified customer');
+          }
+          // Otherwise the whole receipt would silently become customer credit
+          if (!OPEN_INVOICE_STATUSES.includes(invoice.status) || invoice.balanceAmount <= 0) {
+            throw new Error(`Invoice ${invoice.invoiceNumber} is not open for payment`);
+          }
+          if (invoice.currency !== bankTx.currency) {
+            throw new Error(`Invoice ${invoice.invoiceNumber} is in ${invoice.currency} but the receipt is in ${bankTx.currency}`);
+          }
+        }
+
+        openInvoices.sort((a, b) => invoiceIds.indexOf(a.id) - invoiceIds.indexOf(b.id));
       }
 
-      if (invoice.customerId !== customerId) {
-        throw new Error('Invoice does not belong to the specified customer');
+      let remaining = amount;
+      for (const invoice of openInvoices) {
+        if (remaining.lte(0)) break;
+
+        const allocationAmount = Decimal.min(remaining, invoice.balanceAmount);
+        planned.push({ invoice, amount: allocationAmount });
+        remaining = remaining.sub(allocationAmount);
       }
     }
 
-    // Create payment record
-    const payment = await tx.payment.create({
-      data: {
-        customerId,
-        invoiceId,
-        bankTransactionId,
-        amount: amount.toNumber(),
-        paymentDate: bankTx.transactionDate,
-        paymentMethod: 'BANK_TRANSFER',
-        reference: bankTx.reference,
-        status: 'CONFIRMED',
-        isReconciled: true,
-        reconciledAt: new Date(),
-        reconciledBy: userId,
-        notes,
-      },
-    });
+    const allocatedAmount = planned.reduce((sum, p) => sum.add(p.amount), new Decimal(0));
+    const creditAmount = amount.sub(allocatedAmount);
+    const now = new Date();
 
-    // Update bank transaction status
-    await tx.bankTransaction.update({
-      where: { id: bankTransactionId },
-      data: {
-        status: 'MATCHED',
-        matchedAt: new Date(),
-        matchedBy: userId,
-      },
-    });
+    const payments: AllocationResult['payments'] = [];
+    const ledgerAccountCode = bankTx.bankAccount?.ledgerAccountCode ?? ACCOUNT_CODES.DTB_BANK;
+    const foreign = !isBaseCurrency(bankTx.currency);
 
-    // Update invoice if provided
-    if (invoice) {
-      const newPaidAmount = decimal.add(invoice.paidAmount, amount);
-      const newBalanceAmount = decimal.subtract(invoice.totalAmount, newPaidAmount);
+    // Create one payment per invoice and update the invoice
+    for (const { invoice, amount: allocationAmount } of planned) {
+      const payment = await tx.payment.create({
+        data: {
+          customerId,
+          invoiceId: invoice.id,
+          bankTransactionId,
+          amount: allocationAmount.toNumber(),
+          currency: bankTx.currency,
+          exchangeRate,
+          paymentDate: bankTx.transactionDate,
+          paymentMethod: 'BANK_TRANSFER',
+          reference: bankTx.reference,
+          status: 'CONFIRMED',
+          isReconciled: true,
+          reconciledAt: now,
+          reconciledBy: userId,
+          notes,
+        },
+      });
 
-      let newStatus = invoice.status;
-      if (newBalanceAmount.lte(0)) {
-        newStatus = 'PAID';
-      } else if (newPaidAmount.gt(0)) {
-        newStatus = 'PARTIALLY_PAID';
-      }
+      const newPaidAmount = decimal.add(invoice.paidAmount, allocationAmount);
+      const newBalanceAmount = decimal.subtract(invoice.totalAmount, newPaidAmount);
+      const newStatus = calculateInvoiceStatus(
+        invoice.totalAmount,
+        newPaidAmount.toNumber(),
+        invoice.dueDate,
+        invoice.status
+      );
 
       await tx.invoice.update({
-        where: { id: invoiceId },
+        where: { id: invoice.id },
         data: {
           paidAmount: newPaidAmount.toNumber(),
-          balanceAmount: newBalanceAmount.toNumber(),
+          balanceAmount: Decimal.max(newBalanceAmount, 0).toNumber(),
           status: newStatus,
-          paidDate: newBalanceAmount.lte(0) ? new Date() : null,
+          paidDate: newBalanceAmount.lte(0) ? now : null,
+          lastPaymentDate: bankTx.transactionDate,
+          paymentCount: { increment: 1 },
+          ...(newBalanceAmount.gt(0) && { partialPaymentCount: { increment: 1 } }),
         },
       });
+
+      await postPaymentReceived(
+        payment.id,
+        customerId,
+        invoice.id,
+        allocationAmount,
+        userId,
+        `Payment received for ${invoice.invoiceNumber}: ${payment.reference}`,
+        bankTx.transactionDate,
+        ledgerAccountCode,
+        tx,
+        foreign ? { currency: bankTx.currency, rate: exchangeRate, bookedRate: invoice.exchangeRate } : undefined
+      );
+
+      payments.push({
+        id: payment.id,
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        amount: allocationAmount.toNumber(),
+        reference: payment.reference,
+      });
     }
 
-    // Update customer balances
-    const newTotalPaid = decimal.add(customer.totalPaid, amount);
-    const newCurrentBalance = decimal.subtract(customer.totalOutstanding, amount);
+    // Unallocated remainder stays on the customer's account as credit
+    if (creditAmount.gt(0)) {
+      const payment = await tx.payment.create({
+        data: {
+          customerId,
+          bankTransactionId,
+          amount: creditAmount.toNumber(),
+          currency: bankTx.currency,
+          exchangeRate,
+          paymentDate: bankTx.transactionDate,
+          paymentMethod: 'BANK_TRANSFER',
+          reference: bankTx.reference,
+          status: 'CONFIRMED',
+          isReconciled: true,
+          reconciledAt: now,
+          reconciledBy: userId,
+          notes: 'Unallocated remainder held as customer credit',
+          unappliedAmount: creditAmount.toNumber(),
+        },
+      });
+
+      // Held on customer deposits until it is applied
+      await postCustomerDepositReceived(
+        payment.id,
+        customerId,
+        creditAmount,
+        userId,
+        `Payment received on account: ${payment.reference}`,
+        bankTx.transactionDate,
+        ledgerAccountCode,
+        tx,
+        foreign ? { currency: bankTx.currency, rate: exchangeRate } : undefined
+      );
+
+      payments.push({
+        id: payment.id,
+        invoiceId: null,
+        amount: creditAmount.toNumber(),
+        reference: payment.reference,
+      });
+    }
 
+    // Update bank transaction status
+    await tx.bankTransaction.update({
+      where: { id: bankTransactionId },
+      data: {
+        status: 'MATCHED',
+        matchedAt: now,
+        matchedBy: userId,
+      },
+    });
+
+    await resolveExceptionForTransaction(bankTransactionId, userId, 'Reconciled', tx);
+
+    // Update customer balances (credit drives the balance below zero)
+    const baseAmount = toBaseAmount(amount, exchangeRate);
     await tx.customer.update({
       where: { id: customerId },
       data: {
-        totalPaid: newTotalPaid.toNumber(),
-        currentBalance: newCurrentBalance.toNumber(),
+        totalPaid: decimal.add(customer.totalPaid, baseAmount).toNumber(),
+        currentBalance: decimal.subtract(customer.currentBalance, baseAmount).toNumber(),
+        totalPayments: { increment: 1 },
+        lastPaymentDate: bankTx.transactionDate,
       },
     });
 
     // Create reconciliation log
+    const allocationSummary = [
+      ...planned.map((p) => `${p.invoice.invoiceNumber}: ${p.amount.toFixed(2)}`),
+      ...(creditAmount.gt(0) ? [`Customer credit: ${creditAmount.toFixed(2)}`] : []),
+    ].join(', ');
+
     await tx.reconciliationLog.create({
       data: {
         bankTransactionId,
-        action: 'MANUAL_MATCHED',
+        action,
         matchedCustomerId: customerId,
-        matchedInvoiceId: invoiceId,
+        matchedInvoiceId: planned.length === 1 ? planned[0].invoice.id : undefined,
         matchedAmount: amount.toNumber(),
         reason: notes || 'Manual reconciliation',
+        notes: allocationSummary || undefined,
         performedBy: userId,
       },
     });
 
-    // Post to ledger (double-entry accounting)
-    // This must be done outside the current transaction context
-    // We'll return the data needed to post the ledger entry
-
     return {
-      payment,
+      bankTransactionId,
       customerId,
-      invoiceId,
       amount: amount.toNumber(),
-      paymentDate: bankTx.transactionDate,
+      allocatedAmount: allocatedAmount.toNumber(),
+      creditAmount: creditAmount.toNumber(),
+      payments,
     };
-  }).then(async (result: ReconcileResult) => {
-    // Post to ledger after main transaction completes
-    await postPaymentReceived(
-      result.payment.id,
-      result.customerId,
-      result.invoiceId,
-      result.amount,
-      userId,
-      `Payment received: ${result.payment.reference}`,
-      result.paymentDate
+  });
+}
+
+/**
+ * Process and reconcile a matched transaction
+ * Creates payment record(s) and posts to ledger
+ * 
+ * With an invoice, the receipt is applied to that invoice and any excess is
+ * held as customer credit; the invoice must still be open. Without one, it is spread over the customer's
+ * open invoices oldest first.
+ * 
+ * @param bankTransactionId - Bank transaction ID
+ * @param customerId - Matched customer ID
+ * @param invoiceId - Matched invoice ID (optional)
+ * @param userId - User performing reconciliation
+ * @param notes - Additional notes
+ * @param action - Reconciliation log action
+ * @returns The first payment created
+ */
+export async function reconcileTransaction(
+  bankTransactionId: string,
+  customerId: string,
+  invoiceId: string | undefined,
+  userId: string,
+  notes?: string,
+  action: 'AUTO_MATCHED' | 'MANUAL_MATCHED' = 'MANUAL_MATCHED'
+) {
+  const result = await allocateBankTransaction({
+    bankTransactionId,
+    customerId,
+    userId,
+    mode: 'OLDEST_FIRST',
+    invoiceIds: invoiceId ? [invoiceId] : undefined,
+    action,
+    notes,
+  });
+
+  return result.payments[0];
+}
+
+/**
+ * Undo a reconciliation so the bank transaction can be matched again.
+ * Reverses every payment created from the transaction and its ledger
+ * postings, restores invoice balances/status and customer totals, returns
+ * the transaction to PENDING, reopens its exception and logs a REVERSED
+ * entry - all in one database transaction.
+ *
+ * @param bankTransactionId - Bank transaction to unmatch
+ * @param userId - User performing the reversal
+ * @param reason - Why the match was wrong
+ */
+export async function unmatchBankTransaction(
+  bankTransactionId: string,
+  userId: string,
+  reason: string
+) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const bankTx = await tx.bankTransaction.findUnique({
+      where: { id: bankTransactionId },
+    });
+
+    if (!bankTx) {
+      throw new Error('Bank transaction not found');
+    }
+
+    if (bankTx.status !== 'MATCHED' && bankTx.status !== 'PARTIALLY_MATCHED') {
+      throw new Error('Only matched transactions can be unmatched');
+    }
+
+    const payments = await tx.payment.findMany({
+      where: { bankTransactionId, status: { not: 'REVERSED' } },
+    });
+
+    const appliedCredit = await tx.customerCreditAllocation.count({
+      where: { paymentId: { in: payments.map((payment) => payment.id) } },
+    });
+
+    if (appliedCredit > 0) {
+      throw new Error('Customer credit from this transaction has already been applied to invoices');
+    }
+
+    // A refund has already paid the money back out; reversing the receipt would charge the customer again
+    const refunded = payments.some(
+      (payment) => payment.status === 'REFUNDED' || (!payment.invoiceId && payment.unappliedAmount < payment.amount)
     );
 
-    return result.payment;
+    if (refunded) {
+      throw new Error('Money received on this transaction has already been refunded to the customer');
+    }
+
+    const description = `Unmatched bank transaction ${bankTx.bankTransactionId}: ${reason}`;
+    const invoiceTotals = new Map<string, Decimal>();
+    const customerTotals = new Map<string, Decimal>();
+    const reversedPayments: Array<{ id: string; invoiceId: string | null; amount: number }> = [];
+
+    for (const payment of payments) {
+      // Reverse the payment's ledger postings (DR Bank / CR Receivables)
+      const entries = await tx.ledgerEntry.findMany({
+        where: { paymentId: payment.id, isReversed: false },
+        select: { transactionId: true },
+      });
+
+      for (const transactionId of new Set(entries.map((e) => e.transactionId))) {
+        await reverseLedgerTransaction(transactionId, userId, description, tx);
+      }
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: 'REVERSED',
+          isReconciled: false,
+          unappliedAmount: 0,
+          notes: [payment.notes, `Reversed: ${reason}`].filter(Boolean).join(' | '),
+        },
+      });
+
+      if (payment.invoiceId) {
+        invoiceTotals.set(payment.invoiceId, decimal.add(invoiceTotals.get(payment.invoiceId) ?? 0, payment.amount));
+        await tx.invoice.update({
+          where: { id: payment.invoiceId },
+          data: { paymentCount: { decrement: 1 } },
+        });
+      }
+
+      customerTotals.set(
+        payment.customerId,
+        decimal.add(customerTotals.get(payment.customerId) ?? 0, toBaseAmount(payment.amount, payment.exchangeRate))
+      );
+      reversedPayments.push({ id: payment.id, invoiceId: payment.invoiceId, amount: payment.amount });
+    }
+
+    // Debits: detach supplier payments / expenses, undo payments recorded against bills
+    const releasedDebit = await releaseDebitMatch(tx, bankTransactionId, userId, description);
+
+    // Take the reversed payments off each invoice's paid amount and status
+    for (const [invoiceId, total] of invoiceTotals) {
+      await reverseInvoicePayments(invoiceId, total, tx);
+    }
+
+    for (const [customerId, total] of customerTotals) {
+      await tx.customer.update({
+        where: { id: customerId },
+        data: {
+          totalPaid: { decrement: total.toNumber() },
+          currentBalance: { increment: total.toNumber() },
+          totalPayments: { decrement: 1 },
+        },
+      });
+    }
+
+    await tx.bankTransaction.update({
+      where: { id: bankTransactionId },
+      data: {
+        status: 'PENDING',
+        matchedAt: null,
+        matchedBy: null,
+      },
+    });
+
+    // Back in the exception queue; the resolved exception is reopened
+    await openException(bankTransactionId, `Unmatched: ${reason}`, tx);
+
+    const [customerId] = customerTotals.keys();
+
+    await tx.reconciliationLog.create({
+      data: {
+        bankTransactionId,
+        action: 'REVERSED',
+        matchedCustomerId: customerId,
+        matchedAmount: bankTx.amount,
+        reason,
+        notes: reversedPayments.length
+          ? `Reversed ${reversedPayments.length} payment(s)`
+          : releasedDebit.deletedSupplierPayments.length
+            ? `Deleted ${releasedDebit.deletedSupplierPayments.length} supplier payment(s)`
+            : releasedDebit.deletedExpenses.length
+              ? `Reversed ${releasedDebit.deletedExpenses.length} posted expense(s)`
+              : undefined,
+        performedBy: userId,
+      },
+    });
+
+    return {
+      bankTransactionId,
+      customerId: customerId ?? null,
+      reversedPayments,
+      invoiceIds: Array.from(invoiceTotals.keys()),
+      ...releasedDebit,
+    };
   });
 }
 
+export interface AutoReconcileOptions {
+  /** Return the proposed matches without writing anything */
+  dryRun?: boolean;
+  /** Matches at or above this confidence are committed */
+  autoCommitThreshold?: number;
+  /** Matches at or above this confidence (but below auto-commit) go to the review queue */
+  suggestThreshold?: number;
+}
+
+export const DEFAULT_AUTO_COMMIT_THRESHOLD =
+  parseInt(process.env.RECONCILIATION_AUTO_COMMIT_THRESHOLD || '', 10) || 90;
+export const DEFAULT_SUGGEST_THRESHOLD =
+  parseInt(process.env.RECONCILIATION_SUGGEST_THRESHOLD || '', 10) || 60;
+
 /**
  * Auto-reconcile all pending transactions
  * 
+ * High-confidence matches are committed, mid-confidence matches are queued
+ * as ReconciliationSuggestions for review, the rest are marked unmatched.
+ * 
  * @param userId - User ID for audit trail
+ * @param options - Dry run flag and confidence thresholds
  * @returns Summary of reconciliation results
  */
-export async function autoReconcileAll(userId: string) {
+export async function autoReconcileAll(userId: string, options: AutoReconcileOptions = {}) {
+  const dryRun = options.dryRun ?? false;
+  const autoCommitThreshold = options.autoCommitThreshold ?? DEFAULT_AUTO_COMMIT_THRESHOLD;
+  const suggestThreshold = Math.min(
+    options.suggestThreshold ?? DEFAULT_SUGGEST_THRESHOLD,
+    autoCommitThreshold
+  );
+
   const pendingTransactions = await prisma.bankTransaction.findMany({
     where: {
       status: 'PENDING',
@@ -420,61 +1049,198 @@ export async function autoReconcileAll(userId: string) {
   });
 
   type ReconcileDetail = {
+    id: string;
     transactionId: string;
-    status: 'MATCHED' | 'UNMATCHED' | 'FAILED';
+    amount: number;
+    reference: string;
+    status: 'MATCHED' | 'SUGGESTED' | 'UNMATCHED' | 'FAILED';
+    matchType?: MatchResult['matchType'];
     confidence?: number;
+    customerId?: string;
+    invoiceId?: string;
+    matchedEntityType?: string;
+    matchedEntityId?: string;
     reason?: string;
     error?: string;
   };
 
   const results = {
+    dryRun,
+    autoCommitThreshold,
+    suggestThreshold,
     total: pendingTransactions.length,
     matched: 0,
+    suggested: 0,
     unmatched: 0,
     failed: 0,
     details: [] as ReconcileDetail[],
   };
 
   for (const transaction of pendingTransactions) {
+    const detail = {
+      id: transaction.id,
+      transactionId: transaction.bankTransactionId,
+      amount: transaction.amount,
+      reference: transaction.reference,
+    };
+
     try {
+      // Debits are matched to supplier payments, expenses and bills; there is
+      // no customer to suggest, so anything below auto-commit stays unmatched
+      if (transaction.amount < 0) {
+        // Bank charges and standing orders are posted straight to expenses
+        const postingRule = await findPostingRule(transaction);
+        if (postingRule) {
+          const expense = dryRun ? null : await applyPostingRule(transaction, postingRule, userId);
+
+          results.matched++;
+          results.details.push({
+            ...detail,
+            status: 'MATCHED',
+            confidence: 100,
+            matchedEntityType: 'EXPENSE',
+            matchedEntityId: expense?.id,
+            reason: `Posted by bank posting rule "${postingRule.name}"`,
+          });
+          continue;
+        }
+
+        const debit = await autoMatchDebit(transaction.id);
+        const committed = debit.success && debit.confidence >= autoCommitThreshold;
+
+        if (!dryRun) {
+          if (committed) {
+            await reconcileDebit({
+              bankTransactionId: transaction.id,
+              targetType: debit.targetType!,
+              targetId: debit.targetId!,
+              userId,
+              notes: `Auto-matched: ${debit.reason} (Confidence: ${debit.confidence}%)`,
+              action: 'AUTO_MATCHED',
+            });
+          } else {
+            await prisma.bankTransaction.update({
+              where: { id: transaction.id },
+              data: { status: 'UNMATCHED' },
+            });
+
+            await prisma.reconciliationLog.create({
+              data: {
+                bankTransactionId: transaction.id,
+                action: 'UNMATCHED',
+                matchedEntityType: debit.targetType,
+                matchedEntityId: debit.targetId,
+                reason: debit.success
+                  ? `Best candidate below auto-commit: ${debit.reason} (Confidence: ${debit.confidence}%)`
+                  : debit.reason,
+                performedBy: userId,
+              },
+            });
+            await openException(transaction.id, debit.reason);
+          }
+        }
+
+        if (committed) {
+          results.matched++;
+        } else {
+          results.unmatched++;
+        }
+        results.details.push({
+          ...detail,
+          status: committed ? 'MATCHED' : 'UNMATCHED',
+          confidence: debit.confidence,
+          matchedEntityType: debit.targetType,
+          matchedEntityId: debit.targetId,
+          reason: debit.reason,
+        });
+        continue;
+      }
+
       const match = await autoMatchTransaction(transaction.id);
+      const proposal = {
+        matchType: match.matchType,
+        confidence: match.confidence,
+        customerId: match.customerId,
+        invoiceId: match.invoiceId,
+        reason: match.reason,
+      };
 
-      if (match.success && match.confidence >= 80 && match.customerId) {
+      if (match.success && match.customerId && match.confidence >= autoCommitThreshold) {
         // Auto-reconcile high-confidence matches
-        await reconcileTransaction(
-          transaction.id,
-          match.customerId,
-          match.invoiceId,
-          userId,
-          `Auto-matched: ${match.reason} (Confidence: ${match.confidence}%)`
-        );
+        if (!dryRun) {
+          await reconcileTransaction(
+            transaction.id,
+            match.customerId,
+            match.invoiceId,
+            userId,
+            `Auto-matched: ${match.reason} (Confidence: ${match.confidence}%)`,
+            'AUTO_MATCHED'
+          );
+
+          if (match.ruleId) {
+            await recordRuleHit(match.ruleId);
+          }
+        }
 
         results.matched++;
-        results.details.push({
-          transactionId: transaction.bankTransactionId,
-          status: 'MATCHED',
-          confidence: match.confidence,
-          reason: match.reason,
-        });
+        results.details.push({ ...detail, ...proposal, status: 'MATCHED' });
+      } else if (match.success && match.customerId && match.confidence >= suggestThreshold) {
+        // Queue mid-confidence matches for review
+        if (!dryRun) {
+          await prisma.$transaction([
+            prisma.reconciliationSuggestion.create({
+              data: {
+                bankTransactionId: transaction.id,
+                customerId: match.customerId,
+                invoiceId: match.invoiceId,
+                matchType: match.matchType,
+                confidence: match.confidence,
+                reason: match.reason,
+                ruleId: match.ruleId,
+                createdBy: userId,
+              },
+            }),
+            prisma.bankTransaction.update({
+              where: { id: transaction.id },
+              data: { status: 'UNMATCHED' },
+            }),
+            prisma.reconciliationLog.create({
+              data: {
+                bankTransactionId: transaction.id,
+                action: 'UNMATCHED',
+                matchedCustomerId: match.customerId,
+                matchedInvoiceId: match.invoiceId,
+                reason: `Suggested for review: ${match.reason} (Confidence: ${match.confidence}%)`,
+                performedBy: userId,
+              },
+            }),
+          ]);
+        }
+
+        results.suggested++;
+        results.details.push({ ...detail, ...proposal, status: 'SUGGESTED' });
       } else {
         // Mark as unmatched for manual review
-        await prisma.bankTransaction.update({
-          where: { id: transaction.id },
-          data: { status: 'UNMATCHED' },
-        });
+        if (!dryRun) {
+          await prisma.bankTransaction.update({
+            where: { id: transaction.id },
+            data: { status: 'UNMATCHED' },
+          });
 
-        await prisma.reconciliationLog.create({
-          data: {
-            bankTransactionId: transaction.id,
-            action: 'UNMATCHED',
-            reason: match.reason || 'Could not auto-match',
-            performedBy: userId,
-          },
-        });
+          await prisma.reconciliationLog.create({
+            data: {
+              bankTransactionId: transaction.id,
+              action: 'UNMATCHED',
+              reason: match.reason || 'Could not auto-match',
+              performedBy: userId,
+            },
+          });
+          await openException(transaction.id, match.reason || 'Could not auto-match');
+        }
 
         results.unmatched++;
         results.details.push({
-          transactionId: transaction.bankTransactionId,
+          ...detail,
           status: 'UNMATCHED',
           confidence: match.confidence,
           reason: match.reason,
@@ -483,7 +1249,7 @@ export async function autoReconcileAll(userId: string) {
     } catch (error) {
       results.failed++;
       results.details.push({
-        transactionId: transaction.bankTransactionId,
+        ...detail,
         status: 'FAILED',
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -492,3 +1258,92 @@ export async function autoReconcileAll(userId: string) {
 
   return results;
 }
+
+/**
+ * Accept a queued auto-match suggestion. The match is committed through
+ * reconcileTransaction and logged as AUTO_MATCHED with the reviewer as performer.
+ *
+ * @param suggestionId - Reconciliation suggestion ID
+ * @param reviewerId - User accepting the suggestion
+ * @param notes - Optional review notes
+ * @returns The first payment created
+ */
+export async function acceptSuggestion(suggestionId: string, reviewerId: string, notes?: string) {
+  const suggestion = await prisma.reconciliationSuggestion.findUnique({
+    where: { id: suggestionId },
+  });
+
+  if (!suggestion) {
+    throw new Error('Suggestion not found');
+  }
+
+  if (suggestion.status !== 'PENDING') {
+    throw new Error('Suggestion has already been reviewed');
+  }
+
+  const payment = await reconcileTransaction(
+    suggestion.bankTransactionId,
+    suggestion.customerId,
+    suggestion.invoiceId ?? undefined,
+    reviewerId,
+    [
+      `Auto-match suggestion accepted: ${suggestion.reason} (Confidence: ${suggestion.confidence}%)`,
+      notes,
+    ]
+      .filter(Boolean)
+      .join(' - '),
+    'AUTO_MATCHED'
+  );
+
+  await prisma.reconciliationSuggestion.update({
+    where: { id: suggestionId },
+    data: {
+      status: 'ACCEPTED',
+      reviewedBy: reviewerId,
+      reviewedAt: new Date(),
+      reviewNotes: notes,
+    },
+  });
+
+  if (suggestion.ruleId) {
+    await recordRuleHit(suggestion.ruleId);
+  }
+
+  return payment;
+}
+
+/**
+ * Reject a queued auto-match suggestion. The bank transaction stays
+ * unmatched and goes to the exceptions queue for manual reconciliation.
+ *
+ * @param suggestionId - Reconciliation suggestion ID
+ * @param reviewerId - User rejecting the suggestion
+ * @param notes - Optional reason
+ */
+export async function rejectSuggestion(suggestionId: string, reviewerId: string, notes?: string) {
+  const suggestion = await prisma.reconciliationSuggestion.findUnique({
+    where: { id: suggestionId },
+  });
+
+  if (!suggestion) {
+    throw new Error('Suggestion not found');
+  }
+
+  if (suggestion.status !== 'PENDING') {
+    throw new Error('Suggestion has already been reviewed');
+  }
+
+  const rejected = await prisma.reconciliationSuggestion.update({
+    where: { id: suggestionId },
+    data: {
+      status: 'REJECTED',
+      reviewedBy: reviewerId,
+      reviewedAt: new Date(),
+      reviewNotes: notes,
+    },
+  });
+
+  await openException(suggestion.bankTransactionId, `Suggestion rejected${notes ? `: ${notes}` : ''}`);
+
+  return rejected;
+}
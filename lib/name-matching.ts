@@ -0,0 +1,219 @@
+/**
+ * Customer Name Matching
+ *
+ * Fuzzy comparison of free-text bank references ("PAYMENT FROM SAFARI
+ * DISTRIBUTORS LTD") against customer names and aliases. Names are
+ * tokenised, legal suffixes normalized (LIMITED -> LTD, COMPANY -> CO) and
+ * scored on token coverage (with typo and truncation tolerance) blended
+ * with token-set Jaccard similarity.
+ */
+
+import prisma from './prisma';
+
+/** Minimum similarity (0-1) for a customer to be returned as a candidate */
+export const NAME_MATCH_THRESHOLD = 0.6;
+
+// Words that appear in most narratives and say nothing about the payer
+export const REFERENCE_NOISE_WORDS = new Set([
+  'PAYMENT', 'PAYMENTS', 'PMT', 'PYMT', 'FROM', 'FOR', 'AND', 'THE', 'REF',
+  'INV', 'INVOICE', 'TRF', 'TRANSFER', 'FUNDS', 'DEPOSIT', 'CASH', 'CHQ',
+  'CHEQUE', 'MPESA', 'M-PESA', 'EFT', 'RTGS', 'PESALINK', 'SWIFT', 'BANK',
+  'ACC', 'ACCOUNT', 'CREDIT', 'RECEIVED', 'PAID', 'VIA',
+]);
+
+const SUFFIX_ALIASES: Record<string, string> = {
+  LIMITED: 'LTD',
+  LTD: 'LTD',
+  COMPANY: 'CO',
+  CO: 'CO',
+  CORPORATION: 'CORP',
+  CORP: 'CORP',
+  INCORPORATED: 'INC',
+  INC: 'INC',
+  ENTERPRISES: 'ENT',
+  ENTERPRISE: 'ENT',
+  INTERNATIONAL: 'INTL',
+  INTL: 'INTL',
+};
+
+// Legal-form suffixes carry no identifying information
+const LEGAL_SUFFIXES = new Set(['LTD', 'CO', 'CORP', 'INC', 'PLC', 'LLC', 'LLP']);
+
+export interface NameCandidate {
+  customerId: string;
+  customerCode: string;
+  customerName: string;
+  score: number; // 0-1
+  matchedOn: string; // Customer name or alias that produced the score
+}
+
+/**
+ * Split a name or reference into normalized tokens
+ * e.g. "Safari Distributors Limited" -> ["SAFARI", "DISTRIBUTORS", "LTD"]
+ */
+export function tokenizeName(value: string): string[] {
+  return value
+    .toUpperCase()
+    .replace(/&/g, ' AND ')
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean)
+    .map((token) => SUFFIX_ALIASES[token] || token);
+}
+
+/**
+ * Drop legal suffixes, narrative noise and numeric tokens
+ */
+function significantTokens(tokens: string[]): string[] {
+  return tokens.filter(
+    (token) =>
+      token.length > 1 &&
+      !/^\d+$/.test(token) &&
+      !LEGAL_SUFFIXES.has(token) &&
+      !REFERENCE_NOISE_WORDS.has(token)
+  );
+}
+
+function bigrams(value: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    grams.push(value.slice(i, i + 2));
+  }
+  return grams;
+}
+
+/**
+ * Sørensen-Dice coefficient over character bigrams (0-1)
+ */
+export function diceCoefficient(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  const remaining = [...gramsB];
+  let overlap = 0;
+
+  for (const gram of gramsA) {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      overlap++;
+      remaining.splice(index, 1);
+    }
+  }
+
+  return (2 * overlap) / (gramsA.length + gramsB.length);
+}
+
+/**
+ * Similarity of one name token to a reference token, tolerating typos and
+ * the truncation banks apply to long narratives ("DISTRIBUTORS" -> "DISTR")
+ */
+function tokenSimilarity(nameToken: string, referenceToken: string): number {
+  if (nameToken === referenceToken) return 1;
+
+  if (referenceToken.length >= 4 && nameToken.startsWith(referenceToken)) {
+    return 0.9;
+  }
+
+  const dice = diceCoefficient(nameToken, referenceToken);
+  return dice >= 0.75 ? dice : 0;
+}
+
+/**
+ * Score how well a reference names a customer
+ * @param referenceTokens - Tokenised bank reference
+ * @param name - Customer name or alias
+ * @returns Similarity between 0 and 1
+ */
+export function scoreNameMatch(referenceTokens: string[], name: string): number {
+  const nameTokens = significantTokens(tokenizeName(name));
+  const reference = significantTokens(referenceTokens);
+
+  if (nameTokens.length === 0 || reference.length === 0) {
+    return 0;
+  }
+
+  let matched = 0;
+  for (const nameToken of nameTokens) {
+    matched += Math.max(...reference.map((token) => tokenSimilarity(nameToken, token)));
+  }
+
+  const coverage = matched / nameTokens.length;
+  const jaccard = matched / (nameTokens.length + reference.length - matched);
+
+  // A single-word name ("KAMAU") is weak evidence on its own
+  const weight = nameTokens.length === 1 ? 0.8 : 1;
+
+  return Math.min(1, (0.85 * coverage + 0.15 * jaccard) * weight);
+}
+
+/**
+ * Convert a name score into a match confidence (0-100)
+ * @param score - Name similarity (0-1)
+ * @param amountMatched - An open invoice of the customer matches the amount
+ * @param ambiguous - Another customer scored almost as well
+ */
+export function nameMatchConfidence(
+  score: number,
+  amountMatched: boolean,
+  ambiguous: boolean
+): number {
+  let confidence = 40 + score * 35;
+  if (amountMatched) confidence += 10;
+  if (ambiguous) confidence -= 15;
+
+  return Math.max(0, Math.min(90, Math.round(confidence)));
+}
+
+/**
+ * Rank active customers by name (and alias) similarity to a reference
+ * @param reference - Bank reference / payer name text
+ * @param limit - Maximum candidates to return
+ * @param threshold - Minimum similarity (0-1)
+ * @returns Candidates, best first
+ */
+export async function findNameCandidates(
+  reference: string,
+  limit: number = 5,
+  threshold: number = NAME_MATCH_THRESHOLD
+): Promise<NameCandidate[]> {
+  const referenceTokens = tokenizeName(reference);
+  if (significantTokens(referenceTokens).length === 0) {
+    return [];
+  }
+
+  const customers = await prisma.customer.findMany({
+    where: { isActive: true },
+    select: {
+      id: true,
+      name: true,
+      customerCode: true,
+      aliases: { select: { alias: true } },
+    },
+  });
+
+  const candidates: NameCandidate[] = [];
+
+  for (const customer of customers) {
+    let best: { score: number; matchedOn: string } = { score: 0, matchedOn: customer.name };
+
+    for (const name of [customer.name, ...customer.aliases.map((a) => a.alias)]) {
+      const score = scoreNameMatch(referenceTokens, name);
+      if (score > best.score) {
+        best = { score, matchedOn: name };
+      }
+    }
+
+    if (best.score >= threshold) {
+      candidates.push({
+        customerId: customer.id,
+        customerCode: customer.customerCode,
+        customerName: customer.name,
+        score: Math.round(best.score * 100) / 100,
+        matchedOn: best.matchedOn,
+      });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -1,11 +1,22 @@
 /**
  * Payment Recording Service
  * Handles multiple ways to record payments against invoices
+ *
+ * Anything paid beyond an invoice's balance, or paid with no invoice at
+ * all, is held as unapplied customer credit (see customer-credit.ts).
+ *
+ * A payment against an invoice is in the invoice's currency; a payment on
+ * account can be in any currency with a rate on file. Either takes the rate
+ * for its payment date unless one is given.
  */
 
 import prisma from '@/lib/prisma';
 import Decimal from 'decimal.js';
 import { calculateInvoiceStatus, validatePaymentAmount } from '@/lib/payment-methods';
+import { postCustomerCreditRefunded, postCustomerDepositReceived } from '@/lib/accounting';
+import { getLedgerAccountCodeForBankAccount } from '@/lib/bank-accounts';
+import { getExchangeRate, isBaseCurrency, resolveDocumentCurrency } from '@/lib/exchange-rates';
+import { formatCurrency } from '@/lib/utils';
 import type { TransactionClient } from '@/lib/types';
 
 /**
@@ -25,6 +36,8 @@ export interface PaymentRecordOptions {
   bankName?: string;
   paymentGatewayId?: string;
   metadata?: Record<string, unknown>;
+  currency?: string;
+  exchangeRate?: number;
 }
 
 /**
@@ -53,6 +66,8 @@ export interface PaymentRecordResult {
   message: string;
   invoiceStatus?: string;
   remainingBalance?: number;
+  /** Amount held as customer credit */
+  unappliedAmount?: number;
   error?: string;
 }
 
@@ -99,12 +114,12 @@ export async function recordPayment(
           };
         }
 
-        // Validate payment amount
+        // Validate payment amount (anything over the balance is held as credit)
         const validation = validatePaymentAmount(
           options.amount,
           invoice.totalAmount,
           invoice.paidAmount,
-          false
+          true
         );
 
         if (!validation.valid) {
@@ -123,17 +138,40 @@ export async function recordPayment(
             error: 'ALREADY_PAID',
           };
         }
+
+        if (options.currency && options.currency !== invoice.currency) {
+          return {
+            success: false,
+            message: `Invoice ${invoice.invoiceNumber} is in ${invoice.currency}; record the payment in ${invoice.currency}`,
+            error: 'CURRENCY_MISMATCH',
+          };
+        }
       }
 
+      const currency = await resolveDocumentCurrency(
+        invoice ? invoice.currency : options.currency,
+        options.paymentDate,
+        options.exchangeRate,
+        tx
+      );
+      const customerId = options.customerId || invoice!.customerId;
+      const appliedAmount = invoice
+        ? Decimal.min(options.amount, Decimal.max(invoice.balanceAmount, 0))
+        : new Decimal(0);
+      const unappliedAmount = new Decimal(options.amount).minus(appliedAmount);
+      const reference = options.reference || `PAY-${Date.now()}`;
+
       // Create payment record
       const payment = await tx.payment.create({
         data: {
           invoiceId: options.invoiceId,
-          customerId: options.customerId || invoice!.customerId,
-          amount: options.amount,
+          customerId,
+          amount: invoice ? appliedAmount.toNumber() : options.amount,
+          unappliedAmount: invoice ? 0 : options.amount,
+          ...currency,
           paymentDate: options.paymentDate,
           paymentMethod: options.paymentMethod,
-          reference: options.reference || `PAY-${Date.now()}`,
+          reference,
           status: 'CONFIRMED',
           notes: options.notes,
           metadata: options.metadata
@@ -148,9 +186,44 @@ export async function recordPayment(
         },
       });
 
+      // An overpayment is split off as a payment on account
+      let creditPayment = invoice ? null : payment;
+
+      if (invoice && unappliedAmount.gt(0)) {
+        creditPayment = await tx.payment.create({
+          data: {
+            customerId,
+            amount: unappliedAmount.toNumber(),
+            unappliedAmount: unappliedAmount.toNumber(),
+            ...currency,
+            paymentDate: options.paymentDate,
+            paymentMethod: options.paymentMethod,
+            reference,
+            status: 'CONFIRMED',
+            notes: `Overpayment of ${invoice.invoiceNumber} held as customer credit`,
+          },
+        });
+      }
+
+      if (creditPayment) {
+        await postCustomerDepositReceived(
+          creditPayment.id,
+          customerId,
+          unappliedAmount,
+          options.userId,
+          invoice
+            ? `Overpayment of ${invoice.invoiceNumber} held as customer credit: ${reference}`
+            : `Payment received on account: ${reference}`,
+          options.paymentDate,
+          undefined,
+          tx,
+          isBaseCurrency(currency.currency) ? undefined : { currency: currency.currency, rate: currency.exchangeRate }
+        );
+      }
+
       // Update invoice if present
       if (invoice) {
-        const newPaidAmount = new Decimal(invoice.paidAmount).plus(options.amount);
+        const newPaidAmount = new Decimal(invoice.paidAmount).plus(appliedAmount);
         const newBalanceAmount = new Decimal(invoice.totalAmount).minus(newPaidAmount);
 
         const newStatus = calculateInvoiceStatus(
@@ -174,9 +247,12 @@ export async function recordPayment(
           success: true,
           paymentId: payment.id,
           invoiceId: invoice.id,
-          message: 'Payment recorded successfully',
+          message: unappliedAmount.gt(0)
+            ? `Payment recorded; ${formatCurrency(unappliedAmount.toNumber(), currency.currency)} held as customer credit`
+            : 'Payment recorded successfully',
           invoiceStatus: newStatus,
           remainingBalance: Math.max(newBalanceAmount.toNumber(), 0),
+          unappliedAmount: unappliedAmount.toNumber(),
         };
       }
 
@@ -184,7 +260,8 @@ export async function recordPayment(
         success: true,
         paymentId: payment.id,
         customerId: options.customerId,
-        message: 'Payment recorded successfully',
+        message: 'Payment recorded as customer credit',
+        unappliedAmount: unappliedAmount.toNumber(),
       };
     });
 
@@ -274,6 +351,14 @@ export async function recordPaymentFromBankTransaction(
         };
       }
 
+      if (bankTransaction.currency !== invoice.currency) {
+        return {
+          success: false,
+          message: `Invoice ${invoice.invoiceNumber} is in ${invoice.currency} but the bank transaction is in ${bankTransaction.currency}`,
+          error: 'CURRENCY_MISMATCH',
+        };
+      }
+
       // Create payment linked to bank transaction
       const payment = await tx.payment.create({
         data: {
@@ -281,6 +366,8 @@ export async function recordPaymentFromBankTransaction(
           customerId: invoice.customerId,
           bankTransactionId,
           amount,
+          currency: invoice.currency,
+          exchangeRate: await getExchangeRate(invoice.currency, bankTransaction.transactionDate, tx),
           paymentDate: bankTransaction.transactionDate,
           paymentMethod: 'BANK_TRANSFER',
           reference: bankTransaction.reference,
@@ -365,6 +452,8 @@ export async function recordPartialPayment(
 
 /**
  * Record a refund
+ * For a payment on account, only the credit not yet applied to an invoice
+ * is refunded, paid out of customer deposits.
  */
 export async function recordRefund(
   userId: string,
@@ -375,7 +464,11 @@ export async function recordRefund(
     const result = await prisma.$transaction(async (tx: TransactionClient) => {
       const payment = await tx.payment.findUnique({
         where: { id: paymentId },
-        include: { invoice: true },
+        include: {
+          invoice: true,
+          bankTransaction: { select: { bankAccountId: true } },
+          _count: { select: { creditAllocations: true } },
+        },
       });
 
       if (!payment) {
@@ -394,12 +487,79 @@ export async function recordRefund(
         };
       }
 
+      if (!payment.invoiceId && payment.unappliedAmount > 0) {
+        const refundAmount = payment.unappliedAmount;
+        const refundDate = new Date();
+        const refundRate = await getExchangeRate(payment.currency, refundDate, tx);
+
+        // Only refund the credit read above; an application in between wins
+        const released = await tx.payment.updateMany({
+          where: { id: paymentId, unappliedAmount: refundAmount },
+          data: {
+            unappliedAmount: 0,
+            ...(refundAmount === payment.amount && { status: 'REFUNDED' }),
+          },
+        });
+
+        if (released.count === 0) {
+          return {
+            success: false,
+            message: 'Customer credit on this payment has changed; try again',
+            error: 'CREDIT_CHANGED',
+          };
+        }
+
+        const refund = await tx.payment.create({
+          data: {
+            customerId: payment.customerId,
+            amount: -refundAmount,
+            currency: payment.currency,
+            exchangeRate: refundRate,
+            paymentDate: refundDate,
+            paymentMethod: payment.paymentMethod,
+            reference: `REFUND-${paymentId}`,
+            status: 'REFUNDED',
+            notes: `Refund of customer credit: ${reason}`,
+          },
+        });
+
+        await postCustomerCreditRefunded(
+          refund.id,
+          payment.customerId,
+          refundAmount,
+          userId,
+          `Customer credit refunded from ${payment.reference}: ${reason}`,
+          await getLedgerAccountCodeForBankAccount(payment.bankTransaction?.bankAccountId, tx),
+          tx,
+          isBaseCurrency(payment.currency)
+            ? undefined
+            : { currency: payment.currency, rate: refundRate, bookedRate: payment.exchangeRate }
+        );
+
+        return {
+          success: true,
+          paymentId: refund.id,
+          message: `${formatCurrency(refundAmount, payment.currency)} of customer credit refunded`,
+          unappliedAmount: 0,
+        };
+      }
+
+      if (!payment.invoiceId && payment._count.creditAllocations > 0) {
+        return {
+          success: false,
+          message: 'This payment has already been applied to invoices as customer credit',
+          error: 'CREDIT_ALREADY_APPLIED',
+        };
+      }
+
       // Create refund record as negative payment
       const refund = await tx.payment.create({
         data: {
           invoiceId: payment.invoiceId,
           customerId: payment.customerId,
           amount: -payment.amount,
+          currency: payment.currency,
+          exchangeRate: payment.exchangeRate,
           paymentDate: new Date(),
           paymentMethod: payment.paymentMethod,
           reference: `REFUND-${paymentId}`,
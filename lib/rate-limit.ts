@@ -33,23 +33,33 @@ function getClientId(request: NextRequest): string {
  * @returns True if rate limit exceeded, false otherwise
  */
 export function checkRateLimit(request: NextRequest): boolean {
-  const clientId = getClientId(request);
+  return isRateLimited(getClientId(request), MAX_REQUESTS, WINDOW_MS);
+}
+
+/**
+ * Count a request against its own limit, e.g. a stricter one for public endpoints
+ * @param key - What to limit on (prefix it so it does not share a count with the API limit)
+ * @param maxRequests - Requests allowed per window
+ * @param windowMs - Window length in milliseconds
+ * @returns True if rate limit exceeded, false otherwise
+ */
+export function isRateLimited(key: string, maxRequests: number, windowMs: number = WINDOW_MS): boolean {
   const now = Date.now();
 
   // Initialize or get existing record
-  if (!requestCounts[clientId] || requestCounts[clientId].resetTime < now) {
-    requestCounts[clientId] = {
+  if (!requestCounts[key] || requestCounts[key].resetTime < now) {
+    requestCounts[key] = {
       count: 1,
-      resetTime: now + WINDOW_MS,
+      resetTime: now + windowMs,
     };
     return false;
   }
 
   // Increment counter
-  requestCounts[clientId].count++;
+  requestCounts[key].count++;
 
   // Check if limit exceeded
-  return requestCounts[clientId].count > MAX_REQUESTS;
+  return requestCounts[key].count > maxRequests;
 }
 
 /**
@@ -0,0 +1,388 @@
+/**
+ * Reconciliation Exceptions
+ *
+ * Bank transactions that auto-match leaves UNMATCHED become exceptions: a
+ * work queue item with an owner, an SLA due date and a comment thread.
+ * Exceptions close themselves when the transaction is reconciled, or are
+ * resolved by hand with a note. The escalation sweep raises an alert through
+ * the alert manager each time an open exception ages past another SLA
+ * period.
+ */
+
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { AlertEventType, triggerAlerts } from './alert-manager';
+import { createNotification, NotificationSeverity, NotificationType } from './notification-service';
+
+export type ExceptionStatus = 'OPEN' | 'IN_PROGRESS' | 'RESOLVED';
+export type ExceptionPriority = 'LOW' | 'MEDIUM' | 'HIGH';
+
+/** Hours an exception may stay open before it is overdue */
+export const EXCEPTION_SLA_HOURS =
+  parseInt(process.env.RECONCILIATION_EXCEPTION_SLA_HOURS || '', 10) || 48;
+
+/** Absolute amounts at or above these are MEDIUM / HIGH priority */
+const PRIORITY_THRESHOLDS = { MEDIUM: 10000, HIGH: 100000 };
+
+/** Age buckets (in days) for the ageing report */
+const AGEING_BUCKETS = [
+  { label: '0-1 days', min: 0, max: 1 },
+  { label: '1-3 days', min: 1, max: 3 },
+  { label: '3-7 days', min: 3, max: 7 },
+  { label: '7+ days', min: 7, max: Infinity },
+];
+
+const OPEN_STATUSES: ExceptionStatus[] = ['OPEN', 'IN_PROGRESS'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Roles that can own exceptions */
+const ASSIGNABLE_ROLES = ['ADMIN', 'FINANCE_MANAGER', 'FINANCE_STAFF'];
+
+function priorityForAmount(amount: number): ExceptionPriority {
+  const value = Math.abs(amount);
+  if (value >= PRIORITY_THRESHOLDS.HIGH) return 'HIGH';
+  if (value >= PRIORITY_THRESHOLDS.MEDIUM) return 'MEDIUM';
+  return 'LOW';
+}
+
+function slaDueDate(from: Date = new Date()): Date {
+  return new Date(from.getTime() + EXCEPTION_SLA_HOURS * HOUR_MS);
+}
+
+/**
+ * Open an exception for an unmatched bank transaction. A previously
+ * resolved exception for the same transaction is reopened with a fresh SLA.
+ *
+ * @param bankTransactionId - Bank transaction (internal ID)
+ * @param reason - Why auto-match could not reconcile it
+ * @param client - Existing transaction client
+ */
+export async function openException(
+  bankTransactionId: string,
+  reason?: string,
+  client: TransactionClient = prisma
+) {
+  const [transaction, existing] = await Promise.all([
+    client.bankTransaction.findUnique({
+      where: { id: bankTransactionId },
+      select: { amount: true },
+    }),
+    client.reconciliationException.findUnique({
+      where: { bankTransactionId },
+    }),
+  ]);
+
+  if (!transaction) {
+    throw new Error('Bank transaction not found');
+  }
+
+  if (existing && existing.status !== 'RESOLVED') {
+    return existing;
+  }
+
+  const data = {
+    status: 'OPEN',
+    priority: priorityForAmount(transaction.amount),
+    reason,
+    dueAt: slaDueDate(),
+    escalationLevel: 0,
+    escalatedAt: null,
+    resolvedBy: null,
+    resolvedAt: null,
+    resolution: null,
+  };
+
+  if (existing) {
+    return client.reconciliationException.update({
+      where: { id: existing.id },
+      data,
+    });
+  }
+
+  return client.reconciliationException.create({
+    data: { bankTransactionId, ...data },
+  });
+}
+
+/**
+ * Close the open exception of a transaction that has been reconciled
+ * @param bankTransactionId - Bank transaction (internal ID)
+ * @param userId - User who reconciled it
+ * @param resolution - Resolution note
+ * @param client - Existing transaction client
+ */
+export async function resolveExceptionForTransaction(
+  bankTransactionId: string,
+  userId: string,
+  resolution: string,
+  client: TransactionClient = prisma
+) {
+  return client.reconciliationException.updateMany({
+    where: { bankTransactionId, status: { in: OPEN_STATUSES } },
+    data: {
+      status: 'RESOLVED',
+      resolvedBy: userId,
+      resolvedAt: new Date(),
+      resolution,
+    },
+  });
+}
+
+/**
+ * Assign (or unassign) an exception
+ * @param exceptionId - Exception ID
+ * @param assigneeId - User to assign, or null to return it to the queue
+ * @param assignedBy - User making the assignment
+ * @param priority - Optional priority override
+ */
+export async function assignException(
+  exceptionId: string,
+  assigneeId: string | null,
+  assignedBy: string,
+  priority?: ExceptionPriority
+) {
+  const exception = await prisma.reconciliationException.findUnique({
+    where: { id: exceptionId },
+    include: { bankTransaction: { select: { bankTransactionId: true, amount: true, reference: true } } },
+  });
+
+  if (!exception) {
+    throw new Error('Exception not found');
+  }
+
+  if (exception.status === 'RESOLVED') {
+    throw new Error('Exception is already resolved');
+  }
+
+  if (assigneeId) {
+    const assignee = await prisma.user.findUnique({ where: { id: assigneeId } });
+
+    if (!assignee || !assignee.isActive || !ASSIGNABLE_ROLES.includes(assignee.role)) {
+      throw new Error('Exceptions can only be assigned to active finance users');
+    }
+  }
+
+  const updated = await prisma.reconciliationException.update({
+    where: { id: exceptionId },
+    data: {
+      assignedTo: assigneeId,
+      assignedBy: assigneeId ? assignedBy : null,
+      assignedAt: assigneeId ? new Date() : null,
+      status: assigneeId ? 'IN_PROGRESS' : 'OPEN',
+      ...(priority && { priority }),
+    },
+  });
+
+  if (assigneeId && assigneeId !== exception.assignedTo) {
+    await createNotification({
+      userId: assigneeId,
+      type: NotificationType.EXCEPTION_ALERT,
+      title: 'Reconciliation exception assigned to you',
+      message: `${exception.bankTransaction.bankTransactionId} (${exception.bankTransaction.amount}) - ${exception.bankTransaction.reference}. Due ${updated.dueAt.toISOString().slice(0, 10)}`,
+      severity: NotificationSeverity.INFO,
+      category: 'reconciliation',
+      relatedEntityId: exceptionId,
+      relatedEntityType: 'ReconciliationException',
+      actionUrl: '/dashboard/reconcile/exceptions',
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Add a comment to an exception's thread
+ */
+export async function addExceptionComment(exceptionId: string, userId: string, comment: string) {
+  const exception = await prisma.reconciliationException.findUnique({
+    where: { id: exceptionId },
+    select: { id: true },
+  });
+
+  if (!exception) {
+    throw new Error('Exception not found');
+  }
+
+  return prisma.reconciliationExceptionComment.create({
+    data: { exceptionId, userId, comment },
+    include: { user: { select: { id: true, firstName: true, lastName: true } } },
+  });
+}
+
+/**
+ * Resolve an exception by hand (e.g. a duplicate line or a bank error being
+ * taken up with the bank). The resolution is also kept in the comment thread.
+ */
+export async function resolveException(exceptionId: string, userId: string, resolution: string) {
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    const exception = await tx.reconciliationException.findUnique({
+      where: { id: exceptionId },
+    });
+
+    if (!exception) {
+      throw new Error('Exception not found');
+    }
+
+    if (exception.status === 'RESOLVED') {
+      throw new Error('Exception is already resolved');
+    }
+
+    await tx.reconciliationExceptionComment.create({
+      data: { exceptionId, userId, comment: `Resolved: ${resolution}` },
+    });
+
+    return tx.reconciliationException.update({
+      where: { id: exceptionId },
+      data: {
+        status: 'RESOLVED',
+        resolvedBy: userId,
+        resolvedAt: new Date(),
+        resolution,
+      },
+    });
+  });
+}
+
+/**
+ * Exception sweep: open exceptions for UNMATCHED transactions that have
+ * none (and no suggestion awaiting review), then escalate open exceptions
+ * for every SLA period they have aged past their due date.
+ *
+ * @returns Counts of exceptions opened and escalated
+ */
+export async function escalateOverdueExceptions() {
+  const now = new Date();
+
+  const untracked = await prisma.bankTransaction.findMany({
+    where: {
+      status: 'UNMATCHED',
+      exception: null,
+      suggestions: { none: { status: 'PENDING' } },
+    },
+    select: { id: true },
+  });
+
+  for (const transaction of untracked) {
+    await openException(transaction.id, 'Left unmatched for manual review');
+  }
+
+  const overdue = await prisma.reconciliationException.findMany({
+    where: {
+      status: { in: OPEN_STATUSES },
+      dueAt: { lt: now },
+    },
+    include: {
+      bankTransaction: {
+        select: { bankTransactionId: true, amount: true, reference: true, transactionDate: true },
+      },
+      assignee: { select: { id: true, firstName: true, lastName: true } },
+    },
+  });
+
+  let escalated = 0;
+
+  for (const exception of overdue) {
+    const hoursOverdue = (now.getTime() - exception.dueAt.getTime()) / HOUR_MS;
+    const level = Math.floor(hoursOverdue / EXCEPTION_SLA_HOURS) + 1;
+
+    if (level <= exception.escalationLevel) continue;
+
+    await prisma.reconciliationException.update({
+      where: { id: exception.id },
+      data: { escalationLevel: level, escalatedAt: now },
+    });
+
+    await triggerAlerts({
+      eventType: AlertEventType.EXCEPTION_SLA_BREACHED,
+      relatedEntityId: exception.id,
+      relatedEntityType: 'ReconciliationException',
+      values: {
+        overdue: true,
+        escalationLevel: level,
+        hoursOverdue: Math.round(hoursOverdue),
+        priority: exception.priority,
+        amount: exception.bankTransaction.amount,
+        bankTransactionId: exception.bankTransaction.bankTransactionId,
+        reference: exception.bankTransaction.reference,
+        assignedTo: exception.assignee
+          ? `${exception.assignee.firstName} ${exception.assignee.lastName}`
+          : 'Unassigned',
+      },
+    });
+
+    escalated++;
+  }
+
+  return { opened: untracked.length, escalated };
+}
+
+/**
+ * Workload per assignee and ageing of open exceptions
+ */
+export async function getExceptionSummary() {
+  const now = new Date();
+
+  const [open, assignees] = await Promise.all([
+    prisma.reconciliationException.findMany({
+      where: { status: { in: OPEN_STATUSES } },
+      select: {
+        assignedTo: true,
+        dueAt: true,
+        createdAt: true,
+        bankTransaction: { select: { amount: true } },
+      },
+    }),
+    prisma.user.findMany({
+      where: { isActive: true, role: { in: ASSIGNABLE_ROLES } },
+      select: { id: true, firstName: true, lastName: true, role: true },
+      orderBy: { firstName: 'asc' },
+    }),
+  ]);
+
+  const workload = new Map<
+    string,
+    { userId: string | null; name: string; open: number; overdue: number; amount: number; oldestDays: number }
+  >();
+
+  const ageing = AGEING_BUCKETS.map((bucket) => ({ label: bucket.label, count: 0, amount: 0 }));
+
+  for (const exception of open) {
+    const ageDays = (now.getTime() - exception.createdAt.getTime()) / (24 * HOUR_MS);
+    const amount = Math.abs(exception.bankTransaction.amount);
+    const key = exception.assignedTo ?? 'unassigned';
+
+    if (!workload.has(key)) {
+      const user = assignees.find((a) => a.id === exception.assignedTo);
+      workload.set(key, {
+        userId: exception.assignedTo,
+        name: user ? `${user.firstName} ${user.lastName}` : 'Unassigned',
+        open: 0,
+        overdue: 0,
+        amount: 0,
+        oldestDays: 0,
+      });
+    }
+
+    const entry = workload.get(key)!;
+    entry.open++;
+    entry.amount += amount;
+    entry.oldestDays = Math.max(entry.oldestDays, Math.floor(ageDays));
+    if (exception.dueAt < now) {
+      entry.overdue++;
+    }
+
+    const bucket = AGEING_BUCKETS.findIndex((b) => ageDays >= b.min && ageDays < b.max);
+    ageing[bucket].count++;
+    ageing[bucket].amount += amount;
+  }
+
+  return {
+    slaHours: EXCEPTION_SLA_HOURS,
+    totalOpen: open.length,
+    totalOverdue: open.filter((e) => e.dueAt < now).length,
+    workload: Array.from(workload.values()).sort((a, b) => b.open - a.open),
+    ageing,
+    assignees,
+  };
+}
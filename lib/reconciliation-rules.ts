@@ -0,0 +1,217 @@
+/**
+ * Reconciliation Rules
+ *
+ * Persisted "if the statement line looks like X, it belongs to customer Y"
+ * rules. Rules are created explicitly by finance or suggested automatically
+ * once the same pattern has been matched manually to the same customer
+ * several times. Active rules are evaluated before the generic matching
+ * strategies in the matching engine.
+ */
+
+import prisma from './prisma';
+import { REFERENCE_NOISE_WORDS } from './name-matching';
+
+export type RulePatternType = 'CONTAINS' | 'EQUALS' | 'REGEX';
+export type RuleMatchField =
+  | 'REFERENCE'
+  | 'ACCOUNT_REFERENCE'
+  | 'COUNTERPARTY_PHONE'
+  | 'COUNTERPARTY_NAME';
+
+/** Manual matches of the same pattern to one customer before a rule is suggested */
+export const RULE_SUGGESTION_THRESHOLD = 3;
+
+interface RuleTarget {
+  reference: string;
+  accountReference: string | null;
+  counterpartyPhone: string | null;
+  counterpartyName: string | null;
+}
+
+interface RuleCondition {
+  pattern: string;
+  patternType: string;
+  matchField: string;
+}
+
+function normalizeText(value: string): string {
+  return value.toUpperCase().replace(/\s+/g, ' ').trim();
+}
+
+function getFieldValue(transaction: RuleTarget, matchField: string): string | null {
+  switch (matchField) {
+    case 'ACCOUNT_REFERENCE':
+      return transaction.accountReference;
+    case 'COUNTERPARTY_PHONE':
+      return transaction.counterpartyPhone;
+    case 'COUNTERPARTY_NAME':
+      return transaction.counterpartyName;
+    default:
+      return transaction.reference;
+  }
+}
+
+/**
+ * Check whether a rule condition matches a bank transaction
+ * @param rule - Pattern, pattern type and field
+ * @param transaction - Bank transaction fields
+ */
+export function ruleMatches(rule: RuleCondition, transaction: RuleTarget): boolean {
+  const value = getFieldValue(transaction, rule.matchField);
+  if (!value) return false;
+
+  switch (rule.patternType) {
+    case 'EQUALS':
+      return normalizeText(value) === normalizeText(rule.pattern);
+    case 'REGEX':
+      try {
+        return new RegExp(rule.pattern, 'i').test(value);
+      } catch {
+        return false;
+      }
+    default:
+      return normalizeText(value).includes(normalizeText(rule.pattern));
+  }
+}
+
+/**
+ * Find the first active rule (by priority) that matches a bank transaction
+ * @param transaction - Bank transaction fields
+ * @returns Matching rule with its customer, or null
+ */
+export async function findMatchingRule(transaction: RuleTarget) {
+  const rules = await prisma.reconciliationRule.findMany({
+    where: {
+      status: 'ACTIVE',
+      isEnabled: true,
+      customer: { isActive: true },
+    },
+    include: {
+      customer: { select: { id: true, name: true, customerCode: true } },
+    },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return rules.find((rule) => ruleMatches(rule, transaction)) || null;
+}
+
+/**
+ * Record that a rule was used to reconcile a transaction
+ */
+export async function recordRuleHit(ruleId: string) {
+  await prisma.reconciliationRule.update({
+    where: { id: ruleId },
+    data: {
+      hitCount: { increment: 1 },
+      lastMatchedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Derive a candidate rule condition from a bank transaction.
+ * An unmasked payer phone is the most reliable key; otherwise the first
+ * run of significant words in the narrative (e.g. "SAFARI DISTRIBUTORS").
+ *
+ * @param transaction - Bank transaction fields
+ * @returns Rule condition, or null when nothing distinctive is found
+ */
+export function deriveRulePattern(transaction: RuleTarget): RuleCondition | null {
+  const phone = transaction.counterpartyPhone;
+  if (phone && !phone.includes('*')) {
+    return { pattern: phone, patternType: 'EQUALS', matchField: 'COUNTERPARTY_PHONE' };
+  }
+
+  const tokens = normalizeText(transaction.reference).split(/[^A-Z0-9&-]+/);
+  const significant: string[] = [];
+
+  for (const token of tokens) {
+    const isSignificant = token.length > 2 && !/\d/.test(token) && !REFERENCE_NOISE_WORDS.has(token);
+
+    if (isSignificant) {
+      significant.push(token);
+      if (significant.length === 3) break;
+    } else if (significant.length > 0) {
+      break;
+    }
+  }
+
+  if (significant.length === 0) {
+    return null;
+  }
+
+  return { pattern: significant.join(' '), patternType: 'CONTAINS', matchField: 'REFERENCE' };
+}
+
+/**
+ * After a manual match, suggest a rule when the same pattern has been
+ * matched manually to the same customer RULE_SUGGESTION_THRESHOLD times.
+ *
+ * @param bankTransactionId - Bank transaction just matched
+ * @param customerId - Customer it was matched to
+ * @param userId - User who performed the match
+ * @returns The suggested rule, or null
+ */
+export async function suggestRuleFromManualMatch(
+  bankTransactionId: string,
+  customerId: string,
+  userId: string
+) {
+  const transaction = await prisma.bankTransaction.findUnique({
+    where: { id: bankTransactionId },
+  });
+
+  if (!transaction) {
+    return null;
+  }
+
+  const condition = deriveRulePattern(transaction);
+  if (!condition) {
+    return null;
+  }
+
+  const existing = await prisma.reconciliationRule.findFirst({
+    where: {
+      customerId,
+      matchField: condition.matchField,
+      pattern: { equals: condition.pattern, mode: 'insensitive' },
+    },
+  });
+
+  // Never re-suggest a rule that exists or was dismissed
+  if (existing) {
+    return null;
+  }
+
+  const manualMatches = await prisma.reconciliationLog.findMany({
+    where: {
+      matchedCustomerId: customerId,
+      action: 'MANUAL_MATCHED',
+    },
+    include: { bankTransaction: true },
+  });
+
+  const matchedTransactionIds = new Set(
+    manualMatches
+      .filter((log) => ruleMatches(condition, log.bankTransaction))
+      .map((log) => log.bankTransactionId)
+  );
+
+  if (matchedTransactionIds.size < RULE_SUGGESTION_THRESHOLD) {
+    return null;
+  }
+
+  return prisma.reconciliationRule.create({
+    data: {
+      name: `Learned: ${condition.pattern}`,
+      ...condition,
+      customerId,
+      source: 'LEARNED',
+      status: 'SUGGESTED',
+      createdBy: userId,
+    },
+    include: {
+      customer: { select: { id: true, name: true, customerCode: true } },
+    },
+  });
+}
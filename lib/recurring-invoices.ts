@@ -0,0 +1,450 @@
+/**
+ * Recurring Invoices
+ *
+ * Templates bill a customer the same lines on a schedule (monthly
+ * retainers, subscriptions). Each run issues a SENT invoice for the
+ * template's next run date, posts it to the ledger and, for auto-send
+ * templates, emails and/or texts it to the customer. Runs are recorded per
+ * billing date, so a date that was already invoiced is never invoiced
+ * twice; failed runs are retried on the next sweep.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears,
+  differenceInMonths,
+  differenceInQuarters,
+  differenceInWeeks,
+  differenceInYears,
+} from 'date-fns';
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import type { TransactionClient } from './types';
+import { computeInvoiceLines, createInvoice } from './invoices';
+import type {
+  CreateRecurringInvoiceInput,
+  InvoiceItemInput,
+  UpdateRecurringInvoiceInput,
+} from './validations';
+import { sendInvoiceEmail } from './email-service';
+import { sendInvoiceIssuedSms } from './sms-service';
+
+export type RecurringFrequency = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+export type RecurringInvoiceStatus = 'ACTIVE' | 'PAUSED' | 'ENDED';
+export type RecurringSendChannel = 'EMAIL' | 'SMS' | 'BOTH';
+
+/**
+ * The nth billing date of a schedule. Counted from the start date rather than
+ * the previous run, so a schedule starting on the 31st bills on the last day
+ * of short months and goes back to the 31st after them.
+ */
+function scheduledRunDate(startDate: Date, frequency: string, n: number): Date {
+  switch (frequency) {
+    case 'WEEKLY':
+      return addWeeks(startDate, n);
+    case 'QUARTERLY':
+      return addQuarters(startDate, n);
+    case 'YEARLY':
+      return addYears(startDate, n);
+    case 'MONTHLY':
+    default:
+      return addMonths(startDate, n);
+  }
+}
+
+function periodsBetween(startDate: Date, date: Date, frequency: string): number {
+  switch (frequency) {
+    case 'WEEKLY':
+      return differenceInWeeks(date, startDate);
+    case 'QUARTERLY':
+      return differenceInQuarters(date, startDate);
+    case 'YEARLY':
+      return differenceInYears(date, startDate);
+    case 'MONTHLY':
+    default:
+      return differenceInMonths(date, startDate);
+  }
+}
+
+/**
+ * First billing date of the schedule after the given one
+ */
+export function advanceRunDate(date: Date, startDate: Date, frequency: string): Date {
+  // Start a period short of the estimate, which can round either way at month ends
+  let n = Math.max(periodsBetween(startDate, date, frequency) - 1, 0);
+
+  while (scheduledRunDate(startDate, frequency, n) <= date) {
+    n++;
+  }
+
+  return scheduledRunDate(startDate, frequency, n);
+}
+
+/**
+ * Next run date after a billing date, or null once it passes the end date
+ */
+function nextRunAfter(
+  date: Date,
+  template: { startDate: Date; frequency: string; endDate: Date | null }
+): Date | null {
+  const next = advanceRunDate(date, template.startDate, template.frequency);
+  return template.endDate && next > template.endDate ? null : next;
+}
+
+function toTemplateItems(items: InvoiceItemInput[]) {
+  return items.map((item, index) => ({
+    productId: item.productId ?? null,
+    description: item.description ?? null,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice ?? null,
+    discount: item.discount ?? 0,
+    taxCode: item.taxCode,
+    sortOrder: index,
+  }));
+}
+
+/**
+ * Create a recurring invoice template. Its first run is on the start date.
+ * @param input - Validated template input
+ * @param userId - User creating the template
+ */
+export async function createRecurringInvoice(input: CreateRecurringInvoiceInput, userId: string) {
+  const startDate = new Date(input.startDate);
+  const endDate = input.endDate ? new Date(input.endDate) : null;
+
+  if (Number.isNaN(startDate.getTime()) || (endDate && Number.isNaN(endDate.getTime()))) {
+    throw new Error('Invalid start or end date');
+  }
+
+  if (endDate && endDate < startDate) {
+    throw new Error('End date cannot be before the start date');
+  }
+
+  const customer = await prisma.customer.findUnique({
+    where: { id: input.customerId },
+    select: { id: true },
+  });
+
+  if (!customer) {
+    throw new Error('Customer not found');
+  }
+
+  // Fail now rather than at the first run if a line is invalid
+  await computeInvoiceLines(input.items);
+
+  return prisma.recurringInvoice.create({
+    data: {
+      name: input.name,
+      customerId: input.customerId,
+      frequency: input.frequency,
+      startDate,
+      endDate,
+      nextRunDate: startDate,
+      paymentTermsDays: input.paymentTermsDays,
+      autoSend: input.autoSend,
+      sendChannel: input.sendChannel,
+      description: input.description,
+      notes: input.notes,
+      createdBy: userId,
+      items: { create: toTemplateItems(input.items) },
+    },
+    include: { items: { orderBy: { sortOrder: 'asc' } } },
+  });
+}
+
+/**
+ * Update a template's lines, schedule or delivery, or pause/resume it
+ * @param recurringInvoiceId - Template ID
+ * @param input - Validated changes
+ */
+export async function updateRecurringInvoice(
+  recurringInvoiceId: string,
+  input: UpdateRecurringInvoiceInput
+) {
+  const template = await prisma.recurringInvoice.findUnique({
+    where: { id: recurringInvoiceId },
+  });
+
+  if (!template) {
+    throw new Error('Recurring invoice not found');
+  }
+
+  if (template.status === 'ENDED') {
+    throw new Error('Recurring invoice has ended');
+  }
+
+  const { items, endDate, nextRunDate, ...fields } = input;
+  const end = endDate === undefined ? template.endDate : endDate ? new Date(endDate) : null;
+  const next = nextRunDate ? new Date(nextRunDate) : template.nextRunDate;
+
+  if (next && next < template.startDate) {
+    throw new Error('Next run date cannot be before the start date');
+  }
+
+  if (end && next && end < next) {
+    throw new Error('End date cannot be before the next run date');
+  }
+
+  if (items) {
+    await computeInvoiceLines(items);
+  }
+
+  return prisma.$transaction(async (tx: TransactionClient) => {
+    if (items) {
+      await tx.recurringInvoiceItem.deleteMany({ where: { recurringInvoiceId } });
+    }
+
+    return tx.recurringInvoice.update({
+      where: { id: recurringInvoiceId },
+      data: {
+        ...fields,
+        endDate: end,
+        nextRunDate: next,
+        ...(items && { items: { create: toTemplateItems(items) } }),
+      },
+      include: { items: { orderBy: { sortOrder: 'asc' } } },
+    });
+  });
+}
+
+/**
+ * Email and/or text an issued invoice to the customer
+ * @returns Delivery outcome recorded on the run
+ */
+async function deliverInvoice(
+  invoice: { invoiceNumber: string; totalAmount: number; dueDate: Date },
+  customer: { name: string; email: string | null; phone: string | null },
+  channel: string
+) {
+  const outcome = { emailSent: false, smsSent: false, deliveryError: null as string | null };
+  const errors: string[] = [];
+
+  if (channel === 'EMAIL' || channel === 'BOTH') {
+    if (!customer.email) {
+      errors.push('Customer has no email address');
+    } else {
+      try {
+        await sendInvoiceEmail(
+          customer.email,
+          customer.name,
+          invoice.invoiceNumber,
+          invoice.totalAmount,
+          invoice.dueDate.toISOString().slice(0, 10)
+        );
+        outcome.emailSent = true;
+      } catch (error) {
+        errors.push(`Email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  if (channel === 'SMS' || channel === 'BOTH') {
+    if (!customer.phone) {
+      errors.push('Customer has no phone number');
+    } else {
+      const result = await sendInvoiceIssuedSms(
+        customer.phone,
+        customer.name,
+        invoice.invoiceNumber,
+        invoice.totalAmount,
+        invoice.dueDate
+      );
+
+      if (result.success) {
+        outcome.smsSent = true;
+      } else {
+        errors.push(`SMS: ${result.error || 'Failed to send'}`);
+      }
+    }
+  }
+
+  outcome.deliveryError = errors.length ? errors.join('; ') : null;
+  return outcome;
+}
+
+/**
+ * Issue the invoice for a template's next run date
+ *
+ * @param recurringInvoiceId - Template ID
+ * @param triggeredBy - User for manual runs; scheduler runs are attributed to the template's creator
+ * @returns The run record
+ */
+export async function runRecurringInvoice(recurringInvoiceId: string, triggeredBy?: string) {
+  const template = await prisma.recurringInvoice.findUnique({
+    where: { id: recurringInvoiceId },
+    include: {
+      items: { orderBy: { sortOrder: 'asc' } },
+      customer: { select: { id: true, name: true, email: true, phone: true } },
+    },
+  });
+
+  if (!template) {
+    throw new Error('Recurring invoice not found');
+  }
+
+  if (template.status !== 'ACTIVE' || !template.nextRunDate) {
+    throw new Error(`Recurring invoice is ${template.status.toLowerCase()}`);
+  }
+
+  const scheduledFor = template.nextRunDate;
+  const nextRunDate = nextRunAfter(scheduledFor, template);
+  const scheduleUpdate = {
+    nextRunDate,
+    ...(nextRunDate === null && { status: 'ENDED' }),
+  };
+
+  try {
+    const { run, invoice } = await prisma.$transaction(async (tx: TransactionClient) => {
+      // Claim the billing date before issuing. A concurrent run for the same
+      // date waits on the claim and then fails it, so only one invoice is issued.
+      const retried = await tx.recurringInvoiceRun.updateMany({
+        where: { recurringInvoiceId, scheduledFor, status: 'FAILED' },
+        data: { status: 'SUCCESS', error: null, attempts: { increment: 1 }, triggeredBy },
+      });
+
+      const claimed = retried.count
+        ? await tx.recurringInvoiceRun.findUniqueOrThrow({
+            where: { recurringInvoiceId_scheduledFor: { recurringInvoiceId, scheduledFor } },
+          })
+        : await tx.recurringInvoiceRun.create({
+            data: { recurringInvoiceId, scheduledFor, status: 'SUCCESS', triggeredBy },
+          });
+
+      const invoice = await createInvoice(
+        {
+          customerId: template.customerId,
+          items: template.items.map((item) => ({
+            productId: item.productId ?? undefined,
+            description: item.description ?? undefined,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice ?? undefined,
+            discount: item.discount,
+            taxCode: item.taxCode as 'VAT16' | 'VAT8' | 'ZERO' | 'EXEMPT',
+          })),
+          issueDate: scheduledFor,
+          dueDate: addDays(scheduledFor, template.paymentTermsDays),
+          status: 'SENT',
+          description: template.description ?? `${template.name} (${scheduledFor.toISOString().slice(0, 10)})`,
+          notes: template.notes ?? undefined,
+        },
+        triggeredBy ?? template.createdBy,
+        tx
+      );
+
+      const run = await tx.recurringInvoiceRun.update({
+        where: { id: claimed.id },
+        data: { invoiceId: invoice.id },
+      });
+
+      await tx.recurringInvoice.update({
+        where: { id: recurringInvoiceId },
+        data: {
+          ...scheduleUpdate,
+          lastRunAt: new Date(),
+          runCount: { increment: 1 },
+          failureCount: 0,
+        },
+      });
+
+      return { run, invoice };
+    });
+
+    if (!template.autoSend) {
+      return run;
+    }
+
+    const delivery = await deliverInvoice(invoice, template.customer, template.sendChannel);
+
+    return prisma.recurringInvoiceRun.update({
+      where: { id: run.id },
+      data: delivery,
+    });
+  } catch (error) {
+    // Already invoiced, by an earlier or concurrent run: just move on
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const existing = await prisma.recurringInvoiceRun.findUnique({
+        where: { recurringInvoiceId_scheduledFor: { recurringInvoiceId, scheduledFor } },
+      });
+
+      if (existing?.status === 'SUCCESS') {
+        await prisma.recurringInvoice.updateMany({
+          where: { id: recurringInvoiceId, nextRunDate: scheduledFor },
+          data: scheduleUpdate,
+        });
+        return existing;
+      }
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Recurring invoice ${recurringInvoiceId} run failed:`, error);
+
+    const [run] = await prisma.$transaction([
+      prisma.recurringInvoiceRun.upsert({
+        where: { recurringInvoiceId_scheduledFor: { recurringInvoiceId, scheduledFor } },
+        create: {
+          recurringInvoiceId,
+          scheduledFor,
+          status: 'FAILED',
+          error: message,
+          triggeredBy,
+        },
+        update: {
+          status: 'FAILED',
+          error: message,
+          attempts: { increment: 1 },
+          triggeredBy,
+        },
+      }),
+      prisma.recurringInvoice.update({
+        where: { id: recurringInvoiceId },
+        data: { failureCount: { increment: 1 } },
+      }),
+    ]);
+
+    return run;
+  }
+}
+
+/**
+ * Run every active template that is due, catching up on missed billing
+ * dates one run at a time. A template stops for this sweep at its first
+ * failure and is retried on the next.
+ *
+ * @param asOf - Run templates due on or before this date
+ * @returns Counts of invoices issued and runs failed
+ */
+export async function runDueRecurringInvoices(asOf: Date = new Date()) {
+  const due = await prisma.recurringInvoice.findMany({
+    where: { status: 'ACTIVE', nextRunDate: { lte: asOf } },
+    select: { id: true },
+  });
+
+  const results = { templates: due.length, issued: 0, failed: 0 };
+
+  for (const { id } of due) {
+    for (;;) {
+      const run = await runRecurringInvoice(id);
+
+      if (run.status === 'FAILED') {
+        results.failed++;
+        break;
+      }
+
+      results.issued++;
+
+      const template = await prisma.recurringInvoice.findUnique({
+        where: { id },
+        select: { status: true, nextRunDate: true },
+      });
+
+      if (!template || template.status !== 'ACTIVE' || !template.nextRunDate || template.nextRunDate > asOf) {
+        break;
+      }
+    }
+  }
+
+  return results;
+}
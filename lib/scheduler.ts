@@ -0,0 +1,86 @@
+/**
+ * Background job scheduler
+ *
+ * Registers the recurring jobs with node-schedule when the Node.js server
+ * starts (see instrumentation.ts). Set SCHEDULER_ENABLED=false on extra
+ * instances so jobs only run once, or when an external cron calls the
+ * equivalent API endpoints instead.
+ */
+
+import schedule from 'node-schedule';
+import { runDueRecurringInvoices } from './recurring-invoices';
+import { escalateOverdueExceptions } from './reconciliation-exceptions';
+import { runDunning } from './dunning';
+import { runLateFees } from './late-fees';
+import { runMonthEndStatements } from './customer-statements';
+import { processFiscalQueue } from './etims';
+
+let started = false;
+
+/**
+ * Run a job, logging rather than throwing so one failure does not stop
+ * the schedule
+ */
+function runJob(name: string, job: () => Promise<unknown>) {
+  return async () => {
+    try {
+      await job();
+      console.log(`Scheduled job ${name} completed`);
+    } catch (error) {
+      console.error(`Scheduled job ${name} failed:`, error);
+    }
+  };
+}
+
+/**
+ * Register all scheduled jobs (once per process)
+ */
+export function startScheduler() {
+  if (started || process.env.SCHEDULER_ENABLED === 'false') {
+    return;
+  }
+
+  started = true;
+
+  schedule.scheduleJob(
+    'recurring-invoices',
+    process.env.RECURRING_INVOICES_CRON || '0 6 * * *',
+    runJob('recurring-invoices', () => runDueRecurringInvoices())
+  );
+
+  schedule.scheduleJob(
+    'reconciliation-exception-escalation',
+    process.env.EXCEPTION_ESCALATION_CRON || '0 * * * *',
+    runJob('reconciliation-exception-escalation', () => escalateOverdueExceptions())
+  );
+
+  schedule.scheduleJob(
+    'dunning',
+    process.env.DUNNING_CRON || '0 8 * * *',
+    runJob('dunning', () => runDunning())
+  );
+
+  // Charges are keyed by month, so a daily run only charges invoices that
+  // have passed their grace period since the last run
+  schedule.scheduleJob(
+    'late-fees',
+    process.env.LATE_FEES_CRON || '0 5 * * *',
+    runJob('late-fees', () => runLateFees())
+  );
+
+  // Emails every customer, so it only runs where a schedule is set (e.g. '0 7 1 * *')
+  if (process.env.STATEMENTS_CRON) {
+    schedule.scheduleJob(
+      'month-end-statements',
+      process.env.STATEMENTS_CRON,
+      runJob('month-end-statements', () => runMonthEndStatements({ send: true }))
+    );
+  }
+
+  // Retries documents the control unit has not signed yet (no-op unless ETIMS_ENABLED)
+  schedule.scheduleJob(
+    'etims-queue',
+    process.env.ETIMS_QUEUE_CRON || '*/5 * * * *',
+    runJob('etims-queue', () => processFiscalQueue())
+  );
+}
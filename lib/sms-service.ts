@@ -662,6 +662,68 @@ export async function sendInvoiceReminderSms(
   });
 }
 
+/**
+ * Send newly issued invoice SMS
+ */
+export async function sendInvoiceIssuedSms(
+  customerPhone: string,
+  customerName: string,
+  invoiceNumber: string,
+  totalAmount: number,
+  dueDate: Date
+): Promise<SmsResult> {
+  const formattedDueDate = dueDate.toLocaleDateString('en-KE', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+  const formattedAmount = `KES ${totalAmount.toLocaleString('en-KE', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+  const message = `Hi ${customerName},\n\n` +
+    `Invoice ${invoiceNumber} has been issued to your account.\n\n` +
+    `Amount: ${formattedAmount}\n` +
+    `Due date: ${formattedDueDate}\n\n` +
+    `Thank you for your business!\n\n` +
+    `Kelly OS`;
+
+  return await sendSms({
+    to: customerPhone,
+    message,
+    type: 'transactional',
+  });
+}
+
+/**
+ * Send a customer their account portal link
+ */
+export async function sendPortalLinkSms(
+  customerPhone: string,
+  customerName: string,
+  portalUrl: string,
+  expiresAt: Date
+): Promise<SmsResult> {
+  const formattedExpiry = expiresAt.toLocaleDateString('en-KE', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+  const message = `Hi ${customerName},\n\n` +
+    `View your invoices, receipts and statement online:\n${portalUrl}\n\n` +
+    `This link is for you only and expires on ${formattedExpiry}.\n\n` +
+    `Kelly OS`;
+
+  return await sendSms({
+    to: customerPhone,
+    message,
+    type: 'transactional',
+  });
+}
+
 /**
  * Send generic notification SMS
  */
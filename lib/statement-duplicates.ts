@@ -0,0 +1,144 @@
+/**
+ * Content-based duplicate detection for statement uploads
+ *
+ * Many banks omit or regenerate transaction IDs between exports, so the
+ * unique bankTransactionId alone does not stop an overlapping date range
+ * from being imported twice. Each line is also fingerprinted from its
+ * content - bank account, date, amount, normalised reference and running
+ * balance - and lines whose fingerprint is already on file (or repeats
+ * within the same file) are held back for review instead of inserted.
+ */
+
+import { createHash } from 'crypto';
+import prisma from './prisma';
+import type { ParsedTransaction } from './statement-parser';
+
+export interface SuspectedDuplicate {
+  rowNumber: number;
+  bankTransactionId: string;
+  transactionDate: Date;
+  amount: number;
+  reference: string;
+  balance?: number;
+  fingerprint: string;
+  reason: 'ALREADY_IMPORTED' | 'REPEATED_IN_FILE';
+  existing?: {
+    id: string;
+    bankTransactionId: string;
+    transactionDate: Date;
+    amount: number;
+    reference: string;
+    status: string;
+    statementFileName: string;
+    importedAt: Date;
+  };
+}
+
+/**
+ * Normalise a statement reference for comparison: case, punctuation and
+ * whitespace differences between exports are ignored
+ */
+export function normalizeStatementReference(reference: string): string {
+  return reference.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Content fingerprint of a statement line
+ * @param bankAccountId - Bank account the statement belongs to
+ * @param transaction - Parsed statement line
+ * @returns SHA-256 hex digest
+ */
+export function computeTransactionFingerprint(
+  bankAccountId: string,
+  transaction: Pick<ParsedTransaction, 'transactionDate' | 'amount' | 'reference' | 'balance'>
+): string {
+  const parts = [
+    bankAccountId,
+    transaction.transactionDate.toISOString().slice(0, 10),
+    transaction.amount.toFixed(2),
+    normalizeStatementReference(transaction.reference),
+    transaction.balance !== undefined && transaction.balance !== null
+      ? transaction.balance.toFixed(2)
+      : '',
+  ];
+
+  return createHash('sha256').update(parts.join('|')).digest('hex');
+}
+
+/**
+ * Find statement lines that look like duplicates of lines already imported
+ * to the same bank account, or of earlier lines in the same file
+ * @param bankAccountId - Bank account the statement belongs to
+ * @param transactions - Parsed statement lines
+ * @returns Fingerprint per bank transaction ID, and the suspected duplicates.
+ * Keyed by ID rather than row number because a row with a charge column
+ * is split into two lines.
+ */
+export async function findSuspectedDuplicates(
+  bankAccountId: string,
+  transactions: ParsedTransaction[]
+) {
+  const fingerprints = new Map<string, string>();
+  for (const txn of transactions) {
+    fingerprints.set(txn.bankTransactionId, computeTransactionFingerprint(bankAccountId, txn));
+  }
+
+  const existing = await prisma.bankTransaction.findMany({
+    where: { fingerprint: { in: Array.from(new Set(fingerprints.values())) } },
+    select: {
+      id: true,
+      bankTransactionId: true,
+      transactionDate: true,
+      amount: true,
+      reference: true,
+      status: true,
+      statementFileName: true,
+      importedAt: true,
+      fingerprint: true,
+    },
+  });
+  const existingByFingerprint = new Map(existing.map((e) => [e.fingerprint, e]));
+
+  const seen = new Set<string>();
+  const suspected: SuspectedDuplicate[] = [];
+
+  for (const txn of transactions) {
+    const fingerprint = fingerprints.get(txn.bankTransactionId)!;
+    const match = existingByFingerprint.get(fingerprint);
+
+    // Lines whose bank ID is already on file are plain duplicates, handled by the caller
+    if (match && match.bankTransactionId === txn.bankTransactionId) {
+      seen.add(fingerprint);
+      continue;
+    }
+
+    if (match || seen.has(fingerprint)) {
+      suspected.push({
+        rowNumber: txn.rowNumber,
+        bankTransactionId: txn.bankTransactionId,
+        transactionDate: txn.transactionDate,
+        amount: txn.amount,
+        reference: txn.reference,
+        balance: txn.balance,
+        fingerprint,
+        reason: match ? 'ALREADY_IMPORTED' : 'REPEATED_IN_FILE',
+        ...(match && {
+          existing: {
+            id: match.id,
+            bankTransactionId: match.bankTransactionId,
+            transactionDate: match.transactionDate,
+            amount: match.amount,
+            reference: match.reference,
+            status: match.status,
+            statementFileName: match.statementFileName,
+            importedAt: match.importedAt,
+          },
+        }),
+      });
+    }
+
+    seen.add(fingerprint);
+  }
+
+  return { fingerprints, suspected };
+}
@@ -0,0 +1,542 @@
+/**
+ * Structured Bank Statement Formats
+ *
+ * Parsers for SWIFT MT940, ISO 20022 CAMT.053 and OFX statements.
+ * Each produces the same ParseResult as the CSV/Excel parser, using the
+ * bank's own reference as bankTransactionId so duplicate protection applies.
+ */
+
+import { createHash } from 'crypto';
+import { parseAmount } from './utils';
+import type { ParsedTransaction, ParseResult } from './statement-parser';
+
+function emptyResult(profile: string): ParseResult {
+  return {
+    success: false,
+    transactions: [],
+    errors: [],
+    totalRows: 0,
+    validRows: 0,
+    profile,
+  };
+}
+
+/**
+ * Add a transaction to the result, rejecting duplicate IDs within the file
+ */
+function addTransaction(result: ParseResult, transaction: ParsedTransaction): void {
+  const duplicate = result.transactions.find(
+    (t) => t.bankTransactionId === transaction.bankTransactionId
+  );
+
+  if (duplicate) {
+    result.errors.push({
+      row: transaction.rowNumber,
+      message: `Duplicate transaction ID: ${transaction.bankTransactionId}`,
+    });
+    return;
+  }
+
+  result.transactions.push(transaction);
+  result.validRows++;
+}
+
+/**
+ * Fill in running balances from the opening balance when the format
+ * does not carry a per-line balance
+ */
+function applyRunningBalances(result: ParseResult): void {
+  if (result.openingBalance === undefined) return;
+
+  let running = result.openingBalance;
+  for (const transaction of result.transactions) {
+    running = Math.round((running + transaction.amount) * 100) / 100;
+    if (transaction.balance === undefined) {
+      transaction.balance = running;
+    }
+  }
+}
+
+// ============================================================================
+// SWIFT MT940
+// ============================================================================
+
+/**
+ * Parse a SWIFT amount ("1234,56")
+ */
+function parseSwiftAmount(value: string): number {
+  return parseAmount(value.replace(',', '.'));
+}
+
+/**
+ * Parse a SWIFT YYMMDD date
+ */
+function parseSwiftDate(value: string): Date {
+  const year = 2000 + parseInt(value.slice(0, 2), 10);
+  const month = parseInt(value.slice(2, 4), 10) - 1;
+  const day = parseInt(value.slice(4, 6), 10);
+  const date = new Date(Date.UTC(year, month, day));
+
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+
+  return date;
+}
+
+/**
+ * Parse an MT940 balance field (:60F:, :62F: etc.) - "C240201KES1400000,00"
+ */
+function parseSwiftBalance(value: string): { amount: number; currency: string } | null {
+  const match = value.trim().match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) return null;
+
+  const amount = parseSwiftAmount(match[4]);
+  return { amount: match[1] === 'D' ? -amount : amount, currency: match[3] };
+}
+
+/**
+ * Parse SWIFT MT940 customer statement
+ * @param fileContent - MT940 file content
+ * @param defaultCurrency - Currency for lines before any balance states one
+ * @returns Parse result with transactions, opening and closing balance
+ */
+export function parseMT940(fileContent: string, defaultCurrency = 'KES'): ParseResult {
+  const result = emptyResult('MT940');
+
+  try {
+    // Split into tagged fields, keeping the line each field starts on
+    const fields: Array<{ tag: string; value: string; line: number }> = [];
+    const lines = fileContent.replace(/\r\n?/g, '\n').split('\n');
+
+    lines.forEach((rawLine, index) => {
+      // Strip SWIFT envelope blocks ({1:...}{2:...}{4:) and the trailer (-})
+      const line = rawLine.replace(/^\{[1-5]:[^}]*\}/g, '').replace(/^\{4:/, '');
+      if (!line.trim() || line.trim() === '-}' || line.trim() === '-') return;
+
+      const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+      if (tagMatch) {
+        fields.push({ tag: tagMatch[1], value: tagMatch[2], line: index + 1 });
+      } else if (fields.length > 0) {
+        fields[fields.length - 1].value += `\n${line}`;
+      }
+    });
+
+    // Without a :20: reference, the file's own hash keeps line IDs unique across files
+    let statementReference = `MT940-${createHash('sha256').update(fileContent).digest('hex').slice(0, 12)}`;
+    let currency = defaultCurrency;
+    let current: ParsedTransaction | null = null;
+    let sequence = 0;
+
+    const flush = () => {
+      if (current) {
+        addTransaction(result, current);
+        current = null;
+      }
+    };
+
+    for (const field of fields) {
+      switch (field.tag) {
+        case '20':
+          statementReference = field.value.trim() || statementReference;
+          break;
+
+        case '60F':
+        case '60M': {
+          const balance = parseSwiftBalance(field.value);
+          if (balance) {
+            currency = balance.currency;
+            if (result.openingBalance === undefined) {
+              result.openingBalance = balance.amount;
+            }
+          }
+          break;
+        }
+
+        case '61': {
+          flush();
+          result.totalRows++;
+          sequence++;
+
+          const [firstLine, ...details] = field.value.split('\n');
+          const match = firstLine.match(
+            /^(\d{6})(\d{4})?(RC|RD|C|D)[A-Z]?([\d,]+)[NSF][A-Z0-9]{3}([^/]*?)(?:\/\/(.*))?$/
+          );
+
+          if (!match) {
+            result.errors.push({ row: field.line, message: 'Invalid :61: statement line' });
+            break;
+          }
+
+          const [, valueDateRaw, entryDateRaw, mark, amountRaw, customerRef, bankRef] = match;
+
+          try {
+            const valueDate = parseSwiftDate(valueDateRaw);
+            let transactionDate = valueDate;
+
+            if (entryDateRaw) {
+              // Entry date has no year - take it from the value date, allowing for year end
+              let entryYear = valueDate.getUTCFullYear();
+              const entryMonth = parseInt(entryDateRaw.slice(0, 2), 10);
+              if (entryMonth === 1 && valueDate.getUTCMonth() === 11) entryYear++;
+              if (entryMonth === 12 && valueDate.getUTCMonth() === 0) entryYear--;
+              transactionDate = parseSwiftDate(`${String(entryYear).slice(2)}${entryDateRaw}`);
+            }
+
+            // C = credit, D = debit; RC/RD are reversals of a credit/debit
+            const amount = parseSwiftAmount(amountRaw);
+            const isCredit = mark === 'C' || mark === 'RD';
+
+            const customerReference = customerRef.trim();
+            const bankReference = (bankRef || '').trim();
+            const reference =
+              customerReference && customerReference !== 'NONREF' ? customerReference : '';
+
+            // The customer reference is not unique (NONREF, invoice numbers paid twice),
+            // so a line without a bank reference is identified by its place in the statement
+            current = {
+              bankTransactionId: bankReference || `${statementReference}-${sequence}`,
+              transactionDate,
+              valueDate,
+              amount: isCredit ? amount : -amount,
+              reference: [reference, ...details.map((d) => d.trim())].filter(Boolean).join(' '),
+              currency,
+              rowNumber: field.line,
+              importProfile: 'MT940',
+            };
+          } catch (error) {
+            result.errors.push({
+              row: field.line,
+              message: error instanceof Error ? error.message : 'Failed to parse statement line',
+            });
+          }
+          break;
+        }
+
+        case '86':
+          // Information to account owner - the narrative used for matching
+          if (current) {
+            const narrative = field.value
+              .replace(/\?\d{2}/g, ' ')
+              .replace(/\s+/g, ' ')
+              .trim();
+            if (narrative) {
+              current.reference =
+                current.reference && !narrative.includes(current.reference)
+                  ? `${current.reference} ${narrative}`
+                  : narrative;
+            }
+          }
+          break;
+
+        case '62F':
+        case '62M': {
+          flush();
+          const balance = parseSwiftBalance(field.value);
+          if (balance) result.closingBalance = balance.amount;
+          break;
+        }
+
+        default:
+          break;
+      }
+    }
+
+    flush();
+    applyRunningBalances(result);
+    result.success = result.validRows > 0;
+  } catch (error) {
+    result.errors.push({
+      row: 0,
+      message: error instanceof Error ? error.message : 'Failed to parse MT940 file',
+    });
+  }
+
+  return result;
+}
+
+// ============================================================================
+// ISO 20022 CAMT.053
+// ============================================================================
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Inner XML of every <tag> element (namespace prefixes allowed)
+ */
+function xmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(
+    `<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`,
+    'g'
+  );
+  return Array.from(xml.matchAll(pattern), (m) => m[1]);
+}
+
+/**
+ * Text of the first element found by following a tag path
+ */
+function xmlText(xml: string, ...path: string[]): string | undefined {
+  let scope = xml;
+  for (const tag of path) {
+    const [inner] = xmlElements(scope, tag);
+    if (inner === undefined) return undefined;
+    scope = inner;
+  }
+  return decodeXml(scope);
+}
+
+/**
+ * Attribute value of the first <tag> element
+ */
+function xmlAttribute(xml: string, tag: string, attribute: string): string | undefined {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\s[^>]*\\b${attribute}="([^"]*)"`);
+  return xml.match(pattern)?.[1];
+}
+
+/**
+ * Date from a CAMT date choice (<Dt> or <DtTm>)
+ */
+function camtDate(xml: string, tag: string): Date | undefined {
+  const value = xmlText(xml, tag, 'Dt') || xmlText(xml, tag, 'DtTm');
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Parse ISO 20022 CAMT.053 bank-to-customer statement
+ * @param fileContent - CAMT.053 XML content
+ * @param defaultCurrency - Currency for entries when neither they nor the account state one
+ * @returns Parse result with transactions, opening and closing balance
+ */
+export function parseCAMT053(fileContent: string, defaultCurrency = 'KES'): ParseResult {
+  const result = emptyResult('CAMT053');
+
+  try {
+    const statements = xmlElements(fileContent, 'Stmt');
+
+    if (statements.length === 0) {
+      result.errors.push({ row: 0, message: 'No <Stmt> element found - not a CAMT.053 file' });
+      return result;
+    }
+
+    for (const statement of statements) {
+      const statementId = xmlText(statement, 'Id') || 'CAMT053';
+      const accountCurrency = xmlText(statement, 'Acct', 'Ccy');
+
+      // Balances: OPBD/PRCD = opening, CLBD = closing booked
+      for (const balance of xmlElements(statement, 'Bal')) {
+        const code = xmlText(balance, 'Tp', 'CdOrPrtry', 'Cd');
+        const amountText = xmlText(balance, 'Amt');
+        if (!code || !amountText) continue;
+
+        const amount =
+          xmlText(balance, 'CdtDbtInd') === 'DBIT' ? -parseAmount(amountText) : parseAmount(amountText);
+
+        if ((code === 'OPBD' || code === 'PRCD') && result.openingBalance === undefined) {
+          result.openingBalance = amount;
+        } else if (code === 'CLBD') {
+          result.closingBalance = amount;
+        }
+      }
+
+      xmlElements(statement, 'Ntry').forEach((entry, index) => {
+        const rowNumber = result.totalRows + 1;
+        result.totalRows++;
+
+        try {
+          const amountText = xmlText(entry, 'Amt');
+          if (!amountText) {
+            result.errors.push({ row: rowNumber, message: 'No valid amount found' });
+            return;
+          }
+
+          const amount = parseAmount(amountText);
+          const isCredit = xmlText(entry, 'CdtDbtInd') === 'CRDT';
+          const bookingDate = camtDate(entry, 'BookgDt');
+          const valueDate = camtDate(entry, 'ValDt');
+
+          if (!bookingDate && !valueDate) {
+            result.errors.push({ row: rowNumber, message: 'Missing required fields (Date)' });
+            return;
+          }
+
+          const endToEndId = xmlText(entry, 'Refs', 'EndToEndId');
+          const bankTransactionId =
+            xmlText(entry, 'AcctSvcrRef') ||
+            xmlText(entry, 'NtryRef') ||
+            (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined) ||
+            `${statementId}-${index + 1}`;
+
+          const remittance = xmlElements(entry, 'Ustrd').map(decodeXml).join(' ');
+          const counterparty = isCredit
+            ? xmlText(entry, 'RltdPties', 'Dbtr', 'Nm')
+            : xmlText(entry, 'RltdPties', 'Cdtr', 'Nm');
+          const narrative = remittance || xmlText(entry, 'AddtlNtryInf') || '';
+
+          addTransaction(result, {
+            bankTransactionId,
+            transactionDate: (bookingDate || valueDate) as Date,
+            valueDate,
+            amount: isCredit ? amount : -amount,
+            reference: [narrative, counterparty].filter(Boolean).join(' ').trim(),
+            currency: xmlAttribute(entry, 'Amt', 'Ccy') || accountCurrency || defaultCurrency,
+            rowNumber,
+            importProfile: 'CAMT053',
+          });
+        } catch (error) {
+          result.errors.push({
+            row: rowNumber,
+            message: error instanceof Error ? error.message : 'Failed to parse entry',
+          });
+        }
+      });
+    }
+
+    applyRunningBalances(result);
+    result.success = result.validRows > 0;
+  } catch (error) {
+    result.errors.push({
+      row: 0,
+      message: error instanceof Error ? error.message : 'Failed to parse CAMT.053 file',
+    });
+  }
+
+  return result;
+}
+
+// ============================================================================
+// OFX / QFX
+// ============================================================================
+
+/**
+ * Value of an OFX element. Works for both SGML (OFX 1.x, unclosed tags)
+ * and XML (OFX 2.x) files.
+ */
+function ofxValue(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1] ? decodeXml(match[1]) : undefined;
+  return value || undefined;
+}
+
+/**
+ * Parse an OFX date (YYYYMMDD[HHMMSS[.XXX]][[+-]TZ[:NAME]])
+ */
+function parseOfxDate(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  const offsetMatch = value.match(/\[([+-]?\d+(?:\.\d+)?)/);
+  const offsetHours = offsetMatch ? parseFloat(offsetMatch[1]) : 0;
+
+  return new Date(
+    Date.UTC(+year, +month - 1, +day, +hour, +minute, +second) - offsetHours * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Parse OFX / QFX bank statement download
+ * @param fileContent - OFX file content
+ * @param defaultCurrency - Currency when the file has no CURDEF
+ * @returns Parse result with transactions and closing (ledger) balance
+ */
+export function parseOFX(fileContent: string, defaultCurrency = 'KES'): ParseResult {
+  const result = emptyResult('OFX');
+
+  try {
+    const currency = ofxValue(fileContent, 'CURDEF') || defaultCurrency;
+    const blocks = Array.from(
+      fileContent.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi),
+      (m) => m[1]
+    );
+
+    if (blocks.length === 0 && !/<OFX>/i.test(fileContent)) {
+      result.errors.push({ row: 0, message: 'No <OFX> element found - not an OFX file' });
+      return result;
+    }
+
+    blocks.forEach((block, index) => {
+      const rowNumber = index + 1;
+      result.totalRows++;
+
+      try {
+        const fitId = ofxValue(block, 'FITID');
+        const posted = ofxValue(block, 'DTPOSTED');
+        const amountText = ofxValue(block, 'TRNAMT');
+
+        if (!fitId || !posted) {
+          result.errors.push({
+            row: rowNumber,
+            message: 'Missing required fields (Date or Transaction ID)',
+          });
+          return;
+        }
+
+        const amount = amountText ? parseAmount(amountText) : 0;
+        if (amount === 0) {
+          result.errors.push({ row: rowNumber, message: 'No valid amount found' });
+          return;
+        }
+
+        const available = ofxValue(block, 'DTAVAIL');
+        const name = ofxValue(block, 'NAME');
+        const memo = ofxValue(block, 'MEMO');
+
+        addTransaction(result, {
+          bankTransactionId: fitId,
+          transactionDate: parseOfxDate(posted),
+          valueDate: available ? parseOfxDate(available) : undefined,
+          amount,
+          reference: [memo, name].filter(Boolean).join(' ').trim() || ofxValue(block, 'CHECKNUM') || '',
+          currency: ofxValue(block, 'CURRENCY') || currency,
+          rowNumber,
+          importProfile: 'OFX',
+        });
+      } catch (error) {
+        result.errors.push({
+          row: rowNumber,
+          message: error instanceof Error ? error.message : 'Failed to parse transaction',
+        });
+      }
+    });
+
+    // OFX carries the ledger (closing) balance only; derive the opening balance
+    const [ledgerBalance] = Array.from(
+      fileContent.matchAll(/<LEDGERBAL>([\s\S]*?)<\/LEDGERBAL>/gi),
+      (m) => m[1]
+    );
+    const balanceText = ledgerBalance ? ofxValue(ledgerBalance, 'BALAMT') : undefined;
+
+    if (balanceText) {
+      result.closingBalance = parseAmount(balanceText);
+      const movement = result.transactions.reduce((sum, t) => sum + t.amount, 0);
+      result.openingBalance = Math.round((result.closingBalance - movement) * 100) / 100;
+    }
+
+    applyRunningBalances(result);
+    result.success = result.validRows > 0;
+  } catch (error) {
+    result.errors.push({
+      row: 0,
+      message: error instanceof Error ? error.message : 'Failed to parse OFX file',
+    });
+  }
+
+  return result;
+}
@@ -1,25 +1,57 @@
 /**
  * Bank Statement Parser
- * 
- * Securely parse DTB bank statements from CSV or Excel format
+ *
+ * Securely parse bank statements from CSV or Excel format
+ * Column layout is driven by per-bank import profiles (see statement-profiles)
+ * MT940, CAMT.053 and OFX files are handled by statement-formats
  * Production-ready with validation and error handling
  */
 
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
-import { parseAmount, parseDate } from './utils';
+import { isValid, parse } from 'date-fns';
+import { normalizeMsisdn, parseAmount, parseDate } from './utils';
+import {
+  BUILT_IN_PROFILES,
+  detectProfile,
+  hasRequiredColumns,
+  resolveColumns,
+  type ColumnMap,
+  type StatementProfile,
+} from './statement-profiles';
+import { parseCAMT053, parseMT940, parseOFX } from './statement-formats';
+
+/** Upload extensions handled by parseStatement */
+export const STATEMENT_EXTENSIONS = ['csv', 'xlsx', 'xls', 'sta', 'mt940', '940', 'xml', 'ofx', 'qfx'];
+
+/** Extensions read as text (everything else is passed as a Buffer) */
+const BINARY_EXTENSIONS = ['xlsx', 'xls'];
+
+/**
+ * Whether a statement file should be decoded to text before parsing
+ * @param fileName - Name of the file
+ */
+export function isTextStatement(fileName: string): boolean {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return !BINARY_EXTENSIONS.includes(extension);
+}
 
 export interface ParsedTransaction {
   bankTransactionId: string;
   transactionDate: Date;
   valueDate?: Date;
-  amount: number;
+  amount: number; // Positive for credits (money in), negative for debits (money out)
   reference: string;
   debitAccount?: string;
   creditAccount?: string;
   balance?: number;
   currency: string;
   rowNumber: number;
+  importProfile?: string;
+  transactionType?: 'CREDIT' | 'DEBIT' | 'FEE';
+  accountReference?: string;
+  counterpartyPhone?: string;
+  counterpartyName?: string;
 }
 
 export interface ParseResult {
@@ -31,14 +63,73 @@ export interface ParseResult {
   }>;
   totalRows: number;
   validRows: number;
+  profile?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+}
+
+export interface ParseOptions {
+  /** Profile to use; when omitted the profile is detected from the header row */
+  profile?: StatementProfile;
+  /** Candidate profiles for auto-detection (defaults to the built-ins) */
+  profiles?: StatementProfile[];
+  /**
+   * Currency of the bank account the statement belongs to, for lines that do
+   * not state their own
+   */
+  currency?: string;
 }
 
 /**
- * Parse CSV bank statement
- * @param fileContent - CSV file content as string
+ * Parse a statement date, honouring the profile's date format when set
+ */
+function parseStatementDate(value: unknown, dateFormat?: string | null): Date {
+  const text = String(value ?? '').trim();
+
+  if (dateFormat) {
+    const parsed = parse(text, dateFormat, new Date());
+    if (isValid(parsed)) return parsed;
+  }
+
+  return parseDate(text);
+}
+
+/**
+ * Parse an amount cell, treating "(1,000.00)" and "1,000.00 DR" as negative
+ * @returns Parsed amount, or null if the cell is blank
+ */
+function parseSignedAmount(value: unknown): number | null {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  const negative = /^\(.*\)$/.test(text) || /\bDR$/i.test(text);
+  const amount = parseAmount(text);
+
+  return negative ? -Math.abs(amount) : amount;
+}
+
+/**
+ * Split M-Pesa "Other Party Info" ("254712345678 - JOHN DOE") into phone and name
+ */
+function parseCounterparty(value: string): { phone?: string; name?: string } {
+  const text = value.trim();
+  if (!text) return {};
+
+  const match = text.match(/^(\+?[\d*]{9,15})\s*-\s*(.*)$/);
+  if (match) {
+    return { phone: normalizeMsisdn(match[1]), name: match[2].trim() || undefined };
+  }
+
+  return /^\+?[\d*]{9,15}$/.test(text) ? { phone: normalizeMsisdn(text) } : { name: text };
+}
+
+/**
+ * Parse statement rows (cells as strings) using an import profile
+ * @param rows - All rows of the statement, including any letterhead rows
+ * @param options - Parse options
  * @returns Parse result with transactions and errors
  */
-export function parseCSV(fileContent: string): ParseResult {
+function parseRows(rows: unknown[][], options: ParseOptions = {}): ParseResult {
   const result: ParseResult = {
     success: false,
     transactions: [],
@@ -47,228 +138,261 @@ export function parseCSV(fileContent: string): ParseResult {
     validRows: 0,
   };
 
-  try {
-    const parsed = Papa.parse<Record<string, string>>(fileContent, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: (header) => header.trim(),
-    });
+  let profile: StatementProfile;
+  let headerRowIndex: number;
+  let columns: ColumnMap;
 
-    result.totalRows = parsed.data.length;
+  if (options.profile) {
+    profile = options.profile;
+    headerRowIndex = profile.headerRowOffset;
+    columns = resolveColumns(rows[headerRowIndex] || [], profile);
 
-    if (parsed.errors.length > 0) {
-      parsed.errors.forEach((error) => {
-        result.errors.push({
-          row: error.row || 0,
-          message: error.message,
-        });
+    if (!hasRequiredColumns(columns, profile)) {
+      result.errors.push({
+        row: headerRowIndex + 1,
+        message: `Statement columns do not match the ${profile.name} profile`,
       });
+      return result;
     }
+  } else {
+    const detected = detectProfile(rows, options.profiles || BUILT_IN_PROFILES);
 
-    // Process each row
-    parsed.data.forEach((row: Record<string, string>, index: number) => {
-      try {
-        const rowNumber = index + 2; // +2 because index starts at 0 and we skip header
+    if (!detected) {
+      result.errors.push({
+        row: 0,
+        message: 'Could not detect the statement layout. Select an import profile and try again',
+      });
+      return result;
+    }
 
-        // Validate required fields
-        if (!row['Transaction Date'] || !row['Transaction ID']) {
-          result.errors.push({
-            row: rowNumber,
-            message: 'Missing required fields',
-          });
-          return;
-        }
+    ({ profile, headerRowIndex, columns } = detected);
+  }
 
-        // Determine amount (Credit or Debit)
-        let amount = 0;
-        const creditValue = String(row['Credit'] || '').replace(/,/g, '');
-        const debitValue = String(row['Debit'] || '').replace(/,/g, '');
+  result.profile = profile.code;
 
-        if (creditValue && parseFloat(creditValue) > 0) {
-          amount = parseAmount(creditValue);
-        } else if (debitValue && parseFloat(debitValue) > 0) {
-          amount = parseAmount(debitValue);
-        } else {
-          result.errors.push({
-            row: rowNumber,
-            message: 'No valid amount found in Credit or Debit column',
-          });
-          return;
+  const cell = (row: unknown[], field: keyof ColumnMap): string => {
+    const index = columns[field];
+    return index === undefined ? '' : String(row[index] ?? '').trim();
+  };
+
+  const dataRows = rows.slice(headerRowIndex + 1);
+  result.totalRows = dataRows.length;
+
+  // Process each row
+  dataRows.forEach((row, index) => {
+    const rowNumber = headerRowIndex + index + 2; // 1-based, after the header row
+
+    try {
+      const transactionDate = cell(row, 'transactionDate');
+      const transactionId = cell(row, 'bankTransactionId');
+      const status = cell(row, 'transactionStatus');
+
+      // M-Pesa lists failed/cancelled attempts alongside completed ones
+      if (status && status.toLowerCase() !== 'completed') {
+        result.errors.push({
+          row: rowNumber,
+          message: `Skipped ${transactionId || 'row'}: transaction status ${status}`,
+        });
+        return;
+      }
+
+      // Validate required fields
+      if (!transactionDate || !transactionId) {
+        result.errors.push({
+          row: rowNumber,
+          message: 'Missing required fields (Date or Transaction ID)',
+        });
+        return;
+      }
+
+      // Determine amount: credits are money in (positive), debits money out (negative)
+      let amount = 0;
+
+      if (profile.amountMode === 'SIGNED') {
+        amount = parseSignedAmount(cell(row, 'amount')) ?? 0;
+      } else {
+        const credit = parseSignedAmount(cell(row, 'credit'));
+        const debit = parseSignedAmount(cell(row, 'debit'));
+
+        if (credit !== null && credit > 0) {
+          amount = credit;
+        } else if (debit !== null && debit !== 0) {
+          amount = -Math.abs(debit);
         }
+      }
+
+      if (amount === 0) {
+        result.errors.push({
+          row: rowNumber,
+          message: 'No valid amount found',
+        });
+        return;
+      }
 
-        // Parse transaction
-        const transaction: ParsedTransaction = {
-          bankTransactionId: String(row['Transaction ID']).trim(),
-          transactionDate: parseDate(String(row['Transaction Date'])),
-          valueDate: row['Value Date'] ? parseDate(String(row['Value Date'])) : undefined,
-          amount,
-          reference: String(row['Reference'] || '').trim(),
-          balance: row['Balance'] ? parseAmount(String(row['Balance'])) : undefined,
-          currency: 'KES',
+      const valueDate = cell(row, 'valueDate');
+      const balance = cell(row, 'balance');
+      const reference = cell(row, 'reference');
+      const counterparty = parseCounterparty(cell(row, 'counterparty'));
+
+      // Charge rows (e.g. M-Pesa "Pay Bill Charge") are fee lines, not payments.
+      // They share the payment's receipt number, so take the same derived ID
+      // as a split-out charge column.
+      const isCharge = amount < 0 && /\bcharges?\b/i.test(reference);
+
+      // Parse transaction
+      const transaction: ParsedTransaction = {
+        bankTransactionId: isCharge ? `${transactionId}-FEE` : transactionId,
+        transactionDate: parseStatementDate(transactionDate, profile.dateFormat),
+        valueDate: valueDate ? parseStatementDate(valueDate, profile.dateFormat) : undefined,
+        amount,
+        reference,
+        balance: parseSignedAmount(balance) ?? undefined,
+        currency: (cell(row, 'currency') || options.currency || profile.defaultCurrency).toUpperCase(),
+        rowNumber,
+        importProfile: profile.code,
+        transactionType: isCharge ? 'FEE' : amount > 0 ? 'CREDIT' : 'DEBIT',
+        accountReference: cell(row, 'accountReference') || undefined,
+        counterpartyPhone: counterparty.phone,
+        counterpartyName: counterparty.name,
+      };
+
+      const transactions = [transaction];
+
+      // A charge column on the same row is split out as its own fee line
+      const charge = parseSignedAmount(cell(row, 'charge'));
+      if (charge) {
+        transactions.push({
+          bankTransactionId: `${transactionId}-FEE`,
+          transactionDate: transaction.transactionDate,
+          valueDate: transaction.valueDate,
+          amount: -Math.abs(charge),
+          reference: `Transaction charge for ${transactionId}`,
+          currency: transaction.currency,
           rowNumber,
-        };
+          importProfile: profile.code,
+          transactionType: 'FEE',
+        });
+      }
 
+      for (const line of transactions) {
         // Validate transaction ID is unique in this batch
         const duplicate = result.transactions.find(
-          (t) => t.bankTransactionId === transaction.bankTransactionId
+          (t) => t.bankTransactionId === line.bankTransactionId
         );
 
         if (duplicate) {
           result.errors.push({
             row: rowNumber,
-            message: `Duplicate transaction ID: ${transaction.bankTransactionId}`,
+            message: `Duplicate transaction ID: ${line.bankTransactionId}`,
           });
-          return;
+          continue;
         }
 
-        result.transactions.push(transaction);
+        result.transactions.push(line);
         result.validRows++;
-      } catch (error) {
-        result.errors.push({
-          row: index + 2,
-          message: error instanceof Error ? error.message : 'Failed to parse row',
-        });
       }
+    } catch (error) {
+      result.errors.push({
+        row: rowNumber,
+        message: error instanceof Error ? error.message : 'Failed to parse row',
+      });
+    }
+  });
+
+  result.success = result.validRows > 0;
+
+  return result;
+}
+
+/**
+ * Parse CSV bank statement
+ * @param fileContent - CSV file content as string
+ * @param options - Import profile or candidate profiles for detection
+ * @returns Parse result with transactions and errors
+ */
+export function parseCSV(fileContent: string, options: ParseOptions = {}): ParseResult {
+  try {
+    const parsed = Papa.parse<string[]>(fileContent, {
+      header: false,
+      skipEmptyLines: true,
     });
 
-    result.success = result.validRows > 0;
-  } catch (error) {
-    result.errors.push({
-      row: 0,
-      message: error instanceof Error ? error.message : 'Failed to parse CSV',
+    const result = parseRows(parsed.data, options);
+
+    parsed.errors.forEach((error) => {
+      result.errors.push({
+        row: error.row || 0,
+        message: error.message,
+      });
     });
-  }
 
-  return result;
+    return result;
+  } catch (error) {
+    return {
+      success: false,
+      transactions: [],
+      errors: [{ row: 0, message: error instanceof Error ? error.message : 'Failed to parse CSV' }],
+      totalRows: 0,
+      validRows: 0,
+    };
+  }
 }
 
 /**
  * Parse Excel bank statement
  * @param buffer - Excel file buffer
+ * @param options - Import profile or candidate profiles for detection
  * @returns Parse result with transactions and errors
  */
-export function parseExcel(buffer: Buffer): ParseResult {
-  const result: ParseResult = {
-    success: false,
-    transactions: [],
-    errors: [],
-    totalRows: 0,
-    validRows: 0,
-  };
-
+export function parseExcel(buffer: Buffer, options: ParseOptions = {}): ParseResult {
   try {
     const workbook = XLSX.read(buffer, { type: 'buffer' });
 
     // Use first sheet
     const sheetName = workbook.SheetNames[0];
     if (!sheetName) {
-      result.errors.push({
-        row: 0,
-        message: 'No sheets found in Excel file',
-      });
-      return result;
+      return {
+        success: false,
+        transactions: [],
+        errors: [{ row: 0, message: 'No sheets found in Excel file' }],
+        totalRows: 0,
+        validRows: 0,
+      };
     }
 
     const sheet = workbook.Sheets[sheetName];
-    const data = XLSX.utils.sheet_to_json<Record<string, string>>(sheet, {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
       raw: false,
       defval: '',
+      blankrows: false,
     });
 
-    result.totalRows = data.length;
-
-    // Process each row
-    data.forEach((row: Record<string, string>, index: number) => {
-      try {
-        const rowNumber = index + 2; // +2 for header and 0-based index
-
-        // Validate required fields - try different possible column names
-        const transactionDate =
-          row['Transaction Date'] || row['Date'] || row['Trans. Date'];
-        const transactionId =
-          row['Transaction ID'] || row['Transaction No'] || row['Trans. ID'] || row['Reference No'];
-        const reference = row['Reference'] || row['Description'] || row['Narration'];
-
-        if (!transactionDate || !transactionId) {
-          result.errors.push({
-            row: rowNumber,
-            message: 'Missing required fields (Date or Transaction ID)',
-          });
-          return;
-        }
-
-        // Determine amount
-        let amount = 0;
-        const credit = row['Credit'] || row['Credit Amount'] || row['Deposit'];
-        const debit = row['Debit'] || row['Debit Amount'] || row['Withdrawal'];
-
-        if (credit && parseFloat(String(credit).replace(/,/g, '')) > 0) {
-          amount = parseAmount(String(credit));
-        } else if (debit && parseFloat(String(debit).replace(/,/g, '')) > 0) {
-          amount = parseAmount(String(debit));
-        } else {
-          result.errors.push({
-            row: rowNumber,
-            message: 'No valid amount found',
-          });
-          return;
-        }
-
-        // Parse transaction
-        const transaction: ParsedTransaction = {
-          bankTransactionId: String(transactionId).trim(),
-          transactionDate: parseDate(transactionDate),
-          valueDate: row['Value Date'] ? parseDate(row['Value Date']) : undefined,
-          amount,
-          reference: String(reference || '').trim(),
-          balance: row['Balance'] ? parseAmount(String(row['Balance'])) : undefined,
-          currency: 'KES',
-          rowNumber,
-        };
-
-        // Check for duplicates
-        const duplicate = result.transactions.find(
-          (t) => t.bankTransactionId === transaction.bankTransactionId
-        );
-
-        if (duplicate) {
-          result.errors.push({
-            row: rowNumber,
-            message: `Duplicate transaction ID: ${transaction.bankTransactionId}`,
-          });
-          return;
-        }
-
-        result.transactions.push(transaction);
-        result.validRows++;
-      } catch (error) {
-        result.errors.push({
-          row: index + 2,
-          message: error instanceof Error ? error.message : 'Failed to parse row',
-        });
-      }
-    });
-
-    result.success = result.validRows > 0;
+    return parseRows(rows, options);
   } catch (error) {
-    result.errors.push({
-      row: 0,
-      message: error instanceof Error ? error.message : 'Failed to parse Excel file',
-    });
+    return {
+      success: false,
+      transactions: [],
+      errors: [
+        { row: 0, message: error instanceof Error ? error.message : 'Failed to parse Excel file' },
+      ],
+      totalRows: 0,
+      validRows: 0,
+    };
   }
-
-  return result;
 }
 
 /**
  * Validate file type and parse accordingly
  * @param fileName - Name of the file
- * @param fileContent - File content (string for CSV, Buffer for Excel)
+ * @param fileContent - File content (string for CSV/MT940/CAMT.053/OFX, Buffer for Excel)
+ * @param options - Import profile or candidate profiles for detection, and the account currency
  * @returns Parse result
  */
 export function parseStatement(
   fileName: string,
-  fileContent: string | Buffer
+  fileContent: string | Buffer,
+  options: ParseOptions = {}
 ): ParseResult {
   const extension = fileName.split('.').pop()?.toLowerCase();
 
@@ -282,10 +406,43 @@ export function parseStatement(
         validRows: 0,
       };
     }
-    return parseCSV(fileContent);
+    return parseCSV(fileContent, options);
+  } else if (extension === 'sta' || extension === 'mt940' || extension === '940') {
+    if (typeof fileContent !== 'string') {
+      return {
+        success: false,
+        transactions: [],
+        errors: [{ row: 0, message: 'Invalid file content for MT940' }],
+        totalRows: 0,
+        validRows: 0,
+      };
+    }
+    return parseMT940(fileContent, options.currency);
+  } else if (extension === 'xml') {
+    if (typeof fileContent !== 'string') {
+      return {
+        success: false,
+        transactions: [],
+        errors: [{ row: 0, message: 'Invalid file content for CAMT.053' }],
+        totalRows: 0,
+        validRows: 0,
+      };
+    }
+    return parseCAMT053(fileContent, options.currency);
+  } else if (extension === 'ofx' || extension === 'qfx') {
+    if (typeof fileContent !== 'string') {
+      return {
+        success: false,
+        transactions: [],
+        errors: [{ row: 0, message: 'Invalid file content for OFX' }],
+        totalRows: 0,
+        validRows: 0,
+      };
+    }
+    return parseOFX(fileContent, options.currency);
   } else if (extension === 'xlsx' || extension === 'xls') {
     if (Buffer.isBuffer(fileContent)) {
-      return parseExcel(fileContent);
+      return parseExcel(fileContent, options);
     } else {
       return {
         success: false,
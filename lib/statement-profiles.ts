@@ -0,0 +1,271 @@
+/**
+ * Bank Statement Import Profiles
+ *
+ * Column mappings for the statement layouts exported by each bank.
+ * Built-in profiles cover DTB, Equity, KCB, Stanbic and M-Pesa Paybill/Till
+ * statements; finance can save additional (or overriding) profiles in the
+ * bank_import_profiles table.
+ */
+
+import prisma from './prisma';
+
+export type StatementField =
+  | 'transactionDate'
+  | 'valueDate'
+  | 'bankTransactionId'
+  | 'reference'
+  | 'debit'
+  | 'credit'
+  | 'amount'
+  | 'balance'
+  | 'currency'
+  | 'accountReference'
+  | 'counterparty'
+  | 'charge'
+  | 'transactionStatus';
+
+export type AmountMode = 'DEBIT_CREDIT' | 'SIGNED';
+
+export interface StatementProfile {
+  id?: string;
+  code: string;
+  name: string;
+  bankName: string;
+  headerAliases: Partial<Record<StatementField, string[]>>;
+  dateFormat?: string | null;
+  amountMode: AmountMode;
+  headerRowOffset: number;
+  currencyColumn?: string | null;
+  defaultCurrency: string;
+}
+
+export type ColumnMap = Partial<Record<StatementField, number>>;
+
+export const BUILT_IN_PROFILES: StatementProfile[] = [
+  {
+    code: 'DTB',
+    name: 'DTB Statement',
+    bankName: 'Diamond Trust Bank',
+    headerAliases: {
+      transactionDate: ['Transaction Date', 'Date', 'Trans. Date'],
+      valueDate: ['Value Date'],
+      bankTransactionId: ['Transaction ID', 'Transaction No', 'Trans. ID', 'Reference No'],
+      reference: ['Reference', 'Description', 'Narration'],
+      debit: ['Debit', 'Debit Amount', 'Withdrawal'],
+      credit: ['Credit', 'Credit Amount', 'Deposit'],
+      balance: ['Balance'],
+    },
+    dateFormat: null,
+    amountMode: 'DEBIT_CREDIT',
+    headerRowOffset: 0,
+    defaultCurrency: 'KES',
+  },
+  {
+    code: 'EQUITY',
+    name: 'Equity Bank Statement',
+    bankName: 'Equity Bank',
+    headerAliases: {
+      transactionDate: ['Tran Date', 'Transaction Date'],
+      valueDate: ['Value Date'],
+      bankTransactionId: ['Transaction Ref', 'Tran Ref', 'Cheque No/Ref'],
+      reference: ['Narrative', 'Narration', 'Particulars'],
+      debit: ['Debit', 'Withdrawals', 'Money Out'],
+      credit: ['Credit', 'Deposits', 'Money In'],
+      balance: ['Running Balance', 'Balance'],
+    },
+    dateFormat: 'dd-MM-yyyy',
+    amountMode: 'DEBIT_CREDIT',
+    headerRowOffset: 0,
+    defaultCurrency: 'KES',
+  },
+  {
+    code: 'KCB',
+    name: 'KCB Statement',
+    bankName: 'Kenya Commercial Bank',
+    headerAliases: {
+      transactionDate: ['Transaction Date', 'Txn Date'],
+      valueDate: ['Value Date'],
+      bankTransactionId: ['Bank Reference', 'Txn Reference'],
+      reference: ['Transaction Details', 'Details'],
+      debit: ['Money Out', 'Debit'],
+      credit: ['Money In', 'Credit'],
+      balance: ['Ledger Balance', 'Book Balance'],
+    },
+    dateFormat: 'dd/MM/yyyy',
+    amountMode: 'DEBIT_CREDIT',
+    headerRowOffset: 0,
+    defaultCurrency: 'KES',
+  },
+  {
+    code: 'STANBIC',
+    name: 'Stanbic Statement',
+    bankName: 'Stanbic Bank Kenya',
+    headerAliases: {
+      transactionDate: ['Posting Date', 'Post Date'],
+      valueDate: ['Value Date'],
+      bankTransactionId: ['Reference Number', 'Transaction Reference'],
+      reference: ['Description', 'Transaction Description'],
+      amount: ['Amount', 'Transaction Amount'],
+      balance: ['Balance', 'Closing Balance'],
+      currency: ['Currency', 'Ccy'],
+    },
+    dateFormat: 'dd/MM/yyyy',
+    amountMode: 'SIGNED',
+    headerRowOffset: 0,
+    currencyColumn: 'Currency',
+    defaultCurrency: 'KES',
+  },
+  {
+    code: 'MPESA',
+    name: 'M-Pesa Paybill/Till Statement',
+    bankName: 'Safaricom M-Pesa',
+    headerAliases: {
+      transactionDate: ['Completion Time', 'Initiation Time'],
+      bankTransactionId: ['Receipt No.', 'Receipt No', 'Receipt Number'],
+      reference: ['Details', 'Reason Type'],
+      credit: ['Paid In'],
+      debit: ['Withdrawn'],
+      balance: ['Balance'],
+      accountReference: ['A/C No.', 'Account No.', 'Account Number', 'BillRefNumber'],
+      counterparty: ['Other Party Info', 'Opposite Party'],
+      charge: ['Transaction Charge', 'Charges', 'Charge'],
+      transactionStatus: ['Transaction Status'],
+    },
+    dateFormat: 'yyyy-MM-dd HH:mm:ss',
+    amountMode: 'DEBIT_CREDIT',
+    headerRowOffset: 0,
+    defaultCurrency: 'KES',
+  },
+];
+
+/**
+ * Normalize a header cell so "Tran. Date " and "TRAN DATE" compare equal
+ */
+function normalizeHeader(value: unknown): string {
+  return String(value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Resolve the column index of each statement field for a header row
+ * @param headers - Header row cells
+ * @param profile - Import profile
+ * @returns Field to column index map (unmapped fields are omitted)
+ */
+export function resolveColumns(headers: unknown[], profile: StatementProfile): ColumnMap {
+  const normalized = headers.map(normalizeHeader);
+  const columns: ColumnMap = {};
+
+  const aliases: Partial<Record<StatementField, string[]>> = { ...profile.headerAliases };
+  if (profile.currencyColumn) {
+    aliases.currency = [profile.currencyColumn, ...(aliases.currency || [])];
+  }
+
+  for (const [field, names] of Object.entries(aliases) as [StatementField, string[]][]) {
+    for (const name of names || []) {
+      const index = normalized.indexOf(normalizeHeader(name));
+      if (index !== -1) {
+        columns[field] = index;
+        break;
+      }
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Check that a column map has everything needed to build a transaction
+ */
+export function hasRequiredColumns(columns: ColumnMap, profile: StatementProfile): boolean {
+  if (columns.transactionDate === undefined || columns.bankTransactionId === undefined) {
+    return false;
+  }
+
+  return profile.amountMode === 'SIGNED'
+    ? columns.amount !== undefined
+    : columns.credit !== undefined || columns.debit !== undefined;
+}
+
+/**
+ * Auto-detect the import profile from the leading rows of a statement.
+ * Scans the first rows for a header line so letterhead rows are skipped.
+ *
+ * @param rows - Statement rows (cells as strings)
+ * @param profiles - Candidate profiles
+ * @param maxScanRows - How many leading rows to inspect
+ * @returns Best matching profile with its header row index, or null
+ */
+export function detectProfile(
+  rows: unknown[][],
+  profiles: StatementProfile[],
+  maxScanRows: number = 15
+): { profile: StatementProfile; headerRowIndex: number; columns: ColumnMap } | null {
+  let best: { profile: StatementProfile; headerRowIndex: number; columns: ColumnMap } | null = null;
+  let bestScore = 0;
+
+  const limit = Math.min(rows.length, maxScanRows);
+
+  for (let rowIndex = 0; rowIndex < limit; rowIndex++) {
+    for (const profile of profiles) {
+      const columns = resolveColumns(rows[rowIndex], profile);
+      if (!hasRequiredColumns(columns, profile)) continue;
+
+      const score = Object.keys(columns).length;
+      if (score > bestScore) {
+        best = { profile, headerRowIndex: rowIndex, columns };
+        bestScore = score;
+      }
+    }
+
+    // The first row that yields a usable header wins
+    if (best) break;
+  }
+
+  return best;
+}
+
+/**
+ * Load all import profiles: built-ins overlaid with active saved profiles.
+ * A saved profile with the same code as a built-in replaces it.
+ */
+export async function getImportProfiles(): Promise<StatementProfile[]> {
+  const saved = await prisma.bankImportProfile.findMany({
+    where: { isActive: true },
+    orderBy: { code: 'asc' },
+  });
+
+  const profiles = new Map<string, StatementProfile>();
+  for (const profile of BUILT_IN_PROFILES) {
+    profiles.set(profile.code, profile);
+  }
+
+  for (const profile of saved) {
+    profiles.set(profile.code, {
+      id: profile.id,
+      code: profile.code,
+      name: profile.name,
+      bankName: profile.bankName,
+      headerAliases: profile.headerAliases as StatementProfile['headerAliases'],
+      dateFormat: profile.dateFormat,
+      amountMode: profile.amountMode === 'SIGNED' ? 'SIGNED' : 'DEBIT_CREDIT',
+      headerRowOffset: profile.headerRowOffset,
+      currencyColumn: profile.currencyColumn,
+      defaultCurrency: profile.defaultCurrency,
+    });
+  }
+
+  return Array.from(profiles.values());
+}
+
+/**
+ * Find a profile by database ID or code
+ * @param idOrCode - Profile ID or code (case-insensitive)
+ * @param profiles - Loaded profiles
+ */
+export function findProfile(
+  idOrCode: string,
+  profiles: StatementProfile[]
+): StatementProfile | undefined {
+  const code = idOrCode.trim().toUpperCase();
+  return profiles.find((p) => p.id === idOrCode || p.code === code);
+}
@@ -0,0 +1,89 @@
+import Decimal from 'decimal.js';
+import type { SupplierBill } from '@prisma/client';
+import type { TransactionClient } from '@/lib/types';
+import { allocateDocumentNumber } from '@/lib/document-sequences';
+import { postSupplierPaymentMade } from '@/lib/accounting';
+import { getLedgerAccountCodeForBankAccount } from '@/lib/bank-accounts';
+import { getExchangeRate, isBaseCurrency } from '@/lib/exchange-rates';
+
+interface RecordSupplierPaymentInput {
+  bill: SupplierBill;
+  amount: number;
+  paymentDate: Date;
+  paymentMethod?: string | null;
+  reference?: string | null;
+  notes?: string | null;
+  bankTransactionId?: string | null;
+  bankAccountId?: string | null; // Paying bank account; defaults to the main bank account
+  exchangeRate?: number; // Defaults to the rate on file for the payment date
+  createdBy: string;
+}
+
+/**
+ * Record a payment against a supplier bill and roll the bill's paid/balance
+ * amounts and status forward. Callers check the bill is payable.
+ * The payment is posted against payables when the bill was posted on
+ * approval. A foreign-currency bill is paid in its own currency, at the rate
+ * on the payment date; any difference from the rate the bill was raised at
+ * is posted as realised FX.
+ */
+export async function recordSupplierPayment(tx: TransactionClient, input: RecordSupplierPaymentInput) {
+  const { bill } = input;
+
+  const paymentNumber = await allocateDocumentNumber(tx, 'SUPPLIER_PAYMENT', { date: input.paymentDate });
+  const paidAmount = new Decimal(bill.paidAmount).plus(input.amount);
+  const balanceAmount = new Decimal(bill.totalAmount).minus(paidAmount);
+
+  const exchangeRate = isBaseCurrency(bill.currency)
+    ? 1
+    : input.exchangeRate ?? (await getExchangeRate(bill.currency, input.paymentDate, tx));
+
+  const entries = bill.ledgerTransactionId
+    ? await postSupplierPaymentMade(
+        input.amount,
+        input.createdBy,
+        `Payment ${paymentNumber} of supplier bill ${bill.billNumber}`,
+        input.paymentDate,
+        await getLedgerAccountCodeForBankAccount(input.bankAccountId, tx),
+        tx,
+        isBaseCurrency(bill.currency)
+          ? undefined
+          : { currency: bill.currency, rate: exchangeRate, bookedRate: bill.exchangeRate }
+      )
+    : null;
+
+  const payment = await tx.supplierPayment.create({
+    data: {
+      paymentNumber,
+      supplierId: bill.supplierId,
+      billId: bill.id,
+      amount: input.amount,
+      currency: bill.currency,
+      exchangeRate,
+      ledgerTransactionId: entries?.[0].transactionId ?? null,
+      paymentDate: input.paymentDate,
+      paymentMethod: input.paymentMethod || null,
+      reference: input.reference || null,
+      notes: input.notes || null,
+      bankTransactionId: input.bankTransactionId || null,
+      createdBy: input.createdBy,
+    },
+  });
+
+  const nextStatus = balanceAmount.lte(0)
+    ? 'PAID'
+    : paidAmount.gt(0)
+      ? 'PARTIALLY_PAID'
+      : 'OPEN';
+
+  const updatedBill = await tx.supplierBill.update({
+    where: { id: bill.id },
+    data: {
+      paidAmount: paidAmount.toNumber(),
+      balanceAmount: Math.max(balanceAmount.toNumber(), 0),
+      status: nextStatus,
+    },
+  });
+
+  return { payment, bill: updatedBill };
+}
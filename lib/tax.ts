@@ -5,6 +5,18 @@ export type TaxMode = 'EXCLUSIVE' | 'INCLUSIVE';
 // Default VAT for Kenya
 export const DEFAULT_VAT_RATE = 16;
 
+// Tax codes that can be applied to invoice lines
+export const TAX_CODES = {
+  VAT16: { label: 'VAT 16%', rate: DEFAULT_VAT_RATE },
+  VAT8: { label: 'VAT 8%', rate: 8 },
+  ZERO: { label: 'Zero rated', rate: 0 },
+  EXEMPT: { label: 'Exempt', rate: 0 },
+} as const;
+
+export type TaxCode = keyof typeof TAX_CODES;
+
+export const DEFAULT_TAX_CODE: TaxCode = 'VAT16';
+
 interface TaxComputationInput {
   amount: number | string | Decimal;
   taxRatePercent: number | string | Decimal;
@@ -41,6 +53,16 @@ export const validateTaxRate = (taxRatePercent: number | string | Decimal): Deci
   return rate;
 };
 
+export const getTaxCodeRate = (taxCode: string): number => {
+  const definition = TAX_CODES[taxCode as TaxCode];
+
+  if (!definition) {
+    throw new Error(`Unknown tax code: ${taxCode}`);
+  }
+
+  return definition.rate;
+};
+
 export function applyDefaultVAT(lineTotal: number): number {
   return Math.round((lineTotal * DEFAULT_VAT_RATE) / 100);
 }
@@ -184,6 +184,24 @@ export function parseAmount(value: string): number {
   return parsed;
 }
 
+/**
+ * Normalize a Kenyan MSISDN to 2547XXXXXXXX form. Masked digits ("*") from
+ * M-Pesa statements are kept so the matcher can compare the visible digits.
+ * @param value - Phone number (07..., 7..., +254..., 2547****678)
+ * @returns Digits-only MSISDN
+ */
+export function normalizeMsisdn(value: string): string {
+  const cleaned = value.replace(/[^\d*]/g, '');
+
+  if (cleaned.startsWith('0') && cleaned.length === 10) {
+    return `254${cleaned.slice(1)}`;
+  }
+  if ((cleaned.startsWith('7') || cleaned.startsWith('1')) && cleaned.length === 9) {
+    return `254${cleaned}`;
+  }
+  return cleaned;
+}
+
 /**
  * Validate and parse date from various formats
  * @param value - Date string
@@ -43,6 +43,15 @@ export const createCustomerSchema = z.object({
 
 export const updateCustomerSchema = createCustomerSchema.partial();
 
+export const customerAliasSchema = z.object({
+  alias: z
+    .string()
+    .trim()
+    .min(2, 'Alias must be at least 2 characters')
+    .max(100)
+    .transform((value) => value.toUpperCase()),
+});
+
 // ============================================================================
 // PROJECT SCHEMAS
 // ============================================================================
@@ -65,6 +74,31 @@ export const createProjectSchema = z.object({
   contactPhone: z.string().optional(),
 });
 
+// ============================================================================
+// CURRENCY SCHEMAS
+// ============================================================================
+
+const currencyCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter ISO code')
+  .transform((value) => value.toUpperCase());
+
+// Base currency units per unit of the document currency; looked up from the
+// rate table when omitted
+const exchangeRateValueSchema = z.number().positive('Exchange rate must be positive');
+
+export const exchangeRateSchema = z.object({
+  currency: currencyCodeSchema,
+  rateDate: z.string().or(z.date()),
+  rate: exchangeRateValueSchema,
+  source: z.string().max(50).optional(),
+});
+
+export const fxRevaluationSchema = z.object({
+  periodEnd: z.string().or(z.date()),
+});
+
 // ============================================================================
 // SUPPLIER SCHEMAS
 // ============================================================================
@@ -91,6 +125,8 @@ export const createSupplierBillSchema = z.object({
   purchaseOrderId: z.string().cuid('Invalid purchase order ID').optional(),
   reference: z.string().max(100).optional(),
   notes: z.string().max(1000).optional(),
+  currency: currencyCodeSchema.optional(), // Defaults to the purchase order's, then the base currency
+  exchangeRate: exchangeRateValueSchema.optional(),
 });
 
 export const createSupplierPaymentSchema = z.object({
@@ -100,25 +136,224 @@ export const createSupplierPaymentSchema = z.object({
   paymentMethod: z.string().max(50).optional(),
   reference: z.string().max(100).optional(),
   notes: z.string().max(1000).optional(),
+  exchangeRate: exchangeRateValueSchema.optional(), // Paid in the bill's currency
 });
 
 // ============================================================================
 // INVOICE SCHEMAS
 // ============================================================================
 
+const invoiceItemSchema = z
+  .object({
+    productId: z.string().cuid('Invalid product ID').optional(),
+    description: z.string().max(500).optional(),
+    quantity: z.number().positive('Quantity must be positive'),
+    unitPrice: z.number().nonnegative('Unit price cannot be negative').optional(),
+    discount: z.number().nonnegative('Discount cannot be negative').optional().default(0),
+    taxCode: z.enum(['VAT16', 'VAT8', 'ZERO', 'EXEMPT']).optional().default('VAT16'),
+  })
+  .refine((item) => item.productId || (item.description && item.unitPrice !== undefined), {
+    message: 'Free-text lines need a description and unit price',
+  });
+
 export const createInvoiceSchema = z.object({
-  invoiceNumber: z.string().min(1, 'Invoice number is required'),
+  invoiceNumber: z.string().min(1).max(50).optional(), // Generated when omitted
   customerId: z.string().cuid('Invalid customer ID'),
-  subtotal: z.number().positive('Subtotal must be positive'),
-  taxAmount: z.number().nonnegative('Tax amount cannot be negative').default(0),
-  totalAmount: z.number().positive('Total amount must be positive'),
+  items: z.array(invoiceItemSchema).min(1, 'At least one line is required'),
   issueDate: z.string().or(z.date()),
   dueDate: z.string().or(z.date()),
+  status: z.enum(['DRAFT', 'SENT']).default('DRAFT'),
+  description: z.string().max(1000).optional(),
+  notes: z.string().max(2000).optional(),
+  creditOverrideReason: z.string().trim().max(500).optional(), // To issue over the customer's credit limit
+  currency: currencyCodeSchema.optional(),
+  exchangeRate: exchangeRateValueSchema.optional(),
+});
+
+export const updateInvoiceSchema = createInvoiceSchema
+  .omit({ invoiceNumber: true, status: true })
+  .partial()
+  .extend({
+    status: z.enum(['SENT', 'CANCELLED']).optional(),
+  });
+
+// ============================================================================
+// RECURRING INVOICE SCHEMAS
+// ============================================================================
+
+const recurringInvoiceFields = z.object({
+  name: z.string().min(1, 'Name is required').max(200),
+  customerId: z.string().cuid('Invalid customer ID'),
+  items: z.array(invoiceItemSchema).min(1, 'At least one line is required'),
+  frequency: z.enum(['WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY']).default('MONTHLY'),
+  startDate: z.string().or(z.date()),
+  endDate: z.string().or(z.date()).nullable().optional(),
+  paymentTermsDays: z.number().int().min(0).max(365).default(30),
+  autoSend: z.boolean().default(false),
+  sendChannel: z.enum(['EMAIL', 'SMS', 'BOTH']).default('EMAIL'),
   description: z.string().max(1000).optional(),
   notes: z.string().max(2000).optional(),
 });
 
-export const updateInvoiceSchema = createInvoiceSchema.partial();
+export const createRecurringInvoiceSchema = recurringInvoiceFields;
+
+export const updateRecurringInvoiceSchema = recurringInvoiceFields
+  .omit({ customerId: true, startDate: true })
+  .partial()
+  .extend({
+    status: z.enum(['ACTIVE', 'PAUSED']).optional(),
+    nextRunDate: z.string().or(z.date()).optional(),
+  });
+
+// ============================================================================
+// DUNNING SCHEMAS
+// ============================================================================
+
+const dunningStageSchema = z.object({
+  name: z.string().min(1, 'Stage name is required').max(100),
+  dayOffset: z.number().int().min(-60).max(365),
+  channel: z.enum(['EMAIL', 'SMS', 'BOTH', 'LETTER']).default('EMAIL'),
+  subject: z.string().max(200).optional(),
+  template: z.string().min(1, 'Message template is required').max(1000),
+  isFinalNotice: z.boolean().default(false),
+});
+
+const dunningPolicyFields = z.object({
+  name: z.string().min(1, 'Policy name is required').max(100),
+  description: z.string().max(500).optional(),
+  isDefault: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+  stages: z
+    .array(dunningStageSchema)
+    .min(1, 'At least one stage is required')
+    .max(10)
+    .refine(
+      (stages) => new Set(stages.map((stage) => stage.dayOffset)).size === stages.length,
+      'Each stage needs a different day offset'
+    ),
+});
+
+export const createDunningPolicySchema = dunningPolicyFields;
+
+export const updateDunningPolicySchema = dunningPolicyFields.partial();
+
+export const customerDunningSchema = z.object({
+  paused: z.boolean().optional(),
+  reason: z.string().max(500).optional(),
+  policyId: z.string().cuid('Invalid policy ID').nullable().optional(),
+});
+
+// ============================================================================
+// LATE FEE SCHEMAS
+// ============================================================================
+
+const lateFeePolicyFields = z.object({
+  name: z.string().min(1, 'Policy name is required').max(100),
+  description: z.string().max(500).optional(),
+  flatFee: z.number().min(0).default(0),
+  monthlyRate: z.number().min(0).max(10, 'Monthly rate cannot exceed 10%').default(0),
+  graceDays: z.number().int().min(0).max(365).default(0),
+  maxTotalFee: z.number().positive().nullable().optional(),
+  isDefault: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+});
+
+export const createLateFeePolicySchema = lateFeePolicyFields.refine(
+  (policy) => policy.flatFee > 0 || policy.monthlyRate > 0,
+  { message: 'Set a flat fee, a monthly rate or both', path: ['flatFee'] }
+);
+
+export const updateLateFeePolicySchema = lateFeePolicyFields.partial();
+
+export const customerLateFeeSchema = z.object({
+  policyId: z.string().cuid('Invalid policy ID').nullable(),
+});
+
+export const runLateFeesSchema = z.object({
+  asOf: z.string().or(z.date()).optional(),
+  dryRun: z.boolean().default(false),
+});
+
+// ============================================================================
+// CREDIT CONTROL SCHEMAS
+// ============================================================================
+
+export const customerCreditSchema = z
+  .object({
+    creditLimit: z.number().nonnegative().nullable().optional(),
+    creditLimitAction: z.enum(['WARN', 'BLOCK', 'OVERRIDE']).nullable().optional(),
+    creditHold: z.boolean().optional(),
+    creditHoldReason: z.string().trim().max(500).nullable().optional(),
+  })
+  .refine((credit) => !credit.creditHold || !!credit.creditHoldReason, {
+    message: 'Give a reason for the credit hold',
+    path: ['creditHoldReason'],
+  });
+
+// ============================================================================
+// UNAPPLIED CREDIT SCHEMAS
+// ============================================================================
+
+export const applyCustomerCreditSchema = z.object({
+  invoiceId: z.string().cuid(),
+  amount: z.number().positive().optional(), // Up to the invoice balance when omitted
+  paymentId: z.string().cuid().optional(), // Oldest credit first when omitted
+});
+
+// ============================================================================
+// CUSTOMER STATEMENT SCHEMAS
+// ============================================================================
+
+export const monthEndStatementsSchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM').optional(),
+  send: z.boolean().default(false),
+});
+
+// ============================================================================
+// CUSTOMER PORTAL SCHEMAS
+// ============================================================================
+
+export const createPortalLinkSchema = z.object({
+  sendVia: z.enum(['SMS', 'EMAIL']).optional(), // Copy the link by hand when omitted
+  expiresInDays: z.number().int().min(1).max(90).optional(),
+});
+
+export const acceptPortalQuoteSchema = z.object({
+  name: z.string().trim().min(2, 'Enter your name to accept the quote').max(100),
+});
+
+// ============================================================================
+// DOCUMENT SEQUENCE SCHEMAS
+// ============================================================================
+
+export const documentSequenceSchema = z.object({
+  documentType: z.enum([
+    'INVOICE',
+    'SALES_QUOTE',
+    'SALES_ORDER',
+    'DELIVERY',
+    'CREDIT_NOTE',
+    'PURCHASE_ORDER',
+    'SUPPLIER_BILL',
+    'SUPPLIER_PAYMENT',
+    'EXPENSE',
+    'JOURNAL_ENTRY',
+    'PRODUCT_RETURN',
+  ]),
+  branch: z
+    .string()
+    .max(10)
+    .regex(/^[A-Za-z0-9]*$/, 'Branch code can only contain letters and digits')
+    .optional()
+    .default(''),
+  prefix: z
+    .string()
+    .min(1, 'Prefix is required')
+    .max(12)
+    .regex(/^[A-Za-z0-9/-]+$/, 'Prefix can only contain letters, digits, "-" and "/"'),
+  padding: z.number().int().min(1).max(12).default(6),
+  resetFrequency: z.enum(['NEVER', 'YEARLY', 'MONTHLY']).default('NEVER'),
+});
 
 // ============================================================================
 // SALES QUOTE & SALES ORDER SCHEMAS
@@ -165,6 +400,8 @@ export const createPurchaseOrderSchema = z.object({
   tax: z.number().nonnegative().optional().default(0),
   expectedDate: z.string().or(z.date()).optional(),
   notes: z.string().max(1000).optional(),
+  currency: currencyCodeSchema.optional(),
+  exchangeRate: exchangeRateValueSchema.optional(),
 });
 
 // ============================================================================
@@ -281,23 +518,232 @@ export const uploadStatementSchema = z.object({
   transactions: z.array(bankTransactionSchema).min(1, 'At least one transaction required'),
 });
 
+const headerAliasListSchema = z.array(z.string().min(1).max(100)).min(1).max(20);
+
+export const bankImportProfileSchema = z
+  .object({
+    code: z
+      .string()
+      .min(1, 'Profile code is required')
+      .max(20)
+      .regex(/^[A-Za-z0-9_]+$/, 'Code may only contain letters, numbers and underscores')
+      .transform((value) => value.toUpperCase()),
+    name: z.string().min(1, 'Profile name is required').max(100),
+    bankName: z.string().min(1, 'Bank name is required').max(100),
+    headerAliases: z.object({
+      transactionDate: headerAliasListSchema,
+      valueDate: headerAliasListSchema.optional(),
+      bankTransactionId: headerAliasListSchema,
+      reference: headerAliasListSchema.optional(),
+      debit: headerAliasListSchema.optional(),
+      credit: headerAliasListSchema.optional(),
+      amount: headerAliasListSchema.optional(),
+      balance: headerAliasListSchema.optional(),
+      currency: headerAliasListSchema.optional(),
+      accountReference: headerAliasListSchema.optional(),
+      counterparty: headerAliasListSchema.optional(),
+      charge: headerAliasListSchema.optional(),
+      transactionStatus: headerAliasListSchema.optional(),
+    }),
+    dateFormat: z.string().max(30).optional(),
+    amountMode: z.enum(['DEBIT_CREDIT', 'SIGNED']).default('DEBIT_CREDIT'),
+    headerRowOffset: z.number().int().min(0).max(50).default(0),
+    currencyColumn: z.string().max(100).optional(),
+    defaultCurrency: z.string().length(3).default('KES'),
+    isActive: z.boolean().optional(),
+  })
+  .refine(
+    (profile) =>
+      profile.amountMode === 'SIGNED'
+        ? !!profile.headerAliases.amount
+        : !!(profile.headerAliases.credit || profile.headerAliases.debit),
+    {
+      message: 'Map an Amount column for signed profiles, or Credit/Debit columns otherwise',
+      path: ['headerAliases'],
+    }
+  );
+
 // ============================================================================
 // RECONCILIATION SCHEMAS
 // ============================================================================
 
+export const invoiceAllocationSchema = z.object({
+  invoiceId: z.string().cuid('Invalid invoice ID'),
+  amount: z.number().positive('Allocation amount must be positive'),
+});
+
 export const manualMatchSchema = z.object({
   bankTransactionId: z.string().cuid('Invalid transaction ID'),
   customerId: z.string().cuid('Invalid customer ID'),
   invoiceId: z.string().cuid('Invalid invoice ID').optional(),
   amount: z.number().positive('Amount must be positive'),
+  // OLDEST_FIRST spreads the receipt over open invoices; MANUAL uses `allocations`
+  // (MANUAL with no allocations holds the whole receipt as customer credit)
+  allocationMode: z.enum(['OLDEST_FIRST', 'MANUAL']).optional(),
+  allocations: z.array(invoiceAllocationSchema).max(100).optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+export const debitMatchSchema = z.object({
+  bankTransactionId: z.string().cuid('Invalid transaction ID'),
+  targetType: z.enum(['SUPPLIER_PAYMENT', 'EXPENSE', 'SUPPLIER_BILL']),
+  targetId: z.string().cuid('Invalid target ID'),
   notes: z.string().max(1000).optional(),
 });
 
+export const unmatchTransactionSchema = z.object({
+  bankTransactionId: z.string().cuid('Invalid transaction ID'),
+  reason: z.string().min(1, 'Reason is required').max(500),
+});
+
 export const rejectTransactionSchema = z.object({
   bankTransactionId: z.string().cuid('Invalid transaction ID'),
   reason: z.string().min(1, 'Reason is required').max(500),
 });
 
+export const autoMatchSchema = z
+  .object({
+    dryRun: z.boolean().default(false),
+    autoCommitThreshold: z.number().int().min(1).max(100).optional(),
+    suggestThreshold: z.number().int().min(1).max(100).optional(),
+  })
+  .refine(
+    (options) =>
+      options.autoCommitThreshold === undefined ||
+      options.suggestThreshold === undefined ||
+      options.suggestThreshold <= options.autoCommitThreshold,
+    {
+      message: 'Suggest threshold cannot exceed the auto-commit threshold',
+      path: ['suggestThreshold'],
+    }
+  );
+
+export const reviewSuggestionsSchema = z.object({
+  suggestionIds: z.array(z.string().cuid('Invalid suggestion ID')).min(1).max(200),
+  decision: z.enum(['ACCEPT', 'REJECT']),
+  notes: z.string().max(500).optional(),
+});
+
+const reconciliationRuleFields = z.object({
+  name: z.string().min(1, 'Rule name is required').max(100),
+  pattern: z.string().min(1, 'Pattern is required').max(200),
+  patternType: z.enum(['CONTAINS', 'EQUALS', 'REGEX']).default('CONTAINS'),
+  matchField: z
+    .enum(['REFERENCE', 'ACCOUNT_REFERENCE', 'COUNTERPARTY_PHONE', 'COUNTERPARTY_NAME'])
+    .default('REFERENCE'),
+  customerId: z.string().cuid('Invalid customer ID'),
+  confidence: z.number().int().min(50).max(100).default(90),
+  priority: z.number().int().min(0).max(10000).default(100),
+  isEnabled: z.boolean().default(true),
+});
+
+const isValidRegex = (rule: { pattern?: string; patternType?: string }) => {
+  if (rule.patternType !== 'REGEX' || !rule.pattern) return true;
+  try {
+    new RegExp(rule.pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const createReconciliationRuleSchema = reconciliationRuleFields.refine(isValidRegex, {
+  message: 'Pattern is not a valid regular expression',
+  path: ['pattern'],
+});
+
+export const updateReconciliationRuleSchema = reconciliationRuleFields
+  .partial()
+  .extend({
+    // Accept or dismiss a learned suggestion
+    status: z.enum(['ACTIVE', 'DISMISSED']).optional(),
+  })
+  .refine(isValidRegex, {
+    message: 'Pattern is not a valid regular expression',
+    path: ['pattern'],
+  });
+
+const bankPostingRuleFields = z.object({
+  name: z.string().min(1, 'Rule name is required').max(100),
+  pattern: z.string().min(1, 'Pattern is required').max(200),
+  patternType: z.enum(['CONTAINS', 'EQUALS', 'REGEX']).default('CONTAINS'),
+  matchField: z.enum(['REFERENCE', 'COUNTERPARTY_NAME']).default('REFERENCE'),
+  expenseCategoryId: z.string().cuid('Invalid expense category ID'),
+  ledgerAccountCode: z.string().regex(/^\d{4}$/, 'Invalid account code').default('6100'),
+  vendor: z.string().max(100).optional(),
+  priority: z.number().int().min(0).max(10000).default(100),
+  isEnabled: z.boolean().default(true),
+});
+
+export const createBankPostingRuleSchema = bankPostingRuleFields.refine(isValidRegex, {
+  message: 'Pattern is not a valid regular expression',
+  path: ['pattern'],
+});
+
+export const updateBankPostingRuleSchema = bankPostingRuleFields.partial().refine(isValidRegex, {
+  message: 'Pattern is not a valid regular expression',
+  path: ['pattern'],
+});
+
+export const applyPostingRulesSchema = z.object({
+  dryRun: z.boolean().default(false),
+});
+
+// ============================================================================
+// BANK ACCOUNT & STATEMENT RECONCILIATION SCHEMAS
+// ============================================================================
+
+export const createBankAccountSchema = z.object({
+  bankName: z.string().min(1, 'Bank name is required').max(100),
+  accountNumber: z.string().min(1, 'Account number is required').max(50),
+  accountHolder: z.string().min(1, 'Account holder is required').max(200),
+  accountType: z.enum(['CHECKING', 'SAVINGS', 'BUSINESS', 'MOBILE_MONEY']).default('BUSINESS'),
+  currency: z.string().length(3).default('KES'),
+  ledgerAccountCode: z.string().min(1, 'Ledger cash account is required').max(20),
+  swiftCode: z.string().max(20).optional(),
+  isPrimary: z.boolean().default(false),
+});
+
+export const updateBankAccountSchema = z.object({
+  bankName: z.string().min(1).max(100).optional(),
+  accountHolder: z.string().min(1).max(200).optional(),
+  ledgerAccountCode: z.string().min(1).max(20).optional(),
+  isPrimary: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const createBankReconciliationSchema = z.object({
+  periodEnd: z.string().or(z.date()),
+  statementBalance: z.number(),
+  notes: z.string().max(2000).optional(),
+});
+
+export const updateBankReconciliationSchema = z.object({
+  statementBalance: z.number().optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export const completeBankReconciliationSchema = z.object({
+  notes: z.string().max(2000).optional(),
+});
+
+// ============================================================================
+// RECONCILIATION EXCEPTION SCHEMAS
+// ============================================================================
+
+export const assignExceptionSchema = z.object({
+  assignedTo: z.string().nullable(),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH']).optional(),
+});
+
+export const exceptionCommentSchema = z.object({
+  comment: z.string().min(1, 'Comment is required').max(2000),
+});
+
+export const resolveExceptionSchema = z.object({
+  resolution: z.string().min(1, 'Resolution is required').max(2000),
+});
+
 // ============================================================================
 // PAYMENT SCHEMAS
 // ============================================================================
@@ -340,13 +786,28 @@ export type LoginInput = z.infer<typeof loginSchema>;
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type CreateCustomerInput = z.infer<typeof createCustomerSchema>;
 export type UpdateCustomerInput = z.infer<typeof updateCustomerSchema>;
+export type CustomerAliasInput = z.infer<typeof customerAliasSchema>;
 export type CreateProjectInput = z.infer<typeof createProjectSchema>;
+export type ExchangeRateInput = z.infer<typeof exchangeRateSchema>;
+export type FxRevaluationInput = z.infer<typeof fxRevaluationSchema>;
 export type CreateSupplierInput = z.infer<typeof createSupplierSchema>;
 export type UpdateSupplierInput = z.infer<typeof updateSupplierSchema>;
 export type CreateSupplierBillInput = z.infer<typeof createSupplierBillSchema>;
 export type CreateSupplierPaymentInput = z.infer<typeof createSupplierPaymentSchema>;
 export type CreateInvoiceInput = z.infer<typeof createInvoiceSchema>;
 export type UpdateInvoiceInput = z.infer<typeof updateInvoiceSchema>;
+export type InvoiceItemInput = z.infer<typeof invoiceItemSchema>;
+export type CreateRecurringInvoiceInput = z.infer<typeof createRecurringInvoiceSchema>;
+export type UpdateRecurringInvoiceInput = z.infer<typeof updateRecurringInvoiceSchema>;
+export type DunningPolicyInput = z.infer<typeof createDunningPolicySchema>;
+export type CustomerDunningInput = z.infer<typeof customerDunningSchema>;
+export type LateFeePolicyInput = z.infer<typeof createLateFeePolicySchema>;
+export type CustomerLateFeeInput = z.infer<typeof customerLateFeeSchema>;
+export type CustomerCreditInput = z.infer<typeof customerCreditSchema>;
+export type ApplyCustomerCreditInput = z.infer<typeof applyCustomerCreditSchema>;
+export type CreatePortalLinkInput = z.infer<typeof createPortalLinkSchema>;
+export type MonthEndStatementsInput = z.infer<typeof monthEndStatementsSchema>;
+export type DocumentSequenceInput = z.infer<typeof documentSequenceSchema>;
 export type CreateSalesQuoteInput = z.infer<typeof createSalesQuoteSchema>;
 export type CreateSalesOrderInput = z.infer<typeof createSalesOrderSchema>;
 export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderSchema>;
@@ -358,8 +819,27 @@ export type CreateStockAdjustmentInput = z.infer<typeof createStockAdjustmentSch
 export type CreateStockTransferInput = z.infer<typeof createStockTransferSchema>;
 export type BankTransactionInput = z.infer<typeof bankTransactionSchema>;
 export type UploadStatementInput = z.infer<typeof uploadStatementSchema>;
+export type BankImportProfileInput = z.infer<typeof bankImportProfileSchema>;
 export type ManualMatchInput = z.infer<typeof manualMatchSchema>;
+export type InvoiceAllocationInput = z.infer<typeof invoiceAllocationSchema>;
+export type DebitMatchInput = z.infer<typeof debitMatchSchema>;
+export type UnmatchTransactionInput = z.infer<typeof unmatchTransactionSchema>;
 export type RejectTransactionInput = z.infer<typeof rejectTransactionSchema>;
+export type AutoMatchInput = z.infer<typeof autoMatchSchema>;
+export type ReviewSuggestionsInput = z.infer<typeof reviewSuggestionsSchema>;
+export type CreateReconciliationRuleInput = z.infer<typeof createReconciliationRuleSchema>;
+export type UpdateReconciliationRuleInput = z.infer<typeof updateReconciliationRuleSchema>;
+export type CreateBankPostingRuleInput = z.infer<typeof createBankPostingRuleSchema>;
+export type UpdateBankPostingRuleInput = z.infer<typeof updateBankPostingRuleSchema>;
+export type ApplyPostingRulesInput = z.infer<typeof applyPostingRulesSchema>;
+export type CreateBankAccountInput = z.infer<typeof createBankAccountSchema>;
+export type UpdateBankAccountInput = z.infer<typeof updateBankAccountSchema>;
+export type CreateBankReconciliationInput = z.infer<typeof createBankReconciliationSchema>;
+export type UpdateBankReconciliationInput = z.infer<typeof updateBankReconciliationSchema>;
+export type CompleteBankReconciliationInput = z.infer<typeof completeBankReconciliationSchema>;
+export type AssignExceptionInput = z.infer<typeof assignExceptionSchema>;
+export type ExceptionCommentInput = z.infer<typeof exceptionCommentSchema>;
+export type ResolveExceptionInput = z.infer<typeof resolveExceptionSchema>;
 export type CreatePaymentInput = z.infer<typeof createPaymentSchema>;
 export type ReconciliationFilterInput = z.infer<typeof reconciliationFilterSchema>;
 
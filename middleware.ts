@@ -41,6 +41,11 @@ export async function middleware(request: NextRequest) {
       return response;
     }
 
+    // Customer portal routes are authorised by their signed link, not a user token
+    if (pathname.startsWith('/api/portal/')) {
+      return response;
+    }
+
     const authHeader = request.headers.get('authorization');
     const isAuthMeRoute = pathname === '/api/auth/me';
     const isInternalAuthCheck = request.headers.get('x-auth-check') === '1';
@@ -4,6 +4,7 @@ const nextConfig = {
   poweredByHeader: false,
   output: 'standalone', // For Docker deployment
   experimental: {
+    instrumentationHook: true, // Starts the job scheduler (instrumentation.ts)
     serverActions: {
       bodySizeLimit: '10mb',
     },
@@ -83,6 +83,21 @@ async function main() {
       description: 'Temporary account for unmatched transactions',
       currentBalance: 0,
     },
+    // LIABILITIES
+    {
+      accountCode: '2000',
+      accountName: 'Accounts Payable',
+      accountType: 'LIABILITY',
+      description: 'Amounts owed to suppliers on approved bills',
+      currentBalance: 0,
+    },
+    {
+      accountCode: '2100',
+      accountName: 'Customer Deposits',
+      accountType: 'LIABILITY',
+      description: 'Customer payments on account not yet applied to an invoice',
+      currentBalance: 0,
+    },
     // REVENUE
     {
       accountCode: '4000',
@@ -98,6 +113,27 @@ async function main() {
       description: 'Revenue from services',
       currentBalance: 0,
     },
+    {
+      accountCode: '4200',
+      accountName: 'Interest Income',
+      accountType: 'REVENUE',
+      description: 'Late payment interest and fees charged on overdue invoices',
+      currentBalance: 0,
+    },
+    {
+      accountCode: '4300',
+      accountName: 'Realised FX Gain/Loss',
+      accountType: 'REVENUE',
+      description: 'Exchange differences on foreign-currency invoices and bills when they are settled',
+      currentBalance: 0,
+    },
+    {
+      accountCode: '4310',
+      accountName: 'Unrealised FX Gain/Loss',
+      accountType: 'REVENUE',
+      description: 'Period-end revaluation of open foreign-currency receivables and payables',
+      currentBalance: 0,
+    },
     // EQUITY
     {
       accountCode: '3000',
@@ -106,6 +142,21 @@ async function main() {
       description: 'Owner\'s capital',
       currentBalance: 0,
     },
+    // EXPENSES
+    {
+      accountCode: '5000',
+      accountName: 'Purchases',
+      accountType: 'EXPENSE',
+      description: 'Goods and services billed by suppliers',
+      currentBalance: 0,
+    },
+    {
+      accountCode: '6100',
+      accountName: 'Bank Charges',
+      accountType: 'EXPENSE',
+      description: 'Ledger fees, excise duty, SMS and transfer charges',
+      currentBalance: 0,
+    },
   ];
 
   for (const account of accounts) {
@@ -117,6 +168,23 @@ async function main() {
   }
   console.log('✅ Chart of accounts created');
 
+  // Main DTB account, mapped to its ledger cash account
+  await prisma.bankAccount.upsert({
+    where: {
+      organizationId_accountNumber: { organizationId: 'default', accountNumber: '788925' },
+    },
+    update: {},
+    create: {
+      bankName: 'DTB Bank',
+      accountNumber: '788925',
+      accountHolder: 'Kelly OS',
+      accountType: 'BUSINESS',
+      ledgerAccountCode: '1010',
+      isPrimary: true,
+    },
+  });
+  console.log('✅ Bank accounts created');
+
   // ==========================================================================
   // 3. Create Sample Customers
   // ==========================================================================
@@ -0,0 +1,128 @@
+import { createServer } from 'http';
+import { createHash } from 'crypto';
+
+/**
+ * Local stand-in for a KRA eTIMS control unit (OSCU/VSCU).
+ *
+ * Accepts trnsSales/saveSales requests, checks the totals add up and signs
+ * them with a made-up control unit ID, so fiscalisation can be exercised
+ * without KRA credentials or a network. Resending an invcNo returns the
+ * receipt it was first signed with, as the real device does.
+ *
+ * Usage: npm run etims-stub [-- <port>]
+ *   ETIMS_STUB_FAIL_RATE=0.3  reject roughly 30% of requests with a 503, to test retries
+ */
+
+const PORT = parseInt(process.argv[2] || process.env.ETIMS_STUB_PORT || '8089', 10);
+const FAIL_RATE = parseFloat(process.env.ETIMS_STUB_FAIL_RATE || '0');
+const SDC_ID = 'KRACU0100000001';
+const MRC_NO = 'WIS01000001';
+
+interface SalesItem {
+  taxTyCd: string;
+  taxblAmt: number;
+  taxAmt: number;
+  totAmt: number;
+}
+
+interface SalesRequest {
+  tin?: string;
+  bhfId?: string;
+  invcNo?: number;
+  rcptTyCd?: string;
+  totTaxblAmt?: number;
+  totTaxAmt?: number;
+  totAmt?: number;
+  itemList?: SalesItem[];
+}
+
+const signed = new Map<string, object>();
+let receiptCount = 0;
+
+function timestamp(date = new Date()) {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+function reply(resultCd: string, resultMsg: string, data: object | null = null) {
+  return JSON.stringify({ resultCd, resultMsg, resultDt: timestamp(), data });
+}
+
+/**
+ * Problems with a request, in the order the device would report them
+ */
+function validate(request: SalesRequest) {
+  if (!request.tin || !request.bhfId) return 'tin and bhfId are required';
+  if (!Number.isInteger(request.invcNo) || request.invcNo! <= 0) return 'invcNo must be a positive integer';
+  if (request.rcptTyCd !== 'S' && request.rcptTyCd !== 'R') return `Unknown rcptTyCd ${request.rcptTyCd}`;
+  if (!request.itemList?.length) return 'itemList is empty';
+
+  const sum = (pick: (item: SalesItem) => number) =>
+    Math.round(request.itemList!.reduce((total, item) => total + pick(item), 0) * 100) / 100;
+
+  if (Math.abs(sum((item) => item.taxblAmt) - (request.totTaxblAmt ?? 0)) > 0.01) return 'totTaxblAmt does not match the items';
+  if (Math.abs(sum((item) => item.taxAmt) - (request.totTaxAmt ?? 0)) > 0.01) return 'totTaxAmt does not match the items';
+  if (Math.abs(sum((item) => item.totAmt) - (request.totAmt ?? 0)) > 0.01) return 'totAmt does not match the items';
+
+  return null;
+}
+
+const server = createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    res.setHeader('Content-Type', 'application/json');
+
+    if (req.method !== 'POST' || req.url !== '/trnsSales/saveSales') {
+      res.statusCode = 404;
+      res.end(reply('404', `No stub for ${req.method} ${req.url}`));
+      return;
+    }
+
+    if (Math.random() < FAIL_RATE) {
+      res.statusCode = 503;
+      res.end(reply('503', 'Simulated control unit outage'));
+      return;
+    }
+
+    let request: SalesRequest;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      res.end(reply('899', 'Request body is not valid JSON'));
+      return;
+    }
+
+    const error = validate(request);
+    if (error) {
+      console.log(`❌ invcNo ${request.invcNo}: ${error}`);
+      res.end(reply('910', error));
+      return;
+    }
+
+    const key = `${request.tin}-${request.bhfId}-${request.invcNo}`;
+    let data = signed.get(key);
+
+    if (!data) {
+      receiptCount++;
+      data = {
+        rcptNo: receiptCount,
+        intrlData: createHash('sha1').update(`${key}-intrl`).digest('hex').slice(0, 26).toUpperCase(),
+        rcptSign: createHash('sha1').update(`${key}-sign`).digest('hex').slice(0, 16).toUpperCase(),
+        totRcptNo: receiptCount,
+        vsdcRcptPbctDate: timestamp(),
+        sdcId: SDC_ID,
+        mrcNo: MRC_NO,
+      };
+      signed.set(key, data);
+      console.log(`✅ Signed invcNo ${request.invcNo} (${request.rcptTyCd}) for ${request.totAmt} as ${SDC_ID}/${receiptCount}`);
+    } else {
+      console.log(`↩️  Resent invcNo ${request.invcNo}, returning the original receipt`);
+    }
+
+    res.end(reply('000', 'It is succeeded', data));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`eTIMS stub listening on http://localhost:${PORT} (fail rate ${FAIL_RATE})`);
+});
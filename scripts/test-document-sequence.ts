@@ -0,0 +1,138 @@
+import prisma from '../lib/prisma';
+import { allocateDocumentNumber } from '../lib/document-sequences';
+import type { TransactionClient } from '../lib/types';
+
+/**
+ * Load test for the document numbering service.
+ *
+ * Allocates numbers from many transactions at once against the configured
+ * database and checks that no number is issued twice. Runs in its own
+ * throwaway branch series, so no documents are created and real series are
+ * left untouched.
+ *
+ * Usage: npm run sequence-test [-- <parallel transactions>]
+ */
+
+const PARALLEL = parseInt(process.argv[2] || '40', 10);
+const TEST_BRANCH = `T${Date.now().toString(36).toUpperCase()}`;
+const TX_OPTIONS = { maxWait: 30000, timeout: 30000 };
+
+let failures = 0;
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`  ✅ ${message}`);
+  } else {
+    failures++;
+    console.error(`  ❌ ${message}`);
+  }
+}
+
+function findDuplicates(numbers: string[]) {
+  return numbers.filter((number, index) => numbers.indexOf(number) !== index);
+}
+
+async function allocateInParallel(count: number, branch: string, date?: Date) {
+  return Promise.all(
+    Array.from({ length: count }, () =>
+      prisma.$transaction(
+        (tx: TransactionClient) => allocateDocumentNumber(tx, 'INVOICE', { branch, date }),
+        TX_OPTIONS
+      )
+    )
+  );
+}
+
+async function testParallelAllocation() {
+  console.log(`\n1. ${PARALLEL} parallel allocations on a new series`);
+
+  const numbers = await allocateInParallel(PARALLEL, TEST_BRANCH);
+  const duplicates = findDuplicates(numbers);
+  const values = numbers.map((number) => parseInt(number.slice(number.lastIndexOf('-') + 1), 10)).sort((a, b) => a - b);
+
+  check(duplicates.length === 0, `no duplicate numbers (${duplicates.join(', ') || 'none'})`);
+  check(
+    values.every((value, index) => value === index + 1),
+    `numbers run 1..${PARALLEL} without gaps`
+  );
+}
+
+async function testRollbackReleasesNumbers() {
+  console.log('\n2. Rolled-back transactions give their numbers back');
+
+  const branch = `${TEST_BRANCH}R`;
+  const results = await Promise.allSettled(
+    Array.from({ length: PARALLEL }, (_, index) =>
+      prisma.$transaction(async (tx: TransactionClient) => {
+        const number = await allocateDocumentNumber(tx, 'INVOICE', { branch });
+        if (index % 3 === 0) {
+          throw new Error('Simulated failure after allocation');
+        }
+        return number;
+      }, TX_OPTIONS)
+    )
+  );
+
+  const committed = results
+    .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled')
+    .map((result) => result.value);
+  const values = committed.map((number) => parseInt(number.slice(number.lastIndexOf('-') + 1), 10)).sort((a, b) => a - b);
+
+  check(findDuplicates(committed).length === 0, `no duplicates among ${committed.length} committed numbers`);
+  check(
+    values.every((value, index) => value === index + 1),
+    'committed numbers are contiguous'
+  );
+}
+
+async function testMonthlyReset() {
+  console.log('\n3. Monthly series restart each period');
+
+  const branch = `${TEST_BRANCH}M`;
+  await prisma.documentSequence.create({
+    data: { documentType: 'INVOICE', branch, prefix: 'TST-', padding: 4, resetFrequency: 'MONTHLY' },
+  });
+
+  const january = await allocateInParallel(5, branch, new Date(2030, 0, 15));
+  const february = await allocateInParallel(5, branch, new Date(2030, 1, 15));
+
+  check(
+    january.every((number) => number.startsWith(`TST-${branch}-203001-`)),
+    `January numbers carry the period (${january[0]})`
+  );
+  check(
+    february.sort()[0] === `TST-${branch}-203002-0001`,
+    `February restarts at 0001 (${february[0]})`
+  );
+  check(findDuplicates([...january, ...february]).length === 0, 'no duplicates across periods');
+}
+
+async function cleanup() {
+  await prisma.documentSequenceCounter.deleteMany({ where: { branch: { startsWith: TEST_BRANCH } } });
+  await prisma.documentSequence.deleteMany({ where: { branch: { startsWith: TEST_BRANCH } } });
+}
+
+async function run() {
+  console.log(`🔢 Document sequence load test (series ${TEST_BRANCH})`);
+
+  try {
+    await testParallelAllocation();
+    await testRollbackReleasesNumbers();
+    await testMonthlyReset();
+  } catch (error) {
+    failures++;
+    console.error('\n❌ Test run failed:', error);
+  } finally {
+    await cleanup();
+    await prisma.$disconnect();
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} check(s) failed`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ All document sequence checks passed');
+}
+
+run();